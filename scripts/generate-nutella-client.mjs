@@ -0,0 +1,397 @@
+#!/usr/bin/env node
+// Generates the typed Nutella client sources from the bundled OpenAPI spec.
+//
+//   node scripts/generate-nutella-client.mjs
+//
+// Outputs (do not edit by hand, re-run this script after updating the spec):
+// - src/mastra/tools/api/generated/nutellaSchemas.ts    zod schemas + types for components/schemas
+// - src/mastra/tools/api/generated/nutellaOperations.ts operation descriptors, param/response types
+//                                                       and the NutellaOperations base class
+import { readFile, writeFile, mkdir } from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const apiDir = path.join(root, 'src', 'mastra', 'tools', 'api');
+const specPath = path.join(apiDir, 'spec', 'hs_open_api.json');
+const outDir = path.join(apiDir, 'generated');
+
+const HEADER = `// Generated by scripts/generate-nutella-client.mjs from spec/hs_open_api.json.
+// Do not edit by hand: update the spec and re-run \`npm run generate:nutella\`.
+`;
+
+const spec = JSON.parse(await readFile(specPath, 'utf8'));
+const schemas = spec.components?.schemas ?? {};
+
+// --- naming helpers ---
+
+function pascal(name) {
+  return String(name)
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map(part => part.charAt(0).toUpperCase() + part.slice(1))
+    .join('');
+}
+
+function camel(name) {
+  const p = pascal(name);
+  return p.charAt(0).toLowerCase() + p.slice(1);
+}
+
+const typeName = name => pascal(name);
+const schemaConst = name => `${camel(name)}Schema`;
+
+function refName(ref) {
+  return ref.split('/').pop();
+}
+
+// Single-quoted TS string literal, matching the repo's quote style
+function str(value) {
+  return `'${JSON.stringify(value).slice(1, -1).replace(/\\"/g, '"').replace(/'/g, "\\'")}'`;
+}
+
+function propKey(key) {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? key : str(key);
+}
+
+// operationId is derived from method + path since the spec does not declare any:
+// GET /users/{user}/properties -> getUsersByUserProperties
+function operationId(method, apiPath) {
+  const parts = apiPath
+    .split('/')
+    .filter(Boolean)
+    .map(seg => (seg.startsWith('{') ? `By${pascal(seg.slice(1, -1))}` : pascal(seg)));
+  return method.toLowerCase() + parts.join('');
+}
+
+function resolve(obj, section) {
+  if (obj && obj.$ref) return spec.components[section][refName(obj.$ref)];
+  return obj;
+}
+
+// --- JSON schema -> zod / TypeScript ---
+
+function nullableOf(schema) {
+  // `anyOf: [{ type: X }, { type: 'null' }]` is how the spec marks nullable params
+  const variants = schema.anyOf ?? schema.oneOf;
+  if (!Array.isArray(variants)) return null;
+  const nonNull = variants.filter(v => v.type !== 'null');
+  if (nonNull.length === 1 && nonNull.length !== variants.length) return nonNull[0];
+  return null;
+}
+
+function toZod(schema) {
+  if (!schema) return 'z.unknown()';
+  if (schema.$ref) return `z.lazy(() => ${schemaConst(refName(schema.$ref))})`;
+
+  const inner = nullableOf(schema);
+  if (inner) return `${toZod(inner)}.nullable()`;
+
+  let out;
+  if (schema.allOf) {
+    out = schema.allOf.map(toZod).reduce((acc, cur) => `z.intersection(${acc}, ${cur})`);
+  } else if (schema.oneOf || schema.anyOf) {
+    const variants = (schema.oneOf ?? schema.anyOf).map(toZod);
+    out = variants.length === 1 ? variants[0] : `z.union([${variants.join(', ')}])`;
+  } else if (schema.enum) {
+    const values = schema.enum.filter(v => v !== null);
+    if (values.every(v => typeof v === 'string')) {
+      out = values.length === 1 ? `z.literal(${str(values[0])})` : `z.enum([${values.map(v => str(v)).join(', ')}])`;
+    } else {
+      out = `z.union([${values.map(v => `z.literal(${str(v)})`).join(', ')}])`;
+    }
+    if (values.length !== schema.enum.length) out += '.nullable()';
+  } else {
+    switch (schema.type) {
+      case 'string':
+        out = 'z.string()';
+        break;
+      case 'integer':
+        out = 'z.number().int()';
+        break;
+      case 'number':
+        out = 'z.number()';
+        break;
+      case 'boolean':
+        out = 'z.boolean()';
+        break;
+      case 'null':
+        out = 'z.null()';
+        break;
+      case 'array':
+        out = `z.array(${toZod(schema.items)})`;
+        break;
+      case 'object':
+      case undefined: {
+        const props = schema.properties ?? {};
+        const keys = Object.keys(props);
+        if (keys.length === 0) {
+          out = schema.type === 'object' || schema.additionalProperties ? 'z.record(z.unknown())' : 'z.unknown()';
+          break;
+        }
+        const required = new Set(schema.required ?? []);
+        const fields = keys.map(k => {
+          const v = toZod(props[k]);
+          return `${propKey(k)}: ${required.has(k) ? v : `${v}.optional()`}`;
+        });
+        out = `z.object({ ${fields.join(', ')} }).passthrough()`;
+        break;
+      }
+      default:
+        out = 'z.unknown()';
+    }
+  }
+  if (schema.nullable) out += '.nullable()';
+  return out;
+}
+
+function toTs(schema) {
+  if (!schema) return 'unknown';
+  if (schema.$ref) return typeName(refName(schema.$ref));
+
+  const inner = nullableOf(schema);
+  if (inner) return `${toTs(inner)} | null`;
+
+  let out;
+  if (schema.allOf) {
+    out = schema.allOf.map(s => `(${toTs(s)})`).join(' & ');
+  } else if (schema.oneOf || schema.anyOf) {
+    out = (schema.oneOf ?? schema.anyOf).map(s => `(${toTs(s)})`).join(' | ');
+  } else if (schema.enum) {
+    out = schema.enum.map(v => str(v)).join(' | ');
+  } else {
+    switch (schema.type) {
+      case 'string':
+        out = 'string';
+        break;
+      case 'integer':
+      case 'number':
+        out = 'number';
+        break;
+      case 'boolean':
+        out = 'boolean';
+        break;
+      case 'null':
+        out = 'null';
+        break;
+      case 'array':
+        out = `Array<${toTs(schema.items)}>`;
+        break;
+      case 'object':
+      case undefined: {
+        const props = schema.properties ?? {};
+        const keys = Object.keys(props);
+        if (keys.length === 0) {
+          out = schema.type === 'object' || schema.additionalProperties ? 'Record<string, unknown>' : 'unknown';
+          break;
+        }
+        const required = new Set(schema.required ?? []);
+        const fields = keys.map(k => `${propKey(k)}${required.has(k) ? '' : '?'}: ${toTs(props[k])};`);
+        out = `{ ${fields.join(' ')} [key: string]: unknown }`;
+        break;
+      }
+      default:
+        out = 'unknown';
+    }
+  }
+  if (schema.nullable) out = `${out} | null`;
+  return out;
+}
+
+// --- schemas module ---
+
+const seenTypes = new Map();
+const schemaLines = [HEADER, "import { z } from 'zod';", ''];
+for (const [name, schema] of Object.entries(schemas)) {
+  const t = typeName(name);
+  if (seenTypes.has(t)) throw new Error(`Schema name collision: ${name} and ${seenTypes.get(t)} both map to ${t}`);
+  seenTypes.set(t, name);
+
+  const doc = schema.description ? `/** ${String(schema.description).trim().split('\n')[0]} */\n` : '';
+  schemaLines.push(`${doc}export type ${t} = ${toTs(schema)};`);
+  schemaLines.push(`export const ${schemaConst(name)}: z.ZodType<${t}, z.ZodTypeDef, unknown> = ${toZod(schema)};`);
+  schemaLines.push('');
+}
+
+schemaLines.push('/** Lookup of every component schema by its name in the spec. */');
+schemaLines.push('export const nutellaSchemas = {');
+for (const name of Object.keys(schemas)) schemaLines.push(`  ${str(name)}: ${schemaConst(name)},`);
+schemaLines.push('} as const;');
+schemaLines.push('');
+schemaLines.push('export type NutellaSchemaName = keyof typeof nutellaSchemas;');
+schemaLines.push('');
+
+// --- operations module ---
+
+const METHODS = ['get', 'post', 'put', 'patch', 'delete'];
+const operations = [];
+for (const [apiPath, item] of Object.entries(spec.paths ?? {})) {
+  const shared = item.parameters ?? [];
+  for (const method of METHODS) {
+    const op = item[method];
+    if (!op) continue;
+    const id = operationId(method, apiPath);
+    if (operations.some(o => o.id === id)) throw new Error(`Duplicate operationId ${id}`);
+
+    const params = [...shared, ...(op.parameters ?? [])].map(p => resolve(p, 'parameters'));
+    const names = new Set();
+    for (const p of params) {
+      if (names.has(p.name) || p.name === 'body') throw new Error(`Parameter name collision in ${id}: ${p.name}`);
+      names.add(p.name);
+    }
+
+    let requestBody;
+    if (op.requestBody) {
+      const content = op.requestBody.content ?? {};
+      const contentType = content['application/json'] ? 'application/json' : Object.keys(content)[0];
+      const bodySchema = content[contentType]?.schema;
+      requestBody = {
+        contentType,
+        required: Boolean(op.requestBody.required),
+        schema: bodySchema?.$ref ? refName(bodySchema.$ref) : undefined,
+        tsType: contentType === 'application/json' ? toTs(bodySchema) : 'FormData',
+        description: op.requestBody.description,
+      };
+    }
+
+    const success = Object.entries(op.responses ?? {})
+      .filter(([code]) => code.startsWith('2'))
+      .map(([, r]) => resolve(r, 'responses')?.content?.['application/json']?.schema)
+      .filter(Boolean);
+    const responseType = success.length ? [...new Set(success.map(toTs))].join(' | ') : 'unknown';
+
+    operations.push({ id, method: method.toUpperCase(), path: apiPath, tag: op.tags?.[0] ?? 'General', summary: op.summary ?? id, params, requestBody, responseType });
+  }
+}
+
+// Schema type names are emitted into the operations module as `schemas.X`
+const qualify = ts => ts.replace(/\b([A-Z][A-Za-z0-9]*)\b/g, m => (seenTypes.has(m) ? `schemas.${m}` : m));
+
+function paramType(p) {
+  const schema = p.schema ?? {};
+  const inner = nullableOf(schema) ?? schema;
+  switch (inner.type) {
+    case 'integer':
+      return 'integer';
+    case 'number':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    default:
+      return 'string';
+  }
+}
+
+const opLines = [
+  HEADER,
+  "import type * as schemas from './nutellaSchemas';",
+  '',
+  "export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';",
+  '',
+  'export interface NutellaParameter {',
+  '  name: string;',
+  "  in: 'path' | 'query' | 'header';",
+  '  required: boolean;',
+  "  type: 'string' | 'integer' | 'number' | 'boolean';",
+  '  description?: string;',
+  '}',
+  '',
+  'export interface NutellaRequestBody {',
+  '  contentType: string;',
+  '  required: boolean;',
+  '  /** Name of the component schema describing the body, if the spec references one. */',
+  '  schema?: schemas.NutellaSchemaName;',
+  '  description?: string;',
+  '}',
+  '',
+  'export interface NutellaOperation {',
+  '  id: string;',
+  '  method: HttpMethod;',
+  '  path: string;',
+  '  tag: string;',
+  '  summary: string;',
+  '  parameters: readonly NutellaParameter[];',
+  '  requestBody?: NutellaRequestBody;',
+  '}',
+  '',
+];
+
+for (const op of operations) {
+  const fields = op.params.map(p => {
+    const doc = p.description ? `  /** ${String(p.description).trim().split('\n')[0].replace(/\*\//g, '*\\/')} */\n` : '';
+    const nullable = nullableOf(p.schema ?? {}) ? ' | null' : '';
+    const ts = { integer: 'number', number: 'number', boolean: 'boolean', string: 'string' }[paramType(p)];
+    return `${doc}  ${propKey(p.name)}${p.required ? '' : '?'}: ${ts}${nullable};`;
+  });
+  if (op.requestBody) {
+    fields.push(`  body${op.requestBody.required ? '' : '?'}: ${qualify(op.requestBody.tsType)};`);
+  }
+  opLines.push(`/** Parameters for ${op.method} ${op.path} */`);
+  opLines.push(fields.length ? `export interface ${pascal(op.id)}Params {\n${fields.join('\n')}\n}` : `export interface ${pascal(op.id)}Params {}`);
+  opLines.push('');
+}
+
+opLines.push('export const nutellaOperations = {');
+for (const op of operations) {
+  const params = op.params.map(p => {
+    const desc = p.description ? `, description: ${str(String(p.description).trim())}` : '';
+    return `      { name: ${str(p.name)}, in: ${str(p.in)}, required: ${Boolean(p.required)}, type: ${str(paramType(p))}${desc} },`;
+  });
+  opLines.push(`  ${op.id}: {`);
+  opLines.push(`    id: ${str(op.id)},`);
+  opLines.push(`    method: ${str(op.method)},`);
+  opLines.push(`    path: ${str(op.path)},`);
+  opLines.push(`    tag: ${str(op.tag)},`);
+  opLines.push(`    summary: ${str(op.summary.trim())},`);
+  opLines.push(params.length ? `    parameters: [\n${params.join('\n')}\n    ],` : '    parameters: [],');
+  if (op.requestBody) {
+    const rb = op.requestBody;
+    const parts = [`contentType: ${str(rb.contentType)}`, `required: ${rb.required}`];
+    if (rb.schema) parts.push(`schema: ${str(rb.schema)}`);
+    if (rb.description) parts.push(`description: ${str(String(rb.description).trim())}`);
+    opLines.push(`    requestBody: { ${parts.join(', ')} },`);
+  }
+  opLines.push('  },');
+}
+opLines.push('} as const satisfies Record<string, NutellaOperation>;');
+opLines.push('');
+opLines.push('export type NutellaOperationId = keyof typeof nutellaOperations;');
+opLines.push('');
+
+opLines.push('export interface NutellaOperationParams {');
+for (const op of operations) opLines.push(`  ${op.id}: ${pascal(op.id)}Params;`);
+opLines.push('}');
+opLines.push('');
+opLines.push('export interface NutellaOperationResponses {');
+for (const op of operations) opLines.push(`  ${op.id}: ${qualify(op.responseType)};`);
+opLines.push('}');
+opLines.push('');
+
+opLines.push('/**');
+opLines.push(' * One typed method per spec operation. Subclasses provide the transport via `send`,');
+opLines.push(' * which receives the operation descriptor and the flat params object (path, query and');
+opLines.push(' * header params by their spec name, plus `body`).');
+opLines.push(' */');
+opLines.push('export abstract class NutellaOperations {');
+opLines.push('  protected abstract send<T>(operation: NutellaOperation, params: object): Promise<T>;');
+opLines.push('');
+opLines.push('  /** Invoke any operation by its generated id. */');
+opLines.push('  public call<K extends NutellaOperationId>(id: K, params: NutellaOperationParams[K]): Promise<NutellaOperationResponses[K]> {');
+opLines.push('    return this.send(nutellaOperations[id], params);');
+opLines.push('  }');
+for (const op of operations) {
+  const allOptional = op.params.every(p => !p.required) && !(op.requestBody && op.requestBody.required);
+  const sig = `params: ${pascal(op.id)}Params${allOptional ? ' = {}' : ''}`;
+  opLines.push('');
+  opLines.push(`  /** ${op.summary.trim().replace(/\*\//g, '*\\/')} (${op.method} ${op.path}) */`);
+  opLines.push(`  public ${op.id}(${sig}): Promise<${qualify(op.responseType)}> {`);
+  opLines.push(`    return this.send(nutellaOperations.${op.id}, params);`);
+  opLines.push('  }');
+}
+opLines.push('}');
+opLines.push('');
+
+await mkdir(outDir, { recursive: true });
+await writeFile(path.join(outDir, 'nutellaSchemas.ts'), schemaLines.join('\n'), 'utf8');
+await writeFile(path.join(outDir, 'nutellaOperations.ts'), opLines.join('\n'), 'utf8');
+console.log(`Generated ${Object.keys(schemas).length} schemas and ${operations.length} operations into ${path.relative(root, outDir)}`);
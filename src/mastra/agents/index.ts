@@ -1,12 +1,87 @@
-import { openai } from '@ai-sdk/openai';
 import { Agent } from '@mastra/core/agent';
-import { usersTool, domainsTool, aiTool } from '../tools';
+import { RuntimeContext } from '@mastra/core/runtime-context';
+import { agentModel } from '../tools/api/aiProviders';
+import { defaultConversationMemory, describeThread, THREAD_CONTEXT_KEY } from '../tools/api/conversationMemory';
+import { nutellaClientFor } from '../tools/api/profiles';
+import { userChangeOperations } from '../workflows/userLifecycle';
+import { userImportOperations } from '../workflows/userImport';
+import { groupChangeOperations } from '../workflows/groupChanges';
+import { allContentChangeOperations } from '../workflows/contentChanges';
+import { privacyRequestOperations } from '../workflows/privacyRequests';
+import { usersTool, domainsTool, aiTool, queryUsersTool, auditEventsTool, requestStatusTool, exportDataTool, groupsTool, usersInNoGroupTool, planUserChangesTool, confirmUserChangesTool, planUserImportTool, confirmUserImportTool, planGroupChangesTool, confirmGroupChangesTool, spotsTool, spotItemsTool, listsTool, planContentChangesTool, confirmContentChangesTool, searchTool, privacyRequestsTool, planPrivacyRequestTool, confirmPrivacyRequestTool, createOperationTools, isWriteAllowed, operationToolsOptionsFromEnv, rememberTurnTool } from '../tools';
+import type { OperationToolsOptions } from '../tools';
+import type { NutellaOperationId } from '../tools/api/generated/nutellaOperations';
+
+// Writes covered by a plan/confirm flow; exposing them as raw tools would let the agent skip the confirmation
+const confirmedOperations = [...userChangeOperations, ...userImportOperations, ...groupChangeOperations, ...allContentChangeOperations, ...privacyRequestOperations];
+
+// One tool per Nutella API operation: GETs by default, writes only when enabled for this deployment
+const toolOptions = operationToolsOptionsFromEnv();
+const operationTools = createOperationTools({ ...toolOptions, exclude: confirmedOperations });
+
+/**
+ * The plan/confirm tool pairs whose writes this deployment allows: user, group, content and privacy writes
+ * always go through a dry-run plan and an explicit confirmation. The import needs both of its writes.
+ */
+export function confirmedChangeTools(options: OperationToolsOptions) {
+  const anyAllowed = (operations: readonly NutellaOperationId[]) => operations.some(operation => isWriteAllowed(operation, options));
+  return {
+    ...(anyAllowed(userChangeOperations) ? { planUserChangesTool, confirmUserChangesTool } : {}),
+    ...(userImportOperations.every(operation => isWriteAllowed(operation, options)) ? { planUserImportTool, confirmUserImportTool } : {}),
+    ...(anyAllowed(groupChangeOperations) ? { planGroupChangesTool, confirmGroupChangesTool } : {}),
+    ...(anyAllowed(allContentChangeOperations) ? { planContentChangesTool, confirmContentChangesTool } : {}),
+    ...(anyAllowed(privacyRequestOperations) ? { planPrivacyRequestTool, confirmPrivacyRequestTool } : {}),
+  };
+}
+
+const instructions = `
+      Agent that can fetch data and solve queries using Nutella API & Playbooks.
+      Besides the users/domains tools, each Nutella API operation (users, items, groups, spots,
+      lists, domain settings, privacy, audit events, ...) is available as a tool named after its operation.
+      For counting or filtering questions about users ("how many", "which users"), use queryUsersTool and
+      quote the numbers it computed instead of counting yourself.
+      For audit questions ("who deleted this spot", "failed logins from this IP yesterday"), use auditEventsTool
+      with a timeRange in plain words; it pages through every matching event and returns a timeline.
+      When someone wants a list they can load elsewhere ("export", "as CSV", "spreadsheet"), use exportDataTool and
+      give them the file path rather than pasting the rows.
+      To add, invite, update, delete, deactivate or reactivate users, call planUserChangesTool first, show the
+      plan to the user, and call confirmUserChangesTool with confirmed: true only after they explicitly approve it.
+      To load users or user properties from a CSV or JSON file, call planUserImportTool with the file path, show the
+      plan and any invalid rows, and call confirmUserImportTool only after explicit approval.
+      For groups use groupsTool (a group with its members and properties) and usersInNoGroupTool; group writes
+      (members, including "everyone with property X", settings, visibility, properties, permissions) go through
+      planGroupChangesTool and confirmGroupChangesTool the same way.
+      For content use spotsTool, spotItemsTool (with expiration dates) and listsTool; archiving items, setting
+      expiration dates, adding users to a spot and managing local or global lists go through
+      planContentChangesTool and confirmContentChangesTool the same way.
+      For what the content says ("how do we position X", "find the pricing deck"), use searchTool and answer only from
+      its results, citing them as [n] with their links; set instantAnswer to compare with Highspot's instant answer.
+      For GDPR data subject requests use privacyRequestsTool to see existing requests and their status; to file an
+      access or deletion request, ask who is requesting it, call planPrivacyRequestTool with requestedBy, show the
+      subjects and the warning, and call confirmPrivacyRequestTool only after explicit approval. Deletions are permanent.
+      Bulk changes may run asynchronously and return a request id; use requestStatusTool to report how they are doing.
+      In a conversation thread, questions like "now only the ones in EMEA" refine the previous answer: reuse its
+      dataset, filters and query plan, narrowed as asked. After answering, call rememberTurnTool with the question, the
+      dataset, the filters or plan you used and the ids of the records the answer is about.
+`;
+
+// In a conversation thread the earlier questions come along, so follow-ups can refine them
+async function threadInstructions({ runtimeContext }: { runtimeContext: RuntimeContext }) {
+  const threadId = runtimeContext?.get(THREAD_CONTEXT_KEY);
+  if (!threadId) return instructions;
+  try {
+    const thread = await defaultConversationMemory().get(String(threadId), nutellaClientFor({ runtimeContext }).owner);
+    return thread?.turns.length ? `${instructions}\nEarlier in this conversation:\n\n${describeThread(thread)}\n` : instructions;
+  } catch {
+    // No usable connection profile: the tools will say so
+    return instructions;
+  }
+}
 
 export const adminAgent = new Agent({
   name: 'Admin Agent',
-  instructions: `
-      Agent that can fetch data and solve queries using Nutella API & Playbooks.
-`,
-  model: openai('gpt-4o'),
-  tools: { usersTool, domainsTool, aiTool },
+  instructions: threadInstructions,
+  // Same provider and model as the workflow, read when the agent runs
+  model: () => agentModel(),
+  tools: { usersTool, domainsTool, aiTool, queryUsersTool, auditEventsTool, requestStatusTool, exportDataTool, groupsTool, usersInNoGroupTool, spotsTool, spotItemsTool, listsTool, searchTool, privacyRequestsTool, rememberTurnTool, ...confirmedChangeTools(toolOptions), ...operationTools },
 });
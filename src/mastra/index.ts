@@ -1,18 +1,31 @@
 import { Mastra } from '@mastra/core/mastra';
-import { PinoLogger } from '@mastra/loggers';
+import { InMemoryStore } from '@mastra/core/storage';
+import { CloudExporter, DefaultExporter, SamplingStrategyType, SensitiveDataFilter } from '@mastra/core/ai-tracing';
 import { adminWorkflow } from './workflows';
+import { userLifecycleWorkflow } from './workflows/userLifecycle';
+import { userImportWorkflow } from './workflows/userImport';
+import { groupChangesWorkflow } from './workflows/groupChanges';
+import { contentChangesWorkflow } from './workflows/contentChanges';
+import { privacyRequestsWorkflow } from './workflows/privacyRequests';
 import { adminAgent } from './agents';
+import { logger } from './logger';
+import { SENSITIVE_FIELDS } from './tools/api/redact';
 
 export const mastra = new Mastra({
-  workflows: { adminWorkflow },
+  workflows: { adminWorkflow, userLifecycleWorkflow, userImportWorkflow, groupChangesWorkflow, contentChangesWorkflow, privacyRequestsWorkflow },
   agents: { adminAgent },
-  logger: new PinoLogger({
-    name: 'Mastra',
-    level: 'info',
-  }),
+  logger,
+  // Keeps suspended runs (e.g. user changes waiting for confirmation) so they can be resumed
+  storage: new InMemoryStore(),
   observability: {
-    default: {
-      enabled: true,
+    // The stock default config, with a filter that also knows the `authToken` and `cookies` our tools take
+    configs: {
+      default: {
+        serviceName: 'mastra',
+        sampling: { type: SamplingStrategyType.ALWAYS },
+        exporters: [new DefaultExporter(), new CloudExporter()],
+        processors: [new SensitiveDataFilter({ sensitiveFields: SENSITIVE_FIELDS })],
+      },
     },
   },
 });
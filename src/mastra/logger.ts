@@ -0,0 +1,13 @@
+import { PinoLogger } from '@mastra/loggers';
+import type { LogLevel } from '@mastra/core/logger';
+import { redactSecrets } from './tools/api/redact';
+
+// Shared with code that runs outside a Mastra execution context (e.g. NutellaClient), so its logs
+// land in the same stream as the Mastra instance's.
+export const logger = new PinoLogger({
+  name: 'Mastra',
+  // e.g. `LOG_LEVEL=silent` keeps test output readable
+  level: (process.env.LOG_LEVEL as LogLevel | undefined) ?? 'info',
+  // Workflow inputs and tool arguments may carry tokens or cookies
+  formatters: { log: object => redactSecrets(object) },
+});
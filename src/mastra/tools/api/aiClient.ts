@@ -1,82 +1,231 @@
-// no external fs helpers required for simple chat completions
+import { AIProvider, aiModelConfigFromEnv, azureProxyProvider, providerFromConfig } from './aiProviders';
+import { errorFromResponse, UpstreamUnavailableError } from './errors';
+import { parseJsonReply } from './util/jsonReply';
+
+/** A function call the model asked for; `arguments` is the JSON text it wrote. */
+export interface ChatToolCall {
+  id: string;
+  name: string;
+  arguments: string;
+}
 
 export interface ChatMessage {
-  role: 'system' | 'user' | 'assistant' | string;
+  role: 'system' | 'user' | 'assistant' | 'tool' | string;
   content: string;
+  /** Assistant messages: the calls the model made, to send back with their results. */
+  toolCalls?: ChatToolCall[];
+  /** Tool messages: the call this is the result of. */
+  toolCallId?: string;
+}
+
+/** A function the model may call; `parameters` is a JSON schema of its arguments. */
+export interface ChatTool {
+  name: string;
+  description?: string;
+  parameters: Record<string, unknown>;
 }
 
 export interface ChatOptions {
   temperature?: number;
   n?: number;
   stream?: boolean;
+  /** Called with each piece of the answer as it arrives; implies `stream`. */
+  onToken?: (text: string) => void | Promise<void>;
   model?: string;
   apiVersion?: string;
+  /** Abort the request after this many ms. */
+  timeoutMs?: number;
+  tools?: ChatTool[];
+  /** Let the model decide (`auto`, the default), forbid or require calls, or force one function. */
+  toolChoice?: 'auto' | 'none' | 'required' | { name: string };
+  /** JSON mode: the model must answer with a JSON object, returned parsed as `json`. */
+  json?: boolean;
 }
 
 export interface ChatCompletionResult {
   raw: any;
   assistant?: string;
+  toolCalls?: ChatToolCall[];
+  /** JSON mode: the answer parsed, when it is JSON. */
+  json?: unknown;
+}
+
+function toWireMessage(m: ChatMessage) {
+  if (m.role === 'tool') return { role: m.role, content: m.content, tool_call_id: m.toolCallId };
+  if (m.toolCalls?.length) {
+    return {
+      role: m.role,
+      content: m.content || null,
+      tool_calls: m.toolCalls.map(call => ({ id: call.id, type: 'function', function: { name: call.name, arguments: call.arguments } })),
+    };
+  }
+  return { role: m.role, content: m.content };
+}
+
+function toolCallsOf(message: any): ChatToolCall[] | undefined {
+  const calls = message?.tool_calls;
+  if (!Array.isArray(calls) || !calls.length) return undefined;
+  return calls.map((call: any) => ({ id: String(call.id ?? ''), name: String(call.function?.name ?? ''), arguments: String(call.function?.arguments ?? '') }));
+}
+
+/** Data payloads of a server-sent event stream, up to `[DONE]`. */
+async function* sseData(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const decoder = new TextDecoder();
+  let buffer = '';
+  for await (const chunk of body as unknown as AsyncIterable<Uint8Array>) {
+    buffer += decoder.decode(chunk, { stream: true });
+    let boundary: RegExpExecArray | null;
+    while ((boundary = /\r?\n\r?\n/.exec(buffer))) {
+      const event = buffer.slice(0, boundary.index);
+      buffer = buffer.slice(boundary.index + boundary[0].length);
+      const data = event
+        .split(/\r?\n/)
+        .filter(line => line.startsWith('data:'))
+        .map(line => line.slice(5).replace(/^ /, ''))
+        .join('\n');
+      if (data === '[DONE]') return;
+      if (data) yield data;
+    }
+  }
 }
 
 export class AIClient {
-  apiUrl: string;
-  token?: string;
+  provider: AIProvider;
 
   /**
    * Create an AI client.
-   * @param apiUrl Full URL to the chat/completions endpoint (including querystring if required). If not provided, reads process.env.AI_PROXY_URL.
-   * @param token Header token to send as `token`. If not provided, reads process.env.AI_PROXY_TOKEN.
+   * @param provider Where requests go: a provider, or the Azure proxy's chat/completions URL (with `token`). If not provided, the shared model configuration from the environment (see `aiModelConfigFromEnv`).
+   * @param token Header token for the Azure proxy URL. Falls back to process.env.AI_PROXY_TOKEN.
    */
-  constructor(apiUrl?: string, token?: string) {
-    this.apiUrl = apiUrl || process.env.AI_PROXY_URL ||
-      'https://ai-services.k8s.latest0-su0.hspt.io/azure-proxy/openai/deployments/gpt-4o-mini-128k-2024-07-18/chat/completions?api-version=2024-02-15-preview';
-    this.token = token || process.env.AI_PROXY_TOKEN || 'local-test';
+  constructor(provider?: AIProvider | string, token?: string) {
+    if (typeof provider === 'object') this.provider = provider;
+    else if (provider || token) {
+      this.provider = azureProxyProvider({ url: provider || process.env.AI_PROXY_URL, token: token || process.env.AI_PROXY_TOKEN, model: process.env.OPENAI_MODEL });
+    } else this.provider = providerFromConfig(aiModelConfigFromEnv());
   }
 
   /**
-   * Create a chat completion by sending messages to the proxy endpoint.
-   * Returns both the parsed assistant text (if available) and the raw payload.
+   * Create a chat completion by sending messages to the provider.
+   * Returns the parsed assistant text and tool calls (if any) and the raw payload. When streaming, the
+   * raw payload is assembled from the chunks in the shape of a non-streamed completion.
    */
   async createChatCompletion(messages: ChatMessage[], opts: ChatOptions = {}): Promise<ChatCompletionResult> {
-    const { temperature = 0.1, n = 1, stream = false, model, apiVersion } = opts;
-    
-
-    // If user passed apiVersion, ensure it's appended to the URL query string
-    let url = this.apiUrl;
-    if (apiVersion && !url.includes('api-version=')) {
-      url += (url.includes('?') ? '&' : '?') + `api-version=${encodeURIComponent(apiVersion)}`;
-    }
+    const { temperature = 0.1, n = 1, onToken, model = this.provider.model, apiVersion, timeoutMs, tools, toolChoice, json } = opts;
+    const stream = Boolean(opts.stream || onToken);
 
     const body: any = {
-      messages: messages.map(m => ({ role: m.role, content: m.content })),
+      messages: messages.map(toWireMessage),
       n,
       stream,
       temperature,
     };
 
     if (model) body.model = model;
+    if (tools?.length) {
+      body.tools = tools.map(({ name, description, parameters }) => ({ type: 'function', function: { name, description, parameters } }));
+      if (toolChoice) body.tool_choice = typeof toolChoice === 'string' ? toolChoice : { type: 'function', function: { name: toolChoice.name } };
+    }
+    if (json) body.response_format = { type: 'json_object' };
 
-    const res = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        token: String(this.token ?? ''),
-      },
-      body: JSON.stringify(body),
-    });
+    let res: Response;
+    try {
+      res = await fetch(this.provider.url({ apiVersion }), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...this.provider.headers(),
+        },
+        body: JSON.stringify(body),
+        signal: timeoutMs ? AbortSignal.timeout(timeoutMs) : undefined,
+      });
+    } catch (err: any) {
+      throw new UpstreamUnavailableError(`AI service unreachable: ${String(err?.cause?.code ?? err?.cause?.message ?? err?.message ?? err)}`, { service: 'ai', cause: err });
+    }
 
-    const raw = await res.json().catch(async () => {
-      // If response isn't JSON, return as text
+    if (!res.ok) {
       const text = await res.text();
-      return { text };
-    });
+      throw errorFromResponse(res.status, text, { service: 'ai', headers: { 'retry-after': res.headers.get('retry-after') ?? undefined } });
+    }
+
+    // Some proxies answer a streamed request with a whole completion
+    const result = stream && res.body && res.headers.get('content-type')?.includes('text/event-stream') ? await this.readStream(res.body, onToken) : await this.readJson(res, onToken);
+    if (json && result.assistant !== undefined) {
+      try {
+        result.json = parseJsonReply(result.assistant);
+      } catch {
+        // Callers see the text and decide
+      }
+    }
+    return result;
+  }
+
+  private async readJson(res: Response, onToken?: ChatOptions['onToken']): Promise<ChatCompletionResult> {
+    // Read as text once: the body can only be consumed a single time
+    const text = await res.text();
+    let raw: any;
+    try {
+      raw = JSON.parse(text);
+    } catch {
+      // If response isn't JSON, return as text
+      raw = { text };
+    }
 
     // Try to extract assistant content from common shapes
     const assistant =
       raw?.choices?.[0]?.message?.content ?? raw?.choices?.[0]?.text ?? raw?.text ?? undefined;
+    if (onToken && assistant) await onToken(assistant);
 
-    return { raw, assistant };
+    return { raw, assistant, toolCalls: toolCallsOf(raw?.choices?.[0]?.message) };
   }
 
-  // (streaming JSON summarization removed — not used by current workflows)
+  private async readStream(body: ReadableStream<Uint8Array>, onToken?: ChatOptions['onToken']): Promise<ChatCompletionResult> {
+    let content = '';
+    let sawContent = false;
+    let finishReason: string | undefined;
+    let last: any = {};
+    // Tool call arguments arrive in fragments, keyed by the call's index
+    const calls: { id?: string; type?: string; function: { name: string; arguments: string } }[] = [];
+
+    try {
+      for await (const data of sseData(body)) {
+        let chunk: any;
+        try {
+          chunk = JSON.parse(data);
+        } catch {
+          continue;
+        }
+        last = chunk;
+        const choice = chunk?.choices?.[0];
+        if (!choice) continue;
+        finishReason = choice.finish_reason ?? finishReason;
+        const delta = choice.delta ?? {};
+        if (typeof delta.content === 'string' && delta.content) {
+          sawContent = true;
+          content += delta.content;
+          if (onToken) await onToken(delta.content);
+        }
+        for (const part of delta.tool_calls ?? []) {
+          const call = (calls[part.index ?? 0] ??= { function: { name: '', arguments: '' } });
+          if (part.id) call.id = part.id;
+          if (part.type) call.type = part.type;
+          if (part.function?.name) call.function.name += part.function.name;
+          if (part.function?.arguments) call.function.arguments += part.function.arguments;
+        }
+      }
+    } catch (err: any) {
+      throw new UpstreamUnavailableError(`AI service stream broke off: ${String(err?.cause?.code ?? err?.message ?? err)}`, { service: 'ai', cause: err });
+    }
+
+    const message: any = { role: 'assistant', content: sawContent ? content : null };
+    const toolCalls = calls.filter(Boolean).map(call => ({ ...call, type: call.type ?? 'function' }));
+    if (toolCalls.length) message.tool_calls = toolCalls;
+    const raw = {
+      id: last.id,
+      object: 'chat.completion',
+      model: last.model,
+      choices: [{ index: 0, finish_reason: finishReason, message }],
+      usage: last.usage,
+    };
+    return { raw, assistant: sawContent ? content : undefined, toolCalls: toolCallsOf(message) };
+  }
 }
@@ -0,0 +1,127 @@
+import { createOpenAI } from '@ai-sdk/openai';
+import { ValidationError } from './errors';
+
+export type AIProviderName = 'azure-proxy' | 'openai' | 'local';
+
+/** Where chat completion requests go and how they authenticate. */
+export interface AIProvider {
+  name: AIProviderName;
+  /** Model sent with every request unless the caller picks one. */
+  model?: string;
+  /** Full chat completions URL. */
+  url(options?: { apiVersion?: string }): string;
+  headers(): Record<string, string>;
+}
+
+/** The model configuration the workflow's AIClient and the agent share. */
+export type AIModelConfig = {
+  provider: AIProviderName;
+  model?: string;
+  /** Azure proxy: the full chat completions URL. OpenAI-compatible providers: the API base URL. */
+  url?: string;
+  /** Azure proxy `token` header, or the Bearer key of OpenAI-compatible providers. */
+  apiKey?: string;
+};
+
+export const DEFAULT_AZURE_PROXY_URL =
+  'https://ai-services.k8s.latest0-su0.hspt.io/azure-proxy/openai/deployments/gpt-4o-mini-128k-2024-07-18/chat/completions?api-version=2024-02-15-preview';
+export const DEFAULT_OPENAI_BASE_URL = 'https://api.openai.com/v1';
+// Ollama's OpenAI-compatible endpoint; LM Studio and llama.cpp servers only differ in the port
+export const DEFAULT_LOCAL_BASE_URL = 'http://127.0.0.1:11434/v1';
+
+const withoutTrailingSlash = (url: string) => url.replace(/\/+$/, '');
+
+/** The Azure proxy: the deployment in the URL picks the model and a `token` header authenticates. */
+export function azureProxyProvider(options: { url?: string; token?: string; model?: string } = {}): AIProvider {
+  const base = options.url || DEFAULT_AZURE_PROXY_URL;
+  return {
+    name: 'azure-proxy',
+    model: options.model,
+    url: ({ apiVersion } = {}) =>
+      apiVersion && !base.includes('api-version=') ? `${base}${base.includes('?') ? '&' : '?'}api-version=${encodeURIComponent(apiVersion)}` : base,
+    headers: () => ({ token: String(options.token ?? 'local-test') }),
+  };
+}
+
+/** OpenAI, or any server speaking its API, authenticated with a Bearer key. */
+export function openAICompatibleProvider(options: { baseUrl?: string; apiKey?: string; model?: string; name?: AIProviderName } = {}): AIProvider {
+  const base = withoutTrailingSlash(options.baseUrl || DEFAULT_OPENAI_BASE_URL);
+  return {
+    name: options.name ?? 'openai',
+    model: options.model,
+    url: () => `${base}/chat/completions`,
+    headers: (): Record<string, string> => (options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {}),
+  };
+}
+
+/** A model served on this machine (Ollama, LM Studio, llama.cpp); a key is usually not needed. */
+export function localProvider(options: { baseUrl?: string; apiKey?: string; model?: string } = {}): AIProvider {
+  return openAICompatibleProvider({ ...options, baseUrl: options.baseUrl || DEFAULT_LOCAL_BASE_URL, name: 'local' });
+}
+
+export function providerFromConfig(config: AIModelConfig): AIProvider {
+  switch (config.provider) {
+    case 'openai':
+      return openAICompatibleProvider({ baseUrl: config.url, apiKey: config.apiKey, model: config.model });
+    case 'local':
+      return localProvider({ baseUrl: config.url, apiKey: config.apiKey, model: config.model });
+    default:
+      return azureProxyProvider({ url: config.url, token: config.apiKey, model: config.model });
+  }
+}
+
+/**
+ * Read the model configuration from `AI_PROVIDER` (`azure-proxy` by default, `openai` or `local`),
+ * `OPENAI_MODEL`, and the provider's URL and key: `AI_PROXY_URL`/`AI_PROXY_TOKEN` for the proxy,
+ * `AI_BASE_URL`/`OPENAI_API_KEY` for the others.
+ */
+export function aiModelConfigFromEnv(env: NodeJS.ProcessEnv = process.env): AIModelConfig {
+  const provider = (env.AI_PROVIDER ?? 'azure-proxy') as AIProviderName;
+  if (!['azure-proxy', 'openai', 'local'].includes(provider)) {
+    throw new ValidationError(`AI_PROVIDER must be azure-proxy, openai or local, not "${provider}"`, { service: 'ai' });
+  }
+  if (provider === 'azure-proxy') return { provider, model: env.OPENAI_MODEL, url: env.AI_PROXY_URL, apiKey: env.AI_PROXY_TOKEN };
+  return {
+    provider,
+    model: env.OPENAI_MODEL ?? (provider === 'openai' ? 'gpt-4o' : undefined),
+    url: env.AI_BASE_URL,
+    apiKey: env.OPENAI_API_KEY,
+  };
+}
+
+/** The proxy ignores the model in the body; name it after the deployment so traces say what answered. */
+function deploymentOf(url: string): string | undefined {
+  return url.match(/\/deployments\/([^/?]+)/)?.[1];
+}
+
+/**
+ * The agent's model on the same provider the workflow uses, through the AI SDK's OpenAI provider.
+ * The proxy's URL is not an OpenAI base URL, so its requests are redirected to it as they go out.
+ */
+export function agentModel(config: AIModelConfig = aiModelConfigFromEnv()) {
+  const provider = providerFromConfig(config);
+  if (provider.name !== 'azure-proxy') {
+    const openai = createOpenAI({
+      name: provider.name,
+      baseURL: provider.url().replace(/\/chat\/completions$/, ''),
+      // The SDK insists on a key; local servers accept any
+      apiKey: config.apiKey ?? 'local',
+      compatibility: provider.name === 'openai' ? 'strict' : 'compatible',
+    });
+    return openai.chat(config.model ?? 'local-model');
+  }
+
+  const url = provider.url();
+  const openai = createOpenAI({
+    name: 'azure-proxy',
+    apiKey: 'unused',
+    compatibility: 'compatible',
+    fetch: (_input, init) => {
+      const headers = new Headers(init?.headers);
+      headers.delete('authorization');
+      for (const [name, value] of Object.entries(provider.headers())) headers.set(name, value);
+      return fetch(url, { ...init, headers });
+    },
+  });
+  return openai.chat(config.model ?? deploymentOf(url) ?? 'gpt-4o-mini');
+}
@@ -0,0 +1,135 @@
+import { createHash } from 'crypto';
+import path from 'path';
+import type { ApiErrorInfo } from './errors';
+import { FileWrites, readJsonFile } from './jsonFile';
+
+/** `pending` while the API is still executing; `ok` once the result can be fetched. Anything else is reported as is. */
+export type RequestStatus = 'pending' | 'ok' | 'failed' | (string & {});
+
+/** An asynchronous Highspot request (`/requests/{id}`) submitted by this project. */
+export type TrackedRequest = {
+  id: string;
+  host: string;
+  /** Operation that returned the request, e.g. `postUsers`. */
+  operationId: string;
+  /** What the request does, for people asking about "my bulk job". */
+  label?: string;
+  /** Hash of the submitting credential, so callers only see their own requests. */
+  owner: string;
+  status: RequestStatus;
+  submittedAt: number;
+  lastCheckedAt?: number;
+  completedAt?: number;
+  /** Body of `/requests/{id}/result` once the request completed. */
+  result?: unknown;
+  error?: ApiErrorInfo;
+};
+
+export type WaitOptions = {
+  /** Give up (leaving the request tracked as pending) after this long. Default 2 minutes. */
+  timeoutMs?: number;
+  /** First delay between polls; doubled after every poll. Default 1s. */
+  initialDelayMs?: number;
+  /** Upper bound for a single delay. Default 15s. */
+  maxDelayMs?: number;
+};
+
+export const DEFAULT_WAIT_OPTIONS: Required<WaitOptions> = {
+  timeoutMs: 2 * 60 * 1000,
+  initialDelayMs: 1000,
+  maxDelayMs: 15_000,
+};
+
+// Finished requests are kept this long so their outcome can still be looked up
+const KEEP_COMPLETED_MS = 1000 * 60 * 60 * 24 * 7;
+
+export function credentialOwner(credential?: string) {
+  return credential ? createHash('sha256').update(credential).digest('hex').slice(0, 16) : 'anonymous';
+}
+
+export function isFinished(request: Pick<TrackedRequest, 'status'>) {
+  return request.status !== 'pending';
+}
+
+/** Delay before poll number `attempt` (0-based): exponential with a little jitter, capped at `maxDelayMs`. */
+export function pollDelay(attempt: number, options: Required<WaitOptions>) {
+  const base = Math.min(options.maxDelayMs, options.initialDelayMs * 2 ** attempt);
+  return Math.round(base * (0.9 + Math.random() * 0.2));
+}
+
+/**
+ * In-flight and recently finished requests, persisted as one JSON file so a restarted dev server
+ * can pick up tracking where it left off. Credentials are never written, only their hash.
+ */
+export class RequestTracker {
+  private file: string | null;
+  private requests = new Map<string, TrackedRequest>();
+  private loaded?: Promise<void>;
+  private writes = new FileWrites();
+
+  /** `file` of `null` keeps requests in memory only. */
+  constructor(file: string | null) {
+    this.file = file;
+  }
+
+  private keyOf(host: string, id: string) {
+    return `${host}|${id}`;
+  }
+
+  private load() {
+    this.loaded ??= (async () => {
+      if (!this.file) return;
+      // no file yet, or unreadable: start empty rather than failing the caller
+      const stored = await readJsonFile<TrackedRequest[]>(this.file);
+      for (const request of Array.isArray(stored) ? stored : []) this.requests.set(this.keyOf(request.host, request.id), request);
+    })();
+    return this.loaded;
+  }
+
+  private persist() {
+    const file = this.file;
+    if (!file) return Promise.resolve();
+    const cutoff = Date.now() - KEEP_COMPLETED_MS;
+    for (const [key, request] of this.requests) {
+      if (isFinished(request) && (request.completedAt ?? request.submittedAt) < cutoff) this.requests.delete(key);
+    }
+    // Tracking must not fail the request it tracks; a failed write leaves the previous file in place
+    return this.writes.writeJson(file, [...this.requests.values()]).catch(() => {});
+  }
+
+  async get(host: string, id: string) {
+    await this.load();
+    return this.requests.get(this.keyOf(host, id));
+  }
+
+  /** Newest first. */
+  async list(filter: { host?: string; owner?: string; pendingOnly?: boolean } = {}) {
+    await this.load();
+    return [...this.requests.values()]
+      .filter(r => (!filter.host || r.host === filter.host) && (!filter.owner || r.owner === filter.owner) && (!filter.pendingOnly || !isFinished(r)))
+      .sort((a, b) => b.submittedAt - a.submittedAt);
+  }
+
+  /** Insert or merge into the stored request, then write the file. */
+  async save(request: Pick<TrackedRequest, 'id' | 'host'> & Partial<TrackedRequest>) {
+    await this.load();
+    const key = this.keyOf(request.host, request.id);
+    const merged = { operationId: 'unknown', owner: 'anonymous', status: 'pending', submittedAt: Date.now(), ...this.requests.get(key), ...request } as TrackedRequest;
+    this.requests.set(key, merged);
+    await this.persist();
+    return merged;
+  }
+}
+
+let defaultTracker: RequestTracker | undefined;
+
+/**
+ * Process-wide tracker shared by every NutellaClient. Stored in `NUTELLA_REQUESTS_FILE`
+ * (default `.cache/nutella-requests.json`); `NUTELLA_REQUESTS_FILE=none` keeps it in memory.
+ */
+export function defaultRequestTracker(env: NodeJS.ProcessEnv = process.env) {
+  if (defaultTracker) return defaultTracker;
+  const file = env.NUTELLA_REQUESTS_FILE ?? path.join(process.cwd(), '.cache', 'nutella-requests.json');
+  defaultTracker = new RequestTracker(file === 'none' ? null : file);
+  return defaultTracker;
+}
@@ -0,0 +1,89 @@
+import { appendFile, mkdir, readFile } from 'fs/promises';
+import path from 'path';
+import { FileWrites } from './jsonFile';
+
+/** One thing this project did (or was asked to do) on someone's behalf. */
+export type AuditRecord = {
+  /** ISO8601 time the record was written. */
+  at: string;
+  /** Who triggered it, as they named themselves (e.g. an admin's email). */
+  actor: string;
+  /** Hash of the credential used, which ties the record to an API token without storing it. */
+  owner: string;
+  /** Workflow that acted, e.g. `privacy-requests-workflow`. */
+  workflow: string;
+  /** What happened: `submitted`, `cancelled`, `failed`, ... */
+  action: string;
+  runId?: string;
+  /** Emails, ids and API responses needed to reconstruct what was done. */
+  details: Record<string, unknown>;
+};
+
+/**
+ * Append-only record of who triggered which sensitive action, one JSON object per line so the file
+ * can be shipped to a log pipeline as is. Records are never rewritten or pruned.
+ */
+export class AuditTrail {
+  private file: string | null;
+  private records: AuditRecord[] = [];
+  private writes = new FileWrites();
+
+  /** `file` of `null` keeps records in memory only. */
+  constructor(file: string | null) {
+    this.file = file;
+  }
+
+  async append(record: Omit<AuditRecord, 'at'> & { at?: string }): Promise<AuditRecord> {
+    const full = { ...record, at: record.at ?? new Date().toISOString() };
+    const file = this.file;
+    if (!file) {
+      this.records.push(full);
+      return full;
+    }
+    await this.writes.run(file, async () => {
+      await mkdir(path.dirname(file), { recursive: true });
+      await appendFile(file, `${JSON.stringify(full)}\n`, { encoding: 'utf8' });
+    });
+    return full;
+  }
+
+  /** Records matching every given filter, oldest first. `search` matches anywhere in `details`. */
+  async list(filter: { workflow?: string; owner?: string; search?: string } = {}): Promise<AuditRecord[]> {
+    let records = this.records;
+    if (this.file) {
+      await this.writes.settled(this.file);
+      const text = await readFile(this.file, { encoding: 'utf8' }).catch(() => '');
+      records = text
+        .split('\n')
+        .filter(Boolean)
+        .flatMap(line => {
+          try {
+            return [JSON.parse(line) as AuditRecord];
+          } catch {
+            // a torn last line from a crash should not hide the rest
+            return [];
+          }
+        });
+    }
+    const needle = filter.search?.toLowerCase();
+    return records.filter(
+      r =>
+        (!filter.workflow || r.workflow === filter.workflow) &&
+        (!filter.owner || r.owner === filter.owner) &&
+        (!needle || JSON.stringify(r.details).toLowerCase().includes(needle)),
+    );
+  }
+}
+
+let defaultTrail: AuditTrail | undefined;
+
+/**
+ * Process-wide audit trail, stored in `AUDIT_TRAIL_FILE` (default `.cache/audit-trail.ndjson`);
+ * `AUDIT_TRAIL_FILE=none` keeps it in memory.
+ */
+export function defaultAuditTrail(env: NodeJS.ProcessEnv = process.env) {
+  if (defaultTrail) return defaultTrail;
+  const file = env.AUDIT_TRAIL_FILE ?? path.join(process.cwd(), '.cache', 'audit-trail.ndjson');
+  defaultTrail = new AuditTrail(file === 'none' ? null : file);
+  return defaultTrail;
+}
@@ -0,0 +1,104 @@
+import { createHash } from 'crypto';
+import { readFile, readdir, rm, stat } from 'fs/promises';
+import path from 'path';
+import { writeFileAtomic } from '../jsonFile';
+import { CacheBackend, CacheEntry, EvictionLimits } from './types';
+
+export type FileCacheLimits = EvictionLimits & {
+  /** Total size of cache files on disk, in bytes. */
+  maxBytes?: number;
+};
+
+// Only scan the directory for eviction every so many writes
+const PRUNE_EVERY_WRITES = 20;
+
+/**
+ * One JSON file per key (named by the key's hash) in `dir`.
+ * Writes go to a unique tmp file that is renamed over the target, so readers never see partial JSON.
+ */
+export class FileCache implements CacheBackend {
+  private dir: string;
+  private limits: Required<FileCacheLimits>;
+  private writesSincePrune = 0;
+
+  constructor(dir: string, limits: FileCacheLimits = {}) {
+    this.dir = dir;
+    this.limits = {
+      maxEntries: limits.maxEntries ?? 2000,
+      maxAgeMs: limits.maxAgeMs ?? 1000 * 60 * 60 * 24,
+      maxBytes: limits.maxBytes ?? 200 * 1024 * 1024,
+    };
+  }
+
+  private fileFor(key: string) {
+    return path.join(this.dir, `${createHash('sha256').update(key).digest('hex')}.json`);
+  }
+
+  async get<T = unknown>(key: string): Promise<CacheEntry<T> | undefined> {
+    try {
+      const entry = JSON.parse(await readFile(this.fileFor(key), { encoding: 'utf8' })) as CacheEntry<T> & { key?: string };
+      // guard against hash collisions and files from older layouts
+      if (entry.key !== key) return undefined;
+      if (Date.now() - entry.storedAt > this.limits.maxAgeMs) {
+        await this.delete(key);
+        return undefined;
+      }
+      return { value: entry.value, storedAt: entry.storedAt, expiresAt: entry.expiresAt };
+    } catch {
+      return undefined;
+    }
+  }
+
+  async set<T = unknown>(key: string, entry: CacheEntry<T>): Promise<void> {
+    await writeFileAtomic(this.fileFor(key), JSON.stringify({ key, ...entry }));
+
+    if (++this.writesSincePrune >= PRUNE_EVERY_WRITES) {
+      this.writesSincePrune = 0;
+      await this.prune();
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.fileFor(key), { force: true });
+  }
+
+  async clear(): Promise<void> {
+    await rm(this.dir, { recursive: true, force: true });
+  }
+
+  /** Evict files past `maxAgeMs`, then the oldest until under `maxEntries` and `maxBytes`. */
+  async prune(): Promise<void> {
+    let names: string[];
+    try {
+      names = await readdir(this.dir);
+    } catch {
+      return;
+    }
+
+    const now = Date.now();
+    const files: { file: string; mtimeMs: number; size: number }[] = [];
+    for (const name of names) {
+      const file = path.join(this.dir, name);
+      try {
+        const s = await stat(file);
+        // leftover tmp files from crashed writes, and anything past the age limit
+        const orphanedTmp = name.endsWith('.tmp') && now - s.mtimeMs > 60_000;
+        if (orphanedTmp || (name.endsWith('.json') && now - s.mtimeMs > this.limits.maxAgeMs)) {
+          await rm(file, { force: true });
+        } else if (name.endsWith('.json')) {
+          files.push({ file, mtimeMs: s.mtimeMs, size: s.size });
+        }
+      } catch {
+        // removed concurrently
+      }
+    }
+
+    files.sort((a, b) => a.mtimeMs - b.mtimeMs);
+    let totalBytes = files.reduce((sum, f) => sum + f.size, 0);
+    while (files.length > 0 && (files.length > this.limits.maxEntries || totalBytes > this.limits.maxBytes)) {
+      const oldest = files.shift()!;
+      totalBytes -= oldest.size;
+      await rm(oldest.file, { force: true });
+    }
+  }
+}
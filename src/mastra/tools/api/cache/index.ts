@@ -0,0 +1,6 @@
+export type { CacheBackend, CacheEntry, EvictionLimits } from './types';
+export { MemoryLruCache } from './memoryCache';
+export { FileCache } from './fileCache';
+export type { FileCacheLimits } from './fileCache';
+export { ResponseCache, defaultResponseCache, DEFAULT_TTLS } from './responseCache';
+export type { CacheInfo, CachedResult, CacheKeyParts, ResponseCacheOptions } from './responseCache';
@@ -0,0 +1,44 @@
+import { CacheBackend, CacheEntry, EvictionLimits } from './types';
+
+/** In-process LRU cache. Map insertion order doubles as recency order. */
+export class MemoryLruCache implements CacheBackend {
+  private entries = new Map<string, CacheEntry>();
+  private maxEntries: number;
+  private maxAgeMs: number;
+
+  constructor(limits: EvictionLimits = {}) {
+    this.maxEntries = limits.maxEntries ?? 500;
+    this.maxAgeMs = limits.maxAgeMs ?? Infinity;
+  }
+
+  async get<T = unknown>(key: string): Promise<CacheEntry<T> | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    if (Date.now() - entry.storedAt > this.maxAgeMs) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    // refresh recency
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry as CacheEntry<T>;
+  }
+
+  async set<T = unknown>(key: string, entry: CacheEntry<T>): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+}
@@ -0,0 +1,153 @@
+import { createHash } from 'crypto';
+import path from 'path';
+import { CacheBackend } from './types';
+import { FileCache } from './fileCache';
+import { MemoryLruCache } from './memoryCache';
+
+/** How a response was obtained, returned alongside cached data. */
+export type CacheInfo = {
+  source: 'network' | 'cache' | 'stale';
+  /** True when the API call failed and an expired cache entry was served instead. */
+  stale: boolean;
+  /** Epoch ms when the served data was fetched from the API. */
+  storedAt: number;
+  /** Message of the upstream error that caused stale data to be served. */
+  error?: string;
+};
+
+export type CachedResult<T> = {
+  data: T;
+  cache: CacheInfo;
+};
+
+export type ResponseCacheOptions = {
+  /** TTL applied to operations without an entry in `ttls`. */
+  defaultTtlMs?: number;
+  /** Per-operationId TTLs; 0 disables caching for that operation. */
+  ttls?: Record<string, number>;
+  /** Decide whether an error may be answered with stale data. Defaults to network errors, 429 and 5xx. */
+  serveStaleOn?: (error: unknown) => boolean;
+};
+
+export type CacheKeyParts = {
+  host: string;
+  operationId: string;
+  params?: object;
+  /** Auth token or cookie header; only a hash of it ends up in the key. */
+  credential?: string;
+};
+
+const HOUR = 1000 * 60 * 60;
+
+// Data that changes quickly gets short TTLs; async request status must never be cached.
+export const DEFAULT_TTLS: Record<string, number> = {
+  getAuditEvents: 60 * 1000,
+  getPrivacyDataSubject: 60 * 1000,
+  getPrivacyDataSubjectByRequestId: 60 * 1000,
+  getRequestsById: 0,
+  getRequestsByIdResult: 0,
+  getSearchItems: 5 * 60 * 1000,
+};
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function defaultServeStaleOn(error: unknown) {
+  const status = (error as any)?.response?.status ?? (error as any)?.status;
+  return status === undefined || status === 429 || status >= 500;
+}
+
+/** TTL policy, key derivation and stale-on-error fallback on top of a `CacheBackend`. */
+export class ResponseCache {
+  readonly backend: CacheBackend;
+  private defaultTtlMs: number;
+  private ttls: Record<string, number>;
+  private serveStaleOn: (error: unknown) => boolean;
+
+  constructor(backend: CacheBackend, options: ResponseCacheOptions = {}) {
+    this.backend = backend;
+    this.defaultTtlMs = options.defaultTtlMs ?? HOUR;
+    this.ttls = { ...DEFAULT_TTLS, ...options.ttls };
+    this.serveStaleOn = options.serveStaleOn ?? defaultServeStaleOn;
+  }
+
+  ttlFor(operationId: string) {
+    return this.ttls[operationId] ?? this.defaultTtlMs;
+  }
+
+  key(parts: CacheKeyParts) {
+    const credential = parts.credential ? createHash('sha256').update(parts.credential).digest('hex').slice(0, 16) : 'anonymous';
+    return [parts.host, parts.operationId, stableStringify(parts.params ?? {}), credential].join('|');
+  }
+
+  /**
+   * Serve a fresh entry, or call `load` and store its result. When `load` fails with an error
+   * allowed by `serveStaleOn`, an expired entry is returned flagged `stale` instead of throwing.
+   */
+  async fetch<T>(parts: CacheKeyParts, load: () => Promise<T>, options: { refresh?: boolean } = {}): Promise<CachedResult<T>> {
+    const ttlMs = this.ttlFor(parts.operationId);
+    if (ttlMs <= 0) return { data: await load(), cache: { source: 'network', stale: false, storedAt: Date.now() } };
+
+    const key = this.key(parts);
+    // A broken backend must never fail the request itself
+    const cached = await this.backend.get<T>(key).catch(() => undefined);
+    if (cached && !options.refresh && cached.expiresAt > Date.now()) {
+      return { data: cached.value, cache: { source: 'cache', stale: false, storedAt: cached.storedAt } };
+    }
+
+    try {
+      const data = await load();
+      const storedAt = Date.now();
+      await this.backend.set(key, { value: data, storedAt, expiresAt: storedAt + ttlMs }).catch(() => {});
+      return { data, cache: { source: 'network', stale: false, storedAt } };
+    } catch (error) {
+      if (cached && this.serveStaleOn(error)) {
+        const message = error instanceof Error ? error.message : String(error);
+        return { data: cached.value, cache: { source: 'stale', stale: true, storedAt: cached.storedAt, error: message } };
+      }
+      throw error;
+    }
+  }
+}
+
+let defaultCache: ResponseCache | null | undefined;
+
+function envNumber(value: string | undefined) {
+  const n = value === undefined || value === '' ? NaN : Number(value);
+  return Number.isFinite(n) ? n : undefined;
+}
+
+/**
+ * Process-wide cache shared by every NutellaClient (tools build a new client per call). Configured via:
+ * - `NUTELLA_CACHE_BACKEND` `file` (default), `memory` or `none`
+ * - `NUTELLA_CACHE_DIR` directory for the file backend (default `.cache/nutella`)
+ * - `NUTELLA_CACHE_TTL_MS` default TTL (1 hour)
+ * - `NUTELLA_CACHE_MAX_ENTRIES`, `NUTELLA_CACHE_MAX_BYTES`, `NUTELLA_CACHE_MAX_AGE_MS` eviction limits
+ */
+export function defaultResponseCache(env: NodeJS.ProcessEnv = process.env): ResponseCache | null {
+  if (defaultCache !== undefined) return defaultCache;
+
+  const kind = (env.NUTELLA_CACHE_BACKEND ?? 'file').toLowerCase();
+  const limits = {
+    maxEntries: envNumber(env.NUTELLA_CACHE_MAX_ENTRIES),
+    maxAgeMs: envNumber(env.NUTELLA_CACHE_MAX_AGE_MS),
+    maxBytes: envNumber(env.NUTELLA_CACHE_MAX_BYTES),
+  };
+  const options = { defaultTtlMs: envNumber(env.NUTELLA_CACHE_TTL_MS) };
+
+  if (kind === 'none') defaultCache = null;
+  else if (kind === 'memory') defaultCache = new ResponseCache(new MemoryLruCache(limits), options);
+  else {
+    const dir = env.NUTELLA_CACHE_DIR ?? path.join(process.cwd(), '.cache', 'nutella');
+    defaultCache = new ResponseCache(new FileCache(dir, limits), options);
+  }
+  return defaultCache;
+}
@@ -0,0 +1,25 @@
+export type CacheEntry<T = unknown> = {
+  value: T;
+  /** Epoch ms when the entry was written. */
+  storedAt: number;
+  /** Epoch ms after which the entry is only used as a fallback when the API fails. */
+  expiresAt: number;
+};
+
+/**
+ * Storage for cached API responses. `get` returns expired entries as well so that callers can
+ * serve them as stale data on upstream errors; backends evict by their own size/age limits.
+ */
+export interface CacheBackend {
+  get<T = unknown>(key: string): Promise<CacheEntry<T> | undefined>;
+  set<T = unknown>(key: string, entry: CacheEntry<T>): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export type EvictionLimits = {
+  /** Maximum number of entries kept. */
+  maxEntries?: number;
+  /** Entries older than this (since written) are evicted, stale or not. */
+  maxAgeMs?: number;
+};
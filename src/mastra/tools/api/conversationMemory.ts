@@ -0,0 +1,150 @@
+import { createHash } from 'crypto';
+import { rm } from 'fs/promises';
+import path from 'path';
+import { MemoryLruCache } from './cache/memoryCache';
+import { FileWrites, readJsonFile } from './jsonFile';
+
+/** RuntimeContext key naming the conversation thread of an agent call. */
+export const THREAD_CONTEXT_KEY = 'threadId';
+
+/** One question of a conversation and what it resolved to, so a follow-up can refine it. */
+export type ConversationTurn = {
+  /** Epoch ms the turn was answered. */
+  at: number;
+  query: string;
+  /** Dataset the question was answered from, or `clarify` when it was asked back. */
+  route: string;
+  /** Filters and parameters the data was fetched with. */
+  params: Record<string, unknown>;
+  /** Users route: the query plan run over the users (filters, group-by, ...). */
+  plan?: Record<string, unknown>;
+  /** Ids of the records the answer was about; a follow-up narrows these down. */
+  entityIds?: string[];
+  /** The answer, shortened. */
+  answer: string;
+};
+
+export type ConversationThread = {
+  id: string;
+  /** Hash of the credential that started the thread; other credentials cannot read it. */
+  owner: string;
+  createdAt: number;
+  updatedAt: number;
+  /** Oldest first. */
+  turns: ConversationTurn[];
+};
+
+// Follow-ups refer to the last few answers; older turns only cost prompt space
+const MAX_TURNS = 20;
+// Beyond this an entity set is kept as its filters only
+export const MAX_ENTITY_IDS = 5000;
+const MAX_ANSWER_CHARS = 1000;
+// Threads kept in memory; with a directory, older ones are read back from their file when they come up again
+const MAX_CACHED_THREADS = 500;
+
+/**
+ * Conversation threads, one JSON file per thread so a busy thread never rewrites the others.
+ * Threads are keyed by id and owner: the same id used with another credential is another thread.
+ */
+export class ConversationMemory {
+  private dir: string | null;
+  private threads: MemoryLruCache;
+  private writes = new FileWrites();
+
+  /** `dir` of `null` keeps threads in memory only, where the least recently used beyond `maxThreads` are forgotten. */
+  constructor(dir: string | null, options: { maxThreads?: number } = {}) {
+    this.dir = dir;
+    this.threads = new MemoryLruCache({ maxEntries: options.maxThreads ?? MAX_CACHED_THREADS });
+  }
+
+  // Thread ids come from callers; hashing keeps them out of file paths
+  private keyOf(threadId: string, owner: string) {
+    return createHash('sha256').update(`${owner}|${threadId}`).digest('hex').slice(0, 32);
+  }
+
+  private fileOf(key: string) {
+    return path.join(this.dir!, `${key}.json`);
+  }
+
+  private remember(key: string, thread: ConversationThread) {
+    return this.threads.set(key, { value: thread, storedAt: Date.now(), expiresAt: Infinity });
+  }
+
+  async get(threadId: string, owner: string): Promise<ConversationThread | undefined> {
+    const key = this.keyOf(threadId, owner);
+    const cached = (await this.threads.get<ConversationThread>(key))?.value;
+    if (cached || !this.dir) return cached;
+    const file = this.fileOf(key);
+    await this.writes.settled(file);
+    // no file yet, or unreadable: a new thread rather than a failed question
+    const thread = await readJsonFile<ConversationThread>(file);
+    if (thread) await this.remember(key, thread);
+    return thread;
+  }
+
+  /** Add a turn, dropping the oldest beyond the last 20, and write the thread. */
+  async append(threadId: string, owner: string, turn: Omit<ConversationTurn, 'at'> & { at?: number }): Promise<ConversationThread> {
+    const key = this.keyOf(threadId, owner);
+    const now = Date.now();
+    const thread = (await this.get(threadId, owner)) ?? { id: threadId, owner, createdAt: now, updatedAt: now, turns: [] };
+    const entityIds = turn.entityIds && turn.entityIds.length <= MAX_ENTITY_IDS ? turn.entityIds : undefined;
+    const answer = turn.answer.length > MAX_ANSWER_CHARS ? `${turn.answer.slice(0, MAX_ANSWER_CHARS)}…` : turn.answer;
+    thread.turns = [...thread.turns, { ...turn, at: turn.at ?? now, entityIds, answer }].slice(-MAX_TURNS);
+    thread.updatedAt = now;
+    await this.remember(key, thread);
+    await this.persist(key, thread);
+    return thread;
+  }
+
+  async clear(threadId: string, owner: string): Promise<void> {
+    const key = this.keyOf(threadId, owner);
+    await this.threads.delete(key);
+    if (!this.dir) return;
+    const file = this.fileOf(key);
+    await this.writes.settled(file);
+    await rm(file, { force: true });
+  }
+
+  private persist(key: string, thread: ConversationThread) {
+    if (!this.dir) return Promise.resolve();
+    // Memory must not fail the answer it remembers; a failed write leaves the previous file in place
+    return this.writes.writeJson(this.fileOf(key), thread).catch(() => {});
+  }
+}
+
+/** The last turn that was answered from data, which a follow-up refines. */
+export function lastAnsweredTurn(turns: ConversationTurn[] = []): ConversationTurn | undefined {
+  return turns.filter(turn => turn.route !== 'clarify').at(-1);
+}
+
+/** Earlier turns in plain words, for a model that has to understand a follow-up. */
+export function describeThread(thread: ConversationThread, maxTurns = 5): string {
+  return thread.turns
+    .slice(-maxTurns)
+    .map(turn => {
+      const filters = Object.entries(turn.params).filter(([, value]) => value !== undefined && value !== null);
+      const parts = [
+        `Q: ${turn.query}`,
+        `Route: ${turn.route}`,
+        filters.length ? `Filters: ${JSON.stringify(Object.fromEntries(filters))}` : '',
+        turn.plan ? `Query plan: ${JSON.stringify(turn.plan)}` : '',
+        turn.entityIds?.length ? `Records (${turn.entityIds.length}): ${turn.entityIds.slice(0, 20).join(', ')}${turn.entityIds.length > 20 ? ', …' : ''}` : '',
+        `A: ${turn.answer}`,
+      ];
+      return parts.filter(Boolean).join('\n');
+    })
+    .join('\n\n');
+}
+
+let defaultMemory: ConversationMemory | undefined;
+
+/**
+ * Process-wide conversation memory, stored in `CONVERSATION_MEMORY_DIR` (default
+ * `.cache/conversations`); `CONVERSATION_MEMORY_DIR=none` keeps it in memory.
+ */
+export function defaultConversationMemory(env: NodeJS.ProcessEnv = process.env) {
+  if (defaultMemory) return defaultMemory;
+  const dir = env.CONVERSATION_MEMORY_DIR ?? path.join(process.cwd(), '.cache', 'conversations');
+  defaultMemory = new ConversationMemory(dir === 'none' ? null : dir);
+  return defaultMemory;
+}
@@ -0,0 +1,172 @@
+import { z } from 'zod';
+import {
+  jsonBadRequestErrorSchema,
+  jsonNotFoundErrorSchema,
+  jsonValidationErrorSchema,
+  plainTextErrorSchema,
+} from './generated/nutellaSchemas';
+import { parseRetryAfter } from './retry';
+
+export type ApiErrorCode = 'auth' | 'not_found' | 'validation' | 'rate_limited' | 'upstream_unavailable' | 'unknown';
+
+export type ApiService = 'nutella' | 'ai';
+
+// Machine-readable form handed to workflows and the agent
+export const apiErrorInfoSchema = z.object({
+  code: z.enum(['auth', 'not_found', 'validation', 'rate_limited', 'upstream_unavailable', 'unknown']),
+  message: z.string(),
+  service: z.enum(['nutella', 'ai']),
+  status: z.number().optional(),
+  operation: z.string().optional(),
+  retryable: z.boolean(),
+  retryAfterMs: z.number().optional(),
+  details: z.unknown().optional(),
+});
+
+export type ApiErrorInfo = z.infer<typeof apiErrorInfoSchema>;
+
+type ApiErrorInit = {
+  service: ApiService;
+  status?: number;
+  operation?: string;
+  retryAfterMs?: number;
+  /** Parsed error body (one of the spec's error schemas when it matched). */
+  details?: unknown;
+  cause?: unknown;
+};
+
+export class ApiError extends Error {
+  readonly code: ApiErrorCode = 'unknown';
+  readonly retryable: boolean = false;
+  readonly service: ApiService;
+  readonly status?: number;
+  readonly operation?: string;
+  readonly retryAfterMs?: number;
+  readonly details?: unknown;
+
+  constructor(message: string, init: ApiErrorInit) {
+    super(message, { cause: init.cause });
+    this.name = new.target.name;
+    this.service = init.service;
+    this.status = init.status;
+    this.operation = init.operation;
+    this.retryAfterMs = init.retryAfterMs;
+    this.details = init.details;
+  }
+
+  toJSON(): ApiErrorInfo {
+    return {
+      code: this.code,
+      message: this.message,
+      service: this.service,
+      status: this.status,
+      operation: this.operation,
+      retryable: this.retryable,
+      retryAfterMs: this.retryAfterMs,
+      details: this.details,
+    };
+  }
+}
+
+/** 401/403: missing, invalid or insufficient credentials (including impersonation failures). */
+export class AuthError extends ApiError {
+  readonly code = 'auth';
+}
+
+/** 404/410, or a `json-not-found-error` body. */
+export class NotFoundError extends ApiError {
+  readonly code = 'not_found';
+}
+
+/** 400/409/422: the request itself was rejected. */
+export class ValidationError extends ApiError {
+  readonly code = 'validation';
+
+  /** Field errors from a `json-bad-request-error` body, when present. */
+  get fieldErrors(): Record<string, unknown> | undefined {
+    const parsed = jsonBadRequestErrorSchema.safeParse(this.details);
+    return parsed.success ? parsed.data.errors : undefined;
+  }
+}
+
+/** 429: retry after `retryAfterMs` when the server said so. */
+export class RateLimitedError extends ApiError {
+  readonly code = 'rate_limited';
+  readonly retryable = true;
+}
+
+/** 5xx, timeouts and network failures. */
+export class UpstreamUnavailableError extends ApiError {
+  readonly code = 'upstream_unavailable';
+  readonly retryable = true;
+}
+
+function parseBody(body: unknown): unknown {
+  if (typeof body !== 'string') return body;
+  try {
+    return JSON.parse(body);
+  } catch {
+    return body;
+  }
+}
+
+// Pick the most specific message out of the spec's error shapes
+function messageFromBody(body: unknown): string | undefined {
+  const notFound = jsonNotFoundErrorSchema.safeParse(body);
+  if (notFound.success) return notFound.data.message;
+  const validation = jsonValidationErrorSchema.safeParse(body);
+  if (validation.success && (validation.data.message || validation.data.error)) {
+    return validation.data.message ?? validation.data.error;
+  }
+  const badRequest = jsonBadRequestErrorSchema.safeParse(body);
+  if (badRequest.success && badRequest.data.errors) {
+    return Object.entries(badRequest.data.errors)
+      .map(([field, err]) => `${field}: ${typeof err === 'string' ? err : JSON.stringify(err)}`)
+      .join('; ');
+  }
+  const text = plainTextErrorSchema.safeParse(body);
+  if (text.success && text.data.trim()) return text.data.trim();
+  const message = (body as any)?.error?.message ?? (body as any)?.message;
+  return typeof message === 'string' ? message : undefined;
+}
+
+/** Map an HTTP status (undefined for network failures) and error body to the matching error class. */
+export function errorFromResponse(status: number | undefined, rawBody: unknown, init: Omit<ApiErrorInit, 'status' | 'details'> & { headers?: Record<string, unknown> }): ApiError {
+  const body = parseBody(rawBody);
+  const prefix = `${init.service === 'ai' ? 'AI service' : 'Nutella API'}${init.operation ? ` ${init.operation}` : ''}`;
+  const detail = messageFromBody(body);
+  const message = `${prefix} failed${status ? ` with ${status}` : ''}${detail ? `: ${detail}` : ''}`;
+  const base = { ...init, status, details: body };
+
+  if (status === undefined || status >= 500) return new UpstreamUnavailableError(message, base);
+  if (status === 401 || status === 403) return new AuthError(message, base);
+  if (status === 429) return new RateLimitedError(message, { ...base, retryAfterMs: parseRetryAfter(init.headers?.['retry-after']) });
+  if (status === 404 || status === 410 || jsonNotFoundErrorSchema.safeParse(body).success) return new NotFoundError(message, base);
+  if (status === 400 || status === 409 || status === 422) return new ValidationError(message, base);
+  return new ApiError(message, base);
+}
+
+/** Convert an axios (or other) error thrown by a Nutella request. ApiErrors pass through unchanged. */
+export function toNutellaError(error: unknown, operation?: string): ApiError {
+  if (error instanceof ApiError) return error;
+  const response = (error as any)?.response;
+  if (!response) {
+    const reason = (error as any)?.code ?? (error instanceof Error ? error.message : String(error));
+    return new UpstreamUnavailableError(`Nutella API${operation ? ` ${operation}` : ''} unreachable: ${reason}`, {
+      service: 'nutella',
+      operation,
+      cause: error,
+    });
+  }
+  return errorFromResponse(response.status, response.data, { service: 'nutella', operation, headers: response.headers, cause: error });
+}
+
+/** Tools return this instead of throwing so the agent sees a structured failure it can explain or retry. */
+export function toolErrorResult(error: unknown) {
+  if (error instanceof ApiError) return { error: error.toJSON() };
+  throw error;
+}
+
+export function isToolErrorResult(value: unknown): value is { error: ApiErrorInfo } {
+  return apiErrorInfoSchema.safeParse((value as any)?.error).success;
+}
@@ -0,0 +1,2525 @@
+// Generated by scripts/generate-nutella-client.mjs from spec/hs_open_api.json.
+// Do not edit by hand: update the spec and re-run `npm run generate:nutella`.
+
+import type * as schemas from './nutellaSchemas';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export interface NutellaParameter {
+  name: string;
+  in: 'path' | 'query' | 'header';
+  required: boolean;
+  type: 'string' | 'integer' | 'number' | 'boolean';
+  description?: string;
+}
+
+export interface NutellaRequestBody {
+  contentType: string;
+  required: boolean;
+  /** Name of the component schema describing the body, if the spec references one. */
+  schema?: schemas.NutellaSchemaName;
+  description?: string;
+}
+
+export interface NutellaOperation {
+  id: string;
+  method: HttpMethod;
+  path: string;
+  tag: string;
+  summary: string;
+  parameters: readonly NutellaParameter[];
+  requestBody?: NutellaRequestBody;
+}
+
+/** Parameters for POST /assessments/external-survey */
+export interface PostAssessmentsExternalSurveyParams {
+  body?: schemas.AssessmentRequest;
+}
+
+/** Parameters for GET /me */
+export interface GetMeParams {
+  /** The email address of the user to impersonate */
+  'hs-user'?: string;
+}
+
+/** Parameters for GET /users */
+export interface GetUsersParams {
+  /** The email address of the user to impersonate */
+  'hs-user'?: string;
+  /** Email name to filter users by */
+  email?: string;
+  /** Will return all verified users by default if not specified */
+  list?: string;
+  /** Additional fields to include in the response specified as a comma separated list. */
+  'with-fields'?: string;
+  /** Additional fields to exclude in the response specified as a comma separated list */
+  'exclude-fields'?: string;
+  /** The start position of a paged request, starting from 0. */
+  start?: number;
+  /** Maximum number of users returned. If not specified it will default to 100 */
+  limit?: number;
+}
+
+/** Parameters for POST /users */
+export interface PostUsersParams {
+  /** Whether or not to execute asynchronously */
+  async?: boolean;
+  body: schemas.PostUsers;
+}
+
+/** Parameters for POST /users/invite */
+export interface PostUsersInviteParams {
+  /** The email address of the user to impersonate */
+  'hs-user'?: string;
+  body: schemas.InviteUsers;
+}
+
+/** Parameters for GET /users/{user} */
+export interface GetUsersByUserParams {
+  /** The email address of the user to impersonate */
+  'hs-user'?: string;
+  /** The user id */
+  user: string;
+}
+
+/** Parameters for PATCH /users/{user} */
+export interface PatchUsersByUserParams {
+  /** The email address of the user to impersonate */
+  'hs-user'?: string;
+  /** The user id */
+  user: string;
+  body: schemas.PatchUser;
+}
+
+/** Parameters for DELETE /users/{user} */
+export interface DeleteUsersByUserParams {
+  /** The email address of the user to impersonate */
+  'hs-user'?: string;
+  /** The user id */
+  user: string;
+  /** Whether to delete the user's owned spots, pitches, and groups. */
+  'delete-owned-entities'?: boolean;
+  /** The email of the new owner to transfer spots, pitches, and groups to. (required if delete-owned-entities is false) */
+  'new-owner'?: string;
+  /** Whether to delete reviews and social media activities or preserve. */
+  'delete-references'?: boolean;
+}
+
+/** Parameters for PUT /users/{user}/thumbnail */
+export interface PutUsersByUserThumbnailParams {
+  /** The email address of the user to impersonate */
+  'hs-user'?: string;
+  /** The user id */
+  user: string;
+  body: FormData;
+}
+
+/** Parameters for GET /users/{user}/properties */
+export interface GetUsersByUserPropertiesParams {
+  /** The email address of the user to impersonate */
+  'hs-user'?: string;
+  /** The user id */
+  user: string;
+}
+
+/** Parameters for POST /users/{user}/properties */
+export interface PostUsersByUserPropertiesParams {
+  /** The email address of the user to impersonate */
+  'hs-user'?: string;
+  /** The user id */
+  user: string;
+  body: Record<string, unknown>;
+}
+
+/** Parameters for PUT /users/{user}/properties */
+export interface PutUsersByUserPropertiesParams {
+  /** The email address of the user to impersonate */
+  'hs-user'?: string;
+  /** The user id */
+  user: string;
+  body: Record<string, unknown>;
+}
+
+/** Parameters for GET /users/{user}/properties/{property} */
+export interface GetUsersByUserPropertiesByPropertyParams {
+  /** The email address of the user to impersonate */
+  'hs-user'?: string;
+  /** The user id */
+  user: string;
+  /** The property name */
+  property: string;
+}
+
+/** Parameters for PUT /users/{user}/properties/{property} */
+export interface PutUsersByUserPropertiesByPropertyParams {
+  /** The email address of the user to impersonate */
+  'hs-user'?: string;
+  /** The user id */
+  user: string;
+  /** The property name */
+  property: string;
+  body: schemas.PropertyValue;
+}
+
+/** Parameters for DELETE /users/{user}/properties/{property} */
+export interface DeleteUsersByUserPropertiesByPropertyParams {
+  /** The email address of the user to impersonate */
+  'hs-user'?: string;
+  /** The user id */
+  user: string;
+  /** The property name */
+  property: string;
+}
+
+/** Parameters for POST /user-account-events */
+export interface PostUserAccountEventsParams {
+  /** The email address of the user to impersonate */
+  'hs-user'?: string;
+  body: schemas.PostUserAccountEvents;
+}
+
+/** Parameters for GET /items */
+export interface GetItemsParams {
+  /** The email address of the user to impersonate */
+  'hs-user'?: string;
+  /** The spot id */
+  spot: string;
+  /** The list id */
+  list?: string;
+  /** The start position of a paged request, starting from 0. */
+  start?: number;
+  /** Maximum number of items returned. **Default is 100 items**. */
+  limit?: number;
+}
+
+/** Parameters for POST /items */
+export interface PostItemsParams {
+  /** The email address of the user to impersonate */
+  'hs-user'?: string;
+  /** The spot in which to create the item */
+  spot: string;
+  /** The metadata of the item */
+  metadata?: string;
+  body: schemas.ItemSpec;
+}
+
+/** Parameters for GET /items/{item} */
+export interface GetItemsByItemParams {
+  /** The email address of the user to impersonate */
+  'hs-user'?: string;
+  /** The item id */
+  item: string;
+}
+
+/** Parameters for PATCH /items/{item} */
+export interface PatchItemsByItemParams {
+  /** The email address of the user to impersonate */
+  'hs-user'?: string;
+  /** The item id */
+  item: string;
+  body: schemas.PatchItem;
+}
+
+/** Parameters for GET /items/{item}/bookmarks */
+export interface GetItemsByItemBookmarksParams {
+  /** The email address of the user to impersonate */
+  'hs-user'?: string;
+  /** The item id */
+  item: string;
+}
+
+/** Parameters for GET /items/{item}/content */
+export interface GetItemsByItemContentParams {
+  /** The email address of the user to impersonate */
+  'hs-user'?: string;
+  /** The item id */
+  item: string;
+  /** The format to return content as */
+  format?: string;
+  /** The start position of a paged request */
+  start?: string;
+}
+
+/** Parameters for GET /items/{item}/cms/metadata */
+export interface GetItemsByItemCmsMetadataParams {
+  /** The email address of the user to impersonate */
+  'hs-user'?: string;
+  /** The item id */
+  item: string;
+}
+
+/** Parameters for PUT /items/{item}/thumbnail */
+export interface PutItemsByItemThumbnailParams {
+  /** The email address of the user to impersonate */
+  'hs-user'?: string;
+  /** The item id */
+  item: string;
+  body: FormData;
+}
+
+/** Parameters for GET /items/{item}/thumbnails */
+export interface GetItemsByItemThumbnailsParams {
+  /** The email address of the user to impersonate */
+  'hs-user'?: string;
+  /** The item id */
+  item: string;
+}
+
+/** Parameters for GET /items/{item}/properties */
+export interface GetItemsByItemPropertiesParams {
+  /** The email address of the user to impersonate */
+  'hs-user'?: string;
+  /** The item id */
+  item: string;
+}
+
+/** Parameters for POST /items/{item}/properties */
+export interface PostItemsByItemPropertiesParams {
+  /** The email address of the user to impersonate */
+  'hs-user'?: string;
+  /** The item id */
+  item: string;
+  body: Record<string, unknown>;
+}
+
+/** Parameters for PUT /items/{item}/properties */
+export interface PutItemsByItemPropertiesParams {
+  /** The email address of the user to impersonate */
+  'hs-user'?: string;
+  /** The item id */
+  item: string;
+  body: Record<string, unknown>;
+}
+
+/** Parameters for GET /items/{item}/properties/{property} */
+export interface GetItemsByItemPropertiesByPropertyParams {
+  /** The email address of the user to impersonate */
+  'hs-user'?: string;
+  /** The item id */
+  item: string;
+  /** The property name */
+  property: string;
+}
+
+/** Parameters for PUT /items/{item}/properties/{property} */
+export interface PutItemsByItemPropertiesByPropertyParams {
+  /** The email address of the user to impersonate */
+  'hs-user'?: string;
+  /** The item id */
+  item: string;
+  /** The property name */
+  property: string;
+  body: schemas.PropertyValue;
+}
+
+/** Parameters for DELETE /items/{item}/properties/{property} */
+export interface DeleteItemsByItemPropertiesByPropertyParams {
+  /** The email address of the user to impersonate */
+  'hs-user'?: string;
+  /** The item id */
+  item: string;
+  /** The property name */
+  property: string;
+}
+
+/** Parameters for POST /items/{item}/versions */
+export interface PostItemsByItemVersionsParams {
+  /** The email address of the user to impersonate */
+  'hs-user'?: string;
+  /** The item id */
+  item: string;
+  /** The metadata of the item */
+  metadata?: string;
+  body?: schemas.ItemSpec;
+}
+
+/** Parameters for POST /items/batch */
+export interface PostItemsBatchParams {
+  /** The email address of the user to impersonate */
+  'hs-user'?: string;
+  body: (schemas.AsyncBatchSpec) & (schemas.BatchSpec);
+}
+
+/** Parameters for PUT /items/{item}/weblink */
+export interface PutItemsByItemWeblinkParams {
+  /** The email address of the user to impersonate */
+  'hs-user'?: string;
+  /** The item id */
+  item: string;
+  body: schemas.ItemWeblinkUrl;
+}
+
+/** Parameters for GET /groups */
+export interface GetGroupsParams {
+  /** The email address of the user to impersonate */
+  'hs-user'?: string;
+  /** Role to filter groups by */
+  role?: string;
+  /** Right to filter groups by */
+  right?: string;
+  /** The start position of a paged request, starting from 0. */
+  start?: number;
+  /** Maximum number of groups returned */
+  limit?: number;
+}
+
+/** Parameters for POST /groups */
+export interface PostGroupsParams {
+  /** The email address of the user to impersonate */
+  'hs-user'?: string;
+  body: schemas.GroupPost;
+}
+
+/** Parameters for GET /groups/{group} */
+export interface GetGroupsByGroupParams {
+  /** The email address of the user to impersonate */
+  'hs-user'?: string;
+  /** The group id */
+  group: string;
+}
+
+/** Parameters for PATCH /groups/{group} */
+export interface PatchGroupsByGroupParams {
+  /** The email address of the user to impersonate */
+  'hs-user'?: string;
+  /** The group id */
+  group: string;
+  body: schemas.PatchGroup;
+}
+
+/** Parameters for GET /groups/{group}/members */
+export interface GetGroupsByGroupMembersParams {
+  /** The email address of the user to impersonate */
+  'hs-user'?: string;
+  /** The group id */
+  group: string;
+  /** The start position of a paged request, starting from 0. */
+  start?: number;
+  /** Maximum number of members returned */
+  limit?: number;
+}
+
+/** Parameters for POST /groups/{group}/members */
+export interface PostGroupsByGroupMembersParams {
+  /** The email address of the user to impersonate */
+  'hs-user'?: string;
+  /** The group id */
+  group: string;
+  body: schemas.Ids;
+}
+
+/** Parameters for DELETE /groups/{group}/members/{member} */
+export interface DeleteGroupsByGroupMembersByMemberParams {
+  /** The email address of the user to impersonate */
+  'hs-user'?: string;
+  /** The group id */
+  group: string;
+  /** The user id */
+  member: string;
+}
+
+/** Parameters for GET /groups/{group}/properties */
+export interface GetGroupsByGroupPropertiesParams {
+  /** The email address of the user to impersonate */
+  'hs-user'?: string;
+  /** The group id */
+  group: string;
+}
+
+/** Parameters for POST /groups/{group}/properties */
+export interface PostGroupsByGroupPropertiesParams {
+  /** The email address of the user to impersonate */
+  'hs-user'?: string;
+  /** The group id */
+  group: string;
+  body: Record<string, unknown>;
+}
+
+/** Parameters for PUT /groups/{group}/properties */
+export interface PutGroupsByGroupPropertiesParams {
+  /** The email address of the user to impersonate */
+  'hs-user'?: string;
+  /** The group id */
+  group: string;
+  body: Record<string, unknown>;
+}
+
+/** Parameters for GET /groups/{group}/properties/{property} */
+export interface GetGroupsByGroupPropertiesByPropertyParams {
+  /** The email address of the user to impersonate */
+  'hs-user'?: string;
+  /** The group id */
+  group: string;
+  /** The property name */
+  property: string;
+}
+
+/** Parameters for PUT /groups/{group}/properties/{property} */
+export interface PutGroupsByGroupPropertiesByPropertyParams {
+  /** The email address of the user to impersonate */
+  'hs-user'?: string;
+  /** The group id */
+  group: string;
+  /** The property name */
+  property: string;
+  body: schemas.PropertyValue;
+}
+
+/** Parameters for DELETE /groups/{group}/properties/{property} */
+export interface DeleteGroupsByGroupPropertiesByPropertyParams {
+  /** The email address of the user to impersonate */
+  'hs-user'?: string;
+  /** The group id */
+  group: string;
+  /** The property name */
+  property: string;
+}
+
+/** Parameters for POST /groups/{group}/settings/permissions */
+export interface PostGroupsByGroupSettingsPermissionsParams {
+  /** The email address of the user to impersonate */
+  'hs-user'?: string;
+  /** The group id */
+  group: string;
+  body: schemas.PostGroupSettingsPermissions;
+}
+
+/** Parameters for PUT /groups/{group}/settings/visibility */
+export interface PutGroupsByGroupSettingsVisibilityParams {
+  /** The email address of the user to impersonate */
+  'hs-user'?: string;
+  /** The group id */
+  group: string;
+  body: schemas.PutGroupSettingsVisibility;
+}
+
+/** Parameters for PUT /groups/{group}/settings/basics */
+export interface PutGroupsByGroupSettingsBasicsParams {
+  /** The email address of the user to impersonate */
+  'hs-user'?: string;
+  /** The group id */
+  group: string;
+  body: schemas.PutGroupSettingsBasics;
+}
+
+/** Parameters for GET /spots */
+export interface GetSpotsParams {
+  /** The email address of the user to impersonate */
+  'hs-user'?: string;
+  /** Role to filter spots by */
+  role?: string;
+  /** Right to filter spots by */
+  right?: string;
+  /** Filter by if is official */
+  'is-official'?: boolean;
+  /** The start position of a paged request, starting from 0. */
+  start?: number;
+  /** Maximum number of spots returned. **Maximum is 100 for Spot Super Admins**. */
+  limit?: number;
+}
+
+/** Parameters for POST /spots */
+export interface PostSpotsParams {
+  /** The email address of the user to impersonate */
+  'hs-user'?: string;
+  body: schemas.SpotPost;
+}
+
+/** Parameters for GET /spots/{spot} */
+export interface GetSpotsBySpotParams {
+  /** The email address of the user to impersonate */
+  'hs-user'?: string;
+  /** The spot id */
+  spot: string;
+}
+
+/** Parameters for PATCH /spots/{spot} */
+export interface PatchSpotsBySpotParams {
+  /** The email address of the user to impersonate */
+  'hs-user'?: string;
+  /** The spot id */
+  spot: string;
+  body: schemas.PatchSpot;
+}
+
+/** Parameters for DELETE /spots/{spot} */
+export interface DeleteSpotsBySpotParams {
+  /** The email address of the user to impersonate */
+  'hs-user'?: string;
+  /** The spot id */
+  spot: string;
+}
+
+/** Parameters for POST /spots/{spot}/users */
+export interface PostSpotsBySpotUsersParams {
+  /** The email address of the user to impersonate */
+  'hs-user'?: string;
+  /** The spot id */
+  spot: string;
+  /** Optional note for users being added to the spot. (blank to not notify users) */
+  message?: string;
+  /** Role of users or groups to set. */
+  role: string;
+  body?: schemas.SpotUsers;
+}
+
+/** Parameters for GET /spots/{spot}/lists */
+export interface GetSpotsBySpotListsParams {
+  /** The email address of the user to impersonate */
+  'hs-user'?: string;
+  /** The spot id */
+  spot: string;
+}
+
+/** Parameters for POST /spots/{spot}/lists */
+export interface PostSpotsBySpotListsParams {
+  /** The email address of the user to impersonate */
+  'hs-user'?: string;
+  /** The spot id */
+  spot: string;
+  body: schemas.AddList;
+}
+
+/** Parameters for DELETE /spots/{spot}/lists/{list} */
+export interface DeleteSpotsBySpotListsByListParams {
+  /** The email address of the user to impersonate */
+  'hs-user'?: string;
+  /** The spot id */
+  spot: string;
+  /** The list id */
+  list: string;
+}
+
+/** Parameters for POST /spots/{spot}/lists/{list}/items */
+export interface PostSpotsBySpotListsByListItemsParams {
+  /** The email address of the user to impersonate */
+  'hs-user'?: string;
+  /** The spot id */
+  spot: string;
+  /** The list id */
+  list: string;
+  body: schemas.Ids;
+}
+
+/** Parameters for DELETE /spots/{spot}/lists/{list}/items/{item} */
+export interface DeleteSpotsBySpotListsByListItemsByItemParams {
+  /** The email address of the user to impersonate */
+  'hs-user'?: string;
+  /** The spot id */
+  spot: string;
+  /** The list id */
+  list: string;
+  /** The item id */
+  item: string;
+}
+
+/** Parameters for POST /spots/{spot}/global-lists */
+export interface PostSpotsBySpotGlobalListsParams {
+  /** The email address of the user to impersonate */
+  'hs-user'?: string;
+  /** The spot id */
+  spot: string;
+  body: schemas.Ids;
+}
+
+/** Parameters for GET /global-lists */
+export interface GetGlobalListsParams {
+  /** The email address of the user to impersonate */
+  'hs-user'?: string;
+}
+
+/** Parameters for POST /global-lists */
+export interface PostGlobalListsParams {
+  /** The email address of the user to impersonate */
+  'hs-user'?: string;
+  /** Parent list to add global list to. Blank, if top-level list. */
+  parent?: string;
+  body: schemas.AddGlobalList;
+}
+
+/** Parameters for PATCH /global-lists/{list} */
+export interface PatchGlobalListsByListParams {
+  /** The email address of the user to impersonate */
+  'hs-user'?: string;
+  /** The list id */
+  list: string;
+  body: schemas.PatchGlobalList;
+}
+
+/** Parameters for DELETE /global-lists/{list} */
+export interface DeleteGlobalListsByListParams {
+  /** The email address of the user to impersonate */
+  'hs-user'?: string;
+  /** The list id */
+  list: string;
+}
+
+/** Parameters for GET /pitches */
+export interface GetPitchesParams {
+  /** The email address of the user to impersonate */
+  'hs-user'?: string;
+  /** The start position of a paged request, starting from 0. */
+  start?: number;
+  /** Maximum number of pitches returned. */
+  limit?: number;
+  /** The ordering of the returned pitches. Sorting options include recent activity (`recent_activity`), alphabetically by name (`alphabetical`), and date created (`date_created`). */
+  sortby?: string;
+}
+
+/** Parameters for GET /domain/custom-usage-labels */
+export interface GetDomainCustomUsageLabelsParams {
+  /** The email address of the user to impersonate */
+  'hs-user'?: string;
+}
+
+/** Parameters for GET /domain/search/promoted */
+export interface GetDomainSearchPromotedParams {
+  /** The email address of the user to impersonate */
+  'hs-user'?: string;
+  /** The start position of a paged request, starting from 0. */
+  start?: number;
+  /** Maximum number of promoted terms returned */
+  limit?: number;
+}
+
+/** Parameters for POST /domain/search/promoted */
+export interface PostDomainSearchPromotedParams {
+  /** The email address of the user to impersonate */
+  'hs-user'?: string;
+  body: schemas.PromotedSearchBody;
+}
+
+/** Parameters for PUT /domain/search/promoted/{term} */
+export interface PutDomainSearchPromotedByTermParams {
+  /** The email address of the user to impersonate */
+  'hs-user'?: string;
+  /** The search term to replace */
+  term: string;
+  body: schemas.PromotedSearchBody;
+}
+
+/** Parameters for DELETE /domain/search/promoted/{term} */
+export interface DeleteDomainSearchPromotedByTermParams {
+  /** The email address of the user to impersonate */
+  'hs-user'?: string;
+  /** The search term to delete */
+  term: string;
+}
+
+/** Parameters for PUT /domain/homepages */
+export interface PutDomainHomepagesParams {
+  /** The email address of the user to impersonate */
+  'hs-user'?: string;
+  body: schemas.CustomHomepageBody;
+}
+
+/** Parameters for PUT /domain/administrative_spots */
+export interface PutDomainAdministrativeSpotsParams {
+  /** The email address of the user to impersonate */
+  'hs-user'?: string;
+  body: schemas.AdministrativeSpots;
+}
+
+/** Parameters for PUT /domain/administrative_groups */
+export interface PutDomainAdministrativeGroupsParams {
+  /** The email address of the user to impersonate */
+  'hs-user'?: string;
+  body: schemas.AdministrativeGroups;
+}
+
+/** Parameters for PUT /domain/cloudservices */
+export interface PutDomainCloudservicesParams {
+  /** The email address of the user to impersonate */
+  'hs-user'?: string;
+  body: schemas.Cloudservices;
+}
+
+/** Parameters for PUT /domain/cloudservices/dynamics */
+export interface PutDomainCloudservicesDynamicsParams {
+  /** The email address of the user to impersonate */
+  'hs-user'?: string;
+  body: schemas.DynamicsConfiguration;
+}
+
+/** Parameters for PUT /domain/cloudservices/salesforce */
+export interface PutDomainCloudservicesSalesforceParams {
+  /** The email address of the user to impersonate */
+  'hs-user'?: string;
+  body: schemas.SalesforceConfiguration;
+}
+
+/** Parameters for GET /requests/{id} */
+export interface GetRequestsByIdParams {
+  /** The id of the asynchronous request */
+  id: string;
+}
+
+/** Parameters for GET /requests/{id}/result */
+export interface GetRequestsByIdResultParams {
+  /** The id of the asynchronous request */
+  id: string;
+}
+
+/** Parameters for GET /privacy/data-subject */
+export interface GetPrivacyDataSubjectParams {
+  /** The email address of the user to impersonate */
+  'hs-user'?: string;
+  /** The start position of a paged request, starting from 0. */
+  start?: number;
+  /** Maximum number of items returned. **Default is 100 items**. **Max limit is 1000 items**. */
+  limit?: number;
+}
+
+/** Parameters for POST /privacy/data-subject/access */
+export interface PostPrivacyDataSubjectAccessParams {
+  /** The email address of the user to impersonate */
+  'hs-user'?: string;
+  body: schemas.PostAccessRequests;
+}
+
+/** Parameters for POST /privacy/data-subject/delete */
+export interface PostPrivacyDataSubjectDeleteParams {
+  /** The email address of the user to impersonate */
+  'hs-user'?: string;
+  body: schemas.PostDeletionRequests;
+}
+
+/** Parameters for GET /privacy/data-subject/{request_id} */
+export interface GetPrivacyDataSubjectByRequestIdParams {
+  /** The email address of the user to impersonate */
+  'hs-user'?: string;
+  /** The privacy_request id */
+  request_id: string;
+}
+
+/** Parameters for GET /skills */
+export interface GetSkillsParams {}
+
+/** Parameters for GET /audit-events */
+export interface GetAuditEventsParams {
+  /** Filter by action */
+  action?: string | null;
+  /** Start time filter for events, time in ISO8601 format */
+  start_time?: string | null;
+  /** End time filter for events, time in ISO8601 format */
+  end_time?: string | null;
+  /** Filter by email */
+  email?: string | null;
+  /** Filter by result */
+  result?: string | null;
+  /** Filter by owner */
+  owner?: string | null;
+  /** Filter by IP address */
+  ip?: string | null;
+  /** Number of events to return */
+  limit?: number;
+  /** Cursor for pagination */
+  cursor?: string | null;
+}
+
+/** Parameters for GET /search/items */
+export interface GetSearchItemsParams {
+  /** The email address of the user to impersonate */
+  'hs-user'?: string;
+  /** The search query */
+  'query-string': string;
+  /** The start position of a paged request, starting from 0. */
+  start?: number;
+  /** Maximum number of items returned. **Default is 10 items**. **Max limit is 100 items**. */
+  limit?: number;
+  /** The ordering of the returned items. Sorting options include relevancy (`relevancy`), and date added (`date_added`). */
+  sortby?: string;
+  /** Additional fields to include in the response specified as a comma separated list. */
+  'with-fields'?: string;
+}
+
+/** Parameters for POST /search/instant-answer */
+export interface PostSearchInstantAnswerParams {
+  /** The email address of the user to impersonate */
+  'hs-user'?: string;
+  /** Query in natural language */
+  'query-string': string;
+}
+
+export const nutellaOperations = {
+  postAssessmentsExternalSurvey: {
+    id: 'postAssessmentsExternalSurvey',
+    method: 'POST',
+    path: '/assessments/external-survey',
+    tag: 'Assessments',
+    summary: 'Create an external survey assessment',
+    parameters: [],
+    requestBody: { contentType: 'application/json', required: false, schema: 'AssessmentRequest', description: 'The external survey assessment details' },
+  },
+  getMe: {
+    id: 'getMe',
+    method: 'GET',
+    path: '/me',
+    tag: 'General',
+    summary: 'Get current user',
+    parameters: [
+      { name: 'hs-user', in: 'header', required: false, type: 'string', description: 'The email address of the user to impersonate' },
+    ],
+  },
+  getUsers: {
+    id: 'getUsers',
+    method: 'GET',
+    path: '/users',
+    tag: 'Users',
+    summary: 'List users',
+    parameters: [
+      { name: 'hs-user', in: 'header', required: false, type: 'string', description: 'The email address of the user to impersonate' },
+      { name: 'email', in: 'query', required: false, type: 'string', description: 'Email name to filter users by' },
+      { name: 'list', in: 'query', required: false, type: 'string', description: 'Will return all verified users by default if not specified\nOther options include, * unverified - return all unverified users * all - return all live users (including both verified and unverified)' },
+      { name: 'with-fields', in: 'query', required: false, type: 'string', description: 'Additional fields to include in the response specified as a comma separated list.\n\nBecause they take additional time to produce, the following fields must be explicitly\nrequested for them to be returned with the user\n* properties\n\nSpecify * to return all of the additional fields available\n\n(Replaces deprecated "fields" input parameter).' },
+      { name: 'exclude-fields', in: 'query', required: false, type: 'string', description: 'Additional fields to exclude in the response specified as a comma separated list\n\nBecause they take additional time to produce, the following fields can be added\nfor them to not be returned with the user\n* groups\n* favorites\n\nSpecify * to exclude all of the additional fields available\n\n(Replaces deprecated "fields" input parameter).' },
+      { name: 'start', in: 'query', required: false, type: 'integer', description: 'The start position of a paged request, starting from 0.' },
+      { name: 'limit', in: 'query', required: false, type: 'integer', description: 'Maximum number of users returned. If not specified it will default to 100' },
+    ],
+  },
+  postUsers: {
+    id: 'postUsers',
+    method: 'POST',
+    path: '/users',
+    tag: 'Users',
+    summary: 'Add or update users',
+    parameters: [
+      { name: 'async', in: 'query', required: false, type: 'boolean', description: 'Whether or not to execute asynchronously' },
+    ],
+    requestBody: { contentType: 'application/json', required: true, schema: 'post-users', description: 'The users to add or update' },
+  },
+  postUsersInvite: {
+    id: 'postUsersInvite',
+    method: 'POST',
+    path: '/users/invite',
+    tag: 'Users',
+    summary: 'Send invites to users',
+    parameters: [
+      { name: 'hs-user', in: 'header', required: false, type: 'string', description: 'The email address of the user to impersonate' },
+    ],
+    requestBody: { contentType: 'application/json', required: true, schema: 'invite-users', description: 'The request body takes a `role` for the users (`Employee` or `Partner`), an optional `message` to send in the email, and a list of `names` as emails.' },
+  },
+  getUsersByUser: {
+    id: 'getUsersByUser',
+    method: 'GET',
+    path: '/users/{user}',
+    tag: 'Users',
+    summary: 'Get metadata',
+    parameters: [
+      { name: 'hs-user', in: 'header', required: false, type: 'string', description: 'The email address of the user to impersonate' },
+      { name: 'user', in: 'path', required: true, type: 'string', description: 'The user id' },
+    ],
+  },
+  patchUsersByUser: {
+    id: 'patchUsersByUser',
+    method: 'PATCH',
+    path: '/users/{user}',
+    tag: 'Users',
+    summary: 'Update metadata',
+    parameters: [
+      { name: 'hs-user', in: 'header', required: false, type: 'string', description: 'The email address of the user to impersonate' },
+      { name: 'user', in: 'path', required: true, type: 'string', description: 'The user id' },
+    ],
+    requestBody: { contentType: 'application/json', required: true, schema: 'patch-user', description: 'The user metadata to update' },
+  },
+  deleteUsersByUser: {
+    id: 'deleteUsersByUser',
+    method: 'DELETE',
+    path: '/users/{user}',
+    tag: 'Users',
+    summary: 'Delete user',
+    parameters: [
+      { name: 'hs-user', in: 'header', required: false, type: 'string', description: 'The email address of the user to impersonate' },
+      { name: 'user', in: 'path', required: true, type: 'string', description: 'The user id' },
+      { name: 'delete-owned-entities', in: 'query', required: false, type: 'boolean', description: 'Whether to delete the user\'s owned spots, pitches, and groups.' },
+      { name: 'new-owner', in: 'query', required: false, type: 'string', description: 'The email of the new owner to transfer spots, pitches, and groups to. (required if delete-owned-entities is false)' },
+      { name: 'delete-references', in: 'query', required: false, type: 'boolean', description: 'Whether to delete reviews and social media activities or preserve.' },
+    ],
+  },
+  putUsersByUserThumbnail: {
+    id: 'putUsersByUserThumbnail',
+    method: 'PUT',
+    path: '/users/{user}/thumbnail',
+    tag: 'Users',
+    summary: 'Set thumbnail',
+    parameters: [
+      { name: 'hs-user', in: 'header', required: false, type: 'string', description: 'The email address of the user to impersonate' },
+      { name: 'user', in: 'path', required: true, type: 'string', description: 'The user id' },
+    ],
+    requestBody: { contentType: 'multipart/form-data', required: true },
+  },
+  getUsersByUserProperties: {
+    id: 'getUsersByUserProperties',
+    method: 'GET',
+    path: '/users/{user}/properties',
+    tag: 'Users',
+    summary: 'Get properties',
+    parameters: [
+      { name: 'hs-user', in: 'header', required: false, type: 'string', description: 'The email address of the user to impersonate' },
+      { name: 'user', in: 'path', required: true, type: 'string', description: 'The user id' },
+    ],
+  },
+  postUsersByUserProperties: {
+    id: 'postUsersByUserProperties',
+    method: 'POST',
+    path: '/users/{user}/properties',
+    tag: 'Users',
+    summary: 'Add or update properties',
+    parameters: [
+      { name: 'hs-user', in: 'header', required: false, type: 'string', description: 'The email address of the user to impersonate' },
+      { name: 'user', in: 'path', required: true, type: 'string', description: 'The user id' },
+    ],
+    requestBody: { contentType: 'application/json', required: true, description: 'The user properties to set' },
+  },
+  putUsersByUserProperties: {
+    id: 'putUsersByUserProperties',
+    method: 'PUT',
+    path: '/users/{user}/properties',
+    tag: 'Users',
+    summary: 'Set properties',
+    parameters: [
+      { name: 'hs-user', in: 'header', required: false, type: 'string', description: 'The email address of the user to impersonate' },
+      { name: 'user', in: 'path', required: true, type: 'string', description: 'The user id' },
+    ],
+    requestBody: { contentType: 'application/json', required: true, description: 'The user properties to set' },
+  },
+  getUsersByUserPropertiesByProperty: {
+    id: 'getUsersByUserPropertiesByProperty',
+    method: 'GET',
+    path: '/users/{user}/properties/{property}',
+    tag: 'Users',
+    summary: 'Get property',
+    parameters: [
+      { name: 'hs-user', in: 'header', required: false, type: 'string', description: 'The email address of the user to impersonate' },
+      { name: 'user', in: 'path', required: true, type: 'string', description: 'The user id' },
+      { name: 'property', in: 'path', required: true, type: 'string', description: 'The property name' },
+    ],
+  },
+  putUsersByUserPropertiesByProperty: {
+    id: 'putUsersByUserPropertiesByProperty',
+    method: 'PUT',
+    path: '/users/{user}/properties/{property}',
+    tag: 'Users',
+    summary: 'Set property',
+    parameters: [
+      { name: 'hs-user', in: 'header', required: false, type: 'string', description: 'The email address of the user to impersonate' },
+      { name: 'user', in: 'path', required: true, type: 'string', description: 'The user id' },
+      { name: 'property', in: 'path', required: true, type: 'string', description: 'The property name' },
+    ],
+    requestBody: { contentType: 'application/json', required: true, schema: 'property-value', description: 'The property value to set' },
+  },
+  deleteUsersByUserPropertiesByProperty: {
+    id: 'deleteUsersByUserPropertiesByProperty',
+    method: 'DELETE',
+    path: '/users/{user}/properties/{property}',
+    tag: 'Users',
+    summary: 'Delete property',
+    parameters: [
+      { name: 'hs-user', in: 'header', required: false, type: 'string', description: 'The email address of the user to impersonate' },
+      { name: 'user', in: 'path', required: true, type: 'string', description: 'The user id' },
+      { name: 'property', in: 'path', required: true, type: 'string', description: 'The property name' },
+    ],
+  },
+  postUserAccountEvents: {
+    id: 'postUserAccountEvents',
+    method: 'POST',
+    path: '/user-account-events',
+    tag: 'Users',
+    summary: 'API to bulk deactivate / reactivate users',
+    parameters: [
+      { name: 'hs-user', in: 'header', required: false, type: 'string', description: 'The email address of the user to impersonate' },
+    ],
+    requestBody: { contentType: 'application/json', required: true, schema: 'post-user-account-events', description: 'The request body takes an array of emails of users, an `event` (deactivate or reactivate), notification (true or false) to send users and an optional `message` to send in the email.' },
+  },
+  getItems: {
+    id: 'getItems',
+    method: 'GET',
+    path: '/items',
+    tag: 'Items',
+    summary: 'List items within a spot',
+    parameters: [
+      { name: 'hs-user', in: 'header', required: false, type: 'string', description: 'The email address of the user to impersonate' },
+      { name: 'spot', in: 'query', required: true, type: 'string', description: 'The spot id' },
+      { name: 'list', in: 'query', required: false, type: 'string', description: 'The list id' },
+      { name: 'start', in: 'query', required: false, type: 'integer', description: 'The start position of a paged request, starting from 0.' },
+      { name: 'limit', in: 'query', required: false, type: 'integer', description: 'Maximum number of items returned. **Default is 100 items**.' },
+    ],
+  },
+  postItems: {
+    id: 'postItems',
+    method: 'POST',
+    path: '/items',
+    tag: 'Items',
+    summary: 'Create item',
+    parameters: [
+      { name: 'hs-user', in: 'header', required: false, type: 'string', description: 'The email address of the user to impersonate' },
+      { name: 'spot', in: 'query', required: true, type: 'string', description: 'The spot in which to create the item' },
+      { name: 'metadata', in: 'query', required: false, type: 'string', description: 'The metadata of the item' },
+    ],
+    requestBody: { contentType: 'application/json', required: true, schema: 'item-spec' },
+  },
+  getItemsByItem: {
+    id: 'getItemsByItem',
+    method: 'GET',
+    path: '/items/{item}',
+    tag: 'Items',
+    summary: 'Get metadata',
+    parameters: [
+      { name: 'hs-user', in: 'header', required: false, type: 'string', description: 'The email address of the user to impersonate' },
+      { name: 'item', in: 'path', required: true, type: 'string', description: 'The item id' },
+    ],
+  },
+  patchItemsByItem: {
+    id: 'patchItemsByItem',
+    method: 'PATCH',
+    path: '/items/{item}',
+    tag: 'Items',
+    summary: 'Update metadata',
+    parameters: [
+      { name: 'hs-user', in: 'header', required: false, type: 'string', description: 'The email address of the user to impersonate' },
+      { name: 'item', in: 'path', required: true, type: 'string', description: 'The item id' },
+    ],
+    requestBody: { contentType: 'application/json', required: true, schema: 'patch-item', description: 'The item metadata to update' },
+  },
+  getItemsByItemBookmarks: {
+    id: 'getItemsByItemBookmarks',
+    method: 'GET',
+    path: '/items/{item}/bookmarks',
+    tag: 'Items',
+    summary: 'Get bookmarks',
+    parameters: [
+      { name: 'hs-user', in: 'header', required: false, type: 'string', description: 'The email address of the user to impersonate' },
+      { name: 'item', in: 'path', required: true, type: 'string', description: 'The item id' },
+    ],
+  },
+  getItemsByItemContent: {
+    id: 'getItemsByItemContent',
+    method: 'GET',
+    path: '/items/{item}/content',
+    tag: 'Items',
+    summary: 'Get content',
+    parameters: [
+      { name: 'hs-user', in: 'header', required: false, type: 'string', description: 'The email address of the user to impersonate' },
+      { name: 'item', in: 'path', required: true, type: 'string', description: 'The item id' },
+      { name: 'format', in: 'query', required: false, type: 'string', description: 'The format to return content as\n\nFor Reports this parameter is required and must be the value \'text/csv\'\n\nFor all other types this parameter is currently ignored' },
+      { name: 'start', in: 'query', required: false, type: 'string', description: 'The start position of a paged request\n\nFor Reports this parameter can be used to override the starting date for the result set\n\nFor all other types this parameter is currently ignored' },
+    ],
+  },
+  getItemsByItemCmsMetadata: {
+    id: 'getItemsByItemCmsMetadata',
+    method: 'GET',
+    path: '/items/{item}/cms/metadata',
+    tag: 'Items',
+    summary: 'Get CMS metadata',
+    parameters: [
+      { name: 'hs-user', in: 'header', required: false, type: 'string', description: 'The email address of the user to impersonate' },
+      { name: 'item', in: 'path', required: true, type: 'string', description: 'The item id' },
+    ],
+  },
+  putItemsByItemThumbnail: {
+    id: 'putItemsByItemThumbnail',
+    method: 'PUT',
+    path: '/items/{item}/thumbnail',
+    tag: 'Items',
+    summary: 'Set thumbnail',
+    parameters: [
+      { name: 'hs-user', in: 'header', required: false, type: 'string', description: 'The email address of the user to impersonate' },
+      { name: 'item', in: 'path', required: true, type: 'string', description: 'The item id' },
+    ],
+    requestBody: { contentType: 'multipart/form-data', required: true },
+  },
+  getItemsByItemThumbnails: {
+    id: 'getItemsByItemThumbnails',
+    method: 'GET',
+    path: '/items/{item}/thumbnails',
+    tag: 'Items',
+    summary: 'Get thumbnails',
+    parameters: [
+      { name: 'hs-user', in: 'header', required: false, type: 'string', description: 'The email address of the user to impersonate' },
+      { name: 'item', in: 'path', required: true, type: 'string', description: 'The item id' },
+    ],
+  },
+  getItemsByItemProperties: {
+    id: 'getItemsByItemProperties',
+    method: 'GET',
+    path: '/items/{item}/properties',
+    tag: 'Items',
+    summary: 'Get properties',
+    parameters: [
+      { name: 'hs-user', in: 'header', required: false, type: 'string', description: 'The email address of the user to impersonate' },
+      { name: 'item', in: 'path', required: true, type: 'string', description: 'The item id' },
+    ],
+  },
+  postItemsByItemProperties: {
+    id: 'postItemsByItemProperties',
+    method: 'POST',
+    path: '/items/{item}/properties',
+    tag: 'Items',
+    summary: 'Add or update properties',
+    parameters: [
+      { name: 'hs-user', in: 'header', required: false, type: 'string', description: 'The email address of the user to impersonate' },
+      { name: 'item', in: 'path', required: true, type: 'string', description: 'The item id' },
+    ],
+    requestBody: { contentType: 'application/json', required: true, description: 'The item properties to set' },
+  },
+  putItemsByItemProperties: {
+    id: 'putItemsByItemProperties',
+    method: 'PUT',
+    path: '/items/{item}/properties',
+    tag: 'Items',
+    summary: 'Set properties',
+    parameters: [
+      { name: 'hs-user', in: 'header', required: false, type: 'string', description: 'The email address of the user to impersonate' },
+      { name: 'item', in: 'path', required: true, type: 'string', description: 'The item id' },
+    ],
+    requestBody: { contentType: 'application/json', required: true, description: 'The item properties to set' },
+  },
+  getItemsByItemPropertiesByProperty: {
+    id: 'getItemsByItemPropertiesByProperty',
+    method: 'GET',
+    path: '/items/{item}/properties/{property}',
+    tag: 'Items',
+    summary: 'Get property',
+    parameters: [
+      { name: 'hs-user', in: 'header', required: false, type: 'string', description: 'The email address of the user to impersonate' },
+      { name: 'item', in: 'path', required: true, type: 'string', description: 'The item id' },
+      { name: 'property', in: 'path', required: true, type: 'string', description: 'The property name' },
+    ],
+  },
+  putItemsByItemPropertiesByProperty: {
+    id: 'putItemsByItemPropertiesByProperty',
+    method: 'PUT',
+    path: '/items/{item}/properties/{property}',
+    tag: 'Items',
+    summary: 'Set property',
+    parameters: [
+      { name: 'hs-user', in: 'header', required: false, type: 'string', description: 'The email address of the user to impersonate' },
+      { name: 'item', in: 'path', required: true, type: 'string', description: 'The item id' },
+      { name: 'property', in: 'path', required: true, type: 'string', description: 'The property name' },
+    ],
+    requestBody: { contentType: 'application/json', required: true, schema: 'property-value', description: 'The property value to set' },
+  },
+  deleteItemsByItemPropertiesByProperty: {
+    id: 'deleteItemsByItemPropertiesByProperty',
+    method: 'DELETE',
+    path: '/items/{item}/properties/{property}',
+    tag: 'Items',
+    summary: 'Delete property',
+    parameters: [
+      { name: 'hs-user', in: 'header', required: false, type: 'string', description: 'The email address of the user to impersonate' },
+      { name: 'item', in: 'path', required: true, type: 'string', description: 'The item id' },
+      { name: 'property', in: 'path', required: true, type: 'string', description: 'The property name' },
+    ],
+  },
+  postItemsByItemVersions: {
+    id: 'postItemsByItemVersions',
+    method: 'POST',
+    path: '/items/{item}/versions',
+    tag: 'Items',
+    summary: 'Add a new version of an item',
+    parameters: [
+      { name: 'hs-user', in: 'header', required: false, type: 'string', description: 'The email address of the user to impersonate' },
+      { name: 'item', in: 'path', required: true, type: 'string', description: 'The item id' },
+      { name: 'metadata', in: 'query', required: false, type: 'string', description: 'The metadata of the item' },
+    ],
+    requestBody: { contentType: 'application/json', required: false, schema: 'item-spec' },
+  },
+  postItemsBatch: {
+    id: 'postItemsBatch',
+    method: 'POST',
+    path: '/items/batch',
+    tag: 'Items',
+    summary: 'Perform bulk archive, bookmark, delete, move and set expiration date operations',
+    parameters: [
+      { name: 'hs-user', in: 'header', required: false, type: 'string', description: 'The email address of the user to impersonate' },
+    ],
+    requestBody: { contentType: 'application/json', required: true, description: 'The specification of the item to update' },
+  },
+  putItemsByItemWeblink: {
+    id: 'putItemsByItemWeblink',
+    method: 'PUT',
+    path: '/items/{item}/weblink',
+    tag: 'Items',
+    summary: 'Change URL of a weblink item',
+    parameters: [
+      { name: 'hs-user', in: 'header', required: false, type: 'string', description: 'The email address of the user to impersonate' },
+      { name: 'item', in: 'path', required: true, type: 'string', description: 'The item id' },
+    ],
+    requestBody: { contentType: 'application/json', required: true, schema: 'item-weblink-url', description: 'The URL value to set' },
+  },
+  getGroups: {
+    id: 'getGroups',
+    method: 'GET',
+    path: '/groups',
+    tag: 'Groups',
+    summary: 'List groups',
+    parameters: [
+      { name: 'hs-user', in: 'header', required: false, type: 'string', description: 'The email address of the user to impersonate' },
+      { name: 'role', in: 'query', required: false, type: 'string', description: 'Role to filter groups by' },
+      { name: 'right', in: 'query', required: false, type: 'string', description: 'Right to filter groups by' },
+      { name: 'start', in: 'query', required: false, type: 'integer', description: 'The start position of a paged request, starting from 0.' },
+      { name: 'limit', in: 'query', required: false, type: 'integer', description: 'Maximum number of groups returned' },
+    ],
+  },
+  postGroups: {
+    id: 'postGroups',
+    method: 'POST',
+    path: '/groups',
+    tag: 'Groups',
+    summary: 'Create group',
+    parameters: [
+      { name: 'hs-user', in: 'header', required: false, type: 'string', description: 'The email address of the user to impersonate' },
+    ],
+    requestBody: { contentType: 'application/json', required: true, schema: 'group-post', description: 'The group details * title (required) * description * visibility - possible values are: private, public, shared_and_members, shared' },
+  },
+  getGroupsByGroup: {
+    id: 'getGroupsByGroup',
+    method: 'GET',
+    path: '/groups/{group}',
+    tag: 'Groups',
+    summary: 'Get metadata',
+    parameters: [
+      { name: 'hs-user', in: 'header', required: false, type: 'string', description: 'The email address of the user to impersonate' },
+      { name: 'group', in: 'path', required: true, type: 'string', description: 'The group id' },
+    ],
+  },
+  patchGroupsByGroup: {
+    id: 'patchGroupsByGroup',
+    method: 'PATCH',
+    path: '/groups/{group}',
+    tag: 'Groups',
+    summary: 'Update metadata',
+    parameters: [
+      { name: 'hs-user', in: 'header', required: false, type: 'string', description: 'The email address of the user to impersonate' },
+      { name: 'group', in: 'path', required: true, type: 'string', description: 'The group id' },
+    ],
+    requestBody: { contentType: 'application/json', required: true, schema: 'patch-group', description: 'The group metadata to update' },
+  },
+  getGroupsByGroupMembers: {
+    id: 'getGroupsByGroupMembers',
+    method: 'GET',
+    path: '/groups/{group}/members',
+    tag: 'Groups',
+    summary: 'List members',
+    parameters: [
+      { name: 'hs-user', in: 'header', required: false, type: 'string', description: 'The email address of the user to impersonate' },
+      { name: 'group', in: 'path', required: true, type: 'string', description: 'The group id' },
+      { name: 'start', in: 'query', required: false, type: 'integer', description: 'The start position of a paged request, starting from 0.' },
+      { name: 'limit', in: 'query', required: false, type: 'integer', description: 'Maximum number of members returned' },
+    ],
+  },
+  postGroupsByGroupMembers: {
+    id: 'postGroupsByGroupMembers',
+    method: 'POST',
+    path: '/groups/{group}/members',
+    tag: 'Groups',
+    summary: 'Add members',
+    parameters: [
+      { name: 'hs-user', in: 'header', required: false, type: 'string', description: 'The email address of the user to impersonate' },
+      { name: 'group', in: 'path', required: true, type: 'string', description: 'The group id' },
+    ],
+    requestBody: { contentType: 'application/json', required: true, schema: 'ids', description: 'The user ids of the users to add to the group' },
+  },
+  deleteGroupsByGroupMembersByMember: {
+    id: 'deleteGroupsByGroupMembersByMember',
+    method: 'DELETE',
+    path: '/groups/{group}/members/{member}',
+    tag: 'Groups',
+    summary: 'Remove member',
+    parameters: [
+      { name: 'hs-user', in: 'header', required: false, type: 'string', description: 'The email address of the user to impersonate' },
+      { name: 'group', in: 'path', required: true, type: 'string', description: 'The group id' },
+      { name: 'member', in: 'path', required: true, type: 'string', description: 'The user id' },
+    ],
+  },
+  getGroupsByGroupProperties: {
+    id: 'getGroupsByGroupProperties',
+    method: 'GET',
+    path: '/groups/{group}/properties',
+    tag: 'Groups',
+    summary: 'Get properties',
+    parameters: [
+      { name: 'hs-user', in: 'header', required: false, type: 'string', description: 'The email address of the user to impersonate' },
+      { name: 'group', in: 'path', required: true, type: 'string', description: 'The group id' },
+    ],
+  },
+  postGroupsByGroupProperties: {
+    id: 'postGroupsByGroupProperties',
+    method: 'POST',
+    path: '/groups/{group}/properties',
+    tag: 'Groups',
+    summary: 'Add or update properties',
+    parameters: [
+      { name: 'hs-user', in: 'header', required: false, type: 'string', description: 'The email address of the user to impersonate' },
+      { name: 'group', in: 'path', required: true, type: 'string', description: 'The group id' },
+    ],
+    requestBody: { contentType: 'application/json', required: true, description: 'The group properties to set' },
+  },
+  putGroupsByGroupProperties: {
+    id: 'putGroupsByGroupProperties',
+    method: 'PUT',
+    path: '/groups/{group}/properties',
+    tag: 'Groups',
+    summary: 'Set properties',
+    parameters: [
+      { name: 'hs-user', in: 'header', required: false, type: 'string', description: 'The email address of the user to impersonate' },
+      { name: 'group', in: 'path', required: true, type: 'string', description: 'The group id' },
+    ],
+    requestBody: { contentType: 'application/json', required: true, description: 'The group properties to set' },
+  },
+  getGroupsByGroupPropertiesByProperty: {
+    id: 'getGroupsByGroupPropertiesByProperty',
+    method: 'GET',
+    path: '/groups/{group}/properties/{property}',
+    tag: 'Groups',
+    summary: 'Get property',
+    parameters: [
+      { name: 'hs-user', in: 'header', required: false, type: 'string', description: 'The email address of the user to impersonate' },
+      { name: 'group', in: 'path', required: true, type: 'string', description: 'The group id' },
+      { name: 'property', in: 'path', required: true, type: 'string', description: 'The property name' },
+    ],
+  },
+  putGroupsByGroupPropertiesByProperty: {
+    id: 'putGroupsByGroupPropertiesByProperty',
+    method: 'PUT',
+    path: '/groups/{group}/properties/{property}',
+    tag: 'Groups',
+    summary: 'Set property',
+    parameters: [
+      { name: 'hs-user', in: 'header', required: false, type: 'string', description: 'The email address of the user to impersonate' },
+      { name: 'group', in: 'path', required: true, type: 'string', description: 'The group id' },
+      { name: 'property', in: 'path', required: true, type: 'string', description: 'The property name' },
+    ],
+    requestBody: { contentType: 'application/json', required: true, schema: 'property-value', description: 'The property value to set' },
+  },
+  deleteGroupsByGroupPropertiesByProperty: {
+    id: 'deleteGroupsByGroupPropertiesByProperty',
+    method: 'DELETE',
+    path: '/groups/{group}/properties/{property}',
+    tag: 'Groups',
+    summary: 'Remove property',
+    parameters: [
+      { name: 'hs-user', in: 'header', required: false, type: 'string', description: 'The email address of the user to impersonate' },
+      { name: 'group', in: 'path', required: true, type: 'string', description: 'The group id' },
+      { name: 'property', in: 'path', required: true, type: 'string', description: 'The property name' },
+    ],
+  },
+  postGroupsByGroupSettingsPermissions: {
+    id: 'postGroupsByGroupSettingsPermissions',
+    method: 'POST',
+    path: '/groups/{group}/settings/permissions',
+    tag: 'Groups',
+    summary: 'Update permissions to the group',
+    parameters: [
+      { name: 'hs-user', in: 'header', required: false, type: 'string', description: 'The email address of the user to impersonate' },
+      { name: 'group', in: 'path', required: true, type: 'string', description: 'The group id' },
+    ],
+    requestBody: { contentType: 'application/json', required: true, schema: 'post-group-settings-permissions' },
+  },
+  putGroupsByGroupSettingsVisibility: {
+    id: 'putGroupsByGroupSettingsVisibility',
+    method: 'PUT',
+    path: '/groups/{group}/settings/visibility',
+    tag: 'Groups',
+    summary: 'Update the group’s visibility settings',
+    parameters: [
+      { name: 'hs-user', in: 'header', required: false, type: 'string', description: 'The email address of the user to impersonate' },
+      { name: 'group', in: 'path', required: true, type: 'string', description: 'The group id' },
+    ],
+    requestBody: { contentType: 'application/json', required: true, schema: 'put-group-settings-visibility' },
+  },
+  putGroupsByGroupSettingsBasics: {
+    id: 'putGroupsByGroupSettingsBasics',
+    method: 'PUT',
+    path: '/groups/{group}/settings/basics',
+    tag: 'Groups',
+    summary: 'Update the group’s settings',
+    parameters: [
+      { name: 'hs-user', in: 'header', required: false, type: 'string', description: 'The email address of the user to impersonate' },
+      { name: 'group', in: 'path', required: true, type: 'string', description: 'The group id' },
+    ],
+    requestBody: { contentType: 'application/json', required: true, schema: 'put-group-settings-basics' },
+  },
+  getSpots: {
+    id: 'getSpots',
+    method: 'GET',
+    path: '/spots',
+    tag: 'Spots',
+    summary: 'List spots',
+    parameters: [
+      { name: 'hs-user', in: 'header', required: false, type: 'string', description: 'The email address of the user to impersonate' },
+      { name: 'role', in: 'query', required: false, type: 'string', description: 'Role to filter spots by' },
+      { name: 'right', in: 'query', required: false, type: 'string', description: 'Right to filter spots by' },
+      { name: 'is-official', in: 'query', required: false, type: 'boolean', description: 'Filter by if is official' },
+      { name: 'start', in: 'query', required: false, type: 'integer', description: 'The start position of a paged request, starting from 0.' },
+      { name: 'limit', in: 'query', required: false, type: 'integer', description: 'Maximum number of spots returned. **Maximum is 100 for Spot Super Admins**.' },
+    ],
+  },
+  postSpots: {
+    id: 'postSpots',
+    method: 'POST',
+    path: '/spots',
+    tag: 'Spots',
+    summary: 'Create spot',
+    parameters: [
+      { name: 'hs-user', in: 'header', required: false, type: 'string', description: 'The email address of the user to impersonate' },
+    ],
+    requestBody: { contentType: 'application/json', required: true, schema: 'spot-post', description: 'The spot details' },
+  },
+  getSpotsBySpot: {
+    id: 'getSpotsBySpot',
+    method: 'GET',
+    path: '/spots/{spot}',
+    tag: 'Spots',
+    summary: 'Get metadata',
+    parameters: [
+      { name: 'hs-user', in: 'header', required: false, type: 'string', description: 'The email address of the user to impersonate' },
+      { name: 'spot', in: 'path', required: true, type: 'string', description: 'The spot id' },
+    ],
+  },
+  patchSpotsBySpot: {
+    id: 'patchSpotsBySpot',
+    method: 'PATCH',
+    path: '/spots/{spot}',
+    tag: 'Spots',
+    summary: 'Update metadata',
+    parameters: [
+      { name: 'hs-user', in: 'header', required: false, type: 'string', description: 'The email address of the user to impersonate' },
+      { name: 'spot', in: 'path', required: true, type: 'string', description: 'The spot id' },
+    ],
+    requestBody: { contentType: 'application/json', required: true, schema: 'patch-spot', description: 'The spot metadata to update * title - Updates spot title * description - Updates the spot description * is_official - Updates the "official_content" property for a Spot. Possible values are true/false * visibility - possible values are: private, public, shared * NOTE - visibility cannot be set with other fields' },
+  },
+  deleteSpotsBySpot: {
+    id: 'deleteSpotsBySpot',
+    method: 'DELETE',
+    path: '/spots/{spot}',
+    tag: 'Spots',
+    summary: 'Delete spot',
+    parameters: [
+      { name: 'hs-user', in: 'header', required: false, type: 'string', description: 'The email address of the user to impersonate' },
+      { name: 'spot', in: 'path', required: true, type: 'string', description: 'The spot id' },
+    ],
+  },
+  postSpotsBySpotUsers: {
+    id: 'postSpotsBySpotUsers',
+    method: 'POST',
+    path: '/spots/{spot}/users',
+    tag: 'Spots',
+    summary: 'Add users',
+    parameters: [
+      { name: 'hs-user', in: 'header', required: false, type: 'string', description: 'The email address of the user to impersonate' },
+      { name: 'spot', in: 'path', required: true, type: 'string', description: 'The spot id' },
+      { name: 'message', in: 'query', required: false, type: 'string', description: 'Optional note for users being added to the spot. (blank to not notify users)' },
+      { name: 'role', in: 'query', required: true, type: 'string', description: 'Role of users or groups to set.' },
+    ],
+    requestBody: { contentType: 'application/json', required: false, schema: 'spot-users', description: 'The user emails and group ids of the groups to add to the spot' },
+  },
+  getSpotsBySpotLists: {
+    id: 'getSpotsBySpotLists',
+    method: 'GET',
+    path: '/spots/{spot}/lists',
+    tag: 'Lists',
+    summary: 'List local and global lists',
+    parameters: [
+      { name: 'hs-user', in: 'header', required: false, type: 'string', description: 'The email address of the user to impersonate' },
+      { name: 'spot', in: 'path', required: true, type: 'string', description: 'The spot id' },
+    ],
+  },
+  postSpotsBySpotLists: {
+    id: 'postSpotsBySpotLists',
+    method: 'POST',
+    path: '/spots/{spot}/lists',
+    tag: 'Lists',
+    summary: 'Add local list',
+    parameters: [
+      { name: 'hs-user', in: 'header', required: false, type: 'string', description: 'The email address of the user to impersonate' },
+      { name: 'spot', in: 'path', required: true, type: 'string', description: 'The spot id' },
+    ],
+    requestBody: { contentType: 'application/json', required: true, schema: 'add-list', description: 'The list to add' },
+  },
+  deleteSpotsBySpotListsByList: {
+    id: 'deleteSpotsBySpotListsByList',
+    method: 'DELETE',
+    path: '/spots/{spot}/lists/{list}',
+    tag: 'Lists',
+    summary: 'Delete local list',
+    parameters: [
+      { name: 'hs-user', in: 'header', required: false, type: 'string', description: 'The email address of the user to impersonate' },
+      { name: 'spot', in: 'path', required: true, type: 'string', description: 'The spot id' },
+      { name: 'list', in: 'path', required: true, type: 'string', description: 'The list id' },
+    ],
+  },
+  postSpotsBySpotListsByListItems: {
+    id: 'postSpotsBySpotListsByListItems',
+    method: 'POST',
+    path: '/spots/{spot}/lists/{list}/items',
+    tag: 'Lists',
+    summary: 'Adds items to global or local list in spot.',
+    parameters: [
+      { name: 'hs-user', in: 'header', required: false, type: 'string', description: 'The email address of the user to impersonate' },
+      { name: 'spot', in: 'path', required: true, type: 'string', description: 'The spot id' },
+      { name: 'list', in: 'path', required: true, type: 'string', description: 'The list id' },
+    ],
+    requestBody: { contentType: 'application/json', required: true, schema: 'ids', description: 'The item ids of the items to add to the list' },
+  },
+  deleteSpotsBySpotListsByListItemsByItem: {
+    id: 'deleteSpotsBySpotListsByListItemsByItem',
+    method: 'DELETE',
+    path: '/spots/{spot}/lists/{list}/items/{item}',
+    tag: 'Lists',
+    summary: 'Removes item from a list',
+    parameters: [
+      { name: 'hs-user', in: 'header', required: false, type: 'string', description: 'The email address of the user to impersonate' },
+      { name: 'spot', in: 'path', required: true, type: 'string', description: 'The spot id' },
+      { name: 'list', in: 'path', required: true, type: 'string', description: 'The list id' },
+      { name: 'item', in: 'path', required: true, type: 'string', description: 'The item id' },
+    ],
+  },
+  postSpotsBySpotGlobalLists: {
+    id: 'postSpotsBySpotGlobalLists',
+    method: 'POST',
+    path: '/spots/{spot}/global-lists',
+    tag: 'Lists',
+    summary: 'Add global lists to spot',
+    parameters: [
+      { name: 'hs-user', in: 'header', required: false, type: 'string', description: 'The email address of the user to impersonate' },
+      { name: 'spot', in: 'path', required: true, type: 'string', description: 'The spot id' },
+    ],
+    requestBody: { contentType: 'application/json', required: true, schema: 'ids', description: 'The list ids of the global-lists to add to the spot' },
+  },
+  getGlobalLists: {
+    id: 'getGlobalLists',
+    method: 'GET',
+    path: '/global-lists',
+    tag: 'Lists',
+    summary: 'List global lists',
+    parameters: [
+      { name: 'hs-user', in: 'header', required: false, type: 'string', description: 'The email address of the user to impersonate' },
+    ],
+  },
+  postGlobalLists: {
+    id: 'postGlobalLists',
+    method: 'POST',
+    path: '/global-lists',
+    tag: 'Lists',
+    summary: 'Add global list',
+    parameters: [
+      { name: 'hs-user', in: 'header', required: false, type: 'string', description: 'The email address of the user to impersonate' },
+      { name: 'parent', in: 'query', required: false, type: 'string', description: 'Parent list to add global list to. Blank, if top-level list.' },
+    ],
+    requestBody: { contentType: 'application/json', required: true, schema: 'add-global-list', description: 'List details: * `name` (required) * `description` * `type` - possible values: list, list_group. (Defaults to list, or list_group if list has children or is top-level.) * `children` - recursive collection of lists' },
+  },
+  patchGlobalListsByList: {
+    id: 'patchGlobalListsByList',
+    method: 'PATCH',
+    path: '/global-lists/{list}',
+    tag: 'Lists',
+    summary: 'Update global list metadata',
+    parameters: [
+      { name: 'hs-user', in: 'header', required: false, type: 'string', description: 'The email address of the user to impersonate' },
+      { name: 'list', in: 'path', required: true, type: 'string', description: 'The list id' },
+    ],
+    requestBody: { contentType: 'application/json', required: true, schema: 'patch-global-list', description: 'The global list metadata to update' },
+  },
+  deleteGlobalListsByList: {
+    id: 'deleteGlobalListsByList',
+    method: 'DELETE',
+    path: '/global-lists/{list}',
+    tag: 'Lists',
+    summary: 'Delete global list',
+    parameters: [
+      { name: 'hs-user', in: 'header', required: false, type: 'string', description: 'The email address of the user to impersonate' },
+      { name: 'list', in: 'path', required: true, type: 'string', description: 'The list id' },
+    ],
+  },
+  getPitches: {
+    id: 'getPitches',
+    method: 'GET',
+    path: '/pitches',
+    tag: 'Pitches',
+    summary: 'List Pitches',
+    parameters: [
+      { name: 'hs-user', in: 'header', required: false, type: 'string', description: 'The email address of the user to impersonate' },
+      { name: 'start', in: 'query', required: false, type: 'integer', description: 'The start position of a paged request, starting from 0.' },
+      { name: 'limit', in: 'query', required: false, type: 'integer', description: 'Maximum number of pitches returned.' },
+      { name: 'sortby', in: 'query', required: false, type: 'string', description: 'The ordering of the returned pitches. Sorting options include recent activity (`recent_activity`), alphabetically by name (`alphabetical`), and date created (`date_created`).' },
+    ],
+  },
+  getDomainCustomUsageLabels: {
+    id: 'getDomainCustomUsageLabels',
+    method: 'GET',
+    path: '/domain/custom-usage-labels',
+    tag: 'Domain',
+    summary: 'List custom usage labels',
+    parameters: [
+      { name: 'hs-user', in: 'header', required: false, type: 'string', description: 'The email address of the user to impersonate' },
+    ],
+  },
+  getDomainSearchPromoted: {
+    id: 'getDomainSearchPromoted',
+    method: 'GET',
+    path: '/domain/search/promoted',
+    tag: 'Domain',
+    summary: 'Get existing promoted search results',
+    parameters: [
+      { name: 'hs-user', in: 'header', required: false, type: 'string', description: 'The email address of the user to impersonate' },
+      { name: 'start', in: 'query', required: false, type: 'integer', description: 'The start position of a paged request, starting from 0.' },
+      { name: 'limit', in: 'query', required: false, type: 'integer', description: 'Maximum number of promoted terms returned' },
+    ],
+  },
+  postDomainSearchPromoted: {
+    id: 'postDomainSearchPromoted',
+    method: 'POST',
+    path: '/domain/search/promoted',
+    tag: 'Domain',
+    summary: 'Create a Promoted Search Result',
+    parameters: [
+      { name: 'hs-user', in: 'header', required: false, type: 'string', description: 'The email address of the user to impersonate' },
+    ],
+    requestBody: { contentType: 'application/json', required: true, schema: 'promoted-search-body', description: 'The search term and associated item ids' },
+  },
+  putDomainSearchPromotedByTerm: {
+    id: 'putDomainSearchPromotedByTerm',
+    method: 'PUT',
+    path: '/domain/search/promoted/{term}',
+    tag: 'Domain',
+    summary: 'Replace a Promoted Search Result',
+    parameters: [
+      { name: 'hs-user', in: 'header', required: false, type: 'string', description: 'The email address of the user to impersonate' },
+      { name: 'term', in: 'path', required: true, type: 'string', description: 'The search term to replace' },
+    ],
+    requestBody: { contentType: 'application/json', required: true, schema: 'promoted-search-body', description: 'The new search term and item ids' },
+  },
+  deleteDomainSearchPromotedByTerm: {
+    id: 'deleteDomainSearchPromotedByTerm',
+    method: 'DELETE',
+    path: '/domain/search/promoted/{term}',
+    tag: 'Domain',
+    summary: 'Deletes a Promoted Search Result',
+    parameters: [
+      { name: 'hs-user', in: 'header', required: false, type: 'string', description: 'The email address of the user to impersonate' },
+      { name: 'term', in: 'path', required: true, type: 'string', description: 'The search term to delete' },
+    ],
+  },
+  putDomainHomepages: {
+    id: 'putDomainHomepages',
+    method: 'PUT',
+    path: '/domain/homepages',
+    tag: 'Domain',
+    summary: 'Set custom homepages',
+    parameters: [
+      { name: 'hs-user', in: 'header', required: false, type: 'string', description: 'The email address of the user to impersonate' },
+    ],
+    requestBody: { contentType: 'application/json', required: true, schema: 'custom-homepage-body', description: 'The homepage rules to set' },
+  },
+  putDomainAdministrativeSpots: {
+    id: 'putDomainAdministrativeSpots',
+    method: 'PUT',
+    path: '/domain/administrative_spots',
+    tag: 'Domain',
+    summary: 'Set administrative spots',
+    parameters: [
+      { name: 'hs-user', in: 'header', required: false, type: 'string', description: 'The email address of the user to impersonate' },
+    ],
+    requestBody: { contentType: 'application/json', required: true, schema: 'administrative-spots', description: 'The administrative spots to set' },
+  },
+  putDomainAdministrativeGroups: {
+    id: 'putDomainAdministrativeGroups',
+    method: 'PUT',
+    path: '/domain/administrative_groups',
+    tag: 'Domain',
+    summary: 'Set administrative groups',
+    parameters: [
+      { name: 'hs-user', in: 'header', required: false, type: 'string', description: 'The email address of the user to impersonate' },
+    ],
+    requestBody: { contentType: 'application/json', required: true, schema: 'administrative-groups', description: 'The administrative groups to set' },
+  },
+  putDomainCloudservices: {
+    id: 'putDomainCloudservices',
+    method: 'PUT',
+    path: '/domain/cloudservices',
+    tag: 'Domain',
+    summary: 'Set cloudservices',
+    parameters: [
+      { name: 'hs-user', in: 'header', required: false, type: 'string', description: 'The email address of the user to impersonate' },
+    ],
+    requestBody: { contentType: 'application/json', required: true, schema: 'cloudservices', description: 'The settings to change' },
+  },
+  putDomainCloudservicesDynamics: {
+    id: 'putDomainCloudservicesDynamics',
+    method: 'PUT',
+    path: '/domain/cloudservices/dynamics',
+    tag: 'Domain',
+    summary: 'Set Dynamics configuration',
+    parameters: [
+      { name: 'hs-user', in: 'header', required: false, type: 'string', description: 'The email address of the user to impersonate' },
+    ],
+    requestBody: { contentType: 'application/json', required: true, schema: 'dynamics-configuration', description: 'The Dynamics configuration options' },
+  },
+  putDomainCloudservicesSalesforce: {
+    id: 'putDomainCloudservicesSalesforce',
+    method: 'PUT',
+    path: '/domain/cloudservices/salesforce',
+    tag: 'Domain',
+    summary: 'Set Salesforce configuration',
+    parameters: [
+      { name: 'hs-user', in: 'header', required: false, type: 'string', description: 'The email address of the user to impersonate' },
+    ],
+    requestBody: { contentType: 'application/json', required: true, schema: 'salesforce-configuration', description: 'The Salesforce configuration options' },
+  },
+  getRequestsById: {
+    id: 'getRequestsById',
+    method: 'GET',
+    path: '/requests/{id}',
+    tag: 'Requests',
+    summary: 'Get asynchronous request status',
+    parameters: [
+      { name: 'id', in: 'path', required: true, type: 'string', description: 'The id of the asynchronous request' },
+    ],
+  },
+  getRequestsByIdResult: {
+    id: 'getRequestsByIdResult',
+    method: 'GET',
+    path: '/requests/{id}/result',
+    tag: 'Requests',
+    summary: 'Get asynchronous request result',
+    parameters: [
+      { name: 'id', in: 'path', required: true, type: 'string', description: 'The id of the asynchronous request' },
+    ],
+  },
+  getPrivacyDataSubject: {
+    id: 'getPrivacyDataSubject',
+    method: 'GET',
+    path: '/privacy/data-subject',
+    tag: 'Privacy',
+    summary: 'Get all data subject requests from the Privacy Center',
+    parameters: [
+      { name: 'hs-user', in: 'header', required: false, type: 'string', description: 'The email address of the user to impersonate' },
+      { name: 'start', in: 'query', required: false, type: 'integer', description: 'The start position of a paged request, starting from 0.' },
+      { name: 'limit', in: 'query', required: false, type: 'integer', description: 'Maximum number of items returned. **Default is 100 items**. **Max limit is 1000 items**.' },
+    ],
+  },
+  postPrivacyDataSubjectAccess: {
+    id: 'postPrivacyDataSubjectAccess',
+    method: 'POST',
+    path: '/privacy/data-subject/access',
+    tag: 'Privacy',
+    summary: 'Create data subject access requests',
+    parameters: [
+      { name: 'hs-user', in: 'header', required: false, type: 'string', description: 'The email address of the user to impersonate' },
+    ],
+    requestBody: { contentType: 'application/json', required: true, schema: 'post-access-requests' },
+  },
+  postPrivacyDataSubjectDelete: {
+    id: 'postPrivacyDataSubjectDelete',
+    method: 'POST',
+    path: '/privacy/data-subject/delete',
+    tag: 'Privacy',
+    summary: 'Create data subject deletion requests',
+    parameters: [
+      { name: 'hs-user', in: 'header', required: false, type: 'string', description: 'The email address of the user to impersonate' },
+    ],
+    requestBody: { contentType: 'application/json', required: true, schema: 'post-deletion-requests' },
+  },
+  getPrivacyDataSubjectByRequestId: {
+    id: 'getPrivacyDataSubjectByRequestId',
+    method: 'GET',
+    path: '/privacy/data-subject/{request_id}',
+    tag: 'Privacy',
+    summary: 'Get a specific data subject request from the Privacy Center',
+    parameters: [
+      { name: 'hs-user', in: 'header', required: false, type: 'string', description: 'The email address of the user to impersonate' },
+      { name: 'request_id', in: 'path', required: true, type: 'string', description: 'The privacy_request id' },
+    ],
+  },
+  getSkills: {
+    id: 'getSkills',
+    method: 'GET',
+    path: '/skills',
+    tag: 'Skills',
+    summary: 'List skills of the domain of the requesting API user',
+    parameters: [],
+  },
+  getAuditEvents: {
+    id: 'getAuditEvents',
+    method: 'GET',
+    path: '/audit-events',
+    tag: 'Audit-events',
+    summary: 'List audit events for the domain of the requesting API user',
+    parameters: [
+      { name: 'action', in: 'query', required: false, type: 'string', description: 'Filter by action' },
+      { name: 'start_time', in: 'query', required: false, type: 'string', description: 'Start time filter for events, time in ISO8601 format' },
+      { name: 'end_time', in: 'query', required: false, type: 'string', description: 'End time filter for events, time in ISO8601 format' },
+      { name: 'email', in: 'query', required: false, type: 'string', description: 'Filter by email' },
+      { name: 'result', in: 'query', required: false, type: 'string', description: 'Filter by result' },
+      { name: 'owner', in: 'query', required: false, type: 'string', description: 'Filter by owner' },
+      { name: 'ip', in: 'query', required: false, type: 'string', description: 'Filter by IP address' },
+      { name: 'limit', in: 'query', required: false, type: 'integer', description: 'Number of events to return' },
+      { name: 'cursor', in: 'query', required: false, type: 'string', description: 'Cursor for pagination' },
+    ],
+  },
+  getSearchItems: {
+    id: 'getSearchItems',
+    method: 'GET',
+    path: '/search/items',
+    tag: 'Search',
+    summary: 'List items for a search query',
+    parameters: [
+      { name: 'hs-user', in: 'header', required: false, type: 'string', description: 'The email address of the user to impersonate' },
+      { name: 'query-string', in: 'query', required: true, type: 'string', description: 'The search query' },
+      { name: 'start', in: 'query', required: false, type: 'integer', description: 'The start position of a paged request, starting from 0.' },
+      { name: 'limit', in: 'query', required: false, type: 'integer', description: 'Maximum number of items returned. **Default is 10 items**. **Max limit is 100 items**.' },
+      { name: 'sortby', in: 'query', required: false, type: 'string', description: 'The ordering of the returned items. Sorting options include relevancy (`relevancy`), and date added (`date_added`).' },
+      { name: 'with-fields', in: 'query', required: false, type: 'string', description: 'Additional fields to include in the response specified as a comma separated list.\n\nSpecify `*` to return all of the additional fields available\n\nIf not provided, only these core fields will be returned: `id`, `url`, `title`, `description`, `author`, `spots`, `lists`, `content_type`, `date_original_added`' },
+    ],
+  },
+  postSearchInstantAnswer: {
+    id: 'postSearchInstantAnswer',
+    method: 'POST',
+    path: '/search/instant-answer',
+    tag: 'Search',
+    summary: 'Generates an instant answer for a question',
+    parameters: [
+      { name: 'hs-user', in: 'header', required: false, type: 'string', description: 'The email address of the user to impersonate' },
+      { name: 'query-string', in: 'query', required: true, type: 'string', description: 'Query in natural language' },
+    ],
+  },
+} as const satisfies Record<string, NutellaOperation>;
+
+export type NutellaOperationId = keyof typeof nutellaOperations;
+
+export interface NutellaOperationParams {
+  postAssessmentsExternalSurvey: PostAssessmentsExternalSurveyParams;
+  getMe: GetMeParams;
+  getUsers: GetUsersParams;
+  postUsers: PostUsersParams;
+  postUsersInvite: PostUsersInviteParams;
+  getUsersByUser: GetUsersByUserParams;
+  patchUsersByUser: PatchUsersByUserParams;
+  deleteUsersByUser: DeleteUsersByUserParams;
+  putUsersByUserThumbnail: PutUsersByUserThumbnailParams;
+  getUsersByUserProperties: GetUsersByUserPropertiesParams;
+  postUsersByUserProperties: PostUsersByUserPropertiesParams;
+  putUsersByUserProperties: PutUsersByUserPropertiesParams;
+  getUsersByUserPropertiesByProperty: GetUsersByUserPropertiesByPropertyParams;
+  putUsersByUserPropertiesByProperty: PutUsersByUserPropertiesByPropertyParams;
+  deleteUsersByUserPropertiesByProperty: DeleteUsersByUserPropertiesByPropertyParams;
+  postUserAccountEvents: PostUserAccountEventsParams;
+  getItems: GetItemsParams;
+  postItems: PostItemsParams;
+  getItemsByItem: GetItemsByItemParams;
+  patchItemsByItem: PatchItemsByItemParams;
+  getItemsByItemBookmarks: GetItemsByItemBookmarksParams;
+  getItemsByItemContent: GetItemsByItemContentParams;
+  getItemsByItemCmsMetadata: GetItemsByItemCmsMetadataParams;
+  putItemsByItemThumbnail: PutItemsByItemThumbnailParams;
+  getItemsByItemThumbnails: GetItemsByItemThumbnailsParams;
+  getItemsByItemProperties: GetItemsByItemPropertiesParams;
+  postItemsByItemProperties: PostItemsByItemPropertiesParams;
+  putItemsByItemProperties: PutItemsByItemPropertiesParams;
+  getItemsByItemPropertiesByProperty: GetItemsByItemPropertiesByPropertyParams;
+  putItemsByItemPropertiesByProperty: PutItemsByItemPropertiesByPropertyParams;
+  deleteItemsByItemPropertiesByProperty: DeleteItemsByItemPropertiesByPropertyParams;
+  postItemsByItemVersions: PostItemsByItemVersionsParams;
+  postItemsBatch: PostItemsBatchParams;
+  putItemsByItemWeblink: PutItemsByItemWeblinkParams;
+  getGroups: GetGroupsParams;
+  postGroups: PostGroupsParams;
+  getGroupsByGroup: GetGroupsByGroupParams;
+  patchGroupsByGroup: PatchGroupsByGroupParams;
+  getGroupsByGroupMembers: GetGroupsByGroupMembersParams;
+  postGroupsByGroupMembers: PostGroupsByGroupMembersParams;
+  deleteGroupsByGroupMembersByMember: DeleteGroupsByGroupMembersByMemberParams;
+  getGroupsByGroupProperties: GetGroupsByGroupPropertiesParams;
+  postGroupsByGroupProperties: PostGroupsByGroupPropertiesParams;
+  putGroupsByGroupProperties: PutGroupsByGroupPropertiesParams;
+  getGroupsByGroupPropertiesByProperty: GetGroupsByGroupPropertiesByPropertyParams;
+  putGroupsByGroupPropertiesByProperty: PutGroupsByGroupPropertiesByPropertyParams;
+  deleteGroupsByGroupPropertiesByProperty: DeleteGroupsByGroupPropertiesByPropertyParams;
+  postGroupsByGroupSettingsPermissions: PostGroupsByGroupSettingsPermissionsParams;
+  putGroupsByGroupSettingsVisibility: PutGroupsByGroupSettingsVisibilityParams;
+  putGroupsByGroupSettingsBasics: PutGroupsByGroupSettingsBasicsParams;
+  getSpots: GetSpotsParams;
+  postSpots: PostSpotsParams;
+  getSpotsBySpot: GetSpotsBySpotParams;
+  patchSpotsBySpot: PatchSpotsBySpotParams;
+  deleteSpotsBySpot: DeleteSpotsBySpotParams;
+  postSpotsBySpotUsers: PostSpotsBySpotUsersParams;
+  getSpotsBySpotLists: GetSpotsBySpotListsParams;
+  postSpotsBySpotLists: PostSpotsBySpotListsParams;
+  deleteSpotsBySpotListsByList: DeleteSpotsBySpotListsByListParams;
+  postSpotsBySpotListsByListItems: PostSpotsBySpotListsByListItemsParams;
+  deleteSpotsBySpotListsByListItemsByItem: DeleteSpotsBySpotListsByListItemsByItemParams;
+  postSpotsBySpotGlobalLists: PostSpotsBySpotGlobalListsParams;
+  getGlobalLists: GetGlobalListsParams;
+  postGlobalLists: PostGlobalListsParams;
+  patchGlobalListsByList: PatchGlobalListsByListParams;
+  deleteGlobalListsByList: DeleteGlobalListsByListParams;
+  getPitches: GetPitchesParams;
+  getDomainCustomUsageLabels: GetDomainCustomUsageLabelsParams;
+  getDomainSearchPromoted: GetDomainSearchPromotedParams;
+  postDomainSearchPromoted: PostDomainSearchPromotedParams;
+  putDomainSearchPromotedByTerm: PutDomainSearchPromotedByTermParams;
+  deleteDomainSearchPromotedByTerm: DeleteDomainSearchPromotedByTermParams;
+  putDomainHomepages: PutDomainHomepagesParams;
+  putDomainAdministrativeSpots: PutDomainAdministrativeSpotsParams;
+  putDomainAdministrativeGroups: PutDomainAdministrativeGroupsParams;
+  putDomainCloudservices: PutDomainCloudservicesParams;
+  putDomainCloudservicesDynamics: PutDomainCloudservicesDynamicsParams;
+  putDomainCloudservicesSalesforce: PutDomainCloudservicesSalesforceParams;
+  getRequestsById: GetRequestsByIdParams;
+  getRequestsByIdResult: GetRequestsByIdResultParams;
+  getPrivacyDataSubject: GetPrivacyDataSubjectParams;
+  postPrivacyDataSubjectAccess: PostPrivacyDataSubjectAccessParams;
+  postPrivacyDataSubjectDelete: PostPrivacyDataSubjectDeleteParams;
+  getPrivacyDataSubjectByRequestId: GetPrivacyDataSubjectByRequestIdParams;
+  getSkills: GetSkillsParams;
+  getAuditEvents: GetAuditEventsParams;
+  getSearchItems: GetSearchItemsParams;
+  postSearchInstantAnswer: PostSearchInstantAnswerParams;
+}
+
+export interface NutellaOperationResponses {
+  postAssessmentsExternalSurvey: schemas.ExternalSurveyResponse;
+  getMe: schemas.User;
+  getUsers: schemas.Users;
+  postUsers: schemas.PostUsersResponse | schemas.Request;
+  postUsersInvite: schemas.StatusOk;
+  getUsersByUser: schemas.User;
+  patchUsersByUser: unknown;
+  deleteUsersByUser: unknown;
+  putUsersByUserThumbnail: unknown;
+  getUsersByUserProperties: schemas.UserProperties;
+  postUsersByUserProperties: unknown;
+  putUsersByUserProperties: unknown;
+  getUsersByUserPropertiesByProperty: schemas.PropertyValue;
+  putUsersByUserPropertiesByProperty: unknown;
+  deleteUsersByUserPropertiesByProperty: unknown;
+  postUserAccountEvents: schemas.StatusOk;
+  getItems: schemas.Items;
+  postItems: schemas.Item;
+  getItemsByItem: schemas.Item;
+  patchItemsByItem: unknown;
+  getItemsByItemBookmarks: schemas.Bookmarks;
+  getItemsByItemContent: (schemas.Smartpage);
+  getItemsByItemCmsMetadata: unknown;
+  putItemsByItemThumbnail: unknown;
+  getItemsByItemThumbnails: schemas.Thumbnails;
+  getItemsByItemProperties: schemas.ItemProperties;
+  postItemsByItemProperties: unknown;
+  putItemsByItemProperties: unknown;
+  getItemsByItemPropertiesByProperty: schemas.PropertyValue;
+  putItemsByItemPropertiesByProperty: unknown;
+  deleteItemsByItemPropertiesByProperty: unknown;
+  postItemsByItemVersions: schemas.Item;
+  postItemsBatch: unknown;
+  putItemsByItemWeblink: unknown;
+  getGroups: schemas.Groups;
+  postGroups: schemas.IdResponseObject;
+  getGroupsByGroup: schemas.Group;
+  patchGroupsByGroup: unknown;
+  getGroupsByGroupMembers: schemas.Users;
+  postGroupsByGroupMembers: unknown;
+  deleteGroupsByGroupMembersByMember: unknown;
+  getGroupsByGroupProperties: schemas.GroupProperties;
+  postGroupsByGroupProperties: unknown;
+  putGroupsByGroupProperties: unknown;
+  getGroupsByGroupPropertiesByProperty: schemas.PropertyValue;
+  putGroupsByGroupPropertiesByProperty: unknown;
+  deleteGroupsByGroupPropertiesByProperty: unknown;
+  postGroupsByGroupSettingsPermissions: unknown;
+  putGroupsByGroupSettingsVisibility: unknown;
+  putGroupsByGroupSettingsBasics: unknown;
+  getSpots: schemas.Spots;
+  postSpots: schemas.IdResponseObject;
+  getSpotsBySpot: schemas.Spot;
+  patchSpotsBySpot: unknown;
+  deleteSpotsBySpot: unknown;
+  postSpotsBySpotUsers: unknown;
+  getSpotsBySpotLists: schemas.Lists;
+  postSpotsBySpotLists: schemas.Lists;
+  deleteSpotsBySpotListsByList: unknown;
+  postSpotsBySpotListsByListItems: unknown;
+  deleteSpotsBySpotListsByListItemsByItem: unknown;
+  postSpotsBySpotGlobalLists: unknown;
+  getGlobalLists: schemas.Lists;
+  postGlobalLists: schemas.Lists;
+  patchGlobalListsByList: unknown;
+  deleteGlobalListsByList: unknown;
+  getPitches: schemas.Pitches;
+  getDomainCustomUsageLabels: schemas.CustomUsageLabel;
+  getDomainSearchPromoted: schemas.PromotedSearchResult;
+  postDomainSearchPromoted: schemas.StatusOk;
+  putDomainSearchPromotedByTerm: schemas.StatusOk;
+  deleteDomainSearchPromotedByTerm: schemas.StatusOk;
+  putDomainHomepages: schemas.StatusOk;
+  putDomainAdministrativeSpots: schemas.StatusOk;
+  putDomainAdministrativeGroups: schemas.StatusOk;
+  putDomainCloudservices: schemas.StatusOk;
+  putDomainCloudservicesDynamics: schemas.StatusOk;
+  putDomainCloudservicesSalesforce: schemas.StatusOk;
+  getRequestsById: unknown;
+  getRequestsByIdResult: unknown;
+  getPrivacyDataSubject: schemas.Requests;
+  postPrivacyDataSubjectAccess: schemas.PostAccessRequestsResponse;
+  postPrivacyDataSubjectDelete: schemas.PostDeletionRequestsResponse;
+  getPrivacyDataSubjectByRequestId: schemas.PrivacyRequestsRequest;
+  getSkills: schemas.Skills;
+  getAuditEvents: schemas.AuditEvents;
+  getSearchItems: schemas.Items;
+  postSearchInstantAnswer: { answer?: string; sources?: Array<{ title?: string; url?: string; [key: string]: unknown }>; [key: string]: unknown };
+}
+
+/**
+ * One typed method per spec operation. Subclasses provide the transport via `send`,
+ * which receives the operation descriptor and the flat params object (path, query and
+ * header params by their spec name, plus `body`).
+ */
+export abstract class NutellaOperations {
+  protected abstract send<T>(operation: NutellaOperation, params: object): Promise<T>;
+
+  /** Invoke any operation by its generated id. */
+  public call<K extends NutellaOperationId>(id: K, params: NutellaOperationParams[K]): Promise<NutellaOperationResponses[K]> {
+    return this.send(nutellaOperations[id], params);
+  }
+
+  /** Create an external survey assessment (POST /assessments/external-survey) */
+  public postAssessmentsExternalSurvey(params: PostAssessmentsExternalSurveyParams = {}): Promise<schemas.ExternalSurveyResponse> {
+    return this.send(nutellaOperations.postAssessmentsExternalSurvey, params);
+  }
+
+  /** Get current user (GET /me) */
+  public getMe(params: GetMeParams = {}): Promise<schemas.User> {
+    return this.send(nutellaOperations.getMe, params);
+  }
+
+  /** List users (GET /users) */
+  public getUsers(params: GetUsersParams = {}): Promise<schemas.Users> {
+    return this.send(nutellaOperations.getUsers, params);
+  }
+
+  /** Add or update users (POST /users) */
+  public postUsers(params: PostUsersParams): Promise<schemas.PostUsersResponse | schemas.Request> {
+    return this.send(nutellaOperations.postUsers, params);
+  }
+
+  /** Send invites to users (POST /users/invite) */
+  public postUsersInvite(params: PostUsersInviteParams): Promise<schemas.StatusOk> {
+    return this.send(nutellaOperations.postUsersInvite, params);
+  }
+
+  /** Get metadata (GET /users/{user}) */
+  public getUsersByUser(params: GetUsersByUserParams): Promise<schemas.User> {
+    return this.send(nutellaOperations.getUsersByUser, params);
+  }
+
+  /** Update metadata (PATCH /users/{user}) */
+  public patchUsersByUser(params: PatchUsersByUserParams): Promise<unknown> {
+    return this.send(nutellaOperations.patchUsersByUser, params);
+  }
+
+  /** Delete user (DELETE /users/{user}) */
+  public deleteUsersByUser(params: DeleteUsersByUserParams): Promise<unknown> {
+    return this.send(nutellaOperations.deleteUsersByUser, params);
+  }
+
+  /** Set thumbnail (PUT /users/{user}/thumbnail) */
+  public putUsersByUserThumbnail(params: PutUsersByUserThumbnailParams): Promise<unknown> {
+    return this.send(nutellaOperations.putUsersByUserThumbnail, params);
+  }
+
+  /** Get properties (GET /users/{user}/properties) */
+  public getUsersByUserProperties(params: GetUsersByUserPropertiesParams): Promise<schemas.UserProperties> {
+    return this.send(nutellaOperations.getUsersByUserProperties, params);
+  }
+
+  /** Add or update properties (POST /users/{user}/properties) */
+  public postUsersByUserProperties(params: PostUsersByUserPropertiesParams): Promise<unknown> {
+    return this.send(nutellaOperations.postUsersByUserProperties, params);
+  }
+
+  /** Set properties (PUT /users/{user}/properties) */
+  public putUsersByUserProperties(params: PutUsersByUserPropertiesParams): Promise<unknown> {
+    return this.send(nutellaOperations.putUsersByUserProperties, params);
+  }
+
+  /** Get property (GET /users/{user}/properties/{property}) */
+  public getUsersByUserPropertiesByProperty(params: GetUsersByUserPropertiesByPropertyParams): Promise<schemas.PropertyValue> {
+    return this.send(nutellaOperations.getUsersByUserPropertiesByProperty, params);
+  }
+
+  /** Set property (PUT /users/{user}/properties/{property}) */
+  public putUsersByUserPropertiesByProperty(params: PutUsersByUserPropertiesByPropertyParams): Promise<unknown> {
+    return this.send(nutellaOperations.putUsersByUserPropertiesByProperty, params);
+  }
+
+  /** Delete property (DELETE /users/{user}/properties/{property}) */
+  public deleteUsersByUserPropertiesByProperty(params: DeleteUsersByUserPropertiesByPropertyParams): Promise<unknown> {
+    return this.send(nutellaOperations.deleteUsersByUserPropertiesByProperty, params);
+  }
+
+  /** API to bulk deactivate / reactivate users (POST /user-account-events) */
+  public postUserAccountEvents(params: PostUserAccountEventsParams): Promise<schemas.StatusOk> {
+    return this.send(nutellaOperations.postUserAccountEvents, params);
+  }
+
+  /** List items within a spot (GET /items) */
+  public getItems(params: GetItemsParams): Promise<schemas.Items> {
+    return this.send(nutellaOperations.getItems, params);
+  }
+
+  /** Create item (POST /items) */
+  public postItems(params: PostItemsParams): Promise<schemas.Item> {
+    return this.send(nutellaOperations.postItems, params);
+  }
+
+  /** Get metadata (GET /items/{item}) */
+  public getItemsByItem(params: GetItemsByItemParams): Promise<schemas.Item> {
+    return this.send(nutellaOperations.getItemsByItem, params);
+  }
+
+  /** Update metadata (PATCH /items/{item}) */
+  public patchItemsByItem(params: PatchItemsByItemParams): Promise<unknown> {
+    return this.send(nutellaOperations.patchItemsByItem, params);
+  }
+
+  /** Get bookmarks (GET /items/{item}/bookmarks) */
+  public getItemsByItemBookmarks(params: GetItemsByItemBookmarksParams): Promise<schemas.Bookmarks> {
+    return this.send(nutellaOperations.getItemsByItemBookmarks, params);
+  }
+
+  /** Get content (GET /items/{item}/content) */
+  public getItemsByItemContent(params: GetItemsByItemContentParams): Promise<(schemas.Smartpage)> {
+    return this.send(nutellaOperations.getItemsByItemContent, params);
+  }
+
+  /** Get CMS metadata (GET /items/{item}/cms/metadata) */
+  public getItemsByItemCmsMetadata(params: GetItemsByItemCmsMetadataParams): Promise<unknown> {
+    return this.send(nutellaOperations.getItemsByItemCmsMetadata, params);
+  }
+
+  /** Set thumbnail (PUT /items/{item}/thumbnail) */
+  public putItemsByItemThumbnail(params: PutItemsByItemThumbnailParams): Promise<unknown> {
+    return this.send(nutellaOperations.putItemsByItemThumbnail, params);
+  }
+
+  /** Get thumbnails (GET /items/{item}/thumbnails) */
+  public getItemsByItemThumbnails(params: GetItemsByItemThumbnailsParams): Promise<schemas.Thumbnails> {
+    return this.send(nutellaOperations.getItemsByItemThumbnails, params);
+  }
+
+  /** Get properties (GET /items/{item}/properties) */
+  public getItemsByItemProperties(params: GetItemsByItemPropertiesParams): Promise<schemas.ItemProperties> {
+    return this.send(nutellaOperations.getItemsByItemProperties, params);
+  }
+
+  /** Add or update properties (POST /items/{item}/properties) */
+  public postItemsByItemProperties(params: PostItemsByItemPropertiesParams): Promise<unknown> {
+    return this.send(nutellaOperations.postItemsByItemProperties, params);
+  }
+
+  /** Set properties (PUT /items/{item}/properties) */
+  public putItemsByItemProperties(params: PutItemsByItemPropertiesParams): Promise<unknown> {
+    return this.send(nutellaOperations.putItemsByItemProperties, params);
+  }
+
+  /** Get property (GET /items/{item}/properties/{property}) */
+  public getItemsByItemPropertiesByProperty(params: GetItemsByItemPropertiesByPropertyParams): Promise<schemas.PropertyValue> {
+    return this.send(nutellaOperations.getItemsByItemPropertiesByProperty, params);
+  }
+
+  /** Set property (PUT /items/{item}/properties/{property}) */
+  public putItemsByItemPropertiesByProperty(params: PutItemsByItemPropertiesByPropertyParams): Promise<unknown> {
+    return this.send(nutellaOperations.putItemsByItemPropertiesByProperty, params);
+  }
+
+  /** Delete property (DELETE /items/{item}/properties/{property}) */
+  public deleteItemsByItemPropertiesByProperty(params: DeleteItemsByItemPropertiesByPropertyParams): Promise<unknown> {
+    return this.send(nutellaOperations.deleteItemsByItemPropertiesByProperty, params);
+  }
+
+  /** Add a new version of an item (POST /items/{item}/versions) */
+  public postItemsByItemVersions(params: PostItemsByItemVersionsParams): Promise<schemas.Item> {
+    return this.send(nutellaOperations.postItemsByItemVersions, params);
+  }
+
+  /** Perform bulk archive, bookmark, delete, move and set expiration date operations (POST /items/batch) */
+  public postItemsBatch(params: PostItemsBatchParams): Promise<unknown> {
+    return this.send(nutellaOperations.postItemsBatch, params);
+  }
+
+  /** Change URL of a weblink item (PUT /items/{item}/weblink) */
+  public putItemsByItemWeblink(params: PutItemsByItemWeblinkParams): Promise<unknown> {
+    return this.send(nutellaOperations.putItemsByItemWeblink, params);
+  }
+
+  /** List groups (GET /groups) */
+  public getGroups(params: GetGroupsParams = {}): Promise<schemas.Groups> {
+    return this.send(nutellaOperations.getGroups, params);
+  }
+
+  /** Create group (POST /groups) */
+  public postGroups(params: PostGroupsParams): Promise<schemas.IdResponseObject> {
+    return this.send(nutellaOperations.postGroups, params);
+  }
+
+  /** Get metadata (GET /groups/{group}) */
+  public getGroupsByGroup(params: GetGroupsByGroupParams): Promise<schemas.Group> {
+    return this.send(nutellaOperations.getGroupsByGroup, params);
+  }
+
+  /** Update metadata (PATCH /groups/{group}) */
+  public patchGroupsByGroup(params: PatchGroupsByGroupParams): Promise<unknown> {
+    return this.send(nutellaOperations.patchGroupsByGroup, params);
+  }
+
+  /** List members (GET /groups/{group}/members) */
+  public getGroupsByGroupMembers(params: GetGroupsByGroupMembersParams): Promise<schemas.Users> {
+    return this.send(nutellaOperations.getGroupsByGroupMembers, params);
+  }
+
+  /** Add members (POST /groups/{group}/members) */
+  public postGroupsByGroupMembers(params: PostGroupsByGroupMembersParams): Promise<unknown> {
+    return this.send(nutellaOperations.postGroupsByGroupMembers, params);
+  }
+
+  /** Remove member (DELETE /groups/{group}/members/{member}) */
+  public deleteGroupsByGroupMembersByMember(params: DeleteGroupsByGroupMembersByMemberParams): Promise<unknown> {
+    return this.send(nutellaOperations.deleteGroupsByGroupMembersByMember, params);
+  }
+
+  /** Get properties (GET /groups/{group}/properties) */
+  public getGroupsByGroupProperties(params: GetGroupsByGroupPropertiesParams): Promise<schemas.GroupProperties> {
+    return this.send(nutellaOperations.getGroupsByGroupProperties, params);
+  }
+
+  /** Add or update properties (POST /groups/{group}/properties) */
+  public postGroupsByGroupProperties(params: PostGroupsByGroupPropertiesParams): Promise<unknown> {
+    return this.send(nutellaOperations.postGroupsByGroupProperties, params);
+  }
+
+  /** Set properties (PUT /groups/{group}/properties) */
+  public putGroupsByGroupProperties(params: PutGroupsByGroupPropertiesParams): Promise<unknown> {
+    return this.send(nutellaOperations.putGroupsByGroupProperties, params);
+  }
+
+  /** Get property (GET /groups/{group}/properties/{property}) */
+  public getGroupsByGroupPropertiesByProperty(params: GetGroupsByGroupPropertiesByPropertyParams): Promise<schemas.PropertyValue> {
+    return this.send(nutellaOperations.getGroupsByGroupPropertiesByProperty, params);
+  }
+
+  /** Set property (PUT /groups/{group}/properties/{property}) */
+  public putGroupsByGroupPropertiesByProperty(params: PutGroupsByGroupPropertiesByPropertyParams): Promise<unknown> {
+    return this.send(nutellaOperations.putGroupsByGroupPropertiesByProperty, params);
+  }
+
+  /** Remove property (DELETE /groups/{group}/properties/{property}) */
+  public deleteGroupsByGroupPropertiesByProperty(params: DeleteGroupsByGroupPropertiesByPropertyParams): Promise<unknown> {
+    return this.send(nutellaOperations.deleteGroupsByGroupPropertiesByProperty, params);
+  }
+
+  /** Update permissions to the group (POST /groups/{group}/settings/permissions) */
+  public postGroupsByGroupSettingsPermissions(params: PostGroupsByGroupSettingsPermissionsParams): Promise<unknown> {
+    return this.send(nutellaOperations.postGroupsByGroupSettingsPermissions, params);
+  }
+
+  /** Update the group’s visibility settings (PUT /groups/{group}/settings/visibility) */
+  public putGroupsByGroupSettingsVisibility(params: PutGroupsByGroupSettingsVisibilityParams): Promise<unknown> {
+    return this.send(nutellaOperations.putGroupsByGroupSettingsVisibility, params);
+  }
+
+  /** Update the group’s settings (PUT /groups/{group}/settings/basics) */
+  public putGroupsByGroupSettingsBasics(params: PutGroupsByGroupSettingsBasicsParams): Promise<unknown> {
+    return this.send(nutellaOperations.putGroupsByGroupSettingsBasics, params);
+  }
+
+  /** List spots (GET /spots) */
+  public getSpots(params: GetSpotsParams = {}): Promise<schemas.Spots> {
+    return this.send(nutellaOperations.getSpots, params);
+  }
+
+  /** Create spot (POST /spots) */
+  public postSpots(params: PostSpotsParams): Promise<schemas.IdResponseObject> {
+    return this.send(nutellaOperations.postSpots, params);
+  }
+
+  /** Get metadata (GET /spots/{spot}) */
+  public getSpotsBySpot(params: GetSpotsBySpotParams): Promise<schemas.Spot> {
+    return this.send(nutellaOperations.getSpotsBySpot, params);
+  }
+
+  /** Update metadata (PATCH /spots/{spot}) */
+  public patchSpotsBySpot(params: PatchSpotsBySpotParams): Promise<unknown> {
+    return this.send(nutellaOperations.patchSpotsBySpot, params);
+  }
+
+  /** Delete spot (DELETE /spots/{spot}) */
+  public deleteSpotsBySpot(params: DeleteSpotsBySpotParams): Promise<unknown> {
+    return this.send(nutellaOperations.deleteSpotsBySpot, params);
+  }
+
+  /** Add users (POST /spots/{spot}/users) */
+  public postSpotsBySpotUsers(params: PostSpotsBySpotUsersParams): Promise<unknown> {
+    return this.send(nutellaOperations.postSpotsBySpotUsers, params);
+  }
+
+  /** List local and global lists (GET /spots/{spot}/lists) */
+  public getSpotsBySpotLists(params: GetSpotsBySpotListsParams): Promise<schemas.Lists> {
+    return this.send(nutellaOperations.getSpotsBySpotLists, params);
+  }
+
+  /** Add local list (POST /spots/{spot}/lists) */
+  public postSpotsBySpotLists(params: PostSpotsBySpotListsParams): Promise<schemas.Lists> {
+    return this.send(nutellaOperations.postSpotsBySpotLists, params);
+  }
+
+  /** Delete local list (DELETE /spots/{spot}/lists/{list}) */
+  public deleteSpotsBySpotListsByList(params: DeleteSpotsBySpotListsByListParams): Promise<unknown> {
+    return this.send(nutellaOperations.deleteSpotsBySpotListsByList, params);
+  }
+
+  /** Adds items to global or local list in spot. (POST /spots/{spot}/lists/{list}/items) */
+  public postSpotsBySpotListsByListItems(params: PostSpotsBySpotListsByListItemsParams): Promise<unknown> {
+    return this.send(nutellaOperations.postSpotsBySpotListsByListItems, params);
+  }
+
+  /** Removes item from a list (DELETE /spots/{spot}/lists/{list}/items/{item}) */
+  public deleteSpotsBySpotListsByListItemsByItem(params: DeleteSpotsBySpotListsByListItemsByItemParams): Promise<unknown> {
+    return this.send(nutellaOperations.deleteSpotsBySpotListsByListItemsByItem, params);
+  }
+
+  /** Add global lists to spot (POST /spots/{spot}/global-lists) */
+  public postSpotsBySpotGlobalLists(params: PostSpotsBySpotGlobalListsParams): Promise<unknown> {
+    return this.send(nutellaOperations.postSpotsBySpotGlobalLists, params);
+  }
+
+  /** List global lists (GET /global-lists) */
+  public getGlobalLists(params: GetGlobalListsParams = {}): Promise<schemas.Lists> {
+    return this.send(nutellaOperations.getGlobalLists, params);
+  }
+
+  /** Add global list (POST /global-lists) */
+  public postGlobalLists(params: PostGlobalListsParams): Promise<schemas.Lists> {
+    return this.send(nutellaOperations.postGlobalLists, params);
+  }
+
+  /** Update global list metadata (PATCH /global-lists/{list}) */
+  public patchGlobalListsByList(params: PatchGlobalListsByListParams): Promise<unknown> {
+    return this.send(nutellaOperations.patchGlobalListsByList, params);
+  }
+
+  /** Delete global list (DELETE /global-lists/{list}) */
+  public deleteGlobalListsByList(params: DeleteGlobalListsByListParams): Promise<unknown> {
+    return this.send(nutellaOperations.deleteGlobalListsByList, params);
+  }
+
+  /** List Pitches (GET /pitches) */
+  public getPitches(params: GetPitchesParams = {}): Promise<schemas.Pitches> {
+    return this.send(nutellaOperations.getPitches, params);
+  }
+
+  /** List custom usage labels (GET /domain/custom-usage-labels) */
+  public getDomainCustomUsageLabels(params: GetDomainCustomUsageLabelsParams = {}): Promise<schemas.CustomUsageLabel> {
+    return this.send(nutellaOperations.getDomainCustomUsageLabels, params);
+  }
+
+  /** Get existing promoted search results (GET /domain/search/promoted) */
+  public getDomainSearchPromoted(params: GetDomainSearchPromotedParams = {}): Promise<schemas.PromotedSearchResult> {
+    return this.send(nutellaOperations.getDomainSearchPromoted, params);
+  }
+
+  /** Create a Promoted Search Result (POST /domain/search/promoted) */
+  public postDomainSearchPromoted(params: PostDomainSearchPromotedParams): Promise<schemas.StatusOk> {
+    return this.send(nutellaOperations.postDomainSearchPromoted, params);
+  }
+
+  /** Replace a Promoted Search Result (PUT /domain/search/promoted/{term}) */
+  public putDomainSearchPromotedByTerm(params: PutDomainSearchPromotedByTermParams): Promise<schemas.StatusOk> {
+    return this.send(nutellaOperations.putDomainSearchPromotedByTerm, params);
+  }
+
+  /** Deletes a Promoted Search Result (DELETE /domain/search/promoted/{term}) */
+  public deleteDomainSearchPromotedByTerm(params: DeleteDomainSearchPromotedByTermParams): Promise<schemas.StatusOk> {
+    return this.send(nutellaOperations.deleteDomainSearchPromotedByTerm, params);
+  }
+
+  /** Set custom homepages (PUT /domain/homepages) */
+  public putDomainHomepages(params: PutDomainHomepagesParams): Promise<schemas.StatusOk> {
+    return this.send(nutellaOperations.putDomainHomepages, params);
+  }
+
+  /** Set administrative spots (PUT /domain/administrative_spots) */
+  public putDomainAdministrativeSpots(params: PutDomainAdministrativeSpotsParams): Promise<schemas.StatusOk> {
+    return this.send(nutellaOperations.putDomainAdministrativeSpots, params);
+  }
+
+  /** Set administrative groups (PUT /domain/administrative_groups) */
+  public putDomainAdministrativeGroups(params: PutDomainAdministrativeGroupsParams): Promise<schemas.StatusOk> {
+    return this.send(nutellaOperations.putDomainAdministrativeGroups, params);
+  }
+
+  /** Set cloudservices (PUT /domain/cloudservices) */
+  public putDomainCloudservices(params: PutDomainCloudservicesParams): Promise<schemas.StatusOk> {
+    return this.send(nutellaOperations.putDomainCloudservices, params);
+  }
+
+  /** Set Dynamics configuration (PUT /domain/cloudservices/dynamics) */
+  public putDomainCloudservicesDynamics(params: PutDomainCloudservicesDynamicsParams): Promise<schemas.StatusOk> {
+    return this.send(nutellaOperations.putDomainCloudservicesDynamics, params);
+  }
+
+  /** Set Salesforce configuration (PUT /domain/cloudservices/salesforce) */
+  public putDomainCloudservicesSalesforce(params: PutDomainCloudservicesSalesforceParams): Promise<schemas.StatusOk> {
+    return this.send(nutellaOperations.putDomainCloudservicesSalesforce, params);
+  }
+
+  /** Get asynchronous request status (GET /requests/{id}) */
+  public getRequestsById(params: GetRequestsByIdParams): Promise<unknown> {
+    return this.send(nutellaOperations.getRequestsById, params);
+  }
+
+  /** Get asynchronous request result (GET /requests/{id}/result) */
+  public getRequestsByIdResult(params: GetRequestsByIdResultParams): Promise<unknown> {
+    return this.send(nutellaOperations.getRequestsByIdResult, params);
+  }
+
+  /** Get all data subject requests from the Privacy Center (GET /privacy/data-subject) */
+  public getPrivacyDataSubject(params: GetPrivacyDataSubjectParams = {}): Promise<schemas.Requests> {
+    return this.send(nutellaOperations.getPrivacyDataSubject, params);
+  }
+
+  /** Create data subject access requests (POST /privacy/data-subject/access) */
+  public postPrivacyDataSubjectAccess(params: PostPrivacyDataSubjectAccessParams): Promise<schemas.PostAccessRequestsResponse> {
+    return this.send(nutellaOperations.postPrivacyDataSubjectAccess, params);
+  }
+
+  /** Create data subject deletion requests (POST /privacy/data-subject/delete) */
+  public postPrivacyDataSubjectDelete(params: PostPrivacyDataSubjectDeleteParams): Promise<schemas.PostDeletionRequestsResponse> {
+    return this.send(nutellaOperations.postPrivacyDataSubjectDelete, params);
+  }
+
+  /** Get a specific data subject request from the Privacy Center (GET /privacy/data-subject/{request_id}) */
+  public getPrivacyDataSubjectByRequestId(params: GetPrivacyDataSubjectByRequestIdParams): Promise<schemas.PrivacyRequestsRequest> {
+    return this.send(nutellaOperations.getPrivacyDataSubjectByRequestId, params);
+  }
+
+  /** List skills of the domain of the requesting API user (GET /skills) */
+  public getSkills(params: GetSkillsParams = {}): Promise<schemas.Skills> {
+    return this.send(nutellaOperations.getSkills, params);
+  }
+
+  /** List audit events for the domain of the requesting API user (GET /audit-events) */
+  public getAuditEvents(params: GetAuditEventsParams = {}): Promise<schemas.AuditEvents> {
+    return this.send(nutellaOperations.getAuditEvents, params);
+  }
+
+  /** List items for a search query (GET /search/items) */
+  public getSearchItems(params: GetSearchItemsParams): Promise<schemas.Items> {
+    return this.send(nutellaOperations.getSearchItems, params);
+  }
+
+  /** Generates an instant answer for a question (POST /search/instant-answer) */
+  public postSearchInstantAnswer(params: PostSearchInstantAnswerParams): Promise<{ answer?: string; sources?: Array<{ title?: string; url?: string; [key: string]: unknown }>; [key: string]: unknown }> {
+    return this.send(nutellaOperations.postSearchInstantAnswer, params);
+  }
+}
@@ -0,0 +1,431 @@
+// Generated by scripts/generate-nutella-client.mjs from spec/hs_open_api.json.
+// Do not edit by hand: update the spec and re-run `npm run generate:nutella`.
+
+import { z } from 'zod';
+
+export type AssessmentRequest = { assessment_of_user_email?: string; reviewer?: { company?: string; name?: string; role?: string; crm_id?: string; third_party_assessment_company?: string; external_link_to_survey?: string; [key: string]: unknown }; final_comments?: string; skill_ratings?: Array<{ skill_id?: string; assigned_rating?: number; skill_title?: string; skill_description?: string; rating_comments?: string; is_skipped?: boolean; proficiency_levels?: Array<{ score?: number; title?: string; description?: string; [key: string]: unknown }>; [key: string]: unknown }>; raw_data?: string; [key: string]: unknown };
+export const assessmentRequestSchema: z.ZodType<AssessmentRequest, z.ZodTypeDef, unknown> = z.object({ assessment_of_user_email: z.string().optional(), reviewer: z.object({ company: z.string().optional(), name: z.string().optional(), role: z.string().optional(), crm_id: z.string().optional(), third_party_assessment_company: z.string().optional(), external_link_to_survey: z.string().optional() }).passthrough().optional(), final_comments: z.string().optional(), skill_ratings: z.array(z.object({ skill_id: z.string().optional(), assigned_rating: z.number().int().optional(), skill_title: z.string().optional(), skill_description: z.string().optional(), rating_comments: z.string().optional(), is_skipped: z.boolean().optional(), proficiency_levels: z.array(z.object({ score: z.number().int().optional(), title: z.string().optional(), description: z.string().optional() }).passthrough()).optional() }).passthrough()).optional(), raw_data: z.string().optional() }).passthrough();
+
+export type ExternalSurveyResponse = { skills_added_in_assessment?: Array<string>; skills_not_matching_user?: Array<string>; message?: string; [key: string]: unknown };
+export const externalSurveyResponseSchema: z.ZodType<ExternalSurveyResponse, z.ZodTypeDef, unknown> = z.object({ skills_added_in_assessment: z.array(z.string()).optional(), skills_not_matching_user: z.array(z.string()).optional(), message: z.string().optional() }).passthrough();
+
+export type JsonBadRequestError = { errors?: Record<string, unknown>; props?: Record<string, unknown>; [key: string]: unknown };
+export const jsonBadRequestErrorSchema: z.ZodType<JsonBadRequestError, z.ZodTypeDef, unknown> = z.object({ errors: z.record(z.unknown()).optional(), props: z.record(z.unknown()).optional() }).passthrough();
+
+export type PlainTextError = string;
+export const plainTextErrorSchema: z.ZodType<PlainTextError, z.ZodTypeDef, unknown> = z.string();
+
+export type Ids = Array<string>;
+export const idsSchema: z.ZodType<Ids, z.ZodTypeDef, unknown> = z.array(z.string());
+
+export type Spot = { id?: string; title?: string; description?: string; is_official?: boolean; [key: string]: unknown };
+export const spotSchema: z.ZodType<Spot, z.ZodTypeDef, unknown> = z.object({ id: z.string().optional(), title: z.string().optional(), description: z.string().optional(), is_official: z.boolean().optional() }).passthrough();
+
+export type Spots = { counts_total?: number; collection: Array<Spot>; [key: string]: unknown };
+export const spotsSchema: z.ZodType<Spots, z.ZodTypeDef, unknown> = z.object({ counts_total: z.number().int().optional(), collection: z.array(z.lazy(() => spotSchema)) }).passthrough();
+
+export type User = { id?: string; name?: string; surname?: string; display_name?: string; email?: string; groups?: Ids; sso?: Record<string, unknown>; suspended?: boolean; favorites?: Spots; properties?: Record<string, unknown>; [key: string]: unknown };
+export const userSchema: z.ZodType<User, z.ZodTypeDef, unknown> = z.object({ id: z.string().optional(), name: z.string().optional(), surname: z.string().optional(), display_name: z.string().optional(), email: z.string().optional(), groups: z.lazy(() => idsSchema).optional(), sso: z.record(z.unknown()).optional(), suspended: z.boolean().optional(), favorites: z.lazy(() => spotsSchema).optional(), properties: z.record(z.unknown()).optional() }).passthrough();
+
+export type Users = { collection: Array<User>; [key: string]: unknown };
+export const usersSchema: z.ZodType<Users, z.ZodTypeDef, unknown> = z.object({ collection: z.array(z.lazy(() => userSchema)) }).passthrough();
+
+export type UserProperties = Record<string, unknown>;
+export const userPropertiesSchema: z.ZodType<UserProperties, z.ZodTypeDef, unknown> = z.record(z.unknown());
+
+export type PostUser = { id?: string; email?: string; kind?: 'employee' | 'partner'; manager?: string; properties?: UserProperties; [key: string]: unknown };
+export const postUserSchema: z.ZodType<PostUser, z.ZodTypeDef, unknown> = z.object({ id: z.string().optional(), email: z.string().optional(), kind: z.enum(['employee', 'partner']).optional(), manager: z.string().optional(), properties: z.lazy(() => userPropertiesSchema).optional() }).passthrough();
+
+export type PostUsers = Array<PostUser>;
+export const postUsersSchema: z.ZodType<PostUsers, z.ZodTypeDef, unknown> = z.array(z.lazy(() => postUserSchema));
+
+export type PostUsersResponse = { collection?: Array<{ status?: 'ok' | 'failed'; id?: string; created?: boolean; [key: string]: unknown }>; [key: string]: unknown };
+export const postUsersResponseSchema: z.ZodType<PostUsersResponse, z.ZodTypeDef, unknown> = z.object({ collection: z.array(z.object({ status: z.enum(['ok', 'failed']).optional(), id: z.string().optional(), created: z.boolean().optional() }).passthrough()).optional() }).passthrough();
+
+export type Request = { id?: string; [key: string]: unknown };
+export const requestSchema: z.ZodType<Request, z.ZodTypeDef, unknown> = z.object({ id: z.string().optional() }).passthrough();
+
+export type JsonValidationError = { status?: string; name?: string; error?: string; message?: string; [key: string]: unknown };
+export const jsonValidationErrorSchema: z.ZodType<JsonValidationError, z.ZodTypeDef, unknown> = z.object({ status: z.string().optional(), name: z.string().optional(), error: z.string().optional(), message: z.string().optional() }).passthrough();
+
+export type InviteUsers = { role?: 'Employee' | 'Partner'; message?: string; names?: Array<string>; [key: string]: unknown };
+export const inviteUsersSchema: z.ZodType<InviteUsers, z.ZodTypeDef, unknown> = z.object({ role: z.enum(['Employee', 'Partner']).optional(), message: z.string().optional(), names: z.array(z.string()).optional() }).passthrough();
+
+export type StatusOk = { status?: string; [key: string]: unknown };
+export const statusOkSchema: z.ZodType<StatusOk, z.ZodTypeDef, unknown> = z.object({ status: z.string().optional() }).passthrough();
+
+export type JsonNotFoundError = { id: string; type: string; message: string; [key: string]: unknown };
+export const jsonNotFoundErrorSchema: z.ZodType<JsonNotFoundError, z.ZodTypeDef, unknown> = z.object({ id: z.string(), type: z.string(), message: z.string() }).passthrough();
+
+export type PatchUser = { name?: string; surname?: string; suspended?: boolean; email?: string; manager?: string; [key: string]: unknown };
+export const patchUserSchema: z.ZodType<PatchUser, z.ZodTypeDef, unknown> = z.object({ name: z.string().optional(), surname: z.string().optional(), suspended: z.boolean().optional(), email: z.string().optional(), manager: z.string().optional() }).passthrough();
+
+export type PropertyValue = { value: string; [key: string]: unknown };
+export const propertyValueSchema: z.ZodType<PropertyValue, z.ZodTypeDef, unknown> = z.object({ value: z.string() }).passthrough();
+
+export type PostUserAccountEvents = { event?: 'deactivate' | 'reactivate'; message?: string; isNotificationEnabled?: boolean; emails?: Array<string>; [key: string]: unknown };
+export const postUserAccountEventsSchema: z.ZodType<PostUserAccountEvents, z.ZodTypeDef, unknown> = z.object({ event: z.enum(['deactivate', 'reactivate']).optional(), message: z.string().optional(), isNotificationEnabled: z.boolean().optional(), emails: z.array(z.string()).optional() }).passthrough();
+
+export type Cms = { integration?: string; id?: string; content_version?: string; metadata_version?: string; metadata?: Record<string, unknown>; deleted?: boolean; [key: string]: unknown };
+export const cmsSchema: z.ZodType<Cms, z.ZodTypeDef, unknown> = z.object({ integration: z.string().optional(), id: z.string().optional(), content_version: z.string().optional(), metadata_version: z.string().optional(), metadata: z.record(z.unknown()).optional(), deleted: z.boolean().optional() }).passthrough();
+
+export type ContentOwners = { users?: Array<string>; groups?: Array<string>; [key: string]: unknown };
+export const contentOwnersSchema: z.ZodType<ContentOwners, z.ZodTypeDef, unknown> = z.object({ users: z.array(z.string()).optional(), groups: z.array(z.string()).optional() }).passthrough();
+
+export type Item = { id?: string; title?: string; description?: string; author?: string; date_created?: string; available_at?: string; expires_at?: string; internal?: boolean; custom_usage_label?: string; spot?: string; can_download?: boolean; content_name?: string; content_type?: string; mime_type?: string; title_external?: string; description_external?: string; date_added?: string; date_original_added?: string; date_updated?: string; imported_at?: string; lists?: Ids; cms?: Cms; content_owners?: ContentOwners; url?: string; link_url?: string; [key: string]: unknown };
+export const itemSchema: z.ZodType<Item, z.ZodTypeDef, unknown> = z.object({ id: z.string().optional(), title: z.string().optional(), description: z.string().optional(), author: z.string().optional(), date_created: z.string().optional(), available_at: z.string().optional(), expires_at: z.string().optional(), internal: z.boolean().optional(), custom_usage_label: z.string().optional(), spot: z.string().optional(), can_download: z.boolean().optional(), content_name: z.string().optional(), content_type: z.string().optional(), mime_type: z.string().optional(), title_external: z.string().optional(), description_external: z.string().optional(), date_added: z.string().optional(), date_original_added: z.string().optional(), date_updated: z.string().optional(), imported_at: z.string().optional(), lists: z.lazy(() => idsSchema).optional(), cms: z.lazy(() => cmsSchema).optional(), content_owners: z.lazy(() => contentOwnersSchema).optional(), url: z.string().optional(), link_url: z.string().optional() }).passthrough();
+
+export type Items = { counts_total?: number; collection?: Array<Item>; [key: string]: unknown };
+export const itemsSchema: z.ZodType<Items, z.ZodTypeDef, unknown> = z.object({ counts_total: z.number().int().optional(), collection: z.array(z.lazy(() => itemSchema)).optional() }).passthrough();
+
+export type ItemSpecWeblink = { type: 'web_link'; url: string; [key: string]: unknown };
+export const itemSpecWeblinkSchema: z.ZodType<ItemSpecWeblink, z.ZodTypeDef, unknown> = z.object({ type: z.literal('web_link'), url: z.string() }).passthrough();
+
+export type CommonBannerProps = { id?: string; name?: 'page_banner_block_1'; title?: string; description?: string; bg_image?: string; cta_text?: string; cta_link?: string; [key: string]: unknown };
+export const commonBannerPropsSchema: z.ZodType<CommonBannerProps, z.ZodTypeDef, unknown> = z.object({ id: z.string().optional(), name: z.literal('page_banner_block_1').optional(), title: z.string().optional(), description: z.string().optional(), bg_image: z.string().optional(), cta_text: z.string().optional(), cta_link: z.string().optional() }).passthrough();
+
+export type FloatingOverlayBanner = (CommonBannerProps) & ({ type?: 'overlaybanner'; [key: string]: unknown });
+export const floatingOverlayBannerSchema: z.ZodType<FloatingOverlayBanner, z.ZodTypeDef, unknown> = z.intersection(z.lazy(() => commonBannerPropsSchema), z.object({ type: z.literal('overlaybanner').optional() }).passthrough());
+
+export type SplitBanner = (CommonBannerProps) & ({ type?: 'split'; split_pane_side?: 'left' | 'right'; [key: string]: unknown });
+export const splitBannerSchema: z.ZodType<SplitBanner, z.ZodTypeDef, unknown> = z.intersection(z.lazy(() => commonBannerPropsSchema), z.object({ type: z.literal('split').optional(), split_pane_side: z.enum(['left', 'right']).optional() }).passthrough());
+
+export type BandedOverlayBanner = (CommonBannerProps) & ({ type?: 'bands'; [key: string]: unknown });
+export const bandedOverlayBannerSchema: z.ZodType<BandedOverlayBanner, z.ZodTypeDef, unknown> = z.intersection(z.lazy(() => commonBannerPropsSchema), z.object({ type: z.literal('bands').optional() }).passthrough());
+
+export type BannerBlock = (FloatingOverlayBanner) | (SplitBanner) | (BandedOverlayBanner);
+export const bannerBlockSchema: z.ZodType<BannerBlock, z.ZodTypeDef, unknown> = z.union([z.lazy(() => floatingOverlayBannerSchema), z.lazy(() => splitBannerSchema), z.lazy(() => bandedOverlayBannerSchema)]);
+
+export type CommonHeadingProps = { id?: string; name?: 'page_heading_block_1'; text?: string; [key: string]: unknown };
+export const commonHeadingPropsSchema: z.ZodType<CommonHeadingProps, z.ZodTypeDef, unknown> = z.object({ id: z.string().optional(), name: z.literal('page_heading_block_1').optional(), text: z.string().optional() }).passthrough();
+
+export type TextHeading = (CommonHeadingProps) & ({ type?: 'text'; [key: string]: unknown });
+export const textHeadingSchema: z.ZodType<TextHeading, z.ZodTypeDef, unknown> = z.intersection(z.lazy(() => commonHeadingPropsSchema), z.object({ type: z.literal('text').optional() }).passthrough());
+
+export type TextHeadingWithDivider = (CommonHeadingProps) & ({ type?: 'text_divider'; [key: string]: unknown });
+export const textHeadingWithDividerSchema: z.ZodType<TextHeadingWithDivider, z.ZodTypeDef, unknown> = z.intersection(z.lazy(() => commonHeadingPropsSchema), z.object({ type: z.literal('text_divider').optional() }).passthrough());
+
+export type TextHeadingWithBackground = (CommonHeadingProps) & ({ type?: 'text_bg'; [key: string]: unknown });
+export const textHeadingWithBackgroundSchema: z.ZodType<TextHeadingWithBackground, z.ZodTypeDef, unknown> = z.intersection(z.lazy(() => commonHeadingPropsSchema), z.object({ type: z.literal('text_bg').optional() }).passthrough());
+
+export type HeadingBlock = (TextHeading) | (TextHeadingWithDivider) | (TextHeadingWithBackground);
+export const headingBlockSchema: z.ZodType<HeadingBlock, z.ZodTypeDef, unknown> = z.union([z.lazy(() => textHeadingSchema), z.lazy(() => textHeadingWithDividerSchema), z.lazy(() => textHeadingWithBackgroundSchema)]);
+
+export type ImageBlock = { id?: string; name?: 'page_image_block_1'; caption?: string; alt_text?: string; src?: string; link?: string; [key: string]: unknown };
+export const imageBlockSchema: z.ZodType<ImageBlock, z.ZodTypeDef, unknown> = z.object({ id: z.string().optional(), name: z.literal('page_image_block_1').optional(), caption: z.string().optional(), alt_text: z.string().optional(), src: z.string().optional(), link: z.string().optional() }).passthrough();
+
+export type PeopleBlock = { id?: string; name?: 'people_block_1'; users?: Array<string>; [key: string]: unknown };
+export const peopleBlockSchema: z.ZodType<PeopleBlock, z.ZodTypeDef, unknown> = z.object({ id: z.string().optional(), name: z.literal('people_block_1').optional(), users: z.array(z.string()).optional() }).passthrough();
+
+export type SpacerBlock = { id?: string; name?: 'page_spacer_block_1'; [key: string]: unknown };
+export const spacerBlockSchema: z.ZodType<SpacerBlock, z.ZodTypeDef, unknown> = z.object({ id: z.string().optional(), name: z.literal('page_spacer_block_1').optional() }).passthrough();
+
+export type SpotsBlock = { id?: string; name?: 'spots_block_1'; kind?: 'company_spots' | 'specific_spots'; spots?: Array<string>; [key: string]: unknown };
+export const spotsBlockSchema: z.ZodType<SpotsBlock, z.ZodTypeDef, unknown> = z.object({ id: z.string().optional(), name: z.literal('spots_block_1').optional(), kind: z.enum(['company_spots', 'specific_spots']).optional(), spots: z.array(z.string()).optional() }).passthrough();
+
+export type CommonContentProperties = { id?: string; name?: 'content_block_1'; [key: string]: unknown };
+export const commonContentPropertiesSchema: z.ZodType<CommonContentProperties, z.ZodTypeDef, unknown> = z.object({ id: z.string().optional(), name: z.literal('content_block_1').optional() }).passthrough();
+
+/** Specific items to display */
+export type SpecificContentBlock = (CommonContentProperties) & ({ source?: 'items'; items?: Array<{ id: string; title_override?: string; description_override?: string; [key: string]: unknown }>; [key: string]: unknown });
+export const specificContentBlockSchema: z.ZodType<SpecificContentBlock, z.ZodTypeDef, unknown> = z.intersection(z.lazy(() => commonContentPropertiesSchema), z.object({ source: z.literal('items').optional(), items: z.array(z.object({ id: z.string(), title_override: z.string().optional(), description_override: z.string().optional() }).passthrough()).optional() }).passthrough());
+
+/** Show all content from a Spot or filter using Lists. Content displays dynamically based on your configuration settings. */
+export type SpotContentBlock = (CommonContentProperties) & ({ source?: 'spot'; spot: string; lists?: Array<string>; [key: string]: unknown });
+export const spotContentBlockSchema: z.ZodType<SpotContentBlock, z.ZodTypeDef, unknown> = z.intersection(z.lazy(() => commonContentPropertiesSchema), z.object({ source: z.literal('spot').optional(), spot: z.string(), lists: z.array(z.string()).optional() }).passthrough());
+
+/** Display a unique list of content to each user based on the Spots and people they follow. */
+export type RecommendedContent = (CommonContentProperties) & ({ source?: 'recommended'; [key: string]: unknown });
+export const recommendedContentSchema: z.ZodType<RecommendedContent, z.ZodTypeDef, unknown> = z.intersection(z.lazy(() => commonContentPropertiesSchema), z.object({ source: z.literal('recommended').optional() }).passthrough());
+
+/** Show the most recently added and updated content from across all Official Spots. */
+export type OfficialContent = (CommonContentProperties) & ({ source?: 'newsfeed'; [key: string]: unknown });
+export const officialContentSchema: z.ZodType<OfficialContent, z.ZodTypeDef, unknown> = z.intersection(z.lazy(() => commonContentPropertiesSchema), z.object({ source: z.literal('newsfeed').optional() }).passthrough());
+
+/** Display an item inline. Supported item kinds are vide, audio, html and site */
+export type InlineContent = (CommonContentProperties) & ({ source?: 'inline'; item?: { id: string; title_override?: string; description_override?: string; [key: string]: unknown }; [key: string]: unknown });
+export const inlineContentSchema: z.ZodType<InlineContent, z.ZodTypeDef, unknown> = z.intersection(z.lazy(() => commonContentPropertiesSchema), z.object({ source: z.literal('inline').optional(), item: z.object({ id: z.string(), title_override: z.string().optional(), description_override: z.string().optional() }).passthrough().optional() }).passthrough());
+
+export type ContentBlock = (SpecificContentBlock) | (SpotContentBlock) | (RecommendedContent) | (OfficialContent) | (InlineContent);
+export const contentBlockSchema: z.ZodType<ContentBlock, z.ZodTypeDef, unknown> = z.union([z.lazy(() => specificContentBlockSchema), z.lazy(() => spotContentBlockSchema), z.lazy(() => recommendedContentSchema), z.lazy(() => officialContentSchema), z.lazy(() => inlineContentSchema)]);
+
+export type DividerBlock = { id?: string; name?: 'page_divider_block_1'; [key: string]: unknown };
+export const dividerBlockSchema: z.ZodType<DividerBlock, z.ZodTypeDef, unknown> = z.object({ id: z.string().optional(), name: z.literal('page_divider_block_1').optional() }).passthrough();
+
+export type TextBlock = { id?: string; name?: 'text_block_1'; text?: string; [key: string]: unknown };
+export const textBlockSchema: z.ZodType<TextBlock, z.ZodTypeDef, unknown> = z.object({ id: z.string().optional(), name: z.literal('text_block_1').optional(), text: z.string().optional() }).passthrough();
+
+export type RichTextBlock = { id?: string; name?: 'rich_text_block_1'; html?: string; [key: string]: unknown };
+export const richTextBlockSchema: z.ZodType<RichTextBlock, z.ZodTypeDef, unknown> = z.object({ id: z.string().optional(), name: z.literal('rich_text_block_1').optional(), html: z.string().optional() }).passthrough();
+
+export type CommonNavigationProps = { id?: string; name?: 'page_button_group_block_1'; type?: 'split' | 'simple' | 'image'; buttons?: Array<{ title?: string; link?: string; [key: string]: unknown }>; [key: string]: unknown };
+export const commonNavigationPropsSchema: z.ZodType<CommonNavigationProps, z.ZodTypeDef, unknown> = z.object({ id: z.string().optional(), name: z.literal('page_button_group_block_1').optional(), type: z.enum(['split', 'simple', 'image']).optional(), buttons: z.array(z.object({ title: z.string().optional(), link: z.string().optional() }).passthrough()).optional() }).passthrough();
+
+export type SimpleNavigationBlock = (CommonNavigationProps);
+export const simpleNavigationBlockSchema: z.ZodType<SimpleNavigationBlock, z.ZodTypeDef, unknown> = z.lazy(() => commonNavigationPropsSchema);
+
+export type ImageNavigationProps = { buttons?: Array<{ image_src_url?: string; [key: string]: unknown }>; [key: string]: unknown };
+export const imageNavigationPropsSchema: z.ZodType<ImageNavigationProps, z.ZodTypeDef, unknown> = z.object({ buttons: z.array(z.object({ image_src_url: z.string().optional() }).passthrough()).optional() }).passthrough();
+
+export type SplitNavigationBlock = (CommonNavigationProps) & (ImageNavigationProps);
+export const splitNavigationBlockSchema: z.ZodType<SplitNavigationBlock, z.ZodTypeDef, unknown> = z.intersection(z.lazy(() => commonNavigationPropsSchema), z.lazy(() => imageNavigationPropsSchema));
+
+export type ImageNavigationBlock = (CommonNavigationProps) & (ImageNavigationProps);
+export const imageNavigationBlockSchema: z.ZodType<ImageNavigationBlock, z.ZodTypeDef, unknown> = z.intersection(z.lazy(() => commonNavigationPropsSchema), z.lazy(() => imageNavigationPropsSchema));
+
+export type NavigationBlock = (SimpleNavigationBlock) | (SplitNavigationBlock) | (ImageNavigationBlock);
+export const navigationBlockSchema: z.ZodType<NavigationBlock, z.ZodTypeDef, unknown> = z.union([z.lazy(() => simpleNavigationBlockSchema), z.lazy(() => splitNavigationBlockSchema), z.lazy(() => imageNavigationBlockSchema)]);
+
+export type Smartpage = { settings?: { kind?: 'Page' | 'Play'; [key: string]: unknown }; sections?: Array<{ settings?: { title?: string; band_count?: number; [key: string]: unknown }; [key: string]: unknown }>; blocks?: Array<(BannerBlock) | (HeadingBlock) | (ImageBlock) | (PeopleBlock) | (SpacerBlock) | (SpotsBlock) | (ContentBlock) | (DividerBlock) | (TextBlock) | (RichTextBlock) | (NavigationBlock)>; [key: string]: unknown };
+export const smartpageSchema: z.ZodType<Smartpage, z.ZodTypeDef, unknown> = z.object({ settings: z.object({ kind: z.enum(['Page', 'Play']).optional() }).passthrough().optional(), sections: z.array(z.object({ settings: z.object({ title: z.string().optional(), band_count: z.number().optional() }).passthrough().optional() }).passthrough()).optional(), blocks: z.array(z.union([z.lazy(() => bannerBlockSchema), z.lazy(() => headingBlockSchema), z.lazy(() => imageBlockSchema), z.lazy(() => peopleBlockSchema), z.lazy(() => spacerBlockSchema), z.lazy(() => spotsBlockSchema), z.lazy(() => contentBlockSchema), z.lazy(() => dividerBlockSchema), z.lazy(() => textBlockSchema), z.lazy(() => richTextBlockSchema), z.lazy(() => navigationBlockSchema)])).optional() }).passthrough();
+
+export type ItemSpecSmartpage = { type: 'smartpage'; play?: { audience: Array<unknown>; launchDate: string; endDate?: string; [key: string]: unknown }; parentTemplateId?: string; content: Smartpage; [key: string]: unknown };
+export const itemSpecSmartpageSchema: z.ZodType<ItemSpecSmartpage, z.ZodTypeDef, unknown> = z.object({ type: z.literal('smartpage'), play: z.object({ audience: z.array(z.unknown()), launchDate: z.string(), endDate: z.string().optional() }).passthrough().optional(), parentTemplateId: z.string().optional(), content: z.lazy(() => smartpageSchema) }).passthrough();
+
+export type ItemSpec = (ItemSpecWeblink) | (ItemSpecSmartpage);
+export const itemSpecSchema: z.ZodType<ItemSpec, z.ZodTypeDef, unknown> = z.union([z.lazy(() => itemSpecWeblinkSchema), z.lazy(() => itemSpecSmartpageSchema)]);
+
+export type PatchItem = { title?: string; description?: string; author?: string; date_created?: string; internal?: boolean; custom_usage_label?: string; lists?: Ids; cms?: Cms; content_owners?: ContentOwners; [key: string]: unknown };
+export const patchItemSchema: z.ZodType<PatchItem, z.ZodTypeDef, unknown> = z.object({ title: z.string().optional(), description: z.string().optional(), author: z.string().optional(), date_created: z.string().optional(), internal: z.boolean().optional(), custom_usage_label: z.string().optional(), lists: z.lazy(() => idsSchema).optional(), cms: z.lazy(() => cmsSchema).optional(), content_owners: z.lazy(() => contentOwnersSchema).optional() }).passthrough();
+
+export type Bookmarks = Array<string>;
+export const bookmarksSchema: z.ZodType<Bookmarks, z.ZodTypeDef, unknown> = z.array(z.string());
+
+export type Thumbnails = { collection?: Array<string>; [key: string]: unknown };
+export const thumbnailsSchema: z.ZodType<Thumbnails, z.ZodTypeDef, unknown> = z.object({ collection: z.array(z.string()).optional() }).passthrough();
+
+export type ItemProperties = Record<string, unknown>;
+export const itemPropertiesSchema: z.ZodType<ItemProperties, z.ZodTypeDef, unknown> = z.record(z.unknown());
+
+export type AsyncBatchSpec = Array<Record<string, unknown>>;
+export const asyncBatchSpecSchema: z.ZodType<AsyncBatchSpec, z.ZodTypeDef, unknown> = z.array(z.record(z.unknown()));
+
+export type BatchSpec = Array<Record<string, unknown>>;
+export const batchSpecSchema: z.ZodType<BatchSpec, z.ZodTypeDef, unknown> = z.array(z.record(z.unknown()));
+
+export type ItemWeblinkUrl = { url?: string; [key: string]: unknown };
+export const itemWeblinkUrlSchema: z.ZodType<ItemWeblinkUrl, z.ZodTypeDef, unknown> = z.object({ url: z.string().optional() }).passthrough();
+
+export type Group = { id?: string; title?: string; description?: string; [key: string]: unknown };
+export const groupSchema: z.ZodType<Group, z.ZodTypeDef, unknown> = z.object({ id: z.string().optional(), title: z.string().optional(), description: z.string().optional() }).passthrough();
+
+export type Groups = { collection: Array<Group>; [key: string]: unknown };
+export const groupsSchema: z.ZodType<Groups, z.ZodTypeDef, unknown> = z.object({ collection: z.array(z.lazy(() => groupSchema)) }).passthrough();
+
+export type GroupPost = { title: string; description?: string; visibility?: 'private' | 'public' | 'shared' | 'shared_and_members'; [key: string]: unknown };
+export const groupPostSchema: z.ZodType<GroupPost, z.ZodTypeDef, unknown> = z.object({ title: z.string(), description: z.string().optional(), visibility: z.enum(['private', 'public', 'shared', 'shared_and_members']).optional() }).passthrough();
+
+export type IdResponseObject = Record<string, unknown>;
+export const idResponseObjectSchema: z.ZodType<IdResponseObject, z.ZodTypeDef, unknown> = z.record(z.unknown());
+
+export type PatchGroup = { title?: string; description?: string; [key: string]: unknown };
+export const patchGroupSchema: z.ZodType<PatchGroup, z.ZodTypeDef, unknown> = z.object({ title: z.string().optional(), description: z.string().optional() }).passthrough();
+
+export type GroupProperties = Record<string, unknown>;
+export const groupPropertiesSchema: z.ZodType<GroupProperties, z.ZodTypeDef, unknown> = z.record(z.unknown());
+
+export type PostGroupSettingsPermissions = { batch?: Array<{ add?: { users?: Record<string, unknown>; groups?: Record<string, unknown>; [key: string]: unknown }; update?: Record<string, unknown>; remove?: Array<string>; [key: string]: unknown }>; notify?: boolean; message?: string; [key: string]: unknown };
+export const postGroupSettingsPermissionsSchema: z.ZodType<PostGroupSettingsPermissions, z.ZodTypeDef, unknown> = z.object({ batch: z.array(z.object({ add: z.object({ users: z.record(z.unknown()).optional(), groups: z.record(z.unknown()).optional() }).passthrough().optional(), update: z.record(z.unknown()).optional(), remove: z.array(z.string()).optional() }).passthrough()).optional(), notify: z.boolean().optional(), message: z.string().optional() }).passthrough();
+
+export type PutGroupSettingsVisibility = { visibility?: 'private' | 'everyone' | 'shared' | 'shared_and_members'; [key: string]: unknown };
+export const putGroupSettingsVisibilitySchema: z.ZodType<PutGroupSettingsVisibility, z.ZodTypeDef, unknown> = z.object({ visibility: z.enum(['private', 'everyone', 'shared', 'shared_and_members']).optional() }).passthrough();
+
+export type PutGroupSettingsBasics = { title?: string; description?: string; promoted?: boolean; hide_pitch_share_emails?: boolean; author_pages?: boolean; author_smartpage_templates?: boolean; pitch_tracking?: 'all' | 'ask' | 'none' | 'opt-out'; enable_pitch_collect_recipients_email?: boolean; google_drive_managed_access?: boolean; quip_managed_access?: boolean; brainshark_learning?: boolean; brainshark_coaching?: boolean; mindtickle?: boolean; drift?: boolean; lessonly?: boolean; trailhead?: boolean; training?: boolean; training_reports?: boolean; configure_essential_offline_content?: boolean; publish_to_marketplace?: boolean; consume_from_marketplace?: boolean; salesforce_spot_relation?: boolean; restrict_remix?: boolean; restrict_edit_copy?: boolean; meeting_topics?: boolean; [key: string]: unknown };
+export const putGroupSettingsBasicsSchema: z.ZodType<PutGroupSettingsBasics, z.ZodTypeDef, unknown> = z.object({ title: z.string().optional(), description: z.string().optional(), promoted: z.boolean().optional(), hide_pitch_share_emails: z.boolean().optional(), author_pages: z.boolean().optional(), author_smartpage_templates: z.boolean().optional(), pitch_tracking: z.enum(['all', 'ask', 'none', 'opt-out']).optional(), enable_pitch_collect_recipients_email: z.boolean().optional(), google_drive_managed_access: z.boolean().optional(), quip_managed_access: z.boolean().optional(), brainshark_learning: z.boolean().optional(), brainshark_coaching: z.boolean().optional(), mindtickle: z.boolean().optional(), drift: z.boolean().optional(), lessonly: z.boolean().optional(), trailhead: z.boolean().optional(), training: z.boolean().optional(), training_reports: z.boolean().optional(), configure_essential_offline_content: z.boolean().optional(), publish_to_marketplace: z.boolean().optional(), consume_from_marketplace: z.boolean().optional(), salesforce_spot_relation: z.boolean().optional(), restrict_remix: z.boolean().optional(), restrict_edit_copy: z.boolean().optional(), meeting_topics: z.boolean().optional() }).passthrough();
+
+export type SpotPost = { title: string; description?: string; visibility?: 'private' | 'public' | 'shared'; is_official?: boolean; [key: string]: unknown };
+export const spotPostSchema: z.ZodType<SpotPost, z.ZodTypeDef, unknown> = z.object({ title: z.string(), description: z.string().optional(), visibility: z.enum(['private', 'public', 'shared']).optional(), is_official: z.boolean().optional() }).passthrough();
+
+export type PatchSpot = { title?: string; description?: string; visibility?: 'private' | 'public' | 'shared'; is_official?: boolean; [key: string]: unknown };
+export const patchSpotSchema: z.ZodType<PatchSpot, z.ZodTypeDef, unknown> = z.object({ title: z.string().optional(), description: z.string().optional(), visibility: z.enum(['private', 'public', 'shared']).optional(), is_official: z.boolean().optional() }).passthrough();
+
+export type SpotUsers = { users?: Array<string>; groups?: Array<string>; [key: string]: unknown };
+export const spotUsersSchema: z.ZodType<SpotUsers, z.ZodTypeDef, unknown> = z.object({ users: z.array(z.string()).optional(), groups: z.array(z.string()).optional() }).passthrough();
+
+export type Lists = Array<List>;
+export const listsSchema: z.ZodType<Lists, z.ZodTypeDef, unknown> = z.array(z.lazy(() => listSchema));
+
+export type List = { id?: string; type?: 'list_group' | 'list' | 'query'; name?: string; description?: string; parent?: string; children?: Lists; featured?: boolean; is_global?: boolean; [key: string]: unknown };
+export const listSchema: z.ZodType<List, z.ZodTypeDef, unknown> = z.object({ id: z.string().optional(), type: z.enum(['list_group', 'list', 'query']).optional(), name: z.string().optional(), description: z.string().optional(), parent: z.string().optional(), children: z.lazy(() => listsSchema).optional(), featured: z.boolean().optional(), is_global: z.boolean().optional() }).passthrough();
+
+export type AddList = { name: string; description?: string; type?: 'list-group' | 'list'; featured?: boolean; children?: AddLists; [key: string]: unknown };
+export const addListSchema: z.ZodType<AddList, z.ZodTypeDef, unknown> = z.object({ name: z.string(), description: z.string().optional(), type: z.enum(['list-group', 'list']).optional(), featured: z.boolean().optional(), children: z.lazy(() => addListsSchema).optional() }).passthrough();
+
+export type AddLists = Array<AddList>;
+export const addListsSchema: z.ZodType<AddLists, z.ZodTypeDef, unknown> = z.array(z.lazy(() => addListSchema));
+
+export type AddGlobalList = { name: string; description?: string; type?: 'list-group' | 'list'; children?: AddLists; [key: string]: unknown };
+export const addGlobalListSchema: z.ZodType<AddGlobalList, z.ZodTypeDef, unknown> = z.object({ name: z.string(), description: z.string().optional(), type: z.enum(['list-group', 'list']).optional(), children: z.lazy(() => addListsSchema).optional() }).passthrough();
+
+export type PatchGlobalList = { name?: string; parentId?: string; [key: string]: unknown };
+export const patchGlobalListSchema: z.ZodType<PatchGlobalList, z.ZodTypeDef, unknown> = z.object({ name: z.string().optional(), parentId: z.string().optional() }).passthrough();
+
+export type Pitch = { id?: string; name?: string; owner_id?: string; from_id?: string; has_passcode?: boolean; expiration_date?: string; thumbnail?: string; created_at?: string; sent_at?: string; viewed_at?: string; updated_at?: string; activity_notifications?: boolean; kind?: string; dwell_time?: unknown; downloads?: number; views?: number; [key: string]: unknown };
+export const pitchSchema: z.ZodType<Pitch, z.ZodTypeDef, unknown> = z.object({ id: z.string().optional(), name: z.string().optional(), owner_id: z.string().optional(), from_id: z.string().optional(), has_passcode: z.boolean().optional(), expiration_date: z.string().optional(), thumbnail: z.string().optional(), created_at: z.string().optional(), sent_at: z.string().optional(), viewed_at: z.string().optional(), updated_at: z.string().optional(), activity_notifications: z.boolean().optional(), kind: z.string().optional(), dwell_time: z.unknown().optional(), downloads: z.number().int().optional(), views: z.number().int().optional() }).passthrough();
+
+export type Pitches = { collection: Array<Pitch>; [key: string]: unknown };
+export const pitchesSchema: z.ZodType<Pitches, z.ZodTypeDef, unknown> = z.object({ collection: z.array(z.lazy(() => pitchSchema)) }).passthrough();
+
+export type CustomUsageLabel = { id?: string; label?: string; color?: Array<unknown>; pitchPolicy?: { expiration?: string; passcode?: string; download?: string; expiration_days?: number; [key: string]: unknown }; [key: string]: unknown };
+export const customUsageLabelSchema: z.ZodType<CustomUsageLabel, z.ZodTypeDef, unknown> = z.object({ id: z.string().optional(), label: z.string().optional(), color: z.array(z.unknown()).optional(), pitchPolicy: z.object({ expiration: z.string().optional(), passcode: z.string().optional(), download: z.string().optional(), expiration_days: z.number().int().optional() }).passthrough().optional() }).passthrough();
+
+export type PromotedSearchResult = { term?: Array<{ id?: string; title?: string; displayInfo?: { name?: string; icon?: string; kind?: string; cardIcon?: string; [key: string]: unknown }; [key: string]: unknown }>; [key: string]: unknown };
+export const promotedSearchResultSchema: z.ZodType<PromotedSearchResult, z.ZodTypeDef, unknown> = z.object({ term: z.array(z.object({ id: z.string().optional(), title: z.string().optional(), displayInfo: z.object({ name: z.string().optional(), icon: z.string().optional(), kind: z.string().optional(), cardIcon: z.string().optional() }).passthrough().optional() }).passthrough()).optional() }).passthrough();
+
+export type PromotedSearchBody = { term: Array<string>; [key: string]: unknown };
+export const promotedSearchBodySchema: z.ZodType<PromotedSearchBody, z.ZodTypeDef, unknown> = z.object({ term: z.array(z.string()) }).passthrough();
+
+export type CustomHomepageBody = { rules?: Array<{ page_id: string; group_id: string; [key: string]: unknown }>; [key: string]: unknown };
+export const customHomepageBodySchema: z.ZodType<CustomHomepageBody, z.ZodTypeDef, unknown> = z.object({ rules: z.array(z.object({ page_id: z.string(), group_id: z.string() }).passthrough()).optional() }).passthrough();
+
+export type AdministrativeSpots = { company_directory?: string; featured_content?: string; pitch_templates?: string; pitch_styles?: string; smartpage_templates?: string; meeting_topics?: string; [key: string]: unknown };
+export const administrativeSpotsSchema: z.ZodType<AdministrativeSpots, z.ZodTypeDef, unknown> = z.object({ company_directory: z.string().optional(), featured_content: z.string().optional(), pitch_templates: z.string().optional(), pitch_styles: z.string().optional(), smartpage_templates: z.string().optional(), meeting_topics: z.string().optional() }).passthrough();
+
+export type AdministrativeGroups = { analysts?: string; publishers?: string; contributors?: string; [key: string]: unknown };
+export const administrativeGroupsSchema: z.ZodType<AdministrativeGroups, z.ZodTypeDef, unknown> = z.object({ analysts: z.string().optional(), publishers: z.string().optional(), contributors: z.string().optional() }).passthrough();
+
+export type Cloudservices = { crm_providers?: Array<string>; calendar_providers?: Array<string>; email_providers?: Array<string>; cs_providers?: Array<string>; sync_providers?: Array<string>; chatbot_providers?: Array<string>; ss_providers?: Array<string>; ss_custom_urls?: { joinme?: string; gotomeeting?: string; webex?: string; bluejeans?: string; zoom?: string; glance?: string; [key: string]: unknown }; [key: string]: unknown };
+export const cloudservicesSchema: z.ZodType<Cloudservices, z.ZodTypeDef, unknown> = z.object({ crm_providers: z.array(z.string()).optional(), calendar_providers: z.array(z.string()).optional(), email_providers: z.array(z.string()).optional(), cs_providers: z.array(z.string()).optional(), sync_providers: z.array(z.string()).optional(), chatbot_providers: z.array(z.string()).optional(), ss_providers: z.array(z.string()).optional(), ss_custom_urls: z.object({ joinme: z.string().optional(), gotomeeting: z.string().optional(), webex: z.string().optional(), bluejeans: z.string().optional(), zoom: z.string().optional(), glance: z.string().optional() }).passthrough().optional() }).passthrough();
+
+export type DynamicsConfiguration = { enabled?: boolean; api_user_email?: string; [key: string]: unknown };
+export const dynamicsConfigurationSchema: z.ZodType<DynamicsConfiguration, z.ZodTypeDef, unknown> = z.object({ enabled: z.boolean().optional(), api_user_email: z.string().optional() }).passthrough();
+
+export type SalesforceConfiguration = { api_user_email?: string; [key: string]: unknown };
+export const salesforceConfigurationSchema: z.ZodType<SalesforceConfiguration, z.ZodTypeDef, unknown> = z.object({ api_user_email: z.string().optional() }).passthrough();
+
+export type Requests = { count?: number; collection?: Array<{ data_subject_email?: string; type?: string; status?: string; destination_spot?: string; date_submitted?: string; date_completed?: string; request_id?: string; [key: string]: unknown }>; [key: string]: unknown };
+export const requestsSchema: z.ZodType<Requests, z.ZodTypeDef, unknown> = z.object({ count: z.number().int().optional(), collection: z.array(z.object({ data_subject_email: z.string().optional(), type: z.string().optional(), status: z.string().optional(), destination_spot: z.string().optional(), date_submitted: z.string().optional(), date_completed: z.string().optional(), request_id: z.string().optional() }).passthrough()).optional() }).passthrough();
+
+export type PostAccessRequests = { emails?: Array<string>; destination_spot?: string; [key: string]: unknown };
+export const postAccessRequestsSchema: z.ZodType<PostAccessRequests, z.ZodTypeDef, unknown> = z.object({ emails: z.array(z.string()).optional(), destination_spot: z.string().optional() }).passthrough();
+
+export type PostAccessRequestsResponse = { request_id?: string; results?: Array<{ status?: string; email?: string; req_submitted?: boolean; [key: string]: unknown }>; [key: string]: unknown };
+export const postAccessRequestsResponseSchema: z.ZodType<PostAccessRequestsResponse, z.ZodTypeDef, unknown> = z.object({ request_id: z.string().optional(), results: z.array(z.object({ status: z.string().optional(), email: z.string().optional(), req_submitted: z.boolean().optional() }).passthrough()).optional() }).passthrough();
+
+export type PostDeletionRequests = { emails?: Array<string>; [key: string]: unknown };
+export const postDeletionRequestsSchema: z.ZodType<PostDeletionRequests, z.ZodTypeDef, unknown> = z.object({ emails: z.array(z.string()).optional() }).passthrough();
+
+export type PostDeletionRequestsResponse = { request_id?: string; results?: Array<{ status?: string; email?: string; req_submitted?: boolean; [key: string]: unknown }>; [key: string]: unknown };
+export const postDeletionRequestsResponseSchema: z.ZodType<PostDeletionRequestsResponse, z.ZodTypeDef, unknown> = z.object({ request_id: z.string().optional(), results: z.array(z.object({ status: z.string().optional(), email: z.string().optional(), req_submitted: z.boolean().optional() }).passthrough()).optional() }).passthrough();
+
+export type PrivacyRequestsRequest = { collection?: Array<{ data_subject_email?: string; type?: string; status?: string; destination_spot?: string; date_submitted?: string; date_completed?: string; request_id?: string; [key: string]: unknown }>; [key: string]: unknown };
+export const privacyRequestsRequestSchema: z.ZodType<PrivacyRequestsRequest, z.ZodTypeDef, unknown> = z.object({ collection: z.array(z.object({ data_subject_email: z.string().optional(), type: z.string().optional(), status: z.string().optional(), destination_spot: z.string().optional(), date_submitted: z.string().optional(), date_completed: z.string().optional(), request_id: z.string().optional() }).passthrough()).optional() }).passthrough();
+
+export type Skill = { skill_id?: string; title?: string; description?: string; ratings?: Array<{ score?: number; title?: string; description?: string; [key: string]: unknown }>; [key: string]: unknown };
+export const skillSchema: z.ZodType<Skill, z.ZodTypeDef, unknown> = z.object({ skill_id: z.string().optional(), title: z.string().optional(), description: z.string().optional(), ratings: z.array(z.object({ score: z.number().optional(), title: z.string().optional(), description: z.string().optional() }).passthrough()).optional() }).passthrough();
+
+export type Skills = { skills?: Array<Skill>; [key: string]: unknown };
+export const skillsSchema: z.ZodType<Skills, z.ZodTypeDef, unknown> = z.object({ skills: z.array(z.lazy(() => skillSchema)).optional() }).passthrough();
+
+export type AuditEvents = { events?: Array<{ date?: string; event_time?: string; owner?: string; domain?: string; actor?: { type?: string; id?: string; domain?: string; name?: string; session_id?: string; hint?: string | null; assumed_by?: string | null; [key: string]: unknown }; action?: string; target?: string; outcome?: { result?: string; [key: string]: unknown }; details?: Record<string, unknown>; datacenter?: string; source?: { ip?: string; src_port?: string; dst_port?: string; device?: string; [key: string]: unknown }; request_id?: string; commit?: string; [key: string]: unknown }>; next_cursor?: string; [key: string]: unknown };
+export const auditEventsSchema: z.ZodType<AuditEvents, z.ZodTypeDef, unknown> = z.object({ events: z.array(z.object({ date: z.string().optional(), event_time: z.string().optional(), owner: z.string().optional(), domain: z.string().optional(), actor: z.object({ type: z.string().optional(), id: z.string().optional(), domain: z.string().optional(), name: z.string().optional(), session_id: z.string().optional(), hint: z.string().nullable().optional(), assumed_by: z.string().nullable().optional() }).passthrough().optional(), action: z.string().optional(), target: z.string().optional(), outcome: z.object({ result: z.string().optional() }).passthrough().optional(), details: z.record(z.unknown()).optional(), datacenter: z.string().optional(), source: z.object({ ip: z.string().optional(), src_port: z.string().optional(), dst_port: z.string().optional(), device: z.string().optional() }).passthrough().optional(), request_id: z.string().optional(), commit: z.string().optional() }).passthrough()).optional(), next_cursor: z.string().optional() }).passthrough();
+
+/** Lookup of every component schema by its name in the spec. */
+export const nutellaSchemas = {
+  'AssessmentRequest': assessmentRequestSchema,
+  'ExternalSurveyResponse': externalSurveyResponseSchema,
+  'json-bad-request-error': jsonBadRequestErrorSchema,
+  'plain-text-error': plainTextErrorSchema,
+  'ids': idsSchema,
+  'spot': spotSchema,
+  'spots': spotsSchema,
+  'user': userSchema,
+  'users': usersSchema,
+  'user-properties': userPropertiesSchema,
+  'post-user': postUserSchema,
+  'post-users': postUsersSchema,
+  'post-users-response': postUsersResponseSchema,
+  'request': requestSchema,
+  'json-validation-error': jsonValidationErrorSchema,
+  'invite-users': inviteUsersSchema,
+  'status-ok': statusOkSchema,
+  'json-not-found-error': jsonNotFoundErrorSchema,
+  'patch-user': patchUserSchema,
+  'property-value': propertyValueSchema,
+  'post-user-account-events': postUserAccountEventsSchema,
+  'cms': cmsSchema,
+  'content-owners': contentOwnersSchema,
+  'item': itemSchema,
+  'items': itemsSchema,
+  'item-spec-weblink': itemSpecWeblinkSchema,
+  'common_banner_props': commonBannerPropsSchema,
+  'floating_overlay_banner': floatingOverlayBannerSchema,
+  'split_banner': splitBannerSchema,
+  'banded_overlay_banner': bandedOverlayBannerSchema,
+  'banner_block': bannerBlockSchema,
+  'common_heading_props': commonHeadingPropsSchema,
+  'text_heading': textHeadingSchema,
+  'text_heading_with_divider': textHeadingWithDividerSchema,
+  'text_heading_with_background': textHeadingWithBackgroundSchema,
+  'heading_block': headingBlockSchema,
+  'image_block': imageBlockSchema,
+  'people_block': peopleBlockSchema,
+  'spacer_block': spacerBlockSchema,
+  'spots_block': spotsBlockSchema,
+  'common_content_properties': commonContentPropertiesSchema,
+  'specific_content_block': specificContentBlockSchema,
+  'spot_content_block': spotContentBlockSchema,
+  'recommended_content': recommendedContentSchema,
+  'official_content': officialContentSchema,
+  'inline_content': inlineContentSchema,
+  'content_block': contentBlockSchema,
+  'divider_block': dividerBlockSchema,
+  'text_block': textBlockSchema,
+  'rich_text_block': richTextBlockSchema,
+  'common_navigation_props': commonNavigationPropsSchema,
+  'simple_navigation_block': simpleNavigationBlockSchema,
+  'image_navigation_props': imageNavigationPropsSchema,
+  'split_navigation_block': splitNavigationBlockSchema,
+  'image_navigation_block': imageNavigationBlockSchema,
+  'navigation_block': navigationBlockSchema,
+  'smartpage': smartpageSchema,
+  'item-spec-smartpage': itemSpecSmartpageSchema,
+  'item-spec': itemSpecSchema,
+  'patch-item': patchItemSchema,
+  'bookmarks': bookmarksSchema,
+  'thumbnails': thumbnailsSchema,
+  'item-properties': itemPropertiesSchema,
+  'async-batch-spec': asyncBatchSpecSchema,
+  'batch-spec': batchSpecSchema,
+  'item-weblink-url': itemWeblinkUrlSchema,
+  'group': groupSchema,
+  'groups': groupsSchema,
+  'group-post': groupPostSchema,
+  'id-response-object': idResponseObjectSchema,
+  'patch-group': patchGroupSchema,
+  'group-properties': groupPropertiesSchema,
+  'post-group-settings-permissions': postGroupSettingsPermissionsSchema,
+  'put-group-settings-visibility': putGroupSettingsVisibilitySchema,
+  'put-group-settings-basics': putGroupSettingsBasicsSchema,
+  'spot-post': spotPostSchema,
+  'patch-spot': patchSpotSchema,
+  'spot-users': spotUsersSchema,
+  'lists': listsSchema,
+  'list': listSchema,
+  'add-list': addListSchema,
+  'add-lists': addListsSchema,
+  'add-global-list': addGlobalListSchema,
+  'patch-global-list': patchGlobalListSchema,
+  'pitch': pitchSchema,
+  'pitches': pitchesSchema,
+  'custom-usage-label': customUsageLabelSchema,
+  'promoted-search-result': promotedSearchResultSchema,
+  'promoted-search-body': promotedSearchBodySchema,
+  'custom-homepage-body': customHomepageBodySchema,
+  'administrative-spots': administrativeSpotsSchema,
+  'administrative-groups': administrativeGroupsSchema,
+  'cloudservices': cloudservicesSchema,
+  'dynamics-configuration': dynamicsConfigurationSchema,
+  'salesforce-configuration': salesforceConfigurationSchema,
+  'requests': requestsSchema,
+  'post-access-requests': postAccessRequestsSchema,
+  'post-access-requests-response': postAccessRequestsResponseSchema,
+  'post-deletion-requests': postDeletionRequestsSchema,
+  'post-deletion-requests-response': postDeletionRequestsResponseSchema,
+  'privacy_requests_request': privacyRequestsRequestSchema,
+  'skill': skillSchema,
+  'skills': skillsSchema,
+  'audit-events': auditEventsSchema,
+} as const;
+
+export type NutellaSchemaName = keyof typeof nutellaSchemas;
@@ -0,0 +1,57 @@
+import { randomBytes } from 'crypto';
+import { mkdir, readFile, rename, rm, writeFile } from 'fs/promises';
+import path from 'path';
+
+/** Parsed contents of a JSON file, or undefined when it does not exist or cannot be parsed. */
+export async function readJsonFile<T>(file: string): Promise<T | undefined> {
+  try {
+    return JSON.parse(await readFile(file, { encoding: 'utf8' })) as T;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Replace `file` with `text`, creating its directory if needed. The text goes to a unique tmp file
+ * that is renamed over the target, so readers never see a partial file; on failure the tmp file is removed.
+ */
+export async function writeFileAtomic(file: string, text: string): Promise<void> {
+  const tmp = `${file}.${process.pid}.${randomBytes(4).toString('hex')}.tmp`;
+  try {
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(tmp, text, { encoding: 'utf8' });
+    await rename(tmp, file);
+  } catch (err) {
+    await rm(tmp, { force: true });
+    throw err;
+  }
+}
+
+/**
+ * Runs the writes to each file one after another, so an older snapshot never lands after a newer one
+ * and appended lines never interleave. A failed write is reported to its caller, never to the next write.
+ */
+export class FileWrites {
+  private pending = new Map<string, Promise<void>>();
+
+  run(file: string, write: () => Promise<void>): Promise<void> {
+    const next = (this.pending.get(file) ?? Promise.resolve()).catch(() => {}).then(write);
+    this.pending.set(file, next);
+    const done = () => {
+      if (this.pending.get(file) === next) this.pending.delete(file);
+    };
+    next.then(done, done);
+    return next;
+  }
+
+  /** Replace `file` with `data` as JSON, taken now rather than when the write gets its turn. */
+  writeJson(file: string, data: unknown): Promise<void> {
+    const text = JSON.stringify(data, null, 2);
+    return this.run(file, () => writeFileAtomic(file, text));
+  }
+
+  /** Wait for the writes queued so far, whether they succeed or not. */
+  async settled(file: string): Promise<void> {
+    await this.pending.get(file)?.catch(() => {});
+  }
+}
@@ -1,180 +1,467 @@
 import axios, { AxiosInstance } from 'axios';
 import { createWriteStream } from 'fs';
-import { mkdir, stat as fsStat, writeFile, readFile } from 'fs/promises';
-import path from 'path';
+import { NutellaOperations, NutellaOperation, nutellaOperations } from './generated/nutellaOperations';
+import type { GetAuditEventsParams, GetGroupsParams, GetSpotsParams, GetUsersParams, NutellaOperationId, NutellaOperationParams, NutellaOperationResponses } from './generated/nutellaOperations';
+import type { AuditEvents, CustomUsageLabel, Requests, Group, Item, PromotedSearchResult, Spot, User } from './generated/nutellaSchemas';
+import { paginate, collectAll, PaginatedOperationId, PaginationOptions } from './pagination';
+import { defaultResponseCache, ResponseCache, CacheInfo, CachedResult } from './cache';
+import { ApiError, toNutellaError, ValidationError } from './errors';
+import { credentialOwner, defaultRequestTracker, DEFAULT_WAIT_OPTIONS, isFinished, pollDelay, RequestTracker, TrackedRequest, WaitOptions } from './asyncRequests';
+import { isPrivacyOperation, normalizePrivacyRequests, privacyRequestStatus } from './util/privacyRequests';
+import { withRetry, TokenBucket, RetryPolicy, RateLimit, DEFAULT_RETRY_POLICY, DEFAULT_RATE_LIMIT } from './retry';
+import type { IMastraLogger } from '@mastra/core/logger';
+import { logger as defaultLogger } from '../../logger';
 
 type RemoteFileMetadata = {
   date?: string;
   contentLength?: string;
 };
 
-export class NutellaClient {
+export type NutellaClientOptions = {
+  /** Response cache for GET operations; `null` disables caching. Defaults to the shared process-wide cache. */
+  cache?: ResponseCache | null;
+  /** Per-request timeout. Defaults to `NUTELLA_TIMEOUT_MS` or 30s. */
+  timeoutMs?: number;
+  /** Overrides of the retry policy (`NUTELLA_MAX_RETRIES`, `NUTELLA_RETRY_BASE_MS`, `NUTELLA_RETRY_MAX_MS`). */
+  retry?: Partial<RetryPolicy>;
+  /** Client-side rate limit shared by all clients of the same host; `null` disables it. */
+  rateLimit?: RateLimit | null;
+  /** Where async requests are tracked; `null` disables tracking. Defaults to the shared process-wide tracker. */
+  requests?: RequestTracker | null;
+  logger?: IMastraLogger;
+  /** User to impersonate (the spec's `hs-user` header) on every operation that accepts it, unless the call sets its own. */
+  hsUser?: string;
+};
+
+function envNumber(value: string | undefined) {
+  const n = value === undefined || value === '' ? NaN : Number(value);
+  return Number.isFinite(n) ? n : undefined;
+}
+
+// Tools create a client per call, so the rate limit has to live at module level to mean anything
+const buckets = new Map<string, TokenBucket>();
+
+function bucketFor(apiHost: string, limit: RateLimit) {
+  const key = `${apiHost}|${limit.requestsPerSecond}|${limit.burst}`;
+  let bucket = buckets.get(key);
+  if (!bucket) {
+    bucket = new TokenBucket(limit);
+    buckets.set(key, bucket);
+  }
+  return bucket;
+}
+
+function rateLimitFromEnv(): RateLimit | null {
+  const perSecond = envNumber(process.env.NUTELLA_RATE_LIMIT_PER_SEC) ?? DEFAULT_RATE_LIMIT.requestsPerSecond;
+  if (perSecond <= 0) return null;
+  return { requestsPerSecond: perSecond, burst: envNumber(process.env.NUTELLA_RATE_LIMIT_BURST) ?? DEFAULT_RATE_LIMIT.burst };
+}
+
+export type UsersPage = {
+  collection: User[];
+  /** True when `max` stopped the listing before every user was fetched. */
+  truncated: boolean;
+  cache: CacheInfo;
+};
+
+export type GroupsPage = {
+  collection: Group[];
+  truncated: boolean;
+  cache: CacheInfo;
+};
+
+export type SpotsPage = {
+  collection: Spot[];
+  truncated: boolean;
+  cache: CacheInfo;
+};
+
+export type ItemsPage = {
+  collection: Item[];
+  truncated: boolean;
+  cache: CacheInfo;
+};
+
+export type InstantAnswer = NutellaOperationResponses['postSearchInstantAnswer'];
+
+export type PrivacyRequestsPage = {
+  collection: NonNullable<Requests['collection']>;
+  truncated: boolean;
+  cache: CacheInfo;
+};
+
+export type AuditEvent = NonNullable<AuditEvents['events']>[number];
+
+export type AuditEventsPage = {
+  events: AuditEvent[];
+  /** True when `max` stopped the listing before every event was fetched. */
+  truncated: boolean;
+  cache: CacheInfo;
+};
+
+// The spec has no `/domains` resource; `getDomains` aggregates the readable `/domain/*` settings instead.
+export type DomainSettings = {
+  customUsageLabels: CustomUsageLabel;
+  promotedSearch: PromotedSearchResult;
+  cache: CacheInfo;
+};
+
+// Combined view over several responses: stale if any part was stale, as old as the oldest part.
+export function mergeCacheInfo(infos: CacheInfo[]): CacheInfo {
+  if (infos.length === 0) return { source: 'network', stale: false, storedAt: Date.now() };
+  const stale = infos.find(info => info.stale);
+  const source = stale ? 'stale' : infos.some(info => info.source === 'network') ? 'network' : 'cache';
+  return {
+    source,
+    stale: Boolean(stale),
+    storedAt: Math.min(...infos.map(info => info.storedAt)),
+    ...(stale?.error ? { error: stale.error } : {}),
+  };
+}
+
+/**
+ * HTTP client for the Nutella/Highspot API.
+ * Every operation in `spec/hs_open_api.json` is available as a typed method inherited from the
+ * generated `NutellaOperations` base (see `scripts/generate-nutella-client.mjs`).
+ */
+export class NutellaClient extends NutellaOperations {
   private axiosInstance: AxiosInstance;
   private apiHost: string;
+  private cache: ResponseCache | null;
+  // What identifies the caller to the API; hashed into cache keys so tenants never share entries
+  private credential?: string;
+  private retryPolicy: RetryPolicy;
+  private bucket?: TokenBucket;
+  private logger: IMastraLogger;
+  private requests: RequestTracker | null;
+  private hsUser?: string;
 
   /**
    * Create a NutellaClient.
    * - If `authToken` is provided it will be sent as `Authorization: Basic <token>`.
    * - Otherwise cookies (if any) will be sent in the Cookie header.
+   * - GET responses are cached in `options.cache` (the shared cache from `defaultResponseCache()` by default).
    */
-  constructor(apiHost: string, authToken?: string, cookies: Record<string, string> = {}) {
+  constructor(apiHost: string, authToken?: string, cookies: Record<string, string> = {}, options: NutellaClientOptions = {}) {
+    super();
     this.apiHost = apiHost;
+    this.cache = options.cache === undefined ? defaultResponseCache() : options.cache;
+    this.logger = options.logger ?? defaultLogger;
+    this.requests = options.requests === undefined ? defaultRequestTracker() : options.requests;
+    this.hsUser = options.hsUser;
+    this.retryPolicy = {
+      ...DEFAULT_RETRY_POLICY,
+      maxRetries: envNumber(process.env.NUTELLA_MAX_RETRIES) ?? DEFAULT_RETRY_POLICY.maxRetries,
+      baseDelayMs: envNumber(process.env.NUTELLA_RETRY_BASE_MS) ?? DEFAULT_RETRY_POLICY.baseDelayMs,
+      maxDelayMs: envNumber(process.env.NUTELLA_RETRY_MAX_MS) ?? DEFAULT_RETRY_POLICY.maxDelayMs,
+      ...options.retry,
+    };
+    const rateLimit = options.rateLimit === undefined ? rateLimitFromEnv() : options.rateLimit;
+    if (rateLimit) this.bucket = bucketFor(apiHost, rateLimit);
 
     const headers: Record<string, string> = {};
 
     // Prefer Authorization header when authToken is provided
     if (authToken) {
       headers['Authorization'] = `Basic ${authToken}`;
+      this.credential = headers['Authorization'];
     } else if (cookies && Object.keys(cookies).length > 0) {
       headers['Cookie'] = Object.entries(cookies)
         .map(([key, value]) => `${key}=${encodeURIComponent(value)}`)
         .join('; ');
+      this.credential = headers['Cookie'];
     }
 
     this.axiosInstance = axios.create({
       headers,
       withCredentials: true,
+      timeout: options.timeoutMs ?? envNumber(process.env.NUTELLA_TIMEOUT_MS) ?? 30_000,
     });
   }
 
-  public async getUsers() {
-    const url = `${this.apiHost}/users`;
+  /**
+   * Transport for the generated operations: path params are substituted into the URL, query and
+   * header params are sent as such and `body` becomes the request payload.
+   */
+  protected async send<T>(operation: NutellaOperation, params: object): Promise<T> {
+    return (await this.sendWithCacheInfo<T>(operation, params)).data;
+  }
 
-    // Prepare cache: directory and filename per host + hourly bucket
-    try {
-      const cacheDir = process.env.NUTELLA_CACHE_DIR ?? path.join(process.cwd(), '.cache', 'nutella');
-      await mkdir(cacheDir, { recursive: true });
-
-      const hostName = new URL(this.apiHost).hostname.replace(/[:\/\\]/g, '_');
-      const now = new Date();
-      const y = now.getUTCFullYear();
-      const m = String(now.getUTCMonth() + 1).padStart(2, '0');
-      const d = String(now.getUTCDate()).padStart(2, '0');
-      const h = String(now.getUTCHours()).padStart(2, '0');
-      const cacheFile = path.join(cacheDir, `${hostName}_users_${y}${m}${d}T${h}Z.json`);
-
-      // If cache exists and is recent (same hourly file), use it
-      try {
-        const s = await fsStat(cacheFile);
-        const ageMs = Date.now() - s.mtime.getTime();
-        if (ageMs < 1000 * 60 * 60) {
-          const text = await readFile(cacheFile, { encoding: 'utf8' });
-          return JSON.parse(text);
-        }
-      } catch (err) {
-        // cache miss -> continue to fetch
-      }
+  private async sendWithCacheInfo<T>(operation: NutellaOperation, params: object, options: { refresh?: boolean } = {}): Promise<CachedResult<T>> {
+    const values = params as Record<string, unknown>;
+    const query: Record<string, unknown> = {};
+    const headers: Record<string, string> = {};
+    let urlPath = operation.path;
 
-      // Fetch from remote and update cache
-      try {
-        const response = await this.axiosInstance.get(url);
-        const data = response.data;
-        // write cache atomically (write to temp then rename)
-        const tmp = cacheFile + '.tmp';
-        await writeFile(tmp, JSON.stringify(data, null, 2), { encoding: 'utf8' });
-        await writeFile(cacheFile, JSON.stringify(data, null, 2), { encoding: 'utf8' });
-        try {
-          // cleanup tmp if exists
-          await fsStat(tmp).then(() => {}).catch(() => {});
-        } catch {}
-        return data;
-      } catch (error) {
-        // On fetch error, try to return any existing cache (even stale)
-        try {
-          const files = await (await import('fs/promises')).readdir(cacheDir);
-          // find latest matching host file
-          const candidate = files
-            .filter(f => f.startsWith(`${hostName}_users_`))
-            .sort()
-            .pop();
-          if (candidate) {
-            const text = await readFile(path.join(cacheDir, candidate), { encoding: 'utf8' });
-            return JSON.parse(text);
-          }
-        } catch (e) {
-          // ignore
+    for (const param of operation.parameters) {
+      const value = values[param.name] ?? (param.name === 'hs-user' ? this.hsUser : undefined);
+      if (value === undefined || value === null) {
+        if (param.required) {
+          throw new ValidationError(`Missing required parameter "${param.name}" for ${operation.id}`, { service: 'nutella', operation: operation.id });
         }
-        throw error;
-      }
-    } catch (err) {
-      // If cache setup itself failed, fall back to simple fetch
-      try {
-        const response = await this.axiosInstance.get(url);
-        return response.data;
-      } catch (error) {
-        throw error;
+        continue;
       }
+      if (param.in === 'path') urlPath = urlPath.replace(`{${param.name}}`, encodeURIComponent(String(value)));
+      else if (param.in === 'query') query[param.name] = value;
+      else headers[param.name] = String(value);
+    }
+
+    const body = values.body;
+    if (operation.requestBody?.required && body === undefined) {
+      throw new ValidationError(`Missing request body for ${operation.id}`, { service: 'nutella', operation: operation.id });
+    }
+    if (body !== undefined && operation.requestBody?.contentType === 'application/json') {
+      headers['Content-Type'] = 'application/json';
     }
+
+    const load = () =>
+      withRetry(
+        async () => {
+          const response = await this.axiosInstance.request<T>({
+            method: operation.method,
+            url: `${this.apiHost}${urlPath}`,
+            params: query,
+            headers,
+            data: body,
+          });
+          return response.data;
+        },
+        { method: operation.method, label: operation.id, policy: this.retryPolicy, bucket: this.bucket, logger: this.logger }
+      ).catch(error => {
+        throw toNutellaError(error, operation.id);
+      });
+
+    if (operation.method !== 'GET' || !this.cache) {
+      return { data: await load(), cache: { source: 'network', stale: false, storedAt: Date.now() } };
+    }
+    // header params (e.g. hs-user impersonation) change the response, so they are part of the key
+    const keyParams = { path: urlPath, query, headers };
+    return this.cache.fetch({ host: this.apiHost, operationId: operation.id, params: keyParams, credential: this.credential }, load, options);
+  }
+
+  /**
+   * Like `call`, but also reports whether the data came from the network, the cache, or was served
+   * stale from the cache because the API failed. `refresh` skips fresh cache entries.
+   */
+  public callWithCacheInfo<K extends NutellaOperationId>(id: K, params: NutellaOperationParams[K], options: { refresh?: boolean } = {}): Promise<CachedResult<NutellaOperationResponses[K]>> {
+    return this.sendWithCacheInfo(nutellaOperations[id], params, options);
+  }
+
+  /** Async iterator over the pages of a `start`/`limit` or cursor paginated list endpoint. */
+  public paginate<K extends PaginatedOperationId>(id: K, params: NutellaOperationParams[K], options: PaginationOptions = {}) {
+    return paginate(this.call.bind(this), id, params, options);
+  }
+
+  /** Fetch every page of a list endpoint and return the combined items, capped at `options.max`. */
+  public collectAll<K extends PaginatedOperationId>(id: K, params: NutellaOperationParams[K], options: PaginationOptions = {}) {
+    return collectAll(this.call.bind(this), id, params, options);
+  }
+
+  /** `collectAll` that also merges the cache info of every page it fetched. `refresh` skips fresh cache entries. */
+  public async collectAllWithCacheInfo<K extends PaginatedOperationId>(id: K, params: NutellaOperationParams[K], options: PaginationOptions & { refresh?: boolean } = {}) {
+    const infos: CacheInfo[] = [];
+    const call = async <J extends NutellaOperationId>(opId: J, p: NutellaOperationParams[J]) => {
+      const result = await this.callWithCacheInfo(opId, p, { refresh: options.refresh });
+      infos.push(result.cache);
+      return result.data;
+    };
+    const result = await collectAll(call, id, params, options);
+    return { ...result, cache: mergeCacheInfo(infos) };
   }
 
-  public async getDomains() {
-    const url = `${this.apiHost}/domains`;
+  /**
+   * List users across all pages.
+   * Server-side filters use the spec's names: `email`, `list` (`unverified` | `all`; `verified` is the
+   * API default), `with-fields` (e.g. `properties`) and `exclude-fields` (e.g. `groups,favorites`).
+   * @param options.max Optional cap on the number of users fetched. `start`/`limit` are managed by the paginator.
+   * @param options.refresh Bypass fresh cache entries, e.g. before changing users.
+   */
+  public async getUsers(options: GetUsersParams & { max?: number; refresh?: boolean } = {}): Promise<UsersPage> {
+    const { max, refresh, start, limit, ...params } = options;
+    // `verified` is not accepted upstream: it is what the API returns when `list` is omitted
+    if (params.list === 'verified') delete params.list;
+
+    const { items, truncated, cache } = await this.collectAllWithCacheInfo('getUsers', params, { max, refresh });
+    return { collection: items, truncated, cache };
+  }
 
-    // Prepare cache: directory and filename per host + hourly bucket
+  /**
+   * List groups across all pages, optionally only those where a user has `role` or `right`.
+   * @param options.max Optional cap on the number of groups fetched.
+   */
+  public async getGroups(options: GetGroupsParams & { max?: number; refresh?: boolean } = {}): Promise<GroupsPage> {
+    const { max, refresh, start, limit, ...params } = options;
+    const { items, truncated, cache } = await this.collectAllWithCacheInfo('getGroups', params, { max, refresh });
+    return { collection: items, truncated, cache };
+  }
+
+  /**
+   * List the members of a group across all pages.
+   * @param options.refresh Bypass fresh cache entries, e.g. before changing the membership.
+   */
+  public async getGroupMembers(group: string, options: { max?: number; refresh?: boolean } = {}): Promise<UsersPage> {
+    const { items, truncated, cache } = await this.collectAllWithCacheInfo('getGroupsByGroupMembers', { group }, options);
+    return { collection: items, truncated, cache };
+  }
+
+  /**
+   * List spots across all pages, optionally only official ones or those where a user has `role` or `right`.
+   * @param options.max Optional cap on the number of spots fetched.
+   */
+  public async getSpots(options: GetSpotsParams & { max?: number; refresh?: boolean } = {}): Promise<SpotsPage> {
+    const { max, refresh, start, limit, ...params } = options;
+    const { items, truncated, cache } = await this.collectAllWithCacheInfo('getSpots', params, { max, refresh });
+    return { collection: items, truncated, cache };
+  }
+
+  /**
+   * List the items in a spot, or in one of its lists, across all pages.
+   * @param options.refresh Bypass fresh cache entries, e.g. before changing the items.
+   */
+  public async getSpotItems(spot: string, options: { list?: string; max?: number; refresh?: boolean } = {}): Promise<ItemsPage> {
+    const { list, ...paging } = options;
+    const { items, truncated, cache } = await this.collectAllWithCacheInfo('getItems', { spot, list }, paging);
+    return { collection: items, truncated, cache };
+  }
+
+  /**
+   * Search items, most relevant first unless `sortby` is `date_added`.
+   * @param options.withFields Extra item fields beyond the core ones (`id`, `url`, `title`, `description`, ...); `*` for all.
+   */
+  public async searchItems(queryString: string, options: { sortby?: 'relevancy' | 'date_added'; withFields?: string[]; max?: number } = {}): Promise<ItemsPage> {
+    const params = { 'query-string': queryString, sortby: options.sortby, 'with-fields': options.withFields?.join(',') };
+    const { items, truncated, cache } = await this.collectAllWithCacheInfo('getSearchItems', params, { max: options.max ?? 10 });
+    return { collection: items, truncated, cache };
+  }
+
+  /** Highspot's own generated answer to a question, with the items it drew on. */
+  public async getInstantAnswer(question: string): Promise<InstantAnswer> {
+    const resp = await this.postSearchInstantAnswer({ 'query-string': question });
+    return { answer: resp?.answer, sources: resp?.sources ?? [] };
+  }
+
+  /**
+   * List the Privacy Center's data subject requests (access and deletion) across all pages.
+   * @param options.refresh Bypass fresh cache entries, e.g. before filing another request.
+   */
+  public async getPrivacyRequests(options: { max?: number; refresh?: boolean } = {}): Promise<PrivacyRequestsPage> {
+    const { items, truncated, cache } = await this.collectAllWithCacheInfo('getPrivacyDataSubject', {}, options);
+    return { collection: items, truncated, cache };
+  }
+
+  /**
+   * List audit events across all cursor pages.
+   * Filters use the spec's names: `action`, `start_time`/`end_time` (ISO8601), `email`, `result`, `owner` and `ip`.
+   * @param options.max Optional cap on the number of events fetched. `cursor`/`limit` are managed by the paginator.
+   */
+  public async getAuditEvents(options: GetAuditEventsParams & { max?: number } = {}): Promise<AuditEventsPage> {
+    const { max, cursor, limit, ...params } = options;
+    const { items, truncated, cache } = await this.collectAllWithCacheInfo('getAuditEvents', params, { max });
+    return { events: items, truncated, cache };
+  }
+
+  public async getDomains(): Promise<DomainSettings> {
+    const [labels, promoted] = await Promise.all([
+      this.callWithCacheInfo('getDomainCustomUsageLabels', {}),
+      this.callWithCacheInfo('getDomainSearchPromoted', {}),
+    ]);
+    return {
+      customUsageLabels: labels.data,
+      promotedSearch: promoted.data,
+      cache: mergeCacheInfo([labels.cache, promoted.cache]),
+    };
+  }
+
+  /**
+   * Call an operation that answers with a `request` object (e.g. `postUsers` with `async: true`)
+   * and start tracking it. Poll it with `checkRequest` or `waitForRequest`.
+   */
+  public async submitAsync<K extends NutellaOperationId>(id: K, params: NutellaOperationParams[K], label?: string): Promise<TrackedRequest> {
+    const response: any = await this.call(id, params);
+    if (typeof response?.id !== 'string') {
+      throw new ValidationError(`${id} did not return an asynchronous request id`, { service: 'nutella', operation: id, details: response });
+    }
+    return this.trackRequest(response.id, id, label);
+  }
+
+  /** Hash of this client's credential: identifies its requests and audit records without storing the credential. */
+  public get owner(): string {
+    return credentialOwner(this.credential);
+  }
+
+  /** Record a request id returned by an async operation so it can be polled later, even after a restart. */
+  public async trackRequest(requestId: string, operationId: string, label?: string): Promise<TrackedRequest> {
+    const request = { id: requestId, host: this.apiHost, operationId, label, owner: this.owner, status: 'pending', submittedAt: Date.now() };
+    return this.requests ? this.requests.save(request) : request;
+  }
+
+  /** Requests submitted with this client's credentials against this host, newest first. */
+  public async listTrackedRequests(options: { pendingOnly?: boolean } = {}): Promise<TrackedRequest[]> {
+    if (!this.requests) return [];
+    return this.requests.list({ host: this.apiHost, owner: this.owner, pendingOnly: options.pendingOnly });
+  }
+
+  /**
+   * Poll `/requests/{id}` once and, when it finished, fetch `/requests/{id}/result`.
+   * Data subject requests are polled on `/privacy/data-subject/{request_id}` instead; their rows are the result.
+   * Requests that were not tracked yet (e.g. ids from another session) are tracked from here on.
+   * Another credential's request is never answered from, or written to, its tracked record: the API decides what this credential may see.
+   */
+  public async checkRequest(requestId: string): Promise<TrackedRequest> {
+    const tracked = await this.requests?.get(this.apiHost, requestId);
+    const foreign = Boolean(tracked && tracked.owner !== this.owner);
+    const known = foreign ? undefined : tracked;
+    if (known && isFinished(known) && known.result !== undefined) return known;
+    const save = (request: TrackedRequest) => (this.requests && !foreign ? this.requests.save(request) : request);
+
+    // The operation only says which endpoint to poll
+    const base = known ?? { id: requestId, host: this.apiHost, operationId: tracked?.operationId ?? 'unknown', owner: this.owner, status: 'pending', submittedAt: Date.now() };
+    let update: Partial<TrackedRequest>;
     try {
-      const cacheDir = process.env.NUTELLA_CACHE_DIR ?? path.join(process.cwd(), '.cache', 'nutella');
-      await mkdir(cacheDir, { recursive: true });
-
-      const hostName = new URL(this.apiHost).hostname.replace(/[:\/\\]/g, '_');
-      const now = new Date();
-      const y = now.getUTCFullYear();
-      const m = String(now.getUTCMonth() + 1).padStart(2, '0');
-      const d = String(now.getUTCDate()).padStart(2, '0');
-      const h = String(now.getUTCHours()).padStart(2, '0');
-      const cacheFile = path.join(cacheDir, `${hostName}_domains_${y}${m}${d}T${h}Z.json`);
-
-      // If cache exists and is recent (same hourly file), use it
-      try {
-        const s = await fsStat(cacheFile);
-        const ageMs = Date.now() - s.mtime.getTime();
-        if (ageMs < 1000 * 60 * 60) {
-          const text = await readFile(cacheFile, { encoding: 'utf8' });
-          return JSON.parse(text);
-        }
-      } catch (err) {
-        // cache miss -> continue to fetch
+      if (isPrivacyOperation(base.operationId)) {
+        const rows = normalizePrivacyRequests(await this.getPrivacyDataSubjectByRequestId({ request_id: requestId }));
+        const status = privacyRequestStatus(rows);
+        update = { status, lastCheckedAt: Date.now(), result: rows };
+        if (isFinished({ status })) update.completedAt = Date.now();
+        return save({ ...base, ...update } as TrackedRequest);
       }
-
-      // Fetch from remote and update cache
-      try {
-        const response = await this.axiosInstance.get(url);
-        const data = response.data;
-        // write cache atomically (write to temp then rename)
-        const tmp = cacheFile + '.tmp';
-        await writeFile(tmp, JSON.stringify(data, null, 2), { encoding: 'utf8' });
-        await writeFile(cacheFile, JSON.stringify(data, null, 2), { encoding: 'utf8' });
-        try {
-          // cleanup tmp if exists
-          await fsStat(tmp).then(() => {}).catch(() => {});
-        } catch {}
-        return data;
-      } catch (error) {
-        // On fetch error, try to return any existing cache (even stale)
-        try {
-          const files = await (await import('fs/promises')).readdir(cacheDir);
-          // find latest matching host file
-          const candidate = files
-            .filter(f => f.startsWith(`${hostName}_domains_`))
-            .sort()
-            .pop();
-          if (candidate) {
-            const text = await readFile(path.join(cacheDir, candidate), { encoding: 'utf8' });
-            return JSON.parse(text);
-          }
-        } catch (e) {
-          // ignore
-        }
-        throw error;
+      const status: any = await this.getRequestsById({ id: requestId });
+      update = { status: String(status?.status ?? 'pending'), lastCheckedAt: Date.now() };
+      if (update.status === 'ok') {
+        update.result = await this.getRequestsByIdResult({ id: requestId });
+        update.completedAt = Date.now();
+      } else if (update.status !== 'pending') {
+        update.completedAt = Date.now();
       }
     } catch (err) {
-      // If cache setup itself failed, fall back to simple fetch
-      try {
-        const response = await this.axiosInstance.get(url);
-        return response.data;
-      } catch (error) {
-        throw error;
+      // A 404 means the API forgot the request (or never had it); anything else may be transient
+      if (err instanceof ApiError && err.code === 'not_found') {
+        update = { status: 'failed', error: err.toJSON(), lastCheckedAt: Date.now(), completedAt: Date.now() };
+      } else {
+        throw err;
       }
     }
+    return save({ ...base, ...update } as TrackedRequest);
+  }
+
+  /**
+   * Poll with exponential backoff until the request finishes or `timeoutMs` passes. On timeout the
+   * request is returned still `pending` (and stays tracked) rather than throwing.
+   */
+  public async waitForRequest(requestId: string, options: WaitOptions = {}): Promise<TrackedRequest> {
+    const opts = {
+      timeoutMs: options.timeoutMs ?? DEFAULT_WAIT_OPTIONS.timeoutMs,
+      initialDelayMs: options.initialDelayMs ?? DEFAULT_WAIT_OPTIONS.initialDelayMs,
+      maxDelayMs: options.maxDelayMs ?? DEFAULT_WAIT_OPTIONS.maxDelayMs,
+    };
+    const deadline = Date.now() + opts.timeoutMs;
+    for (let attempt = 0; ; attempt++) {
+      const request = await this.checkRequest(requestId);
+      const delay = pollDelay(attempt, opts);
+      if (isFinished(request) || Date.now() + delay > deadline) return request;
+      this.logger.debug(`Request ${requestId} still pending; polling again in ${delay}ms`);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
   }
 
   public async downloadFile(url: string, destPath: string): Promise<void> {
@@ -203,13 +490,4 @@ export class NutellaClient {
       return {};
     }
   }
-
-  public async addReasoningLog(reasoningData: Record<string, any>) {
-    const url = `${this.apiHost}/agent/memory/add`;
-    try {
-      const response = await this.axiosInstance.post(url, reasoningData);
-      return response.data;
-    } catch (error) {
-    }
-  }
 }
\ No newline at end of file
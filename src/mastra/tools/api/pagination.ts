@@ -0,0 +1,137 @@
+import { nutellaOperations } from './generated/nutellaOperations';
+import type { NutellaOperationId, NutellaOperationParams, NutellaOperationResponses } from './generated/nutellaOperations';
+
+/** Operations paged with `start`/`limit` offsets (e.g. `/users`, `/items`, `/groups/{group}/members`). */
+export type OffsetPaginatedOperationId = {
+  [K in NutellaOperationId]: 'start' extends keyof NutellaOperationParams[K]
+    ? 'limit' extends keyof NutellaOperationParams[K]
+      ? K
+      : never
+    : never;
+}[NutellaOperationId];
+
+/** Operations paged with an opaque `cursor` (e.g. `/audit-events`). */
+export type CursorPaginatedOperationId = {
+  [K in NutellaOperationId]: 'cursor' extends keyof NutellaOperationParams[K] ? K : never;
+}[NutellaOperationId];
+
+export type PaginatedOperationId = OffsetPaginatedOperationId | CursorPaginatedOperationId;
+
+/** Element type of the list carried by a page (`collection` or `events`). */
+export type PageItem<K extends PaginatedOperationId> = NutellaOperationResponses[K] extends { collection?: Array<infer T> }
+  ? T
+  : NutellaOperationResponses[K] extends { events?: Array<infer T> }
+    ? T
+    : unknown;
+
+export type Page<K extends PaginatedOperationId> = {
+  items: PageItem<K>[];
+  raw: NutellaOperationResponses[K];
+};
+
+export type PaginationOptions = {
+  /** Page size sent as `limit`. Defaults to 100 (the API default). */
+  pageSize?: number;
+  /** Stop once this many items have been yielded. */
+  max?: number;
+};
+
+export type CollectResult<T> = {
+  items: T[];
+  /** True when collection stopped at `max` and upstream has more items. */
+  truncated: boolean;
+};
+
+type OperationCaller = <K extends NutellaOperationId>(id: K, params: NutellaOperationParams[K]) => Promise<NutellaOperationResponses[K]>;
+
+const DEFAULT_PAGE_SIZE = 100;
+
+function pageItems(raw: unknown): unknown[] {
+  if (Array.isArray(raw)) return raw;
+  const r = raw as any;
+  if (Array.isArray(r?.collection)) return r.collection;
+  if (Array.isArray(r?.events)) return r.events;
+  return [];
+}
+
+function isCursorPaginated(id: PaginatedOperationId) {
+  return nutellaOperations[id].parameters.some(p => p.name === 'cursor');
+}
+
+/**
+ * Iterate the pages of a list endpoint, following `start`/`limit` offsets or `next_cursor`.
+ * The last request only asks for the remaining items so that no more than `max` are yielded in total.
+ */
+export async function* paginate<K extends PaginatedOperationId>(
+  call: OperationCaller,
+  id: K,
+  params: NutellaOperationParams[K],
+  options: PaginationOptions = {}
+): AsyncGenerator<Page<K>> {
+  const pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE;
+  const max = options.max ?? Infinity;
+  const base = { ...(params as Record<string, unknown>) };
+  const cursorStyle = isCursorPaginated(id);
+
+  let yielded = 0;
+  let start = Number(base.start ?? 0);
+  let cursor = base.cursor as string | undefined;
+
+  while (yielded < max) {
+    const limit = Math.min(pageSize, max - yielded);
+    const pageParams = cursorStyle ? { ...base, limit, cursor } : { ...base, start, limit };
+    const raw = await call(id, pageParams as NutellaOperationParams[K]);
+    const items = pageItems(raw).slice(0, max - yielded) as PageItem<K>[];
+    if (items.length === 0) return;
+
+    yielded += items.length;
+    yield { items, raw };
+
+    if (cursorStyle) {
+      cursor = (raw as any)?.next_cursor ?? undefined;
+      if (!cursor) return;
+    } else {
+      start += items.length;
+      const total = (raw as any)?.counts_total;
+      if (items.length < limit || (typeof total === 'number' && start >= total)) return;
+    }
+  }
+}
+
+/**
+ * Whether the list goes on past the last collected page: the cursor style says so with `next_cursor`,
+ * the offset style with `counts_total`, and without a total we ask for the one item past the end.
+ */
+async function hasMore<K extends PaginatedOperationId>(
+  call: OperationCaller,
+  id: K,
+  params: NutellaOperationParams[K],
+  last: Page<K>,
+  collected: number
+): Promise<boolean> {
+  if (pageItems(last.raw).length > last.items.length) return true;
+  const raw = last.raw as any;
+  if (isCursorPaginated(id)) return Boolean(raw?.next_cursor);
+  const start = Number((params as Record<string, unknown>).start ?? 0) + collected;
+  if (typeof raw?.counts_total === 'number') return raw.counts_total > start;
+  const probe = await call(id, { ...(params as Record<string, unknown>), start, limit: 1 } as NutellaOperationParams[K]);
+  return pageItems(probe).length > 0;
+}
+
+/** Collect every item of a list endpoint, up to `max`. */
+export async function collectAll<K extends PaginatedOperationId>(
+  call: OperationCaller,
+  id: K,
+  params: NutellaOperationParams[K],
+  options: PaginationOptions = {}
+): Promise<CollectResult<PageItem<K>>> {
+  const max = options.max ?? Infinity;
+  const items: PageItem<K>[] = [];
+  let last: Page<K> | undefined;
+  for await (const page of paginate(call, id, params, options)) {
+    items.push(...page.items);
+    last = page;
+  }
+  if (!last || items.length < max) return { items, truncated: false };
+  return { items, truncated: await hasMore(call, id, params, last, items.length) };
+}
@@ -0,0 +1,179 @@
+import { readFileSync } from 'fs';
+import { z } from 'zod';
+import type { RuntimeContext } from '@mastra/core/runtime-context';
+import { NutellaClient, NutellaClientOptions } from './nutellaClient';
+import { ValidationError } from './errors';
+
+/** RuntimeContext key naming the connection profile of a workflow run or agent call. */
+export const PROFILE_CONTEXT_KEY = 'nutellaProfile';
+/** RuntimeContext key naming a user to impersonate with the `hs-user` header; overrides the profile's `hsUser`. */
+export const HS_USER_CONTEXT_KEY = 'hsUser';
+
+const DEFAULT_API_HOST = 'https://api.highspot.com/v1.0';
+
+// Secrets never live in the config itself, only where to find them
+const credentialRefSchema = z
+  .string()
+  .regex(/^(env|file):.+$/, 'expected a reference such as `env:NUTELLA_PROD_TOKEN` or `file:/run/secrets/nutella`');
+
+export const connectionProfileSchema = z
+  .object({
+    host: z.string().url(),
+    /** `basic` sends the credential as `Authorization: Basic <credential>`; `cookie` sends it as the Cookie header. */
+    auth: z.enum(['basic', 'cookie', 'none']).default('basic'),
+    credential: credentialRefSchema.optional(),
+    /** User to impersonate on every request (the spec's `hs-user` header). */
+    hsUser: z.string().email().optional(),
+    description: z.string().optional(),
+  })
+  .strict()
+  .refine(profile => profile.auth === 'none' || profile.credential, { message: '`credential` is required unless `auth` is `none`', path: ['credential'] });
+
+export type ConnectionProfile = z.infer<typeof connectionProfileSchema>;
+
+export const profilesConfigSchema = z
+  .object({
+    /** Profile used when neither the RuntimeContext nor `NUTELLA_PROFILE` names one. */
+    defaultProfile: z.string().optional(),
+    profiles: z.record(connectionProfileSchema),
+  })
+  .strict()
+  .refine(config => !config.defaultProfile || config.defaultProfile in config.profiles, { message: '`defaultProfile` must name one of `profiles`', path: ['defaultProfile'] });
+
+export type ProfilesConfig = z.infer<typeof profilesConfigSchema>;
+
+function invalid(message: string): never {
+  throw new ValidationError(message, { service: 'nutella', operation: 'profiles' });
+}
+
+/**
+ * Parse and validate a profiles config. `source` names where it came from in error messages.
+ * Throws a ValidationError listing every problem rather than the first one.
+ */
+export function parseProfilesConfig(text: string, source: string): ProfilesConfig {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (err: any) {
+    invalid(`${source} is not valid JSON: ${String(err?.message ?? err)}`);
+  }
+  const parsed = profilesConfigSchema.safeParse(raw);
+  if (!parsed.success) {
+    const problems = parsed.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+    invalid(`${source} is not a valid profiles config: ${problems.join('; ')}`);
+  }
+  return parsed.data;
+}
+
+let loaded: { key: string; config: ProfilesConfig | null } | undefined;
+
+/**
+ * Profiles from `NUTELLA_PROFILES_FILE` (a JSON file) or `NUTELLA_PROFILES` (the JSON itself), or `null`
+ * when neither is set. Read once per process; clients are created per call, so this has to be cheap.
+ */
+export function loadProfiles(env: NodeJS.ProcessEnv = process.env): ProfilesConfig | null {
+  const key = `${env.NUTELLA_PROFILES_FILE ?? ''}|${env.NUTELLA_PROFILES ?? ''}`;
+  if (loaded?.key === key) return loaded.config;
+
+  let config: ProfilesConfig | null = null;
+  if (env.NUTELLA_PROFILES_FILE) {
+    let text: string;
+    try {
+      text = readFileSync(env.NUTELLA_PROFILES_FILE, { encoding: 'utf8' });
+    } catch (err: any) {
+      invalid(`Cannot read NUTELLA_PROFILES_FILE ${env.NUTELLA_PROFILES_FILE}: ${String(err?.message ?? err)}`);
+    }
+    config = parseProfilesConfig(text, env.NUTELLA_PROFILES_FILE);
+  } else if (env.NUTELLA_PROFILES) {
+    config = parseProfilesConfig(env.NUTELLA_PROFILES, 'NUTELLA_PROFILES');
+  }
+  loaded = { key, config };
+  return config;
+}
+
+/** Look up a credential reference. Errors name the reference, never the secret. */
+export function resolveCredential(ref: string, profile: string, env: NodeJS.ProcessEnv = process.env): string {
+  const [, kind, target] = ref.match(/^(env|file):(.+)$/) ?? [];
+  let value: string | undefined;
+  if (kind === 'env') {
+    value = env[target];
+  } else if (kind === 'file') {
+    try {
+      value = readFileSync(target, { encoding: 'utf8' });
+    } catch {
+      value = undefined;
+    }
+  }
+  value = value?.trim();
+  if (!value) invalid(`Credential ${ref} of profile "${profile}" is not set`);
+  return value;
+}
+
+// `a=1; b=2` as sent in a Cookie header; NutellaClient encodes the values again
+function parseCookies(header: string): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  for (const part of header.split(';')) {
+    const i = part.indexOf('=');
+    if (i > 0) cookies[part.slice(0, i).trim()] = decodeURIComponent(part.slice(i + 1).trim());
+  }
+  return cookies;
+}
+
+/** Where a call gets its connection from: a profile named in the RuntimeContext, or credentials passed directly. */
+export type ConnectionInput = {
+  /** Basic auth token passed with the call; takes precedence over the profile's credential. */
+  authToken?: string;
+  cookies?: Record<string, string>;
+  runtimeContext?: RuntimeContext;
+};
+
+export type ResolvedConnection = {
+  /** `undefined` when no profiles are configured and `NUTELLA_API_HOST` is used. */
+  profile?: string;
+  host: string;
+  authToken?: string;
+  cookies: Record<string, string>;
+  hsUser?: string;
+};
+
+/** Name of the profile a call would use, without resolving its credential. */
+export function selectedProfile(runtimeContext?: RuntimeContext, env: NodeJS.ProcessEnv = process.env): string | undefined {
+  const fromContext = runtimeContext?.get(PROFILE_CONTEXT_KEY);
+  return (typeof fromContext === 'string' && fromContext) || env.NUTELLA_PROFILE || loadProfiles(env)?.defaultProfile;
+}
+
+/**
+ * Work out the host and credentials of a call. The profile is taken from the RuntimeContext, then
+ * `NUTELLA_PROFILE`, then the config's `defaultProfile`. Without profiles, `NUTELLA_API_HOST` and the
+ * credentials passed with the call are used as before.
+ */
+export function resolveConnection(input: ConnectionInput = {}, env: NodeJS.ProcessEnv = process.env): ResolvedConnection {
+  const config = loadProfiles(env);
+  const name = selectedProfile(input.runtimeContext, env);
+  const fromContext = input.runtimeContext?.get(HS_USER_CONTEXT_KEY);
+  const hsUserOverride = typeof fromContext === 'string' && fromContext ? fromContext : undefined;
+  const passed = { authToken: input.authToken, cookies: input.cookies ?? {} };
+
+  if (!name) {
+    return { host: env.NUTELLA_API_HOST ?? DEFAULT_API_HOST, ...passed, hsUser: hsUserOverride };
+  }
+  const profile = config?.profiles[name];
+  if (!profile) {
+    const known = Object.keys(config?.profiles ?? {});
+    invalid(`Unknown connection profile "${name}"; ${known.length ? `configured profiles: ${known.join(', ')}` : 'no profiles are configured (NUTELLA_PROFILES_FILE)'}`);
+  }
+
+  const hsUser = hsUserOverride ?? profile.hsUser;
+  if (passed.authToken || Object.keys(passed.cookies).length) return { profile: name, host: profile.host, ...passed, hsUser };
+  if (profile.auth === 'none') return { profile: name, host: profile.host, cookies: {}, hsUser };
+  const credential = resolveCredential(profile.credential!, name, env);
+  return profile.auth === 'basic'
+    ? { profile: name, host: profile.host, authToken: credential, cookies: {}, hsUser }
+    : { profile: name, host: profile.host, cookies: parseCookies(credential), hsUser };
+}
+
+/** The NutellaClient for a tool call or workflow step; the one place that decides which API and credentials are used. */
+export function nutellaClientFor(input: ConnectionInput = {}, options: NutellaClientOptions = {}): NutellaClient {
+  const { host, authToken, cookies, hsUser } = resolveConnection(input);
+  return new NutellaClient(host, authToken, cookies, { hsUser, ...options });
+}
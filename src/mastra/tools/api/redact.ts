@@ -0,0 +1,52 @@
+/**
+ * Field names whose values are never logged or traced. Matched exactly after lowercasing and dropping
+ * separators, so `authToken`, `auth_token` and `Auth-Token` all match `authtoken`.
+ * Mastra's own filter covers the generic names; `authtoken` and the cookie fields are what our tools take.
+ */
+export const SENSITIVE_FIELDS = [
+  'password',
+  'token',
+  'secret',
+  'key',
+  'apikey',
+  'auth',
+  'authorization',
+  'bearer',
+  'bearertoken',
+  'jwt',
+  'credential',
+  'clientsecret',
+  'privatekey',
+  'refresh',
+  'ssn',
+  'authtoken',
+  'accesstoken',
+  'cookie',
+  'cookies',
+  'setcookie',
+];
+
+export const REDACTED = '[REDACTED]';
+
+const sensitive = new Set(SENSITIVE_FIELDS);
+
+const normalizeKey = (key: string) => key.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Authorization header values that end up in free text, e.g. an error message quoting a request
+const AUTH_VALUE = /\b(Basic|Bearer)\s+[A-Za-z0-9+/=._~-]{8,}/g;
+
+/** A copy of `value` with sensitive fields and embedded credentials replaced by `[REDACTED]`. */
+export function redactSecrets<T>(value: T, seen = new WeakSet<object>()): T {
+  if (typeof value === 'string') return value.replace(AUTH_VALUE, `$1 ${REDACTED}`) as T;
+  if (!value || typeof value !== 'object') return value;
+  if (seen.has(value)) return '[Circular]' as T;
+  seen.add(value);
+  if (Array.isArray(value)) return value.map(item => redactSecrets(item, seen)) as T;
+  if (value instanceof Error) return redactSecrets({ name: value.name, message: value.message, stack: value.stack }, seen) as T;
+
+  const out: Record<string, unknown> = {};
+  for (const [key, v] of Object.entries(value)) {
+    out[key] = sensitive.has(normalizeKey(key)) && v !== undefined && v !== null ? REDACTED : redactSecrets(v, seen);
+  }
+  return out as T;
+}
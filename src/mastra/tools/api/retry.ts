@@ -0,0 +1,146 @@
+import type { IMastraLogger } from '@mastra/core/logger';
+
+export type RetryPolicy = {
+  /** Retries after the first attempt. */
+  maxRetries: number;
+  /** First backoff delay; doubled on every retry. */
+  baseDelayMs: number;
+  /** Upper bound for a single backoff or Retry-After wait. */
+  maxDelayMs: number;
+  /** Statuses worth retrying. Network errors and timeouts are always retried. */
+  retryStatuses: number[];
+};
+
+export type RateLimit = {
+  /** Sustained requests per second. */
+  requestsPerSecond: number;
+  /** Requests that may be sent back to back before throttling kicks in. */
+  burst: number;
+};
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 30_000,
+  retryStatuses: [408, 429, 500, 502, 503, 504],
+};
+
+export const DEFAULT_RATE_LIMIT: RateLimit = {
+  requestsPerSecond: 5,
+  burst: 10,
+};
+
+// Replaying these cannot apply a change twice
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']);
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/** Client-side token bucket so bulk operations stay under the API's rate limits. */
+export class TokenBucket {
+  private limit: RateLimit;
+  private tokens: number;
+  private lastRefill = Date.now();
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(limit: RateLimit) {
+    this.limit = limit;
+    this.tokens = limit.burst;
+  }
+
+  private refill() {
+    const now = Date.now();
+    this.tokens = Math.min(this.limit.burst, this.tokens + ((now - this.lastRefill) / 1000) * this.limit.requestsPerSecond);
+    this.lastRefill = now;
+  }
+
+  /** Resolve once a token is available; returns how long the caller waited. */
+  take(): Promise<number> {
+    const started = Date.now();
+    // Serialize takers so tokens are handed out in request order
+    const next = this.queue.then(async () => {
+      this.refill();
+      if (this.tokens < 1) {
+        await sleep(((1 - this.tokens) / this.limit.requestsPerSecond) * 1000);
+        this.refill();
+      }
+      this.tokens -= 1;
+    });
+    this.queue = next.catch(() => {});
+    return next.then(() => Date.now() - started);
+  }
+
+  /** Drain the bucket, e.g. after the server answered 429, so followers back off too. */
+  drain() {
+    this.tokens = 0;
+    this.lastRefill = Date.now();
+  }
+}
+
+/** Seconds or an HTTP date, as allowed for the `Retry-After` header. */
+export function parseRetryAfter(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(String(value));
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function backoffDelay(policy: RetryPolicy, attempt: number) {
+  // Full jitter: a random delay up to the exponential bound
+  const bound = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  return Math.round(Math.random() * bound);
+}
+
+function errorStatus(error: unknown): number | undefined {
+  return (error as any)?.response?.status;
+}
+
+function isRetryable(error: unknown, method: string, policy: RetryPolicy) {
+  const status = errorStatus(error);
+  // A 429 was rejected before doing anything, so even non-idempotent requests can be replayed
+  if (status === 429) return policy.retryStatuses.includes(429);
+  if (!IDEMPOTENT_METHODS.has(method.toUpperCase())) return false;
+  if (status === undefined) return Boolean((error as any)?.isAxiosError || (error as any)?.code);
+  return policy.retryStatuses.includes(status);
+}
+
+export type RetryContext = {
+  method: string;
+  /** Used in log messages, e.g. the operationId. */
+  label: string;
+  policy: RetryPolicy;
+  bucket?: TokenBucket;
+  logger?: IMastraLogger;
+};
+
+/**
+ * Run `request` through the token bucket, retrying retryable failures with exponential backoff
+ * and jitter. A `Retry-After` header on the failed response takes precedence over the backoff.
+ */
+export async function withRetry<T>(request: () => Promise<T>, ctx: RetryContext): Promise<T> {
+  const { policy, bucket, logger, label, method } = ctx;
+  for (let attempt = 0; ; attempt++) {
+    if (bucket) {
+      const waited = await bucket.take();
+      if (waited > 50) logger?.debug(`Nutella request ${label} throttled by client rate limit`, { waitedMs: waited });
+    }
+
+    try {
+      return await request();
+    } catch (error) {
+      const status = errorStatus(error);
+      if (status === 429) bucket?.drain();
+      if (attempt >= policy.maxRetries || !isRetryable(error, method, policy)) throw error;
+
+      const retryAfter = parseRetryAfter((error as any)?.response?.headers?.['retry-after']);
+      const delayMs = Math.min(policy.maxDelayMs, retryAfter ?? backoffDelay(policy, attempt));
+      logger?.warn(`Retrying Nutella request ${label} after ${status ?? (error as any)?.code ?? 'error'}`, {
+        attempt: attempt + 1,
+        maxRetries: policy.maxRetries,
+        delayMs,
+        retryAfter: retryAfter !== undefined,
+      });
+      await sleep(delayMs);
+    }
+  }
+}
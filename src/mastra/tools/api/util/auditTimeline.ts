@@ -0,0 +1,102 @@
+import type { AuditEvent } from '../nutellaClient';
+
+export type AuditTimelineEntry = {
+  time?: string;
+  actor: string;
+  action: string;
+  result: string;
+  target?: string;
+  ip?: string;
+};
+
+export type AuditEventGroup = {
+  actor: string;
+  action: string;
+  result: string;
+  count: number;
+  first?: string;
+  last?: string;
+  /** A few of the targets, to tell e.g. which spots were deleted. */
+  targets: string[];
+};
+
+export type AuditTimeline = {
+  total: number;
+  first?: string;
+  last?: string;
+  byActor: Record<string, number>;
+  byAction: Record<string, number>;
+  byResult: Record<string, number>;
+  /** One entry per actor + action + result, most frequent first. */
+  groups: AuditEventGroup[];
+  /** Oldest first; capped at `maxTimeline` entries. */
+  timeline: AuditTimelineEntry[];
+  timelineTruncated: boolean;
+};
+
+const MAX_TARGETS_PER_GROUP = 5;
+
+function eventTime(event: AuditEvent) {
+  return event.event_time ?? event.date;
+}
+
+function actorOf(event: AuditEvent) {
+  const actor = event.actor;
+  const name = actor?.name ?? actor?.id ?? 'unknown';
+  // Impersonated sessions are attributed to both people
+  return actor?.assumed_by ? `${name} (as ${actor.assumed_by})` : name;
+}
+
+function increment(counts: Record<string, number>, key: string) {
+  counts[key] = (counts[key] ?? 0) + 1;
+}
+
+function sortedCounts(counts: Record<string, number>) {
+  return Object.fromEntries(Object.entries(counts).sort((a, b) => b[1] - a[1]));
+}
+
+/** Turn raw audit events into a chronological timeline plus counts by actor, action and result. */
+export function summarizeAuditEvents(events: AuditEvent[], options: { maxTimeline?: number } = {}): AuditTimeline {
+  const maxTimeline = options.maxTimeline ?? 200;
+  const entries: AuditTimelineEntry[] = events
+    .map(event => ({
+      time: eventTime(event),
+      actor: actorOf(event),
+      action: event.action ?? 'unknown',
+      result: event.outcome?.result ?? 'unknown',
+      target: event.target,
+      ip: event.source?.ip,
+    }))
+    .sort((a, b) => String(a.time ?? '').localeCompare(String(b.time ?? '')));
+
+  const byActor: Record<string, number> = {};
+  const byAction: Record<string, number> = {};
+  const byResult: Record<string, number> = {};
+  const groups = new Map<string, AuditEventGroup>();
+  for (const entry of entries) {
+    increment(byActor, entry.actor);
+    increment(byAction, entry.action);
+    increment(byResult, entry.result);
+
+    const key = JSON.stringify([entry.actor, entry.action, entry.result]);
+    const group = groups.get(key) ?? { actor: entry.actor, action: entry.action, result: entry.result, count: 0, targets: [] };
+    group.count += 1;
+    group.first ??= entry.time;
+    group.last = entry.time ?? group.last;
+    if (entry.target && group.targets.length < MAX_TARGETS_PER_GROUP && !group.targets.includes(entry.target)) group.targets.push(entry.target);
+    groups.set(key, group);
+  }
+
+  return {
+    total: entries.length,
+    first: entries[0]?.time,
+    last: entries[entries.length - 1]?.time,
+    byActor: sortedCounts(byActor),
+    byAction: sortedCounts(byAction),
+    byResult: sortedCounts(byResult),
+    groups: [...groups.values()].sort((a, b) => b.count - a.count),
+    // Keep the most recent events when there are too many to list
+    timeline: entries.slice(-maxTimeline),
+    timelineTruncated: entries.length > maxTimeline,
+  };
+}
@@ -0,0 +1,63 @@
+/** Split CSV text (RFC 4180: quoted fields, doubled quotes, newlines inside quotes) into rows of cells. */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  // Spreadsheet exports often start with a byte order mark
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char !== '"') cell += char;
+      else if (input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else quoted = false;
+    } else if (char === '"') quoted = true;
+    else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else cell += char;
+  }
+  if (cell || row.length) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
+
+/**
+ * Parse CSV with a header row into one record per data row. `line` is the row's number in the
+ * file (the header is line 1), which is what people see in their spreadsheet.
+ */
+export function parseCsvRecords(text: string): Array<{ line: number; values: Record<string, string> }> {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+  const columns = header.map(column => column.trim());
+  return rows
+    .map((cells, i) => ({ line: i + 2, values: Object.fromEntries(columns.map((column, j) => [column, cells[j] ?? ''])) }))
+    .filter(({ values }) => Object.values(values).some(value => value.trim() !== ''));
+}
+
+// Cells starting with these are run as formulas by spreadsheet apps
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function csvCell(value: unknown) {
+  if (value === undefined || value === null) return '';
+  let text = String(value);
+  if (typeof value === 'string' && FORMULA_PREFIX.test(text)) text = `'${text}`;
+  return /[",\r\n]|^\s|\s$/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** Format rows as CSV (RFC 4180, CRLF line endings), quoting cells only where needed. */
+export function formatCsv(rows: unknown[][]): string {
+  return rows.map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,83 @@
+import { z } from 'zod';
+import { formatCsv } from './csv';
+
+export const exportFormatSchema = z.enum(['csv', 'ndjson', 'markdown']);
+
+export type ExportFormat = z.infer<typeof exportFormatSchema>;
+
+export const exportExtensions: Record<ExportFormat, string> = {
+  csv: 'csv',
+  ndjson: 'ndjson',
+  markdown: 'md',
+};
+
+function cellValue(value: unknown) {
+  if (Array.isArray(value)) {
+    return value.every(v => v === null || typeof v !== 'object') ? value.filter(v => v !== null && v !== undefined).join('; ') : JSON.stringify(value);
+  }
+  if (value && typeof value === 'object') return Object.keys(value).length ? JSON.stringify(value) : undefined;
+  return value;
+}
+
+/**
+ * Flatten nested objects into dotted keys (`properties.region`). Arrays of scalars are joined with
+ * "; " so e.g. a user's groups fit in one cell; arrays of objects are kept as JSON.
+ */
+export function flattenRecord(value: unknown, prefix = ''): Record<string, unknown> {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) return { [prefix || 'value']: cellValue(value) };
+  const flat: Record<string, unknown> = {};
+  for (const [key, child] of Object.entries(value as Record<string, unknown>)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (child && typeof child === 'object' && !Array.isArray(child) && Object.keys(child).length) Object.assign(flat, flattenRecord(child, path));
+    else {
+      const cell = cellValue(child);
+      // Leave unset fields out so columns nobody has do not show up
+      if (cell !== undefined) flat[path] = cell;
+    }
+  }
+  return flat;
+}
+
+/**
+ * Columns to export: every key in first-seen order, or the requested ones. A requested column that
+ * names a nested object (e.g. `properties`) selects all of its flattened keys.
+ */
+export function selectColumns(rows: Record<string, unknown>[], requested?: string[]): string[] {
+  const all = [...new Set(rows.flatMap(row => Object.keys(row)))];
+  if (!requested?.length) return all;
+  const selected = requested.flatMap(column => {
+    if (all.includes(column)) return [column];
+    const nested = all.filter(key => key.startsWith(`${column}.`));
+    // Unknown columns stay, empty, so the file has the layout that was asked for
+    return nested.length ? nested : [column];
+  });
+  return [...new Set(selected)];
+}
+
+function markdownCell(value: unknown) {
+  if (value === undefined || value === null) return '';
+  return String(value).replace(/\\/g, '\\\\').replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+}
+
+/** Render records as CSV, NDJSON (one flattened object per line) or a Markdown table. */
+export function formatRecords(records: unknown[], format: ExportFormat, requestedColumns?: string[]): { content: string; columns: string[]; rows: number } {
+  const rows = records.map(record => flattenRecord(record));
+  const columns = selectColumns(rows, requestedColumns);
+  let content: string;
+  switch (format) {
+    case 'csv':
+      content = formatCsv([columns, ...rows.map(row => columns.map(column => row[column]))]);
+      break;
+    case 'ndjson':
+      content = rows.map(row => JSON.stringify(Object.fromEntries(columns.map(column => [column, row[column] ?? null])))).join('\n') + (rows.length ? '\n' : '');
+      break;
+    case 'markdown':
+      content = [
+        `| ${columns.map(markdownCell).join(' | ')} |`,
+        `| ${columns.map(() => '---').join(' | ')} |`,
+        ...rows.map(row => `| ${columns.map(column => markdownCell(row[column])).join(' | ')} |`),
+      ].join('\n') + '\n';
+      break;
+  }
+  return { content, columns, rows: rows.length };
+}
@@ -0,0 +1,39 @@
+import type { Group } from './normalizeGroups';
+import type { User } from './normalizeUsers';
+
+/** Group ids per user id, from group member lists and from each user's own `groups`. */
+export function membershipIndex(users: User[], groups: Group[]): Map<string, Set<string>> {
+  const index = new Map<string, Set<string>>();
+  const add = (userId: string | undefined, groupId: string | undefined) => {
+    if (!userId || !groupId) return;
+    const set = index.get(userId) ?? new Set<string>();
+    set.add(groupId);
+    index.set(userId, set);
+  };
+  for (const user of users) for (const groupId of user.groups ?? []) add(user.id, groupId);
+  for (const group of groups) for (const memberId of group.memberIds ?? []) add(memberId, group.id);
+  return index;
+}
+
+/** Users that belong to no group at all. */
+export function usersInNoGroup(users: User[], groups: Group[]): User[] {
+  const index = membershipIndex(users, groups);
+  return users.filter(user => !index.get(String(user.id))?.size);
+}
+
+function propertyValue(user: User, property: string): unknown {
+  const properties = (user.properties ?? {}) as Record<string, unknown>;
+  // Property names are matched case-insensitively: "Department" and "department" are the same column to an admin
+  const key = Object.keys(properties).find(name => name.toLowerCase() === property.toLowerCase());
+  return key === undefined ? undefined : properties[key];
+}
+
+/** Users whose custom property equals `value` (case-insensitive; any element for multi-valued properties). */
+export function usersWithProperty(users: User[], property: string, value: string): User[] {
+  const wanted = value.trim().toLowerCase();
+  return users.filter(user => {
+    const actual = propertyValue(user, property);
+    const values = Array.isArray(actual) ? actual : [actual];
+    return values.some(v => v !== undefined && v !== null && String(v).trim().toLowerCase() === wanted);
+  });
+}
@@ -0,0 +1,5 @@
+/** Parse a model reply that should be JSON, tolerating a surrounding markdown code fence. */
+export function parseJsonReply(text: string): unknown {
+  const stripped = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  return JSON.parse(stripped);
+}
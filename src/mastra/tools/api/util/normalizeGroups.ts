@@ -0,0 +1,48 @@
+import { z } from 'zod';
+
+// Zod schema for Group (minimal, with catchall to allow extra properties).
+export const groupSchema = z
+  .object({
+    id: z.string().optional(),
+    title: z.string().optional(),
+    description: z.string().optional(),
+    visibility: z.string().optional(),
+    /** Set when the members were fetched along with the group. */
+    memberIds: z.array(z.string()).optional(),
+    properties: z.record(z.unknown()).optional(),
+  })
+  .catchall(z.any());
+
+export const groupsListSchema = z.array(groupSchema);
+
+export type Group = z.infer<typeof groupSchema>;
+
+// Utility to normalize the API's group response shapes into a consistent array.
+export function normalizeGroupsResponse(raw: unknown): Group[] {
+  if (!raw) return [];
+
+  let arr: any[] = [];
+  if (Array.isArray(raw)) arr = raw;
+  else if (Array.isArray((raw as any).collection)) arr = (raw as any).collection;
+  else if (Array.isArray((raw as any).groups)) arr = (raw as any).groups;
+  else if (Array.isArray((raw as any).items)) arr = (raw as any).items;
+  else arr = [raw as any];
+
+  return arr.map((it: any) => {
+    const g: Group = {} as any;
+    const src = it ?? {};
+
+    g.id = src.id ?? src.group_id ?? src._id ?? undefined;
+    g.title = src.title ?? src.name ?? src.display_name ?? undefined;
+    g.description = src.description ?? undefined;
+    g.visibility = src.visibility ?? undefined;
+    if (Array.isArray(src.members)) g.memberIds = src.members.map((m: any) => (typeof m === 'string' ? m : m?.id)).filter(Boolean);
+    if (src.properties && typeof src.properties === 'object') g.properties = src.properties;
+
+    for (const k of Object.keys(src)) {
+      if (!(k in g) && k !== 'members') g[k] = src[k];
+    }
+
+    return g;
+  });
+}
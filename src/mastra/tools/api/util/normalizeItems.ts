@@ -0,0 +1,62 @@
+import { z } from 'zod';
+
+// Zod schema for Item (minimal, with catchall to allow extra properties).
+export const itemSchema = z
+  .object({
+    id: z.string().optional(),
+    title: z.string().optional(),
+    description: z.string().optional(),
+    /** Id of the spot the item lives in. */
+    spot: z.string().optional(),
+    contentType: z.string().optional(),
+    author: z.string().optional(),
+    availableAt: z.string().optional(),
+    expiresAt: z.string().optional(),
+    dateAdded: z.string().optional(),
+    dateUpdated: z.string().optional(),
+    /** Ids of the lists the item is filed under. */
+    lists: z.array(z.string()).optional(),
+  })
+  .catchall(z.any());
+
+export const itemsListSchema = z.array(itemSchema);
+
+export type Item = z.infer<typeof itemSchema>;
+
+// Spec fields renamed to camelCase above; everything else is copied as is
+const RENAMED = ['content_type', 'available_at', 'expires_at', 'date_added', 'date_updated'];
+
+// Utility to normalize the API's item response shapes into a consistent array.
+export function normalizeItemsResponse(raw: unknown): Item[] {
+  if (!raw) return [];
+
+  let arr: any[] = [];
+  if (Array.isArray(raw)) arr = raw;
+  else if (Array.isArray((raw as any).collection)) arr = (raw as any).collection;
+  else if (Array.isArray((raw as any).items)) arr = (raw as any).items;
+  else arr = [raw as any];
+
+  return arr.map((it: any) => {
+    const i: Item = {} as any;
+    const src = it ?? {};
+
+    i.id = src.id ?? src.item_id ?? src._id ?? undefined;
+    i.title = src.title ?? src.name ?? src.content_name ?? undefined;
+    i.description = src.description ?? undefined;
+    i.spot = typeof src.spot === 'string' ? src.spot : src.spot?.id ?? src.spot_id ?? undefined;
+    i.contentType = src.content_type ?? src.contentType ?? undefined;
+    i.author = src.author ?? undefined;
+    // An empty string means "never expires" upstream
+    i.availableAt = src.available_at || undefined;
+    i.expiresAt = src.expires_at || undefined;
+    i.dateAdded = src.date_added ?? undefined;
+    i.dateUpdated = src.date_updated ?? undefined;
+    if (Array.isArray(src.lists)) i.lists = src.lists.map((l: any) => (typeof l === 'string' ? l : l?.id)).filter(Boolean);
+
+    for (const k of Object.keys(src)) {
+      if (!(k in i) && !RENAMED.includes(k)) i[k] = src[k];
+    }
+
+    return i;
+  });
+}
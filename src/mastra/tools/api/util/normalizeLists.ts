@@ -0,0 +1,71 @@
+import { z } from 'zod';
+
+// Lists nest, so the type is spelled out for the recursive schema below
+export type List = {
+  id?: string;
+  name?: string;
+  description?: string;
+  /** `list_group`, `list` or `query`. */
+  type?: string;
+  parent?: string;
+  isGlobal?: boolean;
+  featured?: boolean;
+  children?: List[];
+  [key: string]: any;
+};
+
+// Zod schema for List (minimal, with catchall to allow extra properties).
+export const listSchema: z.ZodType<List> = z
+  .object({
+    id: z.string().optional(),
+    name: z.string().optional(),
+    description: z.string().optional(),
+    type: z.string().optional(),
+    parent: z.string().optional(),
+    isGlobal: z.boolean().optional(),
+    featured: z.boolean().optional(),
+    children: z.lazy(() => z.array(listSchema)).optional(),
+  })
+  .catchall(z.any());
+
+export const listsListSchema = z.array(listSchema);
+
+function normalizeList(src: any): List {
+  const l: List = {};
+
+  l.id = src.id ?? src.list_id ?? src._id ?? undefined;
+  l.name = src.name ?? src.title ?? undefined;
+  l.description = src.description ?? undefined;
+  l.type = src.type ?? undefined;
+  l.parent = src.parent ?? undefined;
+  l.isGlobal = src.is_global ?? src.isGlobal ?? undefined;
+  l.featured = src.featured ?? undefined;
+  if (Array.isArray(src.children)) l.children = src.children.map((child: any) => normalizeList(child ?? {}));
+
+  for (const k of Object.keys(src)) {
+    if (!(k in l) && k !== 'is_global') l[k] = src[k];
+  }
+
+  return l;
+}
+
+// Utility to normalize the API's list response shapes (a tree of list groups and lists) into a consistent array.
+export function normalizeListsResponse(raw: unknown): List[] {
+  if (!raw) return [];
+
+  let arr: any[] = [];
+  if (Array.isArray(raw)) arr = raw;
+  else if (Array.isArray((raw as any).collection)) arr = (raw as any).collection;
+  else if (Array.isArray((raw as any).lists)) arr = (raw as any).lists;
+  else arr = [raw as any];
+
+  return arr.map((it: any) => normalizeList(it ?? {}));
+}
+
+/** Every list in the tree, depth first, with the names of its ancestors, e.g. `Composition / Steel`. */
+export function flattenLists(lists: List[], path: string[] = []): Array<List & { path: string }> {
+  return lists.flatMap(list => {
+    const names = [...path, list.name ?? list.id ?? '?'];
+    return [{ ...list, path: names.join(' / ') }, ...flattenLists(list.children ?? [], names)];
+  });
+}
@@ -0,0 +1,45 @@
+import { z } from 'zod';
+
+// Zod schema for Spot (minimal, with catchall to allow extra properties).
+export const spotSchema = z
+  .object({
+    id: z.string().optional(),
+    title: z.string().optional(),
+    description: z.string().optional(),
+    isOfficial: z.boolean().optional(),
+    visibility: z.string().optional(),
+  })
+  .catchall(z.any());
+
+export const spotsListSchema = z.array(spotSchema);
+
+export type Spot = z.infer<typeof spotSchema>;
+
+// Utility to normalize the API's spot response shapes into a consistent array.
+export function normalizeSpotsResponse(raw: unknown): Spot[] {
+  if (!raw) return [];
+
+  let arr: any[] = [];
+  if (Array.isArray(raw)) arr = raw;
+  else if (Array.isArray((raw as any).collection)) arr = (raw as any).collection;
+  else if (Array.isArray((raw as any).spots)) arr = (raw as any).spots;
+  else if (Array.isArray((raw as any).items)) arr = (raw as any).items;
+  else arr = [raw as any];
+
+  return arr.map((it: any) => {
+    const s: Spot = {} as any;
+    const src = it ?? {};
+
+    s.id = src.id ?? src.spot_id ?? src._id ?? undefined;
+    s.title = src.title ?? src.name ?? undefined;
+    s.description = src.description ?? undefined;
+    s.isOfficial = src.is_official ?? src.isOfficial ?? undefined;
+    s.visibility = src.visibility ?? undefined;
+
+    for (const k of Object.keys(src)) {
+      if (!(k in s) && k !== 'is_official') s[k] = src[k];
+    }
+
+    return s;
+  });
+}
@@ -12,6 +12,8 @@ export const userSchema = z
     username: z.string().optional(),
     createdAt: z.string().optional(),
     updatedAt: z.string().optional(),
+    /** Ids of the groups the user is a member of. */
+    groups: z.array(z.string()).optional(),
   })
   .catchall(z.any());
 
@@ -26,6 +28,7 @@ export function normalizeUsersResponse(raw: unknown): User[] {
   // unwrap common wrapper shapes
   let arr: any[] = [];
   if (Array.isArray(raw)) arr = raw;
+  else if (Array.isArray((raw as any).collection)) arr = (raw as any).collection;
   else if ((raw as any).users && Array.isArray((raw as any).users)) arr = (raw as any).users;
   else if ((raw as any).data && Array.isArray((raw as any).data?.users)) arr = (raw as any).data.users;
   else if ((raw as any).data && Array.isArray((raw as any).data)) arr = (raw as any).data;
@@ -45,6 +48,9 @@ export function normalizeUsersResponse(raw: unknown): User[] {
     u.username = src.username ?? src.login ?? undefined;
     u.createdAt = src.created_at ?? src.createdAt ?? src.created ?? undefined;
     u.updatedAt = src.updated_at ?? src.updatedAt ?? src.updated ?? undefined;
+    // Ids, or group objects in some responses
+    const groups = src.groups ?? src.group_ids;
+    u.groups = Array.isArray(groups) ? groups.map((g: any) => (typeof g === 'string' ? g : g?.id)).filter(Boolean) : undefined;
 
     for (const k of Object.keys(src)) {
       if (!(k in u)) u[k] = src[k];
@@ -0,0 +1,75 @@
+import { z } from 'zod';
+import type { RequestStatus } from '../asyncRequests';
+
+// Zod schema for a Privacy Center data subject request (one row per email).
+export const privacyRequestSchema = z
+  .object({
+    requestId: z.string().optional(),
+    email: z.string().optional(),
+    /** `access` or `deletion`. */
+    type: z.string().optional(),
+    /** As reported by the Privacy Center, e.g. `In_Progress` or `Complete`. */
+    status: z.string().optional(),
+    destinationSpot: z.string().optional(),
+    dateSubmitted: z.string().optional(),
+    dateCompleted: z.string().optional(),
+  })
+  .catchall(z.any());
+
+export type PrivacyRequest = z.infer<typeof privacyRequestSchema>;
+
+const RENAMED = ['request_id', 'data_subject_email', 'destination_spot', 'date_submitted', 'date_completed'];
+
+// Utility to normalize the Privacy Center's response shapes into a consistent array.
+export function normalizePrivacyRequests(raw: unknown): PrivacyRequest[] {
+  if (!raw) return [];
+
+  let arr: any[] = [];
+  if (Array.isArray(raw)) arr = raw;
+  else if (Array.isArray((raw as any).collection)) arr = (raw as any).collection;
+  else arr = [raw as any];
+
+  return arr.map((it: any) => {
+    const r: PrivacyRequest = {} as any;
+    const src = it ?? {};
+
+    r.requestId = src.request_id ?? src.requestId ?? undefined;
+    r.email = src.data_subject_email ?? src.email ?? undefined;
+    r.type = src.type ?? undefined;
+    r.status = src.status ?? undefined;
+    r.destinationSpot = src.destination_spot ?? undefined;
+    r.dateSubmitted = src.date_submitted ?? undefined;
+    r.dateCompleted = src.date_completed || undefined;
+
+    for (const k of Object.keys(src)) {
+      if (!(k in r) && !RENAMED.includes(k)) r[k] = src[k];
+    }
+
+    return r;
+  });
+}
+
+/** The operations that file data subject requests; their ids are polled on the Privacy Center, not `/requests`. */
+export const privacyOperations = ['postPrivacyDataSubjectAccess', 'postPrivacyDataSubjectDelete'] as const;
+
+export function isPrivacyOperation(operationId: string) {
+  return (privacyOperations as readonly string[]).includes(operationId);
+}
+
+/** Map the Privacy Center statuses of a request's rows onto a tracked request status. */
+export function privacyRequestStatus(rows: PrivacyRequest[]): RequestStatus {
+  const statuses = rows.map(row => String(row.status ?? '').toLowerCase());
+  if (statuses.some(status => /fail|error|reject|cancel/.test(status))) return 'failed';
+  if (statuses.length && statuses.every(status => /complete|done|success/.test(status))) return 'ok';
+  return 'pending';
+}
+
+/** Open requests (not yet complete or failed) of `type` per email, so a second request is not filed. */
+export function openRequestsByEmail(rows: PrivacyRequest[], type: string): Map<string, PrivacyRequest> {
+  const open = new Map<string, PrivacyRequest>();
+  for (const row of rows) {
+    if (!row.email || row.type !== type || privacyRequestStatus([row]) !== 'pending') continue;
+    open.set(row.email.toLowerCase(), row);
+  }
+  return open;
+}
@@ -0,0 +1,73 @@
+import { z } from 'zod';
+import { Item } from './normalizeItems';
+
+/** A search result the answer may cite as `[ref]`. */
+export const searchSourceSchema = z.object({
+  ref: z.number(),
+  title: z.string(),
+  url: z.string().optional(),
+  itemId: z.string().optional(),
+});
+
+export type SearchSource = z.infer<typeof searchSourceSchema>;
+
+export const instantAnswerSchema = z.object({
+  answer: z.string().optional(),
+  sources: z.array(z.object({ title: z.string().optional(), url: z.string().optional() }).passthrough()),
+  /** Set when Highspot could not produce an answer; the search results are still used. */
+  error: z.string().optional(),
+});
+
+export type InstantAnswerResult = z.infer<typeof instantAnswerSchema>;
+
+export const sourceComparisonSchema = z.object({
+  /** Cited items Highspot's instant answer also drew on. */
+  shared: z.array(z.string()),
+  onlyOurs: z.array(z.string()),
+  onlyInstant: z.array(z.string()),
+});
+
+export type SourceComparison = z.infer<typeof sourceComparisonSchema>;
+
+/** Number search results from 1 so the prompt and the answer can refer to them. */
+export function numberResults(items: Item[]): Array<Item & { ref: number }> {
+  return items.map((item, i) => ({ ref: i + 1, ...item }));
+}
+
+export function sourcesOf(results: Array<Item & { ref: number }>): SearchSource[] {
+  return results.map(({ ref, id, title, url }) => ({ ref, title: title ?? String(id ?? ref), url: typeof url === 'string' ? url : undefined, itemId: id }));
+}
+
+/** The sources an answer cites with `[n]` (also `[1, 3]` and `[1][3]`), in the order they are first cited. */
+export function citedSources(answer: string, sources: SearchSource[]): SearchSource[] {
+  const byRef = new Map(sources.map(source => [source.ref, source]));
+  const cited = new Map<number, SearchSource>();
+  for (const [, refs] of answer.matchAll(/\[(\d+(?:\s*,\s*\d+)*)\]/g)) {
+    for (const ref of refs.split(',').map(Number)) {
+      const source = byRef.get(ref);
+      if (source && !cited.has(ref)) cited.set(ref, source);
+    }
+  }
+  return [...cited.values()];
+}
+
+export function formatSources(sources: SearchSource[]): string {
+  return sources.map(({ ref, title, url }) => `[${ref}] ${title}${url ? ` - ${url}` : ''}`).join('\n');
+}
+
+// Item links differ in host and query string between the search API and the instant answer
+function itemKey(url: string | undefined) {
+  return url?.match(/\/items\/([0-9a-f]{24})/i)?.[1] ?? url;
+}
+
+/** Which cited items Highspot's instant answer also drew on, and which sources only one side used. */
+export function compareSources(cited: SearchSource[], instant: InstantAnswerResult): SourceComparison {
+  const key = (source: SearchSource) => source.itemId ?? itemKey(source.url);
+  const instantKeys = new Set(instant.sources.map(source => itemKey(source.url)).filter(Boolean));
+  const citedKeys = new Set(cited.map(key));
+  return {
+    shared: cited.filter(source => instantKeys.has(key(source))).map(source => source.title),
+    onlyOurs: cited.filter(source => !instantKeys.has(key(source))).map(source => source.title),
+    onlyInstant: instant.sources.filter(source => !citedKeys.has(itemKey(source.url))).map(source => source.title ?? source.url ?? '?'),
+  };
+}
@@ -0,0 +1,112 @@
+import { z } from 'zod';
+import { parseJsonReply } from './jsonReply';
+
+const cellSchema = z.union([z.string(), z.number(), z.boolean(), z.null()]);
+
+export const answerColumnSchema = z.object({
+  key: z.string(),
+  label: z.string(),
+  type: z.enum(['string', 'number', 'boolean', 'date']),
+});
+
+export type AnswerColumn = z.infer<typeof answerColumnSchema>;
+
+const cellMatches = (type: AnswerColumn['type'], value: unknown) =>
+  value === null ||
+  (type === 'number' ? typeof value === 'number' : type === 'boolean' ? typeof value === 'boolean' : type === 'date' ? typeof value === 'string' && !Number.isNaN(Date.parse(value)) : typeof value === 'string');
+
+/** The records an answer is about; every row carries the `id` of the record it shows. */
+export const answerTableSchema = z
+  .object({
+    columns: z.array(answerColumnSchema).min(1),
+    rows: z.array(z.record(cellSchema)),
+  })
+  .superRefine((table, ctx) => {
+    if (table.columns[0].key !== 'id') ctx.addIssue({ code: 'custom', path: ['columns', 0, 'key'], message: 'the first column must be "id"' });
+    const columns = new Map(table.columns.map(column => [column.key, column]));
+    table.rows.forEach((row, i) => {
+      if (typeof row.id !== 'string' || !row.id) ctx.addIssue({ code: 'custom', path: ['rows', i, 'id'], message: 'every row needs the record id as a string' });
+      for (const [key, value] of Object.entries(row)) {
+        const column = columns.get(key);
+        if (!column) ctx.addIssue({ code: 'custom', path: ['rows', i, key], message: 'no column has this key' });
+        else if (!cellMatches(column.type, value)) ctx.addIssue({ code: 'custom', path: ['rows', i, key], message: `expected a ${column.type} or null` });
+      }
+    });
+  });
+
+/** A statement of the summary and the records it rests on. */
+export const answerCitationSchema = z.object({
+  claim: z.string().min(1),
+  ids: z.array(z.string()).min(1),
+});
+
+export const structuredAnswerSchema = z.object({
+  summary: z.string().min(1),
+  table: answerTableSchema.nullable(),
+  counts: z.array(z.object({ label: z.string(), value: z.number() })),
+  citations: z.array(answerCitationSchema),
+});
+
+export type StructuredAnswer = z.infer<typeof structuredAnswerSchema>;
+
+/** Appended to the answer prompt: the JSON the model must reply with. */
+export const STRUCTURED_ANSWER_INSTRUCTIONS = `Reply with a JSON object only, in this shape:
+{
+  "summary": "<the answer in prose>",
+  "table": { "columns": [{ "key": "id", "label": "ID", "type": "string" }, ...], "rows": [{ "id": "<record id>", ... }] } or null,
+  "counts": [{ "label": "<what was counted>", "value": <number> }],
+  "citations": [{ "claim": "<a statement of the summary>", "ids": ["<record id>", ...] }]
+}
+The table lists the records the answer is about, or is null when there are none. Its first column is "id", and each row's id is the id of the record in the data. Column types are "string", "number", "boolean" or "date" (ISO 8601 text).
+Give every number the summary states in counts. Cite the ids of the records each claim rests on, using only ids that appear in the data.`;
+
+// Enough to reach list children and computed rows without walking whole API payloads
+const MAX_ID_DEPTH = 4;
+
+/** Ids of the records in a dataset (any `id` field), which citations and table rows must point to. */
+export function recordIds(data: unknown, depth = 0, ids = new Set<string>()): Set<string> {
+  if (depth > MAX_ID_DEPTH || data === null || typeof data !== 'object') return ids;
+  if (Array.isArray(data)) {
+    for (const value of data) recordIds(value, depth + 1, ids);
+    return ids;
+  }
+  for (const [key, value] of Object.entries(data)) {
+    if (key === 'id' && (typeof value === 'string' || typeof value === 'number')) ids.add(String(value));
+    else recordIds(value, depth + 1, ids);
+  }
+  return ids;
+}
+
+/** A failed check keeps the reply's `summary` when it has one, the best prose to fall back to. */
+export type StructuredAnswerCheck = { success: true; answer: StructuredAnswer } | { success: false; problems: string[]; summary?: string };
+
+/**
+ * Parse and validate a structured answer. With `knownIds`, table rows and citations must point to
+ * records in the data; a dataset without ids (e.g. an audit timeline) leaves them unchecked.
+ */
+export function checkStructuredAnswer(text: string, knownIds?: Set<string>): StructuredAnswerCheck {
+  let reply: unknown;
+  try {
+    reply = parseJsonReply(text);
+  } catch (err: any) {
+    return { success: false, problems: [`The reply is not valid JSON (${String(err?.message ?? err)}).`] };
+  }
+  const summary = typeof (reply as any)?.summary === 'string' && (reply as any).summary.trim() ? ((reply as any).summary as string) : undefined;
+  const parsed = structuredAnswerSchema.safeParse(reply);
+  if (!parsed.success) {
+    return { success: false, problems: parsed.error.issues.map(issue => `${issue.path.join('.') || 'reply'}: ${issue.message}`), summary };
+  }
+
+  const answer = parsed.data;
+  if (knownIds?.size) {
+    const cited = [...(answer.table?.rows.map(row => String(row.id)) ?? []), ...answer.citations.flatMap(citation => citation.ids)];
+    const unknown = [...new Set(cited.filter(id => !knownIds.has(id)))];
+    if (unknown.length) return { success: false, problems: [`These ids are not in the data: ${unknown.slice(0, 20).join(', ')}.`], summary };
+  }
+  return { success: true, answer };
+}
+
+/** Follow-up message asking the model to fix its previous reply. */
+export function repairPrompt(problems: string[]): string {
+  return `Your reply could not be used:\n${problems.map(problem => `- ${problem}`).join('\n')}\nReply again with the corrected JSON object only.`;
+}
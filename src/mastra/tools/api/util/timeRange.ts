@@ -0,0 +1,86 @@
+export type TimeRange = {
+  /** ISO8601, inclusive */
+  start: string;
+  /** ISO8601, exclusive */
+  end: string;
+};
+
+const HOUR = 1000 * 60 * 60;
+const DAY = HOUR * 24;
+
+const UNIT_MS: Record<string, number> = {
+  minute: 1000 * 60,
+  hour: HOUR,
+  day: DAY,
+  week: DAY * 7,
+  month: DAY * 30,
+};
+
+function startOfUtcDay(date: Date) {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+// Weeks start on Monday
+function startOfUtcWeek(date: Date) {
+  const day = startOfUtcDay(date);
+  const offset = (day.getUTCDay() + 6) % 7;
+  return new Date(day.getTime() - offset * DAY);
+}
+
+function startOfUtcMonth(date: Date) {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+}
+
+function range(start: Date, end: Date): TimeRange {
+  return { start: start.toISOString(), end: end.toISOString() };
+}
+
+/**
+ * Turn a relative time expression found in free text ("yesterday", "last 3 days", "this month",
+ * "since 2025-03-01", ...) into an absolute UTC range. Returns undefined when nothing matches.
+ */
+export function parseTimeRange(text: string, now: Date = new Date()): TimeRange | undefined {
+  const q = text.toLowerCase();
+
+  const between = q.match(/(?:between|from)\s+(\d{4}-\d{2}-\d{2}(?:t[\d:.]+z?)?)\s+(?:and|to|until)\s+(\d{4}-\d{2}-\d{2}(?:t[\d:.]+z?)?)/);
+  if (between) {
+    const start = new Date(between[1].toUpperCase());
+    const end = new Date(between[2].toUpperCase());
+    // a bare end date means "through that day"
+    if (!between[2].includes('t')) end.setUTCDate(end.getUTCDate() + 1);
+    if (!Number.isNaN(start.getTime()) && !Number.isNaN(end.getTime())) return range(start, end);
+  }
+
+  const since = q.match(/(?:since|after)\s+(\d{4}-\d{2}-\d{2}(?:t[\d:.]+z?)?)/);
+  if (since) {
+    const start = new Date(since[1].toUpperCase());
+    if (!Number.isNaN(start.getTime())) return range(start, now);
+  }
+
+  const on = q.match(/\bon\s+(\d{4}-\d{2}-\d{2})\b/);
+  if (on) {
+    const start = new Date(`${on[1]}T00:00:00Z`);
+    if (!Number.isNaN(start.getTime())) return range(start, new Date(start.getTime() + DAY));
+  }
+
+  const lastN = q.match(/\b(?:last|past|previous)\s+(\d+)\s+(minute|hour|day|week|month)s?\b/);
+  if (lastN) return range(new Date(now.getTime() - Number(lastN[1]) * UNIT_MS[lastN[2]]), now);
+
+  const today = startOfUtcDay(now);
+  if (/\btoday\b/.test(q)) return range(today, now);
+  if (/\byesterday\b/.test(q)) return range(new Date(today.getTime() - DAY), today);
+  if (/\b(?:last|past) hour\b/.test(q)) return range(new Date(now.getTime() - HOUR), now);
+  if (/\b(?:last|past) 24 hours\b/.test(q)) return range(new Date(now.getTime() - DAY), now);
+  if (/\bthis week\b/.test(q)) return range(startOfUtcWeek(now), now);
+  if (/\blast week\b/.test(q)) {
+    const thisWeek = startOfUtcWeek(now);
+    return range(new Date(thisWeek.getTime() - 7 * DAY), thisWeek);
+  }
+  if (/\bpast week\b/.test(q)) return range(new Date(now.getTime() - 7 * DAY), now);
+  if (/\bthis month\b/.test(q)) return range(startOfUtcMonth(now), now);
+  if (/\blast month\b/.test(q)) {
+    const thisMonth = startOfUtcMonth(now);
+    return range(new Date(Date.UTC(thisMonth.getUTCFullYear(), thisMonth.getUTCMonth() - 1, 1)), thisMonth);
+  }
+  return undefined;
+}
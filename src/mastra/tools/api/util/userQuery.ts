@@ -0,0 +1,213 @@
+import { z } from 'zod';
+import { User } from './normalizeUsers';
+
+const fieldSchema = z
+  .string()
+  .min(1)
+  .describe('User field; dotted for nested values, e.g. "email", "suspended", "createdAt", "properties.region"');
+
+const scalarSchema = z.union([z.string(), z.number(), z.boolean()]);
+
+export const userConditionSchema = z.object({
+  field: fieldSchema,
+  op: z.enum(['eq', 'neq', 'contains', 'not_contains', 'in', 'exists', 'not_exists', 'gt', 'gte', 'lt', 'lte']),
+  value: z.union([scalarSchema, z.array(scalarSchema)]).optional(),
+});
+
+export type UserCondition = z.infer<typeof userConditionSchema>;
+
+export const userQueryPlanSchema = z.object({
+  /** Which users the API should return before any filtering here. */
+  list: z.enum(['verified', 'unverified', 'all']).optional(),
+  /** All conditions must hold. */
+  filters: z.array(userConditionSchema).default([]),
+  /** Keep users whose date field falls in [start, end). */
+  dateRange: z
+    .object({ field: fieldSchema, start: z.string().optional(), end: z.string().optional() })
+    .optional(),
+  groupBy: z.array(fieldSchema).optional(),
+  /** `count` returns the number of matches (per group when grouped); `list` returns the matching users. */
+  aggregate: z.enum(['count', 'list']).default('count'),
+  /** Fields returned per user for `list`. */
+  select: z.array(fieldSchema).optional(),
+  /** For groups, sort by `count` or a groupBy field. */
+  sort: z.array(z.object({ field: z.string(), direction: z.enum(['asc', 'desc']).default('asc') })).optional(),
+  limit: z.number().int().positive().max(1000).optional(),
+});
+
+export type UserQueryPlan = z.infer<typeof userQueryPlanSchema>;
+
+export type UserQueryResult = {
+  /** Users the plan was run over. */
+  scanned: number;
+  /** Users matching the filters and date range. */
+  matched: number;
+  groups?: { key: Record<string, unknown>; count: number }[];
+  rows?: Record<string, unknown>[];
+  /** More groups or rows matched than `limit` allowed. */
+  limited?: boolean;
+  /** Fields the plan refers to that no user has; results involving them are likely wrong. */
+  missingFields?: string[];
+};
+
+const DEFAULT_LIST_LIMIT = 50;
+const DEFAULT_SELECT = ['id', 'name', 'email'];
+
+function getField(user: Record<string, unknown>, path: string): unknown {
+  if (path in user) return user[path];
+  let value: unknown = user;
+  for (const part of path.split('.')) {
+    if (value === null || typeof value !== 'object') return undefined;
+    value = (value as Record<string, unknown>)[part];
+  }
+  return value;
+}
+
+function isMissing(value: unknown) {
+  return value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+function normalize(value: unknown) {
+  return typeof value === 'string' ? value.trim().toLowerCase() : value;
+}
+
+// Compare as numbers, then as dates, then as case-insensitive strings
+function compare(a: unknown, b: unknown): number {
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  if (typeof a === 'string' && typeof b === 'string') {
+    const da = Date.parse(a);
+    const db = Date.parse(b);
+    if (!Number.isNaN(da) && !Number.isNaN(db) && /\d{4}-\d{2}/.test(a) && /\d{4}-\d{2}/.test(b)) return da - db;
+  }
+  if (typeof a === 'boolean' || typeof b === 'boolean') return Number(a) - Number(b);
+  return String(normalize(a)).localeCompare(String(normalize(b)));
+}
+
+function matches(value: unknown, condition: UserCondition): boolean {
+  const expected = condition.value;
+  const values = Array.isArray(value) ? value : [value];
+  switch (condition.op) {
+    case 'exists':
+      return !isMissing(value);
+    case 'not_exists':
+      return isMissing(value);
+    case 'eq':
+      return values.some(v => normalize(v) === normalize(expected) || (typeof v !== 'string' && String(v) === String(expected)));
+    case 'neq':
+      return !matches(value, { ...condition, op: 'eq' });
+    case 'contains':
+      return values.some(v => typeof v === 'string' && typeof expected === 'string' && v.toLowerCase().includes(expected.toLowerCase()));
+    case 'not_contains':
+      return !matches(value, { ...condition, op: 'contains' });
+    case 'in':
+      return (Array.isArray(expected) ? expected : [expected]).some(e => matches(value, { ...condition, op: 'eq', value: e }));
+    case 'gt':
+      return !isMissing(value) && compare(value, expected) > 0;
+    case 'gte':
+      return !isMissing(value) && compare(value, expected) >= 0;
+    case 'lt':
+      return !isMissing(value) && compare(value, expected) < 0;
+    case 'lte':
+      return !isMissing(value) && compare(value, expected) <= 0;
+  }
+}
+
+function inDateRange(value: unknown, range: NonNullable<UserQueryPlan['dateRange']>) {
+  if (typeof value !== 'string' && typeof value !== 'number') return false;
+  const time = new Date(value).getTime();
+  if (Number.isNaN(time)) return false;
+  if (range.start && time < Date.parse(range.start)) return false;
+  if (range.end && time >= Date.parse(range.end)) return false;
+  return true;
+}
+
+function referencedFields(plan: UserQueryPlan) {
+  return [
+    ...plan.filters.map(f => f.field),
+    ...(plan.dateRange ? [plan.dateRange.field] : []),
+    ...(plan.groupBy ?? []),
+    ...(plan.select ?? []),
+  ];
+}
+
+/** The users matching the plan's filters and date range, unchanged (e.g. to export them whole). */
+export function filterUsers(users: User[], plan: Pick<UserQueryPlan, 'filters' | 'dateRange'>): User[] {
+  return users.filter(
+    user =>
+      plan.filters.every(condition => matches(getField(user, condition.field), condition)) &&
+      (!plan.dateRange || inDateRange(getField(user, plan.dateRange.field), plan.dateRange)),
+  );
+}
+
+/**
+ * Run a query plan over normalized users. Everything is computed here, exactly; the model only
+ * writes the plan and phrases the answer.
+ */
+export function executeUserQuery(users: User[], plan: UserQueryPlan): UserQueryResult {
+  const records = users as Record<string, unknown>[];
+  const matched = filterUsers(users, plan) as Record<string, unknown>[];
+
+  const missingFields = [...new Set(referencedFields(plan))].filter(field => !records.some(user => !isMissing(getField(user, field))));
+  const result: UserQueryResult = { scanned: records.length, matched: matched.length };
+  if (missingFields.length) result.missingFields = missingFields;
+
+  if (plan.groupBy?.length) {
+    const groups = new Map<string, { key: Record<string, unknown>; count: number }>();
+    for (const user of matched) {
+      // A user with an array value (e.g. several groups) counts once under each element
+      let keys: Record<string, unknown>[] = [{}];
+      for (const field of plan.groupBy) {
+        const value = getField(user, field);
+        const options = Array.isArray(value) && value.length ? value : [isMissing(value) ? null : value];
+        keys = keys.flatMap(key => options.map(option => ({ ...key, [field]: option })));
+      }
+      for (const key of keys) {
+        const id = JSON.stringify(key);
+        const group = groups.get(id) ?? { key, count: 0 };
+        group.count += 1;
+        groups.set(id, group);
+      }
+    }
+    const sorted = [...groups.values()].sort((a, b) => {
+      for (const { field, direction } of plan.sort ?? [{ field: 'count', direction: 'desc' as const }]) {
+        const order = field === 'count' ? a.count - b.count : compare(a.key[field], b.key[field]);
+        if (order !== 0) return direction === 'desc' ? -order : order;
+      }
+      return 0;
+    });
+    const limit = plan.limit ?? sorted.length;
+    result.groups = sorted.slice(0, limit);
+    if (sorted.length > limit) result.limited = true;
+  }
+
+  if (plan.aggregate === 'list') {
+    const sorted = [...matched].sort((a, b) => {
+      for (const { field, direction } of plan.sort ?? []) {
+        const order = compare(getField(a, field), getField(b, field));
+        if (order !== 0) return direction === 'desc' ? -order : order;
+      }
+      return 0;
+    });
+    const limit = plan.limit ?? DEFAULT_LIST_LIMIT;
+    const select = plan.select?.length ? plan.select : DEFAULT_SELECT;
+    result.rows = sorted.slice(0, limit).map(user => Object.fromEntries(select.map(field => [field, getField(user, field)])));
+    if (sorted.length > limit) result.limited = true;
+  }
+
+  return result;
+}
+
+/** Field paths present on the users, for telling the planner what it can query. */
+export function userFieldPaths(users: User[], max = 60): string[] {
+  const paths = new Set<string>();
+  for (const user of users.slice(0, 200)) {
+    for (const [key, value] of Object.entries(user)) {
+      if (value && typeof value === 'object' && !Array.isArray(value)) {
+        for (const sub of Object.keys(value)) paths.add(`${key}.${sub}`);
+      } else {
+        paths.add(key);
+      }
+    }
+  }
+  return [...paths].slice(0, max);
+}
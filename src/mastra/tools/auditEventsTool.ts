@@ -0,0 +1,69 @@
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { nutellaClientFor } from './api/profiles';
+import { toolErrorResult, ValidationError } from './api/errors';
+import { parseTimeRange } from './api/util/timeRange';
+import { summarizeAuditEvents } from './api/util/auditTimeline';
+
+export const auditEventsTool = createTool({
+  id: 'get-audit-events',
+  description:
+    'Investigate the domain audit log (logins, deletions, permission changes, ...): filters by action, actor email, result, owner, IP and time range, pages through all matching events and returns a timeline grouped by actor, action and result',
+  inputSchema: z.object({
+    cookies: z.record(z.string()).optional().describe('Cookies to send to Nutella (name->value)'),
+    authToken: z.string().optional().describe('Optional Basic auth token to use in Authorization header'),
+    timeRange: z
+      .string()
+      .optional()
+      .describe('Natural language time range, e.g. "yesterday", "last 3 days", "this month", "since 2025-03-01", "between 2025-03-01 and 2025-03-07"'),
+    startTime: z.string().optional().describe('ISO8601 start time; overrides timeRange'),
+    endTime: z.string().optional().describe('ISO8601 end time; overrides timeRange'),
+    action: z.string().optional().describe('Event action or action prefix, e.g. "user.authentication" (logins) or "user.authentication.password.failed"'),
+    email: z.string().optional().describe('Email of the acting user'),
+    result: z.string().optional().describe('Event result: "SUCCEEDED" or "FAILED"'),
+    owner: z.string().optional(),
+    ip: z.string().optional().describe('Source IP address'),
+    target: z.string().optional().describe('Only keep events whose target contains this (e.g. a spot id); applied after fetching'),
+    maxEvents: z.number().int().positive().optional().describe('Cap on events fetched across pages (default 1000)'),
+    includeEvents: z.boolean().optional().describe('Also return the raw events'),
+  }),
+  outputSchema: z.unknown(),
+  execute: async (params: any) => {
+    // Support multiple invocation shapes:
+    // - execute({ context: { ... } })
+    // - execute({ inputData: { ... }, runtimeContext })
+    // - execute(inputData)
+    const ctx = params?.context ?? params?.inputData ?? params ?? {};
+    try {
+      const client = nutellaClientFor({ authToken: ctx.authToken, cookies: ctx.cookies, runtimeContext: params?.runtimeContext });
+      const range = ctx.timeRange ? parseTimeRange(ctx.timeRange) : undefined;
+      if (ctx.timeRange && !range && !ctx.startTime) {
+        throw new ValidationError(`Could not understand time range "${ctx.timeRange}"; pass startTime/endTime in ISO8601 instead`, {
+          service: 'nutella',
+          operation: 'getAuditEvents',
+        });
+      }
+
+      const page = await client.getAuditEvents({
+        action: ctx.action,
+        email: ctx.email,
+        result: ctx.result,
+        owner: ctx.owner,
+        ip: ctx.ip,
+        start_time: ctx.startTime ?? range?.start,
+        end_time: ctx.endTime ?? range?.end,
+        max: ctx.maxEvents ?? 1000,
+      });
+      const events = ctx.target ? page.events.filter(event => event.target?.includes(ctx.target)) : page.events;
+      return {
+        filters: { startTime: ctx.startTime ?? range?.start, endTime: ctx.endTime ?? range?.end },
+        summary: summarizeAuditEvents(events),
+        events: ctx.includeEvents ? events : undefined,
+        truncated: page.truncated,
+        cache: page.cache,
+      };
+    } catch (err) {
+      return toolErrorResult(err);
+    }
+  },
+});
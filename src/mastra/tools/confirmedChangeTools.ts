@@ -0,0 +1,81 @@
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+
+/** The part of a plan/confirm/apply workflow the tools drive. */
+type ConfirmedChangeWorkflow = {
+  createRunAsync(options?: { runId?: string }): Promise<{ runId: string; start(args: any): Promise<any>; resume(args: any): Promise<any> }>;
+};
+
+// Unexpected failures (API errors are reported in the result); hand them back like the other tools do
+function runError(result: any) {
+  const error = result?.error;
+  return { error: { code: 'unknown', message: String(error?.message ?? error ?? 'workflow failed'), service: 'nutella', retryable: false } };
+}
+
+/**
+ * The two tools of a confirmed change: `plan` runs the workflow up to its confirmation step and returns the
+ * plan with a runId; `confirm` resumes that run to apply or discard it. The tool ids are the ids of the
+ * workflow's plan and confirm steps.
+ */
+export function createConfirmedChangeTools<TRequest extends z.ZodTypeAny>(options: {
+  workflow: ConfirmedChangeWorkflow;
+  requestSchema: TRequest;
+  /** `name` is what the agent calls the plan tool, e.g. `planUserChangesTool`. */
+  plan: { id: string; name: string; description: string };
+  confirm: { id: string; description: string };
+  /** What an unknown runId has no pending one of, e.g. `plan` or `import`. */
+  pending?: string;
+}) {
+  const { workflow, requestSchema, plan, confirm, pending = 'plan' } = options;
+
+  const planTool = createTool({
+    id: plan.id,
+    description: plan.description,
+    inputSchema: requestSchema,
+    outputSchema: z.unknown(),
+    execute: async (params: any) => {
+      // Support multiple invocation shapes:
+      // - execute({ context: { ... } })
+      // - execute({ inputData: { ... }, runtimeContext })
+      // - execute(inputData)
+      const ctx = params?.context ?? params?.inputData ?? params ?? {};
+      const run = await workflow.createRunAsync();
+      const result: any = await run.start({ inputData: requestSchema.parse(ctx), runtimeContext: params?.runtimeContext });
+
+      if (result.status === 'suspended') {
+        const { plan: planned, message } = result.steps[confirm.id].suspendPayload;
+        return { runId: run.runId, requiresConfirmation: true, message, plan: planned };
+      }
+      if (result.status === 'success') {
+        if (result.result.error) return { error: result.result.error };
+        // Nothing would change, so there was nothing to confirm
+        return { runId: run.runId, requiresConfirmation: false, plan: result.steps[plan.id].output, ...result.result };
+      }
+      return runError(result);
+    },
+  });
+
+  const confirmTool = createTool({
+    id: confirm.id,
+    description: confirm.description,
+    inputSchema: z.object({
+      runId: z.string().describe(`runId returned by ${plan.name}`),
+      confirmed: z.boolean(),
+    }),
+    outputSchema: z.unknown(),
+    execute: async (params: any) => {
+      const ctx = params?.context ?? params?.inputData ?? params ?? {};
+      const run = await workflow.createRunAsync({ runId: ctx.runId });
+      let result: any;
+      try {
+        // Not passing a RuntimeContext restores the one the plan was made with, so the same profile applies it
+        result = await run.resume({ step: confirm.id, resumeData: { confirmed: ctx.confirmed === true } });
+      } catch (err: any) {
+        return { error: { code: 'not_found', message: `No pending ${pending} for run ${ctx.runId}: ${String(err?.message ?? err)}`, service: 'nutella', retryable: false } };
+      }
+      return result.status === 'success' ? result.result : runError(result);
+    },
+  });
+
+  return { planTool, confirmTool };
+}
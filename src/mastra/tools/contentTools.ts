@@ -0,0 +1,112 @@
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { nutellaClientFor } from './api/profiles';
+import { toolErrorResult } from './api/errors';
+import { normalizeSpotsResponse } from './api/util/normalizeSpots';
+import { normalizeItemsResponse } from './api/util/normalizeItems';
+import { normalizeListsResponse } from './api/util/normalizeLists';
+import { createConfirmedChangeTools } from './confirmedChangeTools';
+import { contentChangeRequestSchema, contentChangesWorkflow } from '../workflows/contentChanges';
+
+function nutellaClient(ctx: any, params: any) {
+  return nutellaClientFor({ authToken: ctx.authToken, cookies: ctx.cookies, runtimeContext: params?.runtimeContext });
+}
+
+export const spotsTool = createTool({
+  id: 'get-spots',
+  description: 'List spots (optionally only official ones, or those where the caller has a role or right), or fetch one spot',
+  inputSchema: z.object({
+    cookies: z.record(z.string()).optional().describe('Cookies to send to Nutella (name->value)'),
+    authToken: z.string().optional().describe('Optional Basic auth token to use in Authorization header'),
+    spot: z.string().optional().describe('Spot id; returns just that spot'),
+    isOfficial: z.boolean().optional().describe('Only official (true) or unofficial (false) spots'),
+    role: z.string().optional().describe('Only spots where the caller has this role'),
+    right: z.string().optional().describe('Only spots where the caller has this right'),
+    maxSpots: z.number().int().positive().optional().describe('Cap on spots fetched across pages'),
+  }),
+  outputSchema: z.unknown(),
+  execute: async (params: any) => {
+    // Support multiple invocation shapes:
+    // - execute({ context: { ... } })
+    // - execute({ inputData: { ... }, runtimeContext })
+    // - execute(inputData)
+    const ctx = params?.context ?? params?.inputData ?? params ?? {};
+    try {
+      const client = nutellaClient(ctx, params);
+      if (ctx.spot) {
+        const { data, cache } = await client.callWithCacheInfo('getSpotsBySpot', { spot: ctx.spot });
+        return { spot: normalizeSpotsResponse(data)[0], cache };
+      }
+      const page = await client.getSpots({ 'is-official': ctx.isOfficial, role: ctx.role, right: ctx.right, max: ctx.maxSpots });
+      return { spots: normalizeSpotsResponse(page.collection), truncated: page.truncated, cache: page.cache };
+    } catch (err) {
+      return toolErrorResult(err);
+    }
+  },
+});
+
+export const spotItemsTool = createTool({
+  id: 'get-spot-items',
+  description: 'List the items in a spot, or in one list of a spot, with their expiration dates and lists',
+  inputSchema: z.object({
+    cookies: z.record(z.string()).optional().describe('Cookies to send to Nutella (name->value)'),
+    authToken: z.string().optional().describe('Optional Basic auth token to use in Authorization header'),
+    spot: z.string().describe('Spot id'),
+    list: z.string().optional().describe('Only items in this list'),
+    expiringBefore: z.string().optional().describe('Only items that expire before this date (YYYY-MM-DD)'),
+    maxItems: z.number().int().positive().optional().describe('Cap on items fetched (default 1000)'),
+  }),
+  outputSchema: z.unknown(),
+  execute: async (params: any) => {
+    const ctx = params?.context ?? params?.inputData ?? params ?? {};
+    try {
+      const client = nutellaClient(ctx, params);
+      const page = await client.getSpotItems(ctx.spot, { list: ctx.list, max: ctx.maxItems ?? 1000 });
+      let items = normalizeItemsResponse(page.collection);
+      // ISO dates compare as strings; items without a date never expire
+      if (ctx.expiringBefore) items = items.filter(item => item.expiresAt && item.expiresAt < ctx.expiringBefore);
+      return { count: items.length, items, truncated: page.truncated, cache: page.cache };
+    } catch (err) {
+      return toolErrorResult(err);
+    }
+  },
+});
+
+export const listsTool = createTool({
+  id: 'get-lists',
+  description: 'Fetch the list tree (list groups and lists) of a spot, or the global lists when no spot is given',
+  inputSchema: z.object({
+    cookies: z.record(z.string()).optional().describe('Cookies to send to Nutella (name->value)'),
+    authToken: z.string().optional().describe('Optional Basic auth token to use in Authorization header'),
+    spot: z.string().optional().describe('Spot id; leave out for global lists'),
+  }),
+  outputSchema: z.unknown(),
+  execute: async (params: any) => {
+    const ctx = params?.context ?? params?.inputData ?? params ?? {};
+    try {
+      const client = nutellaClient(ctx, params);
+      const { data, cache } = ctx.spot
+        ? await client.callWithCacheInfo('getSpotsBySpotLists', { spot: ctx.spot })
+        : await client.callWithCacheInfo('getGlobalLists', {});
+      return { lists: normalizeListsResponse(data), cache };
+    } catch (err) {
+      return toolErrorResult(err);
+    }
+  },
+});
+
+export const { planTool: planContentChangesTool, confirmTool: confirmContentChangesTool } = createConfirmedChangeTools({
+  workflow: contentChangesWorkflow,
+  requestSchema: contentChangeRequestSchema,
+  plan: {
+    id: 'plan-content-changes',
+    name: 'planContentChangesTool',
+    description:
+      'Step 1 of every spot, item or list write: archive items or set their expiration date (by id, or every item in a spot or list), add users or groups to a spot, create, rename or delete a local or global list, add or remove items in a list, or add global lists to a spot. A dry run that previews exactly what would change; nothing changes until confirmContentChangesTool is called with the returned runId',
+  },
+  confirm: {
+    id: 'confirm-content-changes',
+    description:
+      'Step 2 of a spot, item or list write: apply (confirmed: true) or discard (confirmed: false) the plan from planContentChangesTool. Only confirm after the user has explicitly approved the listed changes',
+  },
+});
@@ -0,0 +1,47 @@
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { nutellaClientFor } from './api/profiles';
+import { toolErrorResult, ValidationError } from './api/errors';
+import { defaultConversationMemory, THREAD_CONTEXT_KEY } from './api/conversationMemory';
+
+export const rememberTurnTool = createTool({
+  id: 'remember-turn',
+  description:
+    'Remember a question of this conversation thread and what it resolved to (dataset, filters, record ids), so later follow-ups ("now only the ones in EMEA") can refine it. Call it after answering',
+  inputSchema: z.object({
+    cookies: z.record(z.string()).optional().describe('Cookies to send to Nutella (name->value)'),
+    authToken: z.string().optional().describe('Optional Basic auth token to use in Authorization header'),
+    threadId: z.string().optional().describe('Conversation thread; defaults to the threadId of the RuntimeContext'),
+    query: z.string().describe('The question as the user asked it'),
+    route: z.string().optional().describe('Dataset it was answered from, e.g. users, groups, spots, audit_events'),
+    params: z.record(z.unknown()).optional().describe('Filters the data was fetched with, e.g. { "list": "unverified" }'),
+    plan: z.record(z.unknown()).optional().describe('Query plan passed to queryUsersTool, if any'),
+    entityIds: z.array(z.string()).optional().describe('Ids of the records the answer is about'),
+    answer: z.string().describe('The answer given'),
+  }),
+  outputSchema: z.unknown(),
+  execute: async (params: any) => {
+    // Support multiple invocation shapes:
+    // - execute({ context: { ... } })
+    // - execute({ inputData: { ... }, runtimeContext })
+    // - execute(inputData)
+    const ctx = params?.context ?? params?.inputData ?? params ?? {};
+    try {
+      const threadId = ctx.threadId ?? params?.runtimeContext?.get(THREAD_CONTEXT_KEY);
+      if (!threadId) throw new ValidationError('No conversation thread: pass threadId or set it in the RuntimeContext', { service: 'nutella' });
+      // Threads belong to the credential that started them
+      const owner = nutellaClientFor({ authToken: ctx.authToken, cookies: ctx.cookies, runtimeContext: params?.runtimeContext }).owner;
+      const thread = await defaultConversationMemory().append(String(threadId), owner, {
+        query: ctx.query,
+        route: ctx.route ?? 'agent',
+        params: ctx.params ?? {},
+        plan: ctx.plan,
+        entityIds: ctx.entityIds,
+        answer: ctx.answer,
+      });
+      return { threadId: thread.id, turns: thread.turns.length };
+    } catch (err) {
+      return toolErrorResult(err);
+    }
+  },
+});
@@ -0,0 +1,117 @@
+import { createTool } from '@mastra/core/tools';
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import { z } from 'zod';
+import { NutellaClient } from './api/nutellaClient';
+import { nutellaClientFor } from './api/profiles';
+import { toolErrorResult, ValidationError } from './api/errors';
+import { normalizeUsersResponse, User } from './api/util/normalizeUsers';
+import { parseTimeRange } from './api/util/timeRange';
+import { summarizeAuditEvents } from './api/util/auditTimeline';
+import { exportExtensions, ExportFormat, exportFormatSchema, formatRecords } from './api/util/exportFormat';
+
+export const exportResultSchema = z.object({
+  filePath: z.string(),
+  format: exportFormatSchema,
+  rows: z.number(),
+  columns: z.array(z.string()),
+});
+
+export type ExportResult = z.infer<typeof exportResultSchema>;
+
+/**
+ * Write records to `<EXPORT_DIR>/<name>-<timestamp>.<ext>` (default dir `exports/`) and describe the file.
+ * Nested values are flattened to dotted columns; `columns` picks and orders them.
+ */
+export async function writeExport(records: unknown[], options: { format: ExportFormat; name: string; columns?: string[]; dir?: string }): Promise<ExportResult> {
+  const { content, columns, rows } = formatRecords(records, options.format, options.columns);
+  const dir = options.dir ?? process.env.EXPORT_DIR ?? path.join(process.cwd(), 'exports');
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const filePath = path.join(dir, `${options.name.replace(/[^\w-]+/g, '-')}-${stamp}.${exportExtensions[options.format]}`);
+  await mkdir(dir, { recursive: true });
+  await writeFile(filePath, content, { encoding: 'utf8' });
+  return { filePath, format: options.format, rows, columns };
+}
+
+/** Add each user's group titles next to the group ids, which mean nothing in a spreadsheet. */
+export async function withGroupTitles(client: NutellaClient, users: User[]): Promise<User[]> {
+  if (!users.some(user => Array.isArray(user.groups) && user.groups.length)) return users;
+  const { items } = await client.collectAllWithCacheInfo('getGroups', {}, { max: 5000 });
+  const titles = new Map(items.map(group => [group.id, group.title]));
+  return users.map(user => (Array.isArray(user.groups) ? { ...user, groupTitles: user.groups.map((id: string) => titles.get(id) ?? id) } : user));
+}
+
+export const exportDataTool = createTool({
+  id: 'export-data',
+  description:
+    'Export users, groups, the members of a group, or audit events to a CSV, NDJSON or Markdown file for use in a spreadsheet or another system. Returns the file path, row count and columns',
+  inputSchema: z.object({
+    cookies: z.record(z.string()).optional().describe('Cookies to send to Nutella (name->value)'),
+    authToken: z.string().optional().describe('Optional Basic auth token to use in Authorization header'),
+    dataset: z.enum(['users', 'groups', 'group_members', 'audit_events']),
+    format: exportFormatSchema.default('csv'),
+    columns: z.array(z.string()).optional().describe('Columns to include, in order; nested fields are dotted (e.g. "properties.region") and "properties" selects all of them'),
+    list: z.enum(['verified', 'unverified', 'all']).optional().describe('Which users to export'),
+    withFields: z.array(z.string()).optional().describe('Additional user fields to fetch, e.g. ["properties"]'),
+    group: z.string().optional().describe('Group id, required for group_members'),
+    timeRange: z.string().optional().describe('Audit events: natural language time range, e.g. "last 7 days"'),
+    action: z.string().optional().describe('Audit events: action or action prefix, e.g. "user.authentication" (logins) or "user.authentication.password.failed"'),
+    email: z.string().optional().describe('Audit events: email of the acting user'),
+    result: z.string().optional().describe('Audit events: result, "SUCCEEDED" or "FAILED"'),
+    maxRecords: z.number().int().positive().optional().describe('Cap on records fetched (default 5000)'),
+  }),
+  outputSchema: z.unknown(),
+  execute: async (params: any) => {
+    // Support multiple invocation shapes:
+    // - execute({ context: { ... } })
+    // - execute({ inputData: { ... }, runtimeContext })
+    // - execute(inputData)
+    const ctx = params?.context ?? params?.inputData ?? params ?? {};
+    const max = ctx.maxRecords ?? 5000;
+
+    try {
+      const client = nutellaClientFor({ authToken: ctx.authToken, cookies: ctx.cookies, runtimeContext: params?.runtimeContext });
+      let records: unknown[];
+      let truncated: boolean;
+      switch (ctx.dataset) {
+        case 'users': {
+          const page = await client.getUsers({ list: ctx.list, 'with-fields': ctx.withFields?.join(','), 'exclude-fields': 'favorites', max });
+          records = await withGroupTitles(client, normalizeUsersResponse(page));
+          truncated = page.truncated;
+          break;
+        }
+        case 'groups': {
+          const page = await client.collectAllWithCacheInfo('getGroups', {}, { max });
+          records = page.items;
+          truncated = page.truncated;
+          break;
+        }
+        case 'group_members': {
+          if (!ctx.group) throw new ValidationError('group is required to export group members', { service: 'nutella', operation: 'getGroupsByGroupMembers' });
+          const page = await client.collectAllWithCacheInfo('getGroupsByGroupMembers', { group: ctx.group }, { max });
+          records = page.items;
+          truncated = page.truncated;
+          break;
+        }
+        case 'audit_events': {
+          const range = ctx.timeRange ? parseTimeRange(ctx.timeRange) : undefined;
+          if (ctx.timeRange && !range) {
+            throw new ValidationError(`Could not understand time range "${ctx.timeRange}"`, { service: 'nutella', operation: 'getAuditEvents' });
+          }
+          const page = await client.getAuditEvents({ action: ctx.action, email: ctx.email, result: ctx.result, start_time: range?.start, end_time: range?.end, max });
+          // One row per event, oldest first, with the actor and outcome spelled out
+          records = summarizeAuditEvents(page.events, { maxTimeline: page.events.length }).timeline;
+          truncated = page.truncated;
+          break;
+        }
+        default:
+          throw new Error(`Unknown dataset ${String(ctx.dataset)}`);
+      }
+
+      const file = await writeExport(records, { format: ctx.format ?? 'csv', name: ctx.dataset, columns: ctx.columns });
+      return { ...file, truncated };
+    } catch (err) {
+      return toolErrorResult(err);
+    }
+  },
+});
@@ -0,0 +1,114 @@
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { mergeCacheInfo } from './api/nutellaClient';
+import { nutellaClientFor } from './api/profiles';
+import { toolErrorResult } from './api/errors';
+import { Group, normalizeGroupsResponse } from './api/util/normalizeGroups';
+import { normalizeUsersResponse } from './api/util/normalizeUsers';
+import { usersInNoGroup } from './api/util/groupMembership';
+import { createConfirmedChangeTools } from './confirmedChangeTools';
+import { groupChangeRequestSchema, groupChangesWorkflow } from '../workflows/groupChanges';
+
+// Member lists are fetched one group at a time; beyond this many groups the report would take minutes
+const MAX_GROUPS_FOR_MEMBERSHIP = 200;
+
+function nutellaClient(ctx: any, params: any) {
+  return nutellaClientFor({ authToken: ctx.authToken, cookies: ctx.cookies, runtimeContext: params?.runtimeContext });
+}
+
+export const groupsTool = createTool({
+  id: 'get-groups',
+  description:
+    'List groups (optionally only those where a user has a role or right), or fetch one group with its members and properties',
+  inputSchema: z.object({
+    cookies: z.record(z.string()).optional().describe('Cookies to send to Nutella (name->value)'),
+    authToken: z.string().optional().describe('Optional Basic auth token to use in Authorization header'),
+    group: z.string().optional().describe('Group id; returns that group with its members and properties'),
+    role: z.string().optional().describe('Only groups where the caller has this role'),
+    right: z.string().optional().describe('Only groups where the caller has this right'),
+    maxGroups: z.number().int().positive().optional().describe('Cap on groups fetched across pages'),
+  }),
+  outputSchema: z.unknown(),
+  execute: async (params: any) => {
+    // Support multiple invocation shapes:
+    // - execute({ context: { ... } })
+    // - execute({ inputData: { ... }, runtimeContext })
+    // - execute(inputData)
+    const ctx = params?.context ?? params?.inputData ?? params ?? {};
+    try {
+      const client = nutellaClient(ctx, params);
+      if (ctx.group) {
+        const [group, members, properties] = await Promise.all([
+          client.callWithCacheInfo('getGroupsByGroup', { group: ctx.group }),
+          client.getGroupMembers(ctx.group, { max: 5000 }),
+          client.callWithCacheInfo('getGroupsByGroupProperties', { group: ctx.group }),
+        ]);
+        const [normalized] = normalizeGroupsResponse({ ...(group.data as object), properties: properties.data });
+        return {
+          group: normalized,
+          members: normalizeUsersResponse(members.collection),
+          truncated: members.truncated,
+          cache: mergeCacheInfo([group.cache, members.cache, properties.cache]),
+        };
+      }
+      const page = await client.getGroups({ role: ctx.role, right: ctx.right, max: ctx.maxGroups });
+      return { groups: normalizeGroupsResponse(page.collection), truncated: page.truncated, cache: page.cache };
+    } catch (err) {
+      return toolErrorResult(err);
+    }
+  },
+});
+
+export const usersInNoGroupTool = createTool({
+  id: 'find-users-in-no-group',
+  description: 'Find users who are not a member of any group, by joining every user with the member list of every group',
+  inputSchema: z.object({
+    cookies: z.record(z.string()).optional().describe('Cookies to send to Nutella (name->value)'),
+    authToken: z.string().optional().describe('Optional Basic auth token to use in Authorization header'),
+    list: z.enum(['verified', 'unverified', 'all']).optional().describe('Which users to check; defaults to verified users'),
+  }),
+  outputSchema: z.unknown(),
+  execute: async (params: any) => {
+    const ctx = params?.context ?? params?.inputData ?? params ?? {};
+    try {
+      const client = nutellaClient(ctx, params);
+      const [usersPage, groupsPage] = await Promise.all([
+        client.getUsers({ list: ctx.list, 'exclude-fields': 'favorites' }),
+        client.getGroups({ max: MAX_GROUPS_FOR_MEMBERSHIP }),
+      ]);
+      const groups: Group[] = normalizeGroupsResponse(groupsPage.collection);
+      const memberPages = await Promise.all(groups.map(group => client.getGroupMembers(String(group.id), { max: 10_000 })));
+      groups.forEach((group, i) => (group.memberIds = memberPages[i].collection.map(member => String(member.id))));
+
+      const users = normalizeUsersResponse(usersPage);
+      const lonely = usersInNoGroup(users, groups);
+      return {
+        count: lonely.length,
+        scanned: users.length,
+        groupsChecked: groups.length,
+        users: lonely.map(({ id, email, name }) => ({ id, email, name })),
+        // Missing pages could hide memberships, so say when the answer is not exhaustive
+        truncated: usersPage.truncated || groupsPage.truncated || memberPages.some(page => page.truncated),
+        cache: mergeCacheInfo([usersPage.cache, groupsPage.cache, ...memberPages.map(page => page.cache)]),
+      };
+    } catch (err) {
+      return toolErrorResult(err);
+    }
+  },
+});
+
+export const { planTool: planGroupChangesTool, confirmTool: confirmGroupChangesTool } = createConfirmedChangeTools({
+  workflow: groupChangesWorkflow,
+  requestSchema: groupChangeRequestSchema,
+  plan: {
+    id: 'plan-group-changes',
+    name: 'planGroupChangesTool',
+    description:
+      'Step 1 of every group write: add or remove members (by email, or everyone with a user property value such as department = Sales), create a group, update its title/description/settings, visibility, properties or permissions. A dry run that lists exactly what would change; nothing changes until confirmGroupChangesTool is called with the returned runId',
+  },
+  confirm: {
+    id: 'confirm-group-changes',
+    description:
+      'Step 2 of a group write: apply (confirmed: true) or discard (confirmed: false) the plan from planGroupChangesTool. Only confirm after the user has explicitly approved the listed changes',
+  },
+});
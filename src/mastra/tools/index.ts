@@ -1,15 +1,22 @@
 import { createTool } from '@mastra/core/tools';
 import { z } from 'zod';
-import { NutellaClient } from './api/nutellaClient';
+import { nutellaClientFor } from './api/profiles';
 import { AIClient, ChatMessage } from './api/aiClient';
 import { readFile as readFileAsync } from 'fs/promises';
+import { toolErrorResult } from './api/errors';
+import { logger } from '../logger';
 
 export const usersTool = createTool({
   id: 'get-users',
-  description: 'Fetch users from Nutella API',
+  description: 'Fetch users from Nutella API (all pages, optionally capped)',
   inputSchema: z.object({
     cookies: z.record(z.string()).optional().describe('Cookies to send to Nutella (name->value)'),
-    authToken: z.string().optional().describe('Optional Basic auth token to use in Authorization header')
+    authToken: z.string().optional().describe('Optional Basic auth token to use in Authorization header'),
+    maxUsers: z.number().int().positive().optional().describe('Optional cap on the number of users fetched across pages'),
+    email: z.string().optional().describe('Only return the user with this email address'),
+    list: z.enum(['verified', 'unverified', 'all']).optional().describe('Which users to list; defaults to verified users'),
+    withFields: z.array(z.string()).optional().describe('Additional fields to include, e.g. ["properties"] or ["*"]'),
+    excludeFields: z.array(z.string()).optional().describe('Fields to leave out, e.g. ["groups", "favorites"] or ["*"]'),
   }),
   outputSchema: z.unknown(),
   execute: async (params: any) => {
@@ -18,21 +25,20 @@ export const usersTool = createTool({
     // - execute({ inputData: { ... }, runtimeContext })
     // - execute(inputData)
     const ctx = params?.context ?? params?.inputData ?? params ?? {};
-    const cookies = ctx.cookies ?? {};
-    const authToken = ctx.authToken;
-
-    // Use the specific API host required by Nutella/Highspot
-    let client;
-    const apiHost = process.env.NUTELLA_API_HOST ?? 'https://api.highspot.com/v1.0';
-    if (authToken) {
-      // NutellaClient(apiHost, authToken?, cookies?)
-      client = new NutellaClient(apiHost, authToken, cookies ?? {});
-    } else {
-      client = new NutellaClient(apiHost, undefined, cookies ?? {});
+    try {
+      // Host and credentials come from the connection profile unless the call passes its own
+      const client = nutellaClientFor({ authToken: ctx.authToken, cookies: ctx.cookies, runtimeContext: params?.runtimeContext });
+      const users = await client.getUsers({
+        max: ctx.maxUsers,
+        email: ctx.email,
+        list: ctx.list,
+        'with-fields': ctx.withFields?.length ? ctx.withFields.join(',') : undefined,
+        'exclude-fields': ctx.excludeFields?.length ? ctx.excludeFields.join(',') : undefined,
+      });
+      return users;
+    } catch (err) {
+      return toolErrorResult(err);
     }
-
-    const users = await client.getUsers();
-    return users;
   },
 });
 
@@ -50,23 +56,15 @@ export const domainsTool = createTool({
     // - execute({ inputData: { ... }, runtimeContext })
     // - execute(inputData)
     const ctx = params?.context ?? params?.inputData ?? params ?? {};
-    const cookies = ctx.cookies ?? {};
-    const authToken = ctx.authToken;
-
-    // Use the specific API host required by Nutella/Highspot
-    let client;
-    const apiHost = process.env.NUTELLA_API_HOST ?? 'https://api.highspot.com/v1.0';
-    if (authToken) {
-      // NutellaClient(apiHost, authToken?, cookies?)
-      client = new NutellaClient(apiHost, authToken, cookies ?? {});
-    } else {
-      client = new NutellaClient(apiHost, undefined, cookies ?? {});
+    // Aggregated from the spec's /domain/* settings endpoints
+    try {
+      // Host and credentials come from the connection profile unless the call passes its own
+      const client = nutellaClientFor({ authToken: ctx.authToken, cookies: ctx.cookies, runtimeContext: params?.runtimeContext });
+      const domains = await client.getDomains();
+      return domains;
+    } catch (err) {
+      return toolErrorResult(err);
     }
-
-    // For domains, we'll use a hypothetical domains endpoint
-    // This would need to be implemented in NutellaClient if it doesn't exist
-    const domains = await client.getDomains();
-    return domains;
   },
 });
 
@@ -74,32 +72,37 @@ export const aiTool = createTool({
   id: 'ai-tool',
   description: 'Call configured AI proxy/OpenAI with optional JSON context and entity information',
   inputSchema: z.object({
-    apiUrl: z.string().optional().describe('Optional proxied API url; falls back to env AI_PROXY_URL'),
-    token: z.string().optional().describe('Optional proxy token; falls back to env AI_PROXY_TOKEN'),
+    apiUrl: z.string().optional().describe('Optional Azure proxy url; defaults to the shared model configuration (AI_PROVIDER)'),
+    token: z.string().optional().describe('Optional Azure proxy token; falls back to env AI_PROXY_TOKEN'),
     prompt: z.string().optional().describe('User prompt to send to the assistant'),
     messages: z.array(z.object({ role: z.string(), content: z.string() })).optional(),
     jsonFilePath: z.string().optional().describe('Optional path to a JSON file to include as system context'),
     jsonContent: z.string().optional().describe('Optional raw JSON content to include as system context'),
-    model: z.string().optional(),
+    model: z.string().optional().describe('Optional model; falls back to the shared model configuration'),
     temperature: z.number().optional(),
     n: z.number().optional(),
+    stream: z.boolean().optional().describe('Stream the answer, writing each piece to the caller\'s stream as a `token` event'),
+    json: z.boolean().optional().describe('Ask for a JSON object answer (JSON mode)'),
+    tools: z
+      .array(z.object({ name: z.string(), description: z.string().optional(), parameters: z.record(z.unknown()) }))
+      .optional()
+      .describe('Functions the model may call; their calls are returned as toolCalls'),
+    toolChoice: z.union([z.enum(['auto', 'none', 'required']), z.object({ name: z.string() })]).optional(),
     // Additional fields for entity-specific processing
-    entityType: z.enum(['users', 'domains']).optional().describe('Type of entity being processed'),
+    entityType: z.string().optional().describe('Type of entity being processed, e.g. "users" or "audit events"'),
     entityData: z.unknown().optional().describe('Entity data being analyzed'),
     originalQuery: z.string().optional().describe('Original user query'),
   }),
   outputSchema: z.unknown(),
   execute: async (params: any) => {
     const ctx = params?.context ?? params?.inputData ?? params ?? {};
-    const apiUrl = ctx.apiUrl ?? process.env.AI_PROXY_URL;
-    const token = ctx.token ?? process.env.AI_PROXY_TOKEN;
-    const model = ctx.model ?? process.env.OPENAI_MODEL;
+    // An explicit proxy URL or token overrides the shared model configuration
+    const { apiUrl, token, model, stream, json, tools, toolChoice } = ctx;
     const temperature = ctx.temperature ?? 0.2;
     const n = ctx.n ?? 1;
 
     // Extract entity-specific parameters
     const entityType = ctx.entityType;
-    const entityData = ctx.entityData;
     const originalQuery = ctx.originalQuery;
 
     // Build messages: if caller provided explicit messages, use them; otherwise use prompt
@@ -124,13 +127,33 @@ export const aiTool = createTool({
       messages = [{ role: 'system', content: `Context (JSON):\n${String(ctx.jsonContent)}` }, ...messages];
     }
 
-    // Log entity information for debugging/monitoring if provided
-    if (entityType && entityData && originalQuery) {
-      console.log(`AI Tool called with entity type: ${entityType}, query: "${originalQuery}"`);
+    // Questions can name people, so they only show up at debug level and through the redacting logger
+    if (entityType && originalQuery) {
+      logger.debug(`AI tool called for ${entityType}`, { query: originalQuery });
     }
 
-    const client = new AIClient(apiUrl, token);
-    const resp = await client.createChatCompletion(messages, { temperature, n, model });
-    return resp;
+    const writer = params?.writer;
+    const onToken = stream && writer ? (text: string) => writer.write({ type: 'token', text }) : undefined;
+    try {
+      const client = new AIClient(apiUrl, token);
+      const resp = await client.createChatCompletion(messages, { temperature, n, model, stream, onToken, json, tools, toolChoice });
+      return resp;
+    } catch (err) {
+      return toolErrorResult(err);
+    }
   },
 });
+
+export { createOperationTools, isWriteAllowed, operationToolsOptionsFromEnv } from './operationTools';
+export type { OperationToolsOptions } from './operationTools';
+export { queryUsersTool, planUserQuery } from './userQueryTool';
+export { auditEventsTool } from './auditEventsTool';
+export { planUserChangesTool, confirmUserChangesTool } from './userLifecycleTools';
+export { requestStatusTool } from './requestStatusTool';
+export { planUserImportTool, confirmUserImportTool } from './userImportTools';
+export { exportDataTool, exportResultSchema, writeExport, withGroupTitles } from './exportTool';
+export { groupsTool, usersInNoGroupTool, planGroupChangesTool, confirmGroupChangesTool } from './groupTools';
+export { spotsTool, spotItemsTool, listsTool, planContentChangesTool, confirmContentChangesTool } from './contentTools';
+export { searchTool, fetchInstantAnswer } from './searchTool';
+export { privacyRequestsTool, planPrivacyRequestTool, confirmPrivacyRequestTool } from './privacyTools';
+export { rememberTurnTool } from './conversationTool';
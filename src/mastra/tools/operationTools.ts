@@ -0,0 +1,139 @@
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { nutellaClientFor } from './api/profiles';
+import { nutellaOperations, NutellaOperation, NutellaOperationId, NutellaParameter } from './api/generated/nutellaOperations';
+import { nutellaSchemas } from './api/generated/nutellaSchemas';
+import { toolErrorResult } from './api/errors';
+
+export type OperationToolsOptions = {
+  /** Only expose these operationIds (e.g. `getGroupsByGroupMembers`). */
+  operations?: string[];
+  /** Only expose operations with these spec tags (e.g. `Spots`, `Groups`). */
+  tags?: string[];
+  /** Expose non-GET operations. `true` enables all, a list enables only those operationIds. */
+  allowWrites?: boolean | string[];
+  /** Never expose these operationIds, e.g. writes that must go through a dry run and confirmation. */
+  exclude?: string[];
+};
+
+function parseList(value?: string): string[] | undefined {
+  const list = value?.split(',').map(v => v.trim()).filter(Boolean);
+  return list && list.length > 0 ? list : undefined;
+}
+
+/**
+ * Per-deployment configuration read from the environment:
+ * - `NUTELLA_TOOL_OPERATIONS` comma separated operationIds allow-list
+ * - `NUTELLA_TOOL_TAGS` comma separated spec tags allow-list
+ * - `NUTELLA_TOOL_ALLOW_WRITES` `true` or a comma separated list of write operationIds
+ */
+export function operationToolsOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): OperationToolsOptions {
+  const writes = env.NUTELLA_TOOL_ALLOW_WRITES?.trim();
+  return {
+    operations: parseList(env.NUTELLA_TOOL_OPERATIONS),
+    tags: parseList(env.NUTELLA_TOOL_TAGS),
+    allowWrites: writes === 'true' ? true : parseList(writes) ?? false,
+  };
+}
+
+function isWrite(operation: NutellaOperation) {
+  return operation.method !== 'GET';
+}
+
+/** Whether this deployment allows calling a write operation (see `allowWrites`). */
+export function isWriteAllowed(operationId: NutellaOperationId, options: OperationToolsOptions) {
+  const { allowWrites = false } = options;
+  return Array.isArray(allowWrites) ? allowWrites.includes(operationId) : allowWrites;
+}
+
+// Data subject requests are filed only through the privacy flow, which confirms them and writes the audit trail
+const NEVER_EXPOSED: string[] = ['postPrivacyDataSubjectAccess', 'postPrivacyDataSubjectDelete'];
+
+function isSelected(operation: NutellaOperation, options: OperationToolsOptions) {
+  if (NEVER_EXPOSED.includes(operation.id) || options.exclude?.includes(operation.id)) return false;
+  if (options.operations && !options.operations.includes(operation.id)) return false;
+  if (options.tags && !options.tags.some(tag => tag.toLowerCase() === operation.tag.toLowerCase())) return false;
+  if (isWrite(operation)) return isWriteAllowed(operation.id as NutellaOperationId, options);
+  return true;
+}
+
+function parameterSchema(param: NutellaParameter) {
+  let schema: z.ZodTypeAny;
+  switch (param.type) {
+    case 'integer':
+      schema = z.number().int();
+      break;
+    case 'number':
+      schema = z.number();
+      break;
+    case 'boolean':
+      schema = z.boolean();
+      break;
+    default:
+      schema = z.string();
+  }
+  if (param.description) schema = schema.describe(param.description);
+  return param.required ? schema : schema.optional();
+}
+
+/** Build the zod input schema for an operation from its parameters and JSON request body. */
+export function operationInputSchema(operation: NutellaOperation) {
+  const shape: Record<string, z.ZodTypeAny> = {
+    cookies: z.record(z.string()).optional().describe('Cookies to send to Nutella (name->value)'),
+    authToken: z.string().optional().describe('Optional Basic auth token to use in Authorization header'),
+  };
+  for (const param of operation.parameters) {
+    shape[param.name] = parameterSchema(param);
+  }
+  const body = operation.requestBody;
+  if (body) {
+    let schema: z.ZodTypeAny = body.schema ? nutellaSchemas[body.schema] : z.record(z.unknown());
+    if (body.description) schema = schema.describe(body.description);
+    shape.body = body.required ? schema : schema.optional();
+  }
+  return z.object(shape);
+}
+
+function toolId(operationId: string) {
+  return `nutella-${operationId.replace(/[A-Z]/g, c => `-${c.toLowerCase()}`)}`;
+}
+
+function createOperationTool(operation: NutellaOperation) {
+  return createTool({
+    id: toolId(operation.id),
+    description: `${operation.summary} (${operation.method} ${operation.path})`,
+    inputSchema: operationInputSchema(operation),
+    outputSchema: z.unknown(),
+    execute: async (params: any) => {
+      // Support multiple invocation shapes:
+      // - execute({ context: { ... } })
+      // - execute({ inputData: { ... }, runtimeContext })
+      // - execute(inputData)
+      const ctx = params?.context ?? params?.inputData ?? params ?? {};
+      const { cookies, authToken, ...operationParams } = ctx;
+
+      try {
+        const client = nutellaClientFor({ authToken, cookies, runtimeContext: params?.runtimeContext });
+        return await client.call(operation.id as NutellaOperationId, operationParams);
+      } catch (err) {
+        return toolErrorResult(err);
+      }
+    },
+  });
+}
+
+/**
+ * Turn the spec's operations into Mastra tools keyed by operationId.
+ * Read-only GET operations are exposed by default; write operations must be opted into via `allowWrites`.
+ * Filing privacy data subject requests is never exposed, whatever the options.
+ * Operations that only accept multipart uploads are skipped since an agent cannot supply files.
+ */
+export function createOperationTools(options: OperationToolsOptions = {}) {
+  const tools: Record<string, ReturnType<typeof createOperationTool>> = {};
+  for (const operation of Object.values(nutellaOperations) as NutellaOperation[]) {
+    if (operation.requestBody && operation.requestBody.contentType !== 'application/json') continue;
+    if (!isSelected(operation, options)) continue;
+    tools[operation.id] = createOperationTool(operation);
+  }
+  return tools;
+}
@@ -0,0 +1,61 @@
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { nutellaClientFor } from './api/profiles';
+import { toolErrorResult } from './api/errors';
+import { defaultAuditTrail } from './api/auditTrail';
+import { normalizePrivacyRequests } from './api/util/privacyRequests';
+import { createConfirmedChangeTools } from './confirmedChangeTools';
+import { PRIVACY_WORKFLOW_ID, privacyRequestInputSchema, privacyRequestsWorkflow } from '../workflows/privacyRequests';
+
+export const privacyRequestsTool = createTool({
+  id: 'get-privacy-requests',
+  description:
+    'List Privacy Center (GDPR data subject) access and deletion requests with their current status, optionally only those for one email or request id, together with the audit records of who filed them',
+  inputSchema: z.object({
+    cookies: z.record(z.string()).optional().describe('Cookies to send to Nutella (name->value)'),
+    authToken: z.string().optional().describe('Optional Basic auth token to use in Authorization header'),
+    email: z.string().optional().describe('Only requests for this data subject'),
+    requestId: z.string().optional().describe('Only this request'),
+    type: z.enum(['access', 'deletion']).optional(),
+  }),
+  outputSchema: z.unknown(),
+  execute: async (params: any) => {
+    // Support multiple invocation shapes:
+    // - execute({ context: { ... } })
+    // - execute({ inputData: { ... }, runtimeContext })
+    // - execute(inputData)
+    const ctx = params?.context ?? params?.inputData ?? params ?? {};
+    try {
+      const client = nutellaClientFor({ authToken: ctx.authToken, cookies: ctx.cookies, runtimeContext: params?.runtimeContext });
+      // Statuses change over time, so never answer from the cache
+      const raw = ctx.requestId
+        ? (await client.getPrivacyDataSubjectByRequestId({ request_id: ctx.requestId })).collection
+        : (await client.getPrivacyRequests({ refresh: true })).collection;
+      const email = ctx.email?.toLowerCase();
+      const requests = normalizePrivacyRequests(raw).filter(
+        r => (!email || r.email?.toLowerCase() === email) && (!ctx.type || r.type === ctx.type),
+      );
+      const audit = await defaultAuditTrail().list({ workflow: PRIVACY_WORKFLOW_ID, owner: client.owner, search: ctx.requestId ?? email });
+      return { count: requests.length, requests, audit };
+    } catch (err) {
+      return toolErrorResult(err);
+    }
+  },
+});
+
+export const { planTool: planPrivacyRequestTool, confirmTool: confirmPrivacyRequestTool } = createConfirmedChangeTools({
+  workflow: privacyRequestsWorkflow,
+  requestSchema: privacyRequestInputSchema,
+  plan: {
+    id: 'plan-privacy-request',
+    name: 'planPrivacyRequestTool',
+    description:
+      'Step 1 of a GDPR data subject request: look up the subjects by email for an access request (export their data to a spot) or a deletion request (permanently erase it). Records who asked (requestedBy). Nothing is filed until confirmPrivacyRequestTool is called with the returned runId',
+  },
+  confirm: {
+    id: 'confirm-privacy-request',
+    description:
+      'Step 2 of a GDPR data subject request: file (confirmed: true) or discard (confirmed: false) the request from planPrivacyRequestTool. Only confirm after the user has explicitly approved it; deletions cannot be undone',
+  },
+  pending: 'request',
+});
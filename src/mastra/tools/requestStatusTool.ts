@@ -0,0 +1,56 @@
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { nutellaClientFor } from './api/profiles';
+import { toolErrorResult } from './api/errors';
+import { isFinished, TrackedRequest } from './api/asyncRequests';
+
+// Results can be whole collections; the agent only needs a taste to describe the outcome
+const MAX_RESULT_CHARS = 4000;
+
+function describe(request: TrackedRequest, includeResult: boolean) {
+  const { owner, host, result, ...rest } = request;
+  if (!includeResult || result === undefined) return rest;
+  const json = JSON.stringify(result);
+  return json.length > MAX_RESULT_CHARS ? { ...rest, result: `${json.slice(0, MAX_RESULT_CHARS)}…`, resultTruncated: true } : { ...rest, result };
+}
+
+export const requestStatusTool = createTool({
+  id: 'check-request-status',
+  description:
+    'Check the status of asynchronous Highspot requests ("how is my bulk job doing?"), such as bulk user imports submitted with async. Without requestId it refreshes and lists every tracked request; with wait it polls until the request finishes',
+  inputSchema: z.object({
+    cookies: z.record(z.string()).optional().describe('Cookies to send to Nutella (name->value)'),
+    authToken: z.string().optional().describe('Optional Basic auth token to use in Authorization header'),
+    requestId: z.string().optional().describe('Id of the asynchronous request; omit to list all tracked requests'),
+    wait: z.boolean().optional().describe('Poll with backoff until the request finishes (or timeoutMs passes)'),
+    timeoutMs: z.number().int().positive().optional().describe('How long to wait when wait is set (default 2 minutes)'),
+    includeResult: z.boolean().optional().describe('Include the result of finished requests'),
+  }),
+  outputSchema: z.unknown(),
+  execute: async (params: any) => {
+    // Support multiple invocation shapes:
+    // - execute({ context: { ... } })
+    // - execute({ inputData: { ... }, runtimeContext })
+    // - execute(inputData)
+    const ctx = params?.context ?? params?.inputData ?? params ?? {};
+    const includeResult = ctx.includeResult === true;
+
+    try {
+      const client = nutellaClientFor({ authToken: ctx.authToken, cookies: ctx.cookies, runtimeContext: params?.runtimeContext });
+      if (ctx.requestId) {
+        const request = ctx.wait ? await client.waitForRequest(ctx.requestId, { timeoutMs: ctx.timeoutMs }) : await client.checkRequest(ctx.requestId);
+        return { request: describe(request, includeResult), finished: isFinished(request) };
+      }
+
+      // Refresh whatever is still pending (including requests submitted before a restart)
+      const tracked = await client.listTrackedRequests();
+      const requests = await Promise.all(tracked.map(request => (isFinished(request) ? request : client.checkRequest(request.id))));
+      return {
+        requests: requests.map(request => describe(request, includeResult)),
+        pending: requests.filter(request => !isFinished(request)).length,
+      };
+    } catch (err) {
+      return toolErrorResult(err);
+    }
+  },
+});
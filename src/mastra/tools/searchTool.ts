@@ -0,0 +1,51 @@
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { NutellaClient } from './api/nutellaClient';
+import { nutellaClientFor } from './api/profiles';
+import { toolErrorResult } from './api/errors';
+import { normalizeItemsResponse } from './api/util/normalizeItems';
+import { InstantAnswerResult, numberResults } from './api/util/searchResults';
+
+/** Highspot's instant answer; a failure is reported with the answer instead of failing the search it goes with. */
+export async function fetchInstantAnswer(client: NutellaClient, question: string): Promise<InstantAnswerResult> {
+  try {
+    const { answer, sources } = await client.getInstantAnswer(question);
+    return { answer, sources: sources ?? [] };
+  } catch (err: any) {
+    return { sources: [], error: String(err?.message ?? err) };
+  }
+}
+
+export const searchTool = createTool({
+  id: 'search-content',
+  description:
+    'Search content (items) the way users do in Highspot and return numbered results with their links; optionally also fetch Highspot\'s instant answer to the same question. Use the results to ground answers about what the content says and cite them as [n]',
+  inputSchema: z.object({
+    cookies: z.record(z.string()).optional().describe('Cookies to send to Nutella (name->value)'),
+    authToken: z.string().optional().describe('Optional Basic auth token to use in Authorization header'),
+    query: z.string().describe('The search query or question'),
+    sortby: z.enum(['relevancy', 'date_added']).optional().describe('Order of the results; defaults to relevancy'),
+    withFields: z.array(z.string()).optional().describe('Item fields beyond the core ones, e.g. ["expires_at"] or ["*"]'),
+    maxResults: z.number().int().positive().max(100).optional().describe('Number of results (default 10)'),
+    instantAnswer: z.boolean().optional().describe("Also return Highspot's instant answer for the query"),
+  }),
+  outputSchema: z.unknown(),
+  execute: async (params: any) => {
+    // Support multiple invocation shapes:
+    // - execute({ context: { ... } })
+    // - execute({ inputData: { ... }, runtimeContext })
+    // - execute(inputData)
+    const ctx = params?.context ?? params?.inputData ?? params ?? {};
+    try {
+      const client = nutellaClientFor({ authToken: ctx.authToken, cookies: ctx.cookies, runtimeContext: params?.runtimeContext });
+      const [page, instantAnswer] = await Promise.all([
+        client.searchItems(ctx.query, { sortby: ctx.sortby, withFields: ctx.withFields, max: ctx.maxResults ?? 10 }),
+        ctx.instantAnswer ? fetchInstantAnswer(client, ctx.query) : undefined,
+      ]);
+      const results = numberResults(normalizeItemsResponse(page.collection));
+      return { count: results.length, results, instantAnswer, truncated: page.truncated, cache: page.cache };
+    } catch (err) {
+      return toolErrorResult(err);
+    }
+  },
+});
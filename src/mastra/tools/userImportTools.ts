@@ -0,0 +1,19 @@
+import { createConfirmedChangeTools } from './confirmedChangeTools';
+import { userImportRequestSchema, userImportWorkflow } from '../workflows/userImport';
+
+export const { planTool: planUserImportTool, confirmTool: confirmUserImportTool } = createConfirmedChangeTools({
+  workflow: userImportWorkflow,
+  requestSchema: userImportRequestSchema,
+  plan: {
+    id: 'plan-user-import',
+    name: 'planUserImportTool',
+    description:
+      'Step 1 of a bulk import of users and user properties from a local CSV or JSON file: validates every row and lists which users would be created, updated or left alone, with per-row errors. Nothing changes until confirmUserImportTool is called with the returned runId',
+  },
+  confirm: {
+    id: 'confirm-user-import',
+    description:
+      'Step 2 of a bulk user import: apply (confirmed: true) or discard (confirmed: false) the plan from planUserImportTool. Only confirm after the user has explicitly approved it. Returns the outcome per row',
+  },
+  pending: 'import',
+});
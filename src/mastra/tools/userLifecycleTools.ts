@@ -0,0 +1,18 @@
+import { createConfirmedChangeTools } from './confirmedChangeTools';
+import { userLifecycleRequestSchema, userLifecycleWorkflow } from '../workflows/userLifecycle';
+
+export const { planTool: planUserChangesTool, confirmTool: confirmUserChangesTool } = createConfirmedChangeTools({
+  workflow: userLifecycleWorkflow,
+  requestSchema: userLifecycleRequestSchema,
+  plan: {
+    id: 'plan-user-changes',
+    name: 'planUserChangesTool',
+    description:
+      'Step 1 of every user write (add/update, invite, update fields, delete, deactivate, reactivate): a dry run that lists exactly which users would change. Nothing changes until confirmUserChangesTool is called with the returned runId',
+  },
+  confirm: {
+    id: 'confirm-user-changes',
+    description:
+      'Step 2 of a user write: apply (confirmed: true) or discard (confirmed: false) the plan from planUserChangesTool. Only confirm after the user has explicitly approved the listed changes. Returns the outcome per user',
+  },
+});
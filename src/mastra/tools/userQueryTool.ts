@@ -0,0 +1,112 @@
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { nutellaClientFor } from './api/profiles';
+import { AIClient, ChatMessage } from './api/aiClient';
+import { toolErrorResult, ValidationError } from './api/errors';
+import { normalizeUsersResponse, User } from './api/util/normalizeUsers';
+import { parseJsonReply } from './api/util/jsonReply';
+import { executeUserQuery, userQueryPlanSchema, UserQueryPlan } from './api/util/userQuery';
+
+function plannerPrompt(fields: string[], now: Date) {
+  return `Translate the administrator's question about users into a query plan. Reply with JSON only, no prose.
+
+Plan shape:
+{
+  "list": "verified" | "unverified" | "all",            // optional; which users to fetch, verified is the default
+  "filters": [{ "field": "<field>", "op": "eq" | "neq" | "contains" | "not_contains" | "in" | "exists" | "not_exists" | "gt" | "gte" | "lt" | "lte", "value": <value> }],
+  "dateRange": { "field": "<date field>", "start": "<ISO8601, inclusive>", "end": "<ISO8601, exclusive>" },   // optional
+  "groupBy": ["<field>"],                               // optional
+  "aggregate": "count" | "list",
+  "select": ["<field>"],                                // for "list"
+  "sort": [{ "field": "<field or count>", "direction": "asc" | "desc" }],
+  "limit": <number>
+}
+
+Known fields: ${fields.join(', ')}
+The current time is ${now.toISOString()}.`;
+}
+
+// A follow-up is planned as the next message of the conversation that produced the previous plan
+function previousMessages(previous: { question: string; plan?: UserQueryPlan }): ChatMessage[] {
+  return [
+    { role: 'user', content: previous.question },
+    { role: 'assistant', content: JSON.stringify(previous.plan ?? { filters: [], aggregate: 'list' }) },
+  ];
+}
+
+const FOLLOW_UP_NOTE = `
+
+The question follows up on the previous one. Start from the previous plan and change it only as the new question asks.`;
+
+/**
+ * Ask the model for a query plan and validate it; invalid plans are rejected rather than guessed at.
+ * With `previous`, the question refines an earlier one ("now only the ones in EMEA").
+ */
+export async function planUserQuery(
+  question: string,
+  options: { fields?: string[]; ai?: AIClient; now?: Date; previous?: { question: string; plan?: UserQueryPlan } } = {},
+): Promise<UserQueryPlan> {
+  const fields = options.fields?.length ? options.fields : ['id', 'name', 'email', 'suspended', 'createdAt', 'updatedAt', 'groups', 'properties.<name>'];
+  const ai = options.ai ?? new AIClient();
+  const resp = await ai.createChatCompletion(
+    [
+      { role: 'system', content: plannerPrompt(fields, options.now ?? new Date()) + (options.previous ? FOLLOW_UP_NOTE : '') },
+      ...(options.previous ? previousMessages(options.previous) : []),
+      { role: 'user', content: question },
+    ],
+    { temperature: 0, json: true, timeoutMs: 30_000 },
+  );
+
+  let reply: unknown;
+  try {
+    reply = parseJsonReply(String(resp.assistant ?? ''));
+  } catch {
+    throw new ValidationError('AI service returned a query plan that is not JSON', { service: 'ai', details: resp.assistant });
+  }
+  const parsed = userQueryPlanSchema.safeParse(reply);
+  if (!parsed.success) {
+    throw new ValidationError('AI service returned an invalid query plan', { service: 'ai', details: parsed.error.issues });
+  }
+  return parsed.data;
+}
+
+/** Fetch just enough of each user for the fields the plan refers to. */
+function fieldsParams(plan: UserQueryPlan) {
+  const fields = [...plan.filters.map(f => f.field), plan.dateRange?.field, ...(plan.groupBy ?? []), ...(plan.select ?? [])];
+  const roots = new Set(fields.filter(Boolean).map(f => f!.split('.')[0]));
+  return {
+    'with-fields': roots.has('properties') ? 'properties' : undefined,
+    'exclude-fields': ['groups', 'favorites'].filter(field => !roots.has(field)).join(',') || undefined,
+  };
+}
+
+export const queryUsersTool = createTool({
+  id: 'query-users',
+  description:
+    'Answer counting and filtering questions about users exactly: translates the question (or takes a plan) into a filter/group-by/count/sort/date-range query and runs it over all users',
+  inputSchema: z.object({
+    cookies: z.record(z.string()).optional().describe('Cookies to send to Nutella (name->value)'),
+    authToken: z.string().optional().describe('Optional Basic auth token to use in Authorization header'),
+    question: z.string().optional().describe('Natural language question, e.g. "how many unverified users were created this month?"'),
+    plan: userQueryPlanSchema.optional().describe('Query plan to run as is, instead of planning from the question'),
+  }),
+  outputSchema: z.unknown(),
+  execute: async (params: any) => {
+    // Support multiple invocation shapes:
+    // - execute({ context: { ... } })
+    // - execute({ inputData: { ... }, runtimeContext })
+    // - execute(inputData)
+    const ctx = params?.context ?? params?.inputData ?? params ?? {};
+    if (!ctx.plan && !ctx.question) throw new Error('Either question or plan is required');
+
+    try {
+      const client = nutellaClientFor({ authToken: ctx.authToken, cookies: ctx.cookies, runtimeContext: params?.runtimeContext });
+      const plan: UserQueryPlan = ctx.plan ? userQueryPlanSchema.parse(ctx.plan) : await planUserQuery(ctx.question);
+      const page = await client.getUsers({ list: plan.list, ...fieldsParams(plan) });
+      const users: User[] = normalizeUsersResponse(page);
+      return { plan, result: executeUserQuery(users, plan), truncated: page.truncated, cache: page.cache };
+    } catch (err) {
+      return toolErrorResult(err);
+    }
+  },
+});
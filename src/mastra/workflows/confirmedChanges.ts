@@ -0,0 +1,73 @@
+import { createStep } from '@mastra/core/workflows';
+import { z } from 'zod';
+import { NutellaClient } from '../tools/api/nutellaClient';
+import { ApiError, ApiErrorInfo, toNutellaError, ValidationError } from '../tools/api/errors';
+import { NutellaOperationId } from '../tools/api/generated/nutellaOperations';
+import { isWriteAllowed, operationToolsOptionsFromEnv } from '../tools/operationTools';
+
+// --- Shared by the plan (dry run) / confirm / apply flows for users, imports, groups, content and privacy requests ---
+
+/** Reject a request before anything is looked up or changed. */
+export function invalid(message: string, operation: string): never {
+  throw new ValidationError(message, { service: 'nutella', operation });
+}
+
+/** Refuse to plan a change the deployment has not enabled writes for. */
+export function requireWrites(operations: readonly NutellaOperationId[]): void {
+  const options = operationToolsOptionsFromEnv();
+  for (const operation of operations) {
+    if (!isWriteAllowed(operation, options)) invalid(`${operation} is not enabled for this deployment; add it to NUTELLA_TOOL_ALLOW_WRITES`, operation);
+  }
+}
+
+/** The error reported for one failed call while applying a plan. */
+export function errorInfo(error: unknown, operation: string): ApiErrorInfo {
+  return (error instanceof ApiError ? error : toNutellaError(error, operation)).toJSON();
+}
+
+/** The users a plan is made from; plans must reflect the users as they are now, not as cached. */
+export function currentUsers(client: NutellaClient, params: Omit<NonNullable<Parameters<NutellaClient['getUsers']>[0]>, 'refresh'>) {
+  return client.getUsers({ ...params, refresh: true });
+}
+
+/** How many entries there are of each kind, e.g. `2 ok, 1 failed`, in order of first appearance. */
+export function countSummary<T>(entries: T[], kind: (entry: T) => string): string {
+  const counts = new Map<string, number>();
+  for (const entry of entries) counts.set(kind(entry), (counts.get(kind(entry)) ?? 0) + 1);
+  return [...counts].map(([name, count]) => `${count} ${name}`).join(', ');
+}
+
+/**
+ * The step between plan and apply: suspends with the plan and a message until it is confirmed or rejected.
+ * A plan that failed or would change nothing goes on unconfirmed without asking.
+ */
+export function createConfirmStep<TPlan extends z.ZodTypeAny>(options: {
+  id: string;
+  description?: string;
+  planSchema: TPlan;
+  /** True when applying the plan would change nothing. */
+  isEmpty: (plan: z.infer<TPlan>) => boolean;
+  message: (plan: z.infer<TPlan>) => string;
+}) {
+  return createStep({
+    id: options.id,
+    description: options.description ?? 'Suspend until the plan is explicitly confirmed or rejected',
+    inputSchema: options.planSchema,
+    outputSchema: z.object({ plan: options.planSchema, confirmed: z.boolean() }),
+    suspendSchema: z.object({ plan: options.planSchema, message: z.string() }),
+    resumeSchema: z.object({ confirmed: z.boolean() }),
+    execute: async (context: any) => {
+      const { inputData: plan, resumeData, suspend } = context;
+      if (!plan) throw new Error('Input data not found');
+
+      // Nothing would change: no need to ask
+      if (plan.error || options.isEmpty(plan)) return { plan, confirmed: false };
+
+      if (!resumeData) {
+        await suspend({ plan, message: options.message(plan) });
+        return { plan, confirmed: false };
+      }
+      return { plan, confirmed: resumeData.confirmed === true };
+    },
+  });
+}
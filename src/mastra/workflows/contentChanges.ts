@@ -0,0 +1,422 @@
+import { createStep, createWorkflow } from '@mastra/core/workflows';
+import { z } from 'zod';
+import { NutellaClient } from '../tools/api/nutellaClient';
+import { nutellaClientFor } from '../tools/api/profiles';
+import { ApiError, apiErrorInfoSchema, NotFoundError } from '../tools/api/errors';
+import { NutellaOperationId } from '../tools/api/generated/nutellaOperations';
+import { addListSchema, AddGlobalList } from '../tools/api/generated/nutellaSchemas';
+import { Item, normalizeItemsResponse } from '../tools/api/util/normalizeItems';
+import { flattenLists, normalizeListsResponse } from '../tools/api/util/normalizeLists';
+import { normalizeSpotsResponse } from '../tools/api/util/normalizeSpots';
+import { normalizeGroupsResponse } from '../tools/api/util/normalizeGroups';
+import { normalizeUsersResponse } from '../tools/api/util/normalizeUsers';
+import { countSummary, createConfirmStep, currentUsers, errorInfo, invalid, requireWrites } from './confirmedChanges';
+
+// --- Content changes: plan (dry run), suspend for confirmation, then apply and report per item, list or user ---
+
+export const contentChangeActionSchema = z.enum([
+  'archive_items',
+  'set_expiration',
+  'add_spot_users',
+  'create_list',
+  'rename_list',
+  'delete_list',
+  'add_list_items',
+  'remove_list_items',
+  'add_global_lists',
+]);
+
+export type ContentChangeAction = z.infer<typeof contentChangeActionSchema>;
+
+export const contentChangeRequestSchema = z.object({
+  action: contentChangeActionSchema,
+  /** The spot to add users or lists to, whose items to select, or whose local list to change; leave out for global lists. */
+  spot: z.string().optional(),
+  /** List id: the list to rename, delete or add items to, or (with `spot`) the list whose items to select. */
+  list: z.string().optional(),
+  /** Item ids; for archive_items and set_expiration, leave out to select every item in `spot` (and `list`). */
+  items: z.array(z.string()).default([]),
+  /** `set_expiration`: the new expiration date. */
+  expires: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'expected YYYY-MM-DD').optional(),
+  /** `archive_items`: reason recorded with the archive; `add_spot_users`: note emailed to the added users. */
+  message: z.string().optional(),
+  /** `add_spot_users`: user emails and group ids to add, with the role they get. */
+  emails: z.array(z.string()).default([]),
+  groups: z.array(z.string()).default([]),
+  role: z.enum(['viewer', 'editor', 'manager']).default('viewer'),
+  /** `create_list`: the new list; a local list when `spot` is set, a global list otherwise. */
+  newList: addListSchema.optional(),
+  /** `create_list` and `rename_list` of a global list: the parent list id. */
+  parent: z.string().optional(),
+  /** `rename_list`: the new name. */
+  name: z.string().optional(),
+  /** `add_global_lists`: ids of the global lists to add to `spot`. */
+  lists: z.array(z.string()).default([]),
+  authToken: z.string().optional(),
+});
+
+export type ContentChangeRequest = z.infer<typeof contentChangeRequestSchema>;
+
+export const plannedContentChangeSchema = z.object({
+  /** Item title, list name, user email or group title. */
+  target: z.string(),
+  id: z.string().optional(),
+  change: z.enum(['archive', 'update', 'add', 'remove', 'create', 'delete', 'skip']),
+  /** Why a change is skipped. */
+  reason: z.string().optional(),
+  before: z.record(z.unknown()).optional(),
+  after: z.record(z.unknown()).optional(),
+});
+
+export type PlannedContentChange = z.infer<typeof plannedContentChangeSchema>;
+
+export const contentChangePlanSchema = z.object({
+  action: contentChangeActionSchema,
+  spot: z.string().optional(),
+  spotTitle: z.string().optional(),
+  list: z.string().optional(),
+  changes: z.array(plannedContentChangeSchema),
+  summary: z.string(),
+  /** Set when the request was rejected or the spot could not be looked up; nothing will run. */
+  error: apiErrorInfoSchema.optional(),
+});
+
+export type ContentChangePlan = z.infer<typeof contentChangePlanSchema>;
+
+export const contentChangeResultSchema = z.object({
+  target: z.string(),
+  id: z.string().optional(),
+  change: plannedContentChangeSchema.shape.change,
+  status: z.enum(['ok', 'failed', 'skipped', 'cancelled']),
+  /** Id of a created list. */
+  listId: z.string().optional(),
+  error: apiErrorInfoSchema.optional(),
+});
+
+export type ContentChangeResult = z.infer<typeof contentChangeResultSchema>;
+
+// `POST /items/batch` takes any number of items, but one bad id fails the whole request
+const MAX_ITEMS_PER_BATCH = 100;
+
+/** The spec operations an action calls; local and global lists use different endpoints. */
+export function contentChangeOperations(request: Pick<ContentChangeRequest, 'action' | 'spot'>): NutellaOperationId[] {
+  const local = Boolean(request.spot);
+  switch (request.action) {
+    case 'archive_items':
+    case 'set_expiration':
+      return ['postItemsBatch'];
+    case 'add_spot_users':
+      return ['postSpotsBySpotUsers'];
+    case 'create_list':
+      return [local ? 'postSpotsBySpotLists' : 'postGlobalLists'];
+    case 'rename_list':
+      return ['patchGlobalListsByList'];
+    case 'delete_list':
+      return [local ? 'deleteSpotsBySpotListsByList' : 'deleteGlobalListsByList'];
+    case 'add_list_items':
+      return ['postSpotsBySpotListsByListItems'];
+    case 'remove_list_items':
+      return ['deleteSpotsBySpotListsByListItemsByItem'];
+    case 'add_global_lists':
+      return ['postSpotsBySpotGlobalLists'];
+  }
+}
+
+/** Every write the flow may call, for spot and global lists alike; the agent must not get them as raw operation tools. */
+export const allContentChangeOperations = [
+  ...new Set(contentChangeActionSchema.options.flatMap(action => [...contentChangeOperations({ action }), ...contentChangeOperations({ action, spot: 'spot' })])),
+];
+
+const unique = (values: string[]) => [...new Set(values.map(v => v.trim()).filter(Boolean))];
+
+// Items named by id are looked up one by one so that a wrong id is reported rather than failing the batch
+async function selectItems(client: NutellaClient, request: ContentChangeRequest) {
+  const ids = unique(request.items);
+  if (!ids.length) {
+    if (!request.spot) invalid('Name the items by `items` or select every item in a `spot`', 'postItemsBatch');
+    const page = await client.getSpotItems(request.spot, { list: request.list, max: 5000, refresh: true });
+    return { found: normalizeItemsResponse(page.collection), missing: [] as string[] };
+  }
+  const lookups = await Promise.all(
+    ids.map(async item => {
+      try {
+        return normalizeItemsResponse(await client.getItemsByItem({ item }));
+      } catch (err) {
+        if (!(err instanceof NotFoundError)) throw err;
+        return undefined;
+      }
+    }),
+  );
+  const found: Item[] = lookups.flatMap(items => items ?? []);
+  const missing = ids.filter((_, i) => !lookups[i]);
+  return { found, missing };
+}
+
+async function spotLists(client: NutellaClient, spot: string) {
+  return normalizeListsResponse(await client.getSpotsBySpotLists({ spot }));
+}
+
+async function globalLists(client: NutellaClient) {
+  return normalizeListsResponse(await client.getGlobalLists({}));
+}
+
+/** Work out exactly what a content action would change, without changing anything. */
+export async function planContentChanges(client: NutellaClient, request: ContentChangeRequest): Promise<ContentChangePlan> {
+  const operations = contentChangeOperations(request);
+  requireWrites(operations);
+  const needsSpot = ['add_spot_users', 'add_list_items', 'remove_list_items', 'add_global_lists'].includes(request.action);
+  if (needsSpot && !request.spot) invalid('`spot` is required', operations[0]);
+
+  const spot = request.spot ? normalizeSpotsResponse(await client.getSpotsBySpot({ spot: request.spot }))[0] : undefined;
+  const plan = (changes: PlannedContentChange[]): ContentChangePlan => ({
+    action: request.action,
+    spot: request.spot,
+    spotTitle: spot?.title,
+    list: request.list,
+    changes,
+    summary: countSummary(changes, c => c.change),
+  });
+  const notFound = (ids: string[], what: string): PlannedContentChange[] => ids.map(id => ({ target: id, id, change: 'skip', reason: `${what} not found` }));
+
+  switch (request.action) {
+    case 'archive_items':
+    case 'set_expiration': {
+      if (request.action === 'set_expiration' && !request.expires) invalid('`expires` (YYYY-MM-DD) is required', 'postItemsBatch');
+      const { found, missing } = await selectItems(client, request);
+      const changes: PlannedContentChange[] = found.map(item => {
+        const target = item.title ?? String(item.id);
+        if (request.action === 'archive_items') return { target, id: item.id, change: 'archive' };
+        if (item.expiresAt?.startsWith(request.expires!)) return { target, id: item.id, change: 'skip', reason: `already expires on ${request.expires}` };
+        return { target, id: item.id, change: 'update', before: { expiresAt: item.expiresAt ?? null }, after: { expiresAt: request.expires } };
+      });
+      changes.push(...notFound(missing, 'item'));
+      if (!changes.length) changes.push({ target: spot?.title ?? request.spot ?? 'items', change: 'skip', reason: 'no items selected' });
+      return plan(changes);
+    }
+    case 'add_spot_users': {
+      const emails = unique(request.emails).map(e => e.toLowerCase());
+      const groupIds = unique(request.groups);
+      if (!emails.length && !groupIds.length) invalid('Name the users by `emails` and/or the groups by `groups`', 'postSpotsBySpotUsers');
+      const [users, groups] = await Promise.all([
+        emails.length ? currentUsers(client, { list: 'all', 'exclude-fields': 'favorites' }) : undefined,
+        groupIds.length ? client.getGroups({ max: 5000 }) : undefined,
+      ]);
+      const known = new Set(normalizeUsersResponse(users).map(u => u.email?.toLowerCase()));
+      const titles = new Map(normalizeGroupsResponse(groups?.collection).map(g => [g.id, g.title]));
+      // Spot members cannot be read through the API, so users already in the spot are re-sent with the new role
+      return plan([
+        ...emails.map((email): PlannedContentChange =>
+          known.has(email) ? { target: email, change: 'add', after: { role: request.role } } : { target: email, change: 'skip', reason: 'user not found' },
+        ),
+        ...groupIds.map((id): PlannedContentChange =>
+          titles.has(id) ? { target: titles.get(id) ?? id, id, change: 'add', after: { role: request.role } } : { target: id, id, change: 'skip', reason: 'group not found' },
+        ),
+      ]);
+    }
+    case 'create_list': {
+      const newList = request.newList;
+      if (!newList?.name) invalid('`newList.name` is required for create_list', operations[0]);
+      const tree = request.spot ? await spotLists(client, request.spot) : await globalLists(client);
+      const parent = request.parent ? flattenLists(tree).find(list => list.id === request.parent) : undefined;
+      if (request.parent && !parent) return plan([{ target: newList.name, change: 'skip', reason: `parent list ${request.parent} not found` }]);
+      const siblings = parent ? parent.children ?? [] : tree;
+      const duplicate = siblings.find(list => list.name?.toLowerCase() === newList.name.toLowerCase());
+      if (duplicate) return plan([{ target: newList.name, id: duplicate.id, change: 'skip', reason: 'a list with this name already exists here' }]);
+      return plan([{ target: parent ? `${parent.path} / ${newList.name}` : newList.name, change: 'create', after: newList as Record<string, unknown> }]);
+    }
+    case 'rename_list': {
+      if (request.spot) invalid('Only global lists can be renamed; leave out `spot`', 'patchGlobalListsByList');
+      if (!request.list || (!request.name && !request.parent)) invalid('`list` and a new `name` or `parent` are required', 'patchGlobalListsByList');
+      const list = flattenLists(await globalLists(client)).find(l => l.id === request.list);
+      if (!list) return plan(notFound([request.list], 'global list'));
+      const after = { name: request.name ?? list.name, parent: request.parent ?? list.parent };
+      if (after.name === list.name && after.parent === list.parent) return plan([{ target: list.path, id: list.id, change: 'skip', reason: 'already up to date' }]);
+      return plan([{ target: list.path, id: list.id, change: 'update', before: { name: list.name, parent: list.parent }, after }]);
+    }
+    case 'delete_list': {
+      if (!request.list) invalid('`list` is required', operations[0]);
+      const lists = request.spot ? await spotLists(client, request.spot) : await globalLists(client);
+      const list = flattenLists(lists).find(l => l.id === request.list);
+      if (!list) return plan(notFound([request.list], request.spot ? 'list' : 'global list'));
+      // Deleting a list group deletes the lists under it, so show how many go with it
+      const nested = flattenLists(list.children ?? []).length;
+      return plan([{ target: list.path, id: list.id, change: 'delete', before: { name: list.name, type: list.type, nestedLists: nested } }]);
+    }
+    case 'add_list_items':
+    case 'remove_list_items': {
+      if (!request.list) invalid('`list` is required', operations[0]);
+      const ids = unique(request.items);
+      if (!ids.length) invalid('`items` is required', operations[0]);
+      const [inSpot, inList] = await Promise.all([
+        client.getSpotItems(request.spot!, { max: 5000, refresh: true }),
+        client.getSpotItems(request.spot!, { list: request.list, max: 5000, refresh: true }),
+      ]);
+      const items = new Map(normalizeItemsResponse(inSpot.collection).map(item => [String(item.id), item]));
+      const listed = new Set(normalizeItemsResponse(inList.collection).map(item => String(item.id)));
+      const adding = request.action === 'add_list_items';
+      return plan(
+        ids.map((id): PlannedContentChange => {
+          const item = items.get(id);
+          if (!item) return { target: id, id, change: 'skip', reason: 'item not in this spot' };
+          const target = item.title ?? id;
+          if (adding) return listed.has(id) ? { target, id, change: 'skip', reason: 'already in the list' } : { target, id, change: 'add' };
+          return listed.has(id) ? { target, id, change: 'remove' } : { target, id, change: 'skip', reason: 'not in the list' };
+        }),
+      );
+    }
+    case 'add_global_lists': {
+      const ids = unique(request.lists);
+      if (!ids.length) invalid('`lists` (global list ids) is required', 'postSpotsBySpotGlobalLists');
+      const [global, local] = (await Promise.all([globalLists(client), spotLists(client, request.spot!)])).map(tree => flattenLists(tree));
+      const present = new Set(local.map(list => list.id));
+      return plan(
+        ids.map((id): PlannedContentChange => {
+          const list = global.find(l => l.id === id);
+          if (!list) return { target: id, id, change: 'skip', reason: 'global list not found' };
+          if (present.has(id)) return { target: list.path, id, change: 'skip', reason: 'already in the spot' };
+          return { target: list.path, id, change: 'add' };
+        }),
+      );
+    }
+  }
+}
+
+/** Apply a confirmed plan. Items are archived or updated in batches; list items are removed one at a time. */
+export async function applyContentChanges(client: NutellaClient, request: ContentChangeRequest, plan: ContentChangePlan): Promise<ContentChangeResult[]> {
+  const skipped = plan.changes.filter(c => c.change === 'skip').map(c => ({ ...c, status: 'skipped' as const }));
+  const todo = plan.changes.filter(c => c.change !== 'skip');
+  if (!todo.length) return skipped;
+  const [operation] = contentChangeOperations(request);
+  const spot = plan.spot!;
+  const list = plan.list!;
+
+  const all = async (changes: PlannedContentChange[], call: () => Promise<unknown>): Promise<ContentChangeResult[]> => {
+    try {
+      const resp = await call();
+      // Creating a list answers with the new list or with all of the spot's lists; find it by name
+      const listId = plan.action === 'create_list' ? flattenLists(normalizeListsResponse(resp)).find(l => l.name === request.newList?.name)?.id : undefined;
+      return changes.map(c => ({ ...c, status: 'ok' as const, listId }));
+    } catch (err) {
+      const error = errorInfo(err, operation);
+      return changes.map(c => ({ ...c, status: 'failed' as const, error }));
+    }
+  };
+
+  let results: ContentChangeResult[] = [];
+  switch (plan.action) {
+    case 'archive_items':
+    case 'set_expiration':
+      for (let i = 0; i < todo.length; i += MAX_ITEMS_PER_BATCH) {
+        const batch = todo.slice(i, i + MAX_ITEMS_PER_BATCH);
+        const items = batch.map(c => c.id!);
+        const spec =
+          plan.action === 'archive_items'
+            ? { archive: { items, message: request.message ?? 'Archived by an administrator' } }
+            : { set_options: { items, value: { expires: request.expires } } };
+        results.push(...(await all(batch, () => client.postItemsBatch({ body: [spec] }))));
+      }
+      break;
+    case 'add_spot_users': {
+      const users = todo.filter(c => !c.id).map(c => c.target);
+      const groups = todo.filter(c => c.id).map(c => c.id!);
+      results = await all(todo, () => client.postSpotsBySpotUsers({ spot, role: request.role, message: request.message, body: { users, groups } }));
+      break;
+    }
+    case 'create_list':
+      results = await all(todo, () =>
+        request.spot
+          ? client.postSpotsBySpotLists({ spot, body: request.newList! })
+          : client.postGlobalLists({ parent: request.parent, body: request.newList as AddGlobalList }),
+      );
+      break;
+    case 'rename_list':
+      results = await all(todo, () => client.patchGlobalListsByList({ list, body: { name: request.name, parentId: request.parent } }));
+      break;
+    case 'delete_list':
+      results = await all(todo, () => (request.spot ? client.deleteSpotsBySpotListsByList({ spot, list }) : client.deleteGlobalListsByList({ list })));
+      break;
+    case 'add_list_items':
+      results = await all(todo, () => client.postSpotsBySpotListsByListItems({ spot, list, body: todo.map(c => c.id!) }));
+      break;
+    case 'remove_list_items':
+      results = (await Promise.all(todo.map(change => all([change], () => client.deleteSpotsBySpotListsByListItemsByItem({ spot, list, item: change.id! }))))).flat();
+      break;
+    case 'add_global_lists':
+      results = await all(todo, () => client.postSpotsBySpotGlobalLists({ spot, body: todo.map(c => c.id!) }));
+      break;
+  }
+  return [...results, ...skipped];
+}
+
+const planStep = createStep({
+  id: 'plan-content-changes',
+  description: 'Dry run: list exactly which items, lists or spot members would change',
+  inputSchema: contentChangeRequestSchema,
+  outputSchema: contentChangePlanSchema,
+  execute: async (context: any) => {
+    const inputData = context.inputData;
+    if (!inputData) throw new Error('Input data not found');
+    try {
+      return await planContentChanges(nutellaClientFor({ authToken: inputData.authToken, runtimeContext: context.runtimeContext }), inputData);
+    } catch (err) {
+      if (!(err instanceof ApiError)) throw err;
+      return { action: inputData.action, spot: inputData.spot, list: inputData.list, changes: [], summary: 'not planned', error: err.toJSON() };
+    }
+  },
+});
+
+const confirmStep = createConfirmStep({
+  id: 'confirm-content-changes',
+  planSchema: contentChangePlanSchema,
+  isEmpty: plan => plan.changes.every(c => c.change === 'skip'),
+  message: plan => {
+    const where = plan.spotTitle ?? plan.spot;
+    return `Confirm ${plan.action.replace(/_/g, ' ')}${where ? ` in ${where}` : ''}: ${plan.summary}`;
+  },
+});
+
+const contentChangesOutputSchema = z.object({
+  action: contentChangeActionSchema,
+  confirmed: z.boolean(),
+  results: z.array(contentChangeResultSchema),
+  summary: z.string(),
+  error: apiErrorInfoSchema.optional(),
+});
+
+const applyStep = createStep({
+  id: 'apply-content-changes',
+  description: 'Apply the confirmed plan and report the outcome per item, list or user',
+  inputSchema: z.object({ plan: contentChangePlanSchema, confirmed: z.boolean() }),
+  outputSchema: contentChangesOutputSchema,
+  execute: async (context: any) => {
+    const { inputData } = context;
+    if (!inputData) throw new Error('Input data not found');
+    const { plan, confirmed } = inputData as { plan: ContentChangePlan; confirmed: boolean };
+    const request = context.getInitData() as ContentChangeRequest;
+
+    const results: ContentChangeResult[] = confirmed
+      ? await applyContentChanges(nutellaClientFor({ authToken: request.authToken, runtimeContext: context.runtimeContext }), request, plan)
+      : plan.changes.map(c => ({ ...c, status: c.change === 'skip' ? ('skipped' as const) : ('cancelled' as const) }));
+
+    return {
+      action: plan.action,
+      confirmed,
+      results: results.map(({ target, id, change, status, listId, error }) => ({ target, id, change, status, listId, error })),
+      summary: plan.error ? plan.summary : countSummary(results, r => r.status),
+      error: plan.error,
+    };
+  },
+});
+
+const contentChangesWorkflow = createWorkflow({
+  id: 'content-changes-workflow',
+  inputSchema: contentChangeRequestSchema,
+  outputSchema: contentChangesOutputSchema,
+})
+  .then(planStep)
+  .then(confirmStep)
+  .then(applyStep);
+
+contentChangesWorkflow.commit();
+
+export { contentChangesWorkflow };
@@ -0,0 +1,332 @@
+import { createStep, createWorkflow } from '@mastra/core/workflows';
+import { z } from 'zod';
+import { NutellaClient } from '../tools/api/nutellaClient';
+import { nutellaClientFor } from '../tools/api/profiles';
+import { ApiError, apiErrorInfoSchema } from '../tools/api/errors';
+import { NutellaOperationId } from '../tools/api/generated/nutellaOperations';
+import {
+  groupPostSchema,
+  patchGroupSchema,
+  postGroupSettingsPermissionsSchema,
+  putGroupSettingsBasicsSchema,
+  putGroupSettingsVisibilitySchema,
+} from '../tools/api/generated/nutellaSchemas';
+import { normalizeGroupsResponse } from '../tools/api/util/normalizeGroups';
+import { normalizeUsersResponse, User } from '../tools/api/util/normalizeUsers';
+import { usersWithProperty } from '../tools/api/util/groupMembership';
+import { countSummary, createConfirmStep, currentUsers, errorInfo, invalid, requireWrites } from './confirmedChanges';
+
+// --- Group changes: plan (dry run), suspend for confirmation, then apply and report per member or setting ---
+
+export const groupChangeActionSchema = z.enum(['add_members', 'remove_members', 'create', 'update', 'set_visibility', 'set_properties', 'set_permissions']);
+
+export type GroupChangeAction = z.infer<typeof groupChangeActionSchema>;
+
+// The spec operations each action may call
+const actionOperations: Record<GroupChangeAction, NutellaOperationId[]> = {
+  add_members: ['postGroupsByGroupMembers'],
+  remove_members: ['deleteGroupsByGroupMembersByMember'],
+  create: ['postGroups'],
+  update: ['patchGroupsByGroup', 'putGroupsByGroupSettingsBasics'],
+  set_visibility: ['putGroupsByGroupSettingsVisibility'],
+  set_properties: ['postGroupsByGroupProperties'],
+  set_permissions: ['postGroupsByGroupSettingsPermissions'],
+};
+
+/** Every write the flow may call; the agent must not get them as raw operation tools. */
+export const groupChangeOperations = Object.values(actionOperations).flat();
+
+export const groupChangeRequestSchema = z.object({
+  action: groupChangeActionSchema,
+  group: z.string().optional().describe('Group id; required for every action but create'),
+  /** Members to add or remove. */
+  emails: z.array(z.string()).default([]),
+  /** Also select members by a custom user property, e.g. everyone whose department is Sales. */
+  where: z.object({ property: z.string(), value: z.string() }).optional(),
+  /** `create`: the new group. */
+  newGroup: groupPostSchema.optional(),
+  /** `update`: title and description. */
+  changes: patchGroupSchema.optional(),
+  /** `update`: other settings from `settings/basics`. */
+  settings: putGroupSettingsBasicsSchema.optional(),
+  visibility: putGroupSettingsVisibilitySchema.optional(),
+  /** `set_properties`: properties to add or update; others are kept. */
+  properties: z.record(z.unknown()).optional(),
+  permissions: postGroupSettingsPermissionsSchema.optional(),
+  authToken: z.string().optional(),
+});
+
+export type GroupChangeRequest = z.infer<typeof groupChangeRequestSchema>;
+
+export const plannedGroupChangeSchema = z.object({
+  /** Member email, or the group title for changes to the group itself. */
+  target: z.string(),
+  userId: z.string().optional(),
+  change: z.enum(['add', 'remove', 'create', 'update', 'skip']),
+  /** Why a change is skipped. */
+  reason: z.string().optional(),
+  before: z.record(z.unknown()).optional(),
+  after: z.record(z.unknown()).optional(),
+});
+
+export type PlannedGroupChange = z.infer<typeof plannedGroupChangeSchema>;
+
+export const groupChangePlanSchema = z.object({
+  action: groupChangeActionSchema,
+  group: z.string().optional(),
+  groupTitle: z.string().optional(),
+  changes: z.array(plannedGroupChangeSchema),
+  summary: z.string(),
+  /** Set when the request was rejected or the group could not be looked up; nothing will run. */
+  error: apiErrorInfoSchema.optional(),
+});
+
+export type GroupChangePlan = z.infer<typeof groupChangePlanSchema>;
+
+export const groupChangeResultSchema = z.object({
+  target: z.string(),
+  userId: z.string().optional(),
+  change: plannedGroupChangeSchema.shape.change,
+  status: z.enum(['ok', 'failed', 'skipped', 'cancelled']),
+  /** Id of a created group. */
+  groupId: z.string().optional(),
+  error: apiErrorInfoSchema.optional(),
+});
+
+export type GroupChangeResult = z.infer<typeof groupChangeResultSchema>;
+
+const MAX_MEMBERS_PER_REQUEST = 500;
+
+function pick(source: Record<string, unknown>, keys: string[]) {
+  return Object.fromEntries(keys.map(key => [key, source[key]]));
+}
+
+// Everyone the request names, by email and/or property; emails that match no user are reported, not dropped
+async function selectMembers(client: NutellaClient, request: GroupChangeRequest) {
+  const emails = [...new Set(request.emails.map(e => e.trim().toLowerCase()).filter(Boolean))];
+  if (!emails.length && !request.where) invalid('Name the members by `emails` or select them with `where`', actionOperations[request.action][0]);
+
+  const page = await currentUsers(client, { list: 'all', 'with-fields': request.where ? 'properties' : undefined, 'exclude-fields': 'favorites' });
+  const users = normalizeUsersResponse(page);
+  const byEmail = new Map(users.filter(u => u.email).map(u => [u.email!.toLowerCase(), u]));
+  const selected = new Map<string, User>();
+  const unknown: string[] = [];
+  for (const email of emails) {
+    const user = byEmail.get(email);
+    if (user) selected.set(email, user);
+    else unknown.push(email);
+  }
+  if (request.where) {
+    for (const user of usersWithProperty(users, request.where.property, request.where.value)) selected.set(user.email?.toLowerCase() ?? String(user.id), user);
+  }
+  return { selected: [...selected.values()], unknown };
+}
+
+/** Work out exactly what a group action would change, without changing anything. */
+export async function planGroupChanges(client: NutellaClient, request: GroupChangeRequest): Promise<GroupChangePlan> {
+  const operations = actionOperations[request.action];
+  requireWrites(operations);
+
+  if (request.action === 'create') {
+    if (!request.newGroup?.title) invalid('`newGroup.title` is required for create', 'postGroups');
+    const { items } = await client.collectAllWithCacheInfo('getGroups', {}, { max: 5000, refresh: true });
+    const existing = normalizeGroupsResponse(items).find(g => g.title?.toLowerCase() === request.newGroup!.title.toLowerCase());
+    const change: PlannedGroupChange = existing
+      ? { target: request.newGroup.title, change: 'skip', reason: `a group with this title already exists (${existing.id})` }
+      : { target: request.newGroup.title, change: 'create', after: request.newGroup };
+    return { action: request.action, groupTitle: request.newGroup.title, changes: [change], summary: `1 ${change.change}` };
+  }
+
+  if (!request.group) invalid('`group` is required', operations[0]);
+  const [group] = normalizeGroupsResponse(await client.getGroupsByGroup({ group: request.group }));
+  const target = group?.title ?? request.group;
+  const current = (group ?? {}) as Record<string, unknown>;
+  const plan = (changes: PlannedGroupChange[]): GroupChangePlan => ({
+    action: request.action,
+    group: request.group,
+    groupTitle: group?.title,
+    changes,
+    summary: countSummary(changes, c => c.change),
+  });
+
+  switch (request.action) {
+    case 'add_members':
+    case 'remove_members': {
+      const [{ selected, unknown }, members] = await Promise.all([selectMembers(client, request), client.getGroupMembers(request.group, { refresh: true })]);
+      const memberIds = new Set(members.collection.map(m => String(m.id)));
+      const adding = request.action === 'add_members';
+      const changes: PlannedGroupChange[] = selected.map(user => {
+        const email = user.email ?? String(user.id);
+        const isMember = memberIds.has(String(user.id));
+        if (adding) return isMember ? { target: email, userId: user.id, change: 'skip', reason: 'already a member' } : { target: email, userId: user.id, change: 'add' };
+        return isMember ? { target: email, userId: user.id, change: 'remove' } : { target: email, userId: user.id, change: 'skip', reason: 'not a member' };
+      });
+      for (const email of unknown) changes.push({ target: email, change: 'skip', reason: 'user not found' });
+      if (!changes.length) changes.push({ target, change: 'skip', reason: `no user has ${request.where?.property} = ${request.where?.value}` });
+      return plan(changes);
+    }
+    case 'update': {
+      const wanted = { ...request.changes, ...request.settings } as Record<string, unknown>;
+      if (!Object.keys(wanted).length) invalid('`changes` or `settings` is required for update', 'patchGroupsByGroup');
+      const keys = Object.keys(wanted).filter(key => current[key] !== wanted[key]);
+      if (!keys.length) return plan([{ target, change: 'skip', reason: 'already up to date' }]);
+      return plan([{ target, change: 'update', before: pick(current, keys), after: pick(wanted, keys) }]);
+    }
+    case 'set_visibility': {
+      if (!request.visibility?.visibility) invalid('`visibility` is required', 'putGroupsByGroupSettingsVisibility');
+      const after = { visibility: request.visibility.visibility };
+      if (current.visibility === after.visibility) return plan([{ target, change: 'skip', reason: 'already has this visibility' }]);
+      return plan([{ target, change: 'update', before: { visibility: current.visibility }, after }]);
+    }
+    case 'set_properties': {
+      if (!Object.keys(request.properties ?? {}).length) invalid('`properties` is required', 'postGroupsByGroupProperties');
+      const existing = ((await client.getGroupsByGroupProperties({ group: request.group })) ?? {}) as Record<string, unknown>;
+      const keys = Object.keys(request.properties!).filter(key => existing[key] !== request.properties![key]);
+      if (!keys.length) return plan([{ target, change: 'skip', reason: 'already up to date' }]);
+      return plan([{ target, change: 'update', before: pick(existing, keys), after: pick(request.properties!, keys) }]);
+    }
+    case 'set_permissions':
+      if (!request.permissions?.batch?.length) invalid('`permissions.batch` is required', 'postGroupsByGroupSettingsPermissions');
+      // Current permissions cannot be read through the API, so the plan shows only what will be sent
+      return plan([{ target, change: 'update', after: request.permissions as Record<string, unknown> }]);
+  }
+}
+
+/** Apply a confirmed plan. Members are added in batches and removed one at a time. */
+export async function applyGroupChanges(client: NutellaClient, request: GroupChangeRequest, plan: GroupChangePlan): Promise<GroupChangeResult[]> {
+  const skipped = plan.changes.filter(c => c.change === 'skip').map(c => ({ ...c, status: 'skipped' as const }));
+  const todo = plan.changes.filter(c => c.change !== 'skip');
+  if (!todo.length) return skipped;
+  const group = plan.group!;
+
+  const single = async (operation: string, call: () => Promise<unknown>): Promise<GroupChangeResult[]> => {
+    try {
+      await call();
+      return todo.map(c => ({ ...c, status: 'ok' as const }));
+    } catch (err) {
+      return todo.map(c => ({ ...c, status: 'failed' as const, error: errorInfo(err, operation) }));
+    }
+  };
+
+  let results: GroupChangeResult[] = [];
+  switch (plan.action) {
+    case 'add_members':
+      for (let i = 0; i < todo.length; i += MAX_MEMBERS_PER_REQUEST) {
+        const batch = todo.slice(i, i + MAX_MEMBERS_PER_REQUEST);
+        try {
+          await client.postGroupsByGroupMembers({ group, body: batch.map(c => c.userId!) });
+          results.push(...batch.map(c => ({ ...c, status: 'ok' as const })));
+        } catch (err) {
+          const error = errorInfo(err, 'postGroupsByGroupMembers');
+          results.push(...batch.map(c => ({ ...c, status: 'failed' as const, error })));
+        }
+      }
+      break;
+    case 'remove_members':
+      results = await Promise.all(
+        todo.map(async change => {
+          try {
+            await client.deleteGroupsByGroupMembersByMember({ group, member: change.userId! });
+            return { ...change, status: 'ok' as const };
+          } catch (err) {
+            return { ...change, status: 'failed' as const, error: errorInfo(err, 'deleteGroupsByGroupMembersByMember') };
+          }
+        }),
+      );
+      break;
+    case 'create':
+      try {
+        const resp: any = await client.postGroups({ body: request.newGroup! });
+        results = todo.map(c => ({ ...c, status: 'ok' as const, groupId: resp?.id }));
+      } catch (err) {
+        results = todo.map(c => ({ ...c, status: 'failed' as const, error: errorInfo(err, 'postGroups') }));
+      }
+      break;
+    case 'update':
+      results = await single('patchGroupsByGroup', async () => {
+        if (request.changes && Object.keys(request.changes).length) await client.patchGroupsByGroup({ group, body: request.changes });
+        if (request.settings && Object.keys(request.settings).length) await client.putGroupsByGroupSettingsBasics({ group, body: request.settings });
+      });
+      break;
+    case 'set_visibility':
+      results = await single('putGroupsByGroupSettingsVisibility', () => client.putGroupsByGroupSettingsVisibility({ group, body: request.visibility! }));
+      break;
+    case 'set_properties':
+      results = await single('postGroupsByGroupProperties', () => client.postGroupsByGroupProperties({ group, body: request.properties! }));
+      break;
+    case 'set_permissions':
+      results = await single('postGroupsByGroupSettingsPermissions', () => client.postGroupsByGroupSettingsPermissions({ group, body: request.permissions! }));
+      break;
+  }
+  return [...results, ...skipped];
+}
+
+const planStep = createStep({
+  id: 'plan-group-changes',
+  description: 'Dry run: list exactly which members or settings of the group would change',
+  inputSchema: groupChangeRequestSchema,
+  outputSchema: groupChangePlanSchema,
+  execute: async (context: any) => {
+    const inputData = context.inputData;
+    if (!inputData) throw new Error('Input data not found');
+    try {
+      return await planGroupChanges(nutellaClientFor({ authToken: inputData.authToken, runtimeContext: context.runtimeContext }), inputData);
+    } catch (err) {
+      if (!(err instanceof ApiError)) throw err;
+      return { action: inputData.action, group: inputData.group, changes: [], summary: 'not planned', error: err.toJSON() };
+    }
+  },
+});
+
+const confirmStep = createConfirmStep({
+  id: 'confirm-group-changes',
+  planSchema: groupChangePlanSchema,
+  isEmpty: plan => plan.changes.every(c => c.change === 'skip'),
+  message: plan => `Confirm ${plan.action.replace('_', ' ')} on ${plan.groupTitle ?? plan.group ?? 'new group'}: ${plan.summary}`,
+});
+
+const groupChangesOutputSchema = z.object({
+  action: groupChangeActionSchema,
+  confirmed: z.boolean(),
+  results: z.array(groupChangeResultSchema),
+  summary: z.string(),
+  error: apiErrorInfoSchema.optional(),
+});
+
+const applyStep = createStep({
+  id: 'apply-group-changes',
+  description: 'Apply the confirmed plan and report the outcome per member or setting',
+  inputSchema: z.object({ plan: groupChangePlanSchema, confirmed: z.boolean() }),
+  outputSchema: groupChangesOutputSchema,
+  execute: async (context: any) => {
+    const { inputData } = context;
+    if (!inputData) throw new Error('Input data not found');
+    const { plan, confirmed } = inputData as { plan: GroupChangePlan; confirmed: boolean };
+    const request = context.getInitData() as GroupChangeRequest;
+
+    const results: GroupChangeResult[] = confirmed
+      ? await applyGroupChanges(nutellaClientFor({ authToken: request.authToken, runtimeContext: context.runtimeContext }), request, plan)
+      : plan.changes.map(c => ({ ...c, status: c.change === 'skip' ? ('skipped' as const) : ('cancelled' as const) }));
+
+    return {
+      action: plan.action,
+      confirmed,
+      results: results.map(({ target, userId, change, status, groupId, error }) => ({ target, userId, change, status, groupId, error })),
+      summary: plan.error ? plan.summary : countSummary(results, r => r.status),
+      error: plan.error,
+    };
+  },
+});
+
+const groupChangesWorkflow = createWorkflow({
+  id: 'group-changes-workflow',
+  inputSchema: groupChangeRequestSchema,
+  outputSchema: groupChangesOutputSchema,
+})
+  .then(planStep)
+  .then(confirmStep)
+  .then(applyStep);
+
+groupChangesWorkflow.commit();
+
+export { groupChangesWorkflow };
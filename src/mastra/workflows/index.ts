@@ -1,147 +1,589 @@
 import { createStep, createWorkflow } from '@mastra/core/workflows';
 import { RuntimeContext } from '@mastra/core/runtime-context';
 import { z } from 'zod';
-import { usersTool, domainsTool, aiTool } from '../tools';
-import { normalizeUsersResponse } from '../tools/api/util/normalizeUsers';
+import { usersTool, domainsTool, aiTool, queryUsersTool, planUserQuery, exportResultSchema, writeExport, withGroupTitles, fetchInstantAnswer } from '../tools';
+import { mergeCacheInfo } from '../tools/api/nutellaClient';
+import { nutellaClientFor } from '../tools/api/profiles';
+import { CacheInfo } from '../tools/api/cache';
+import { defaultConversationMemory, lastAnsweredTurn, THREAD_CONTEXT_KEY } from '../tools/api/conversationMemory';
+import { normalizeUsersResponse, usersListSchema, User } from '../tools/api/util/normalizeUsers';
+import { normalizeSpotsResponse } from '../tools/api/util/normalizeSpots';
+import { normalizeItemsResponse } from '../tools/api/util/normalizeItems';
+import { normalizeListsResponse } from '../tools/api/util/normalizeLists';
+import { normalizeGroupsResponse } from '../tools/api/util/normalizeGroups';
+import {
+  citedSources,
+  compareSources,
+  formatSources,
+  instantAnswerSchema,
+  numberResults,
+  searchSourceSchema,
+  sourceComparisonSchema,
+  sourcesOf,
+} from '../tools/api/util/searchResults';
+import { checkStructuredAnswer, recordIds, repairPrompt, STRUCTURED_ANSWER_INSTRUCTIONS, structuredAnswerSchema } from '../tools/api/util/structuredAnswer';
+import { summarizeAuditEvents } from '../tools/api/util/auditTimeline';
+import { executeUserQuery, filterUsers, userFieldPaths, userQueryPlanSchema, UserQueryPlan, UserQueryResult } from '../tools/api/util/userQuery';
+import { exportFormatSchema } from '../tools/api/util/exportFormat';
+import { ApiError, apiErrorInfoSchema, isToolErrorResult, ApiErrorInfo } from '../tools/api/errors';
+import {
+  classifyIntent,
+  intentParamsSchema,
+  routes,
+  routeSchema,
+  routeLabels,
+  userFiltersSchema,
+  CLARIFY_THRESHOLD,
+  IntentParams,
+  Route,
+  UserFilters,
+} from './intent';
+import { reduceForContext } from './reduce';
 
-// --- Unified workflow: Route between users and domains based on query, then call AI ---
+// --- Unified workflow: classify the query, fetch the matching dataset, then call AI ---
 
-import { userSchema, usersListSchema, User } from '../tools/api/util/normalizeUsers';
+// Set by NutellaClient when the API failed and cached data was served instead
+const cacheInfoSchema = z.object({
+  source: z.enum(['network', 'cache', 'stale']),
+  stale: z.boolean(),
+  storedAt: z.number(),
+  error: z.string().optional(),
+});
+
+const routedQuerySchema = z.object({
+  route: z.union([routeSchema, z.literal('clarify')]),
+  confidence: z.number(),
+  params: intentParamsSchema,
+  clarification: z.string().optional(),
+  source: z.enum(['llm', 'keywords']),
+  query: z.string(),
+  authToken: z.string().optional(),
+  /** The question refines the previous answer of the thread: the records and query plan it was about. */
+  followUp: z
+    .object({
+      query: z.string(),
+      entityIds: z.array(z.string()).optional(),
+      plan: userQueryPlanSchema.optional(),
+    })
+    .optional(),
+});
+
+const fetchedDataSchema = z.object({
+  data: z.unknown(),
+  dataType: routeSchema,
+  query: z.string(),
+  cache: cacheInfoSchema.optional(),
+  truncated: z.boolean().optional(),
+  /** The intent parameters the data was fetched with. */
+  params: intentParamsSchema.optional(),
+  /** Exact answer computed by the query-users step. */
+  computed: z.object({ plan: userQueryPlanSchema, result: z.custom<UserQueryResult>() }).optional(),
+  /** File written by the export-data step when an export was asked for. */
+  export: exportResultSchema.optional(),
+  /** Search: Highspot's own answer, when a comparison was asked for. */
+  instantAnswer: instantAnswerSchema.optional(),
+  error: apiErrorInfoSchema.optional(),
+});
+
+// Human-readable explanation to go with the machine-readable error in the workflow output
+function describeFailure(error: ApiErrorInfo): string {
+  const service = error.service === 'ai' ? 'The AI service' : 'The Nutella API';
+  switch (error.code) {
+    case 'auth':
+      return `${service} rejected the credentials (${error.status ?? 'auth error'}). Check the auth token or session cookies and try again.`;
+    case 'not_found':
+      return `${service} could not find the requested resource: ${error.message}`;
+    case 'validation':
+      return `${service} rejected the request as invalid: ${error.message}`;
+    case 'rate_limited':
+      return `${service} is rate limiting requests${error.retryAfterMs !== undefined ? `; retry in ${Math.ceil(error.retryAfterMs / 1000)}s` : ''}.`;
+    case 'upstream_unavailable':
+      return `${service} is currently unavailable (${error.message}). Please retry shortly.`;
+    default:
+      return `${service} call failed: ${error.message}`;
+  }
+}
+
+const workflowInputSchema = z.object({
+  query: z.string(),
+  authToken: z.string().optional(),
+  /** Write the data to a file in this format and answer with a short summary. */
+  format: exportFormatSchema.optional(),
+  /** Columns of the exported file. */
+  columns: z.array(z.string()).optional(),
+  /** Search questions: also fetch Highspot's instant answer and compare it with ours. */
+  compareInstantAnswer: z.boolean().optional(),
+  /** Stream the answer as it is written: each piece is a `{ type: 'token', text }` output of generate-answer. */
+  stream: z.boolean().optional(),
+  /** Conversation thread: follow-up questions refine the thread's earlier answers. Defaults to the RuntimeContext's `threadId`. */
+  threadId: z.string().optional(),
+});
+
+// The thread a run belongs to, and whose it is: threads are only shared by runs with the same credential
+function threadOf(context: any): { threadId: string; owner: string } | undefined {
+  const input = context.getInitData?.() ?? context.inputData ?? {};
+  const threadId = input.threadId ?? context.runtimeContext?.get(THREAD_CONTEXT_KEY);
+  if (!threadId) return undefined;
+  return { threadId: String(threadId), owner: nutellaClientFor({ authToken: input.authToken, runtimeContext: context.runtimeContext }).owner };
+}
 
 const determineRoute = createStep({
   id: 'determine-route',
-  description: 'Determine whether query is about users or domains',
-  inputSchema: z.object({
-    query: z.string(),
-    authToken: z.string().optional(),
-  }),
-  outputSchema: z.object({
-    route: z.enum(['users', 'domains']),
-    query: z.string(),
-    authToken: z.string().optional(),
-  }),
+  description: 'Classify which API area the query is about and extract its parameters',
+  inputSchema: workflowInputSchema,
+  outputSchema: routedQuerySchema,
   execute: async (context: any) => {
     const inputData = context.inputData;
     if (!inputData) throw new Error('Input data not found');
 
-    const query = inputData.query.toLowerCase();
-    
-    // Simple keyword-based routing logic
-    const userKeywords = ['user', 'users', 'account', 'accounts', 'profile', 'profiles', 'member', 'members', 'people', 'person'];
-    const domainKeywords = ['domain', 'domains', 'configuration', 'config', 'setting', 'settings', 'environment', 'setup'];
-
-    const isUserQuery = userKeywords.some(keyword => query.includes(keyword));
-    const isDomainQuery = domainKeywords.some(keyword => query.includes(keyword));
-
-    // Default to users if unclear
-    const route = isDomainQuery && !isUserQuery ? 'domains' : 'users';
-
+    const thread = threadOf(context);
+    const history = thread ? (await defaultConversationMemory().get(thread.threadId, thread.owner))?.turns : undefined;
+    const intent = await classifyIntent(inputData.query, { history });
+    const previous = intent.followUp ? lastAnsweredTurn(history) : undefined;
+    // An explicit format or column list beats whatever was read off the question
+    const params = {
+      ...intent.params,
+      exportFormat: inputData.format ?? intent.params.exportFormat,
+      columns: inputData.columns ?? intent.params.columns,
+      compareInstantAnswer: inputData.compareInstantAnswer ?? intent.params.compareInstantAnswer,
+    };
     return {
-      route: route as 'users' | 'domains',
+      ...intent,
+      params,
+      // Low confidence: ask instead of answering from the wrong dataset
+      route: intent.confidence < CLARIFY_THRESHOLD ? 'clarify' as const : intent.route,
       query: inputData.query,
       authToken: inputData.authToken,
+      followUp: previous && { query: previous.query, entityIds: previous.entityIds, plan: previous.plan as UserQueryPlan | undefined },
     };
   },
 });
 
-const fetchUsersData = createStep({
-  id: 'fetch-users-data',
-  description: 'Fetch users data from API and prepare for AI processing',
-  inputSchema: z.object({
-    route: z.enum(['users', 'domains']),
-    query: z.string(),
-    authToken: z.string().optional(),
-  }),
+const askForClarification = createStep({
+  id: 'ask-for-clarification',
+  description: 'Ask the user to say which area the query is about',
+  inputSchema: routedQuerySchema,
   outputSchema: z.object({
-    data: z.unknown(),
-    dataType: z.literal('users'),
+    clarification: z.string(),
     query: z.string(),
   }),
   execute: async (context: any) => {
     const inputData = context.inputData;
     if (!inputData) throw new Error('Input data not found');
+    const areas = routes.map(r => routeLabels[r]).join(', ');
+    return {
+      clarification: inputData.clarification ?? `I'm not sure which data to look at. Is this about ${areas}?`,
+      query: inputData.query,
+    };
+  },
+});
 
-    const usersRaw = await usersTool.execute({
-      inputData: { authToken: inputData.authToken },
-      runtimeContext: new RuntimeContext(),
-    } as any);
+// Who a fetch runs as: the run's connection profile (RuntimeContext), or a token passed in the input
+type Connection = { authToken?: string; runtimeContext?: RuntimeContext };
+
+// Cap on spots inspected when asked about items without naming a spot
+const MAX_SPOTS_FOR_ITEM_COUNTS = 20;
 
-    const normalized = normalizeUsersResponse(usersRaw);
-    const users = usersListSchema.parse(normalized);
+// Search results beyond the first few are rarely relevant and crowd out the ones that are
+const MAX_SEARCH_RESULTS = 10;
 
+type Fetched = { data: unknown; cache?: CacheInfo; truncated?: boolean; instantAnswer?: z.infer<typeof instantAnswerSchema> };
+
+const fetchers: Record<Route, (params: IntentParams, connection: Connection, query: string) => Promise<Fetched>> = {
+  users: async (params, connection) => {
+    const filters: UserFilters = userFiltersSchema.parse(params);
+    const usersRaw = await usersTool.execute({
+      inputData: { authToken: connection.authToken, ...filters },
+      runtimeContext: connection.runtimeContext ?? new RuntimeContext(),
+    } as any);
+    // Tools report API failures as a value; rethrow so they are handled like the other routes
+    if (isToolErrorResult(usersRaw)) throw usersRaw.error;
     return {
-      data: users,
-      dataType: 'users' as const,
-      query: inputData.query,
+      data: usersListSchema.parse(normalizeUsersResponse(usersRaw)),
+      cache: (usersRaw as any)?.cache,
+      truncated: (usersRaw as any)?.truncated,
     };
   },
+  groups: async (params, connection) => {
+    const client = nutellaClientFor(connection);
+    if (params.group) {
+      const [group, members] = await Promise.all([
+        client.callWithCacheInfo('getGroupsByGroup', { group: params.group }),
+        client.collectAllWithCacheInfo('getGroupsByGroupMembers', { group: params.group }, { max: 1000 }),
+      ]);
+      return {
+        data: { group: normalizeGroupsResponse(group.data)[0], members: normalizeUsersResponse(members.items) },
+        cache: mergeCacheInfo([group.cache, members.cache]),
+        truncated: members.truncated,
+      };
+    }
+    const { collection, truncated, cache } = await client.getGroups({ max: 1000 });
+    return { data: normalizeGroupsResponse(collection), cache, truncated };
+  },
+  spots: async (params, connection) => {
+    const { collection, truncated, cache } = await nutellaClientFor(connection).getSpots({ 'is-official': params.isOfficial, max: 1000 });
+    return { data: normalizeSpotsResponse(collection), cache, truncated };
+  },
+  items: async (params, connection) => {
+    const client = nutellaClientFor(connection);
+    if (params.spot) {
+      const { collection, truncated, cache } = await client.getSpotItems(params.spot, { list: params.listId, max: 500 });
+      return { data: normalizeItemsResponse(collection), cache, truncated };
+    }
+    // No spot named: summarise item counts per spot, which answers "which spots have no items?"
+    const spots = await client.getSpots({ 'is-official': params.isOfficial, max: MAX_SPOTS_FOR_ITEM_COUNTS });
+    const counts = await Promise.all(
+      normalizeSpotsResponse(spots.collection).map(async spot => {
+        const page = await client.callWithCacheInfo('getItems', { spot: String(spot.id), limit: 1 });
+        return { spot: { id: spot.id, title: spot.title }, itemCount: page.data.counts_total ?? page.data.collection?.length ?? 0, cache: page.cache };
+      }),
+    );
+    return {
+      data: counts.map(({ cache, ...count }) => count),
+      cache: mergeCacheInfo([spots.cache, ...counts.map(c => c.cache)]),
+      truncated: spots.truncated,
+    };
+  },
+  lists: async (params, connection) => {
+    const client = nutellaClientFor(connection);
+    const { data, cache } = params.spot
+      ? await client.callWithCacheInfo('getSpotsBySpotLists', { spot: params.spot })
+      : await client.callWithCacheInfo('getGlobalLists', {});
+    return { data: normalizeListsResponse(data), cache };
+  },
+  audit_events: async (params, connection) => {
+    const page = await nutellaClientFor(connection).getAuditEvents({
+      action: params.action,
+      result: params.result,
+      email: params.email,
+      ip: params.ip,
+      start_time: params.startTime,
+      end_time: params.endTime,
+      max: 1000,
+    });
+    // "Who deleted spot X": the API cannot filter on the target, so narrow down here
+    const target = params.spot ?? params.group ?? params.listId;
+    const events = target ? page.events.filter(event => event.target?.includes(target)) : page.events;
+    // An export lists every event, not just the most recent ones
+    const summary = summarizeAuditEvents(events, params.exportFormat ? { maxTimeline: events.length } : {});
+    return { data: summary, cache: page.cache, truncated: page.truncated };
+  },
+  privacy: async (params, connection) => {
+    const client = nutellaClientFor(connection);
+    if (params.requestId) {
+      const { data, cache } = await client.callWithCacheInfo('getPrivacyDataSubjectByRequestId', { request_id: params.requestId });
+      return { data, cache };
+    }
+    const { items, truncated, cache } = await client.collectAllWithCacheInfo('getPrivacyDataSubject', {}, { max: 1000 });
+    return { data: items, cache, truncated };
+  },
+  domains: async (_params, connection) => {
+    const domainsRaw = await domainsTool.execute({
+      inputData: { authToken: connection.authToken },
+      runtimeContext: connection.runtimeContext ?? new RuntimeContext(),
+    } as any);
+    if (isToolErrorResult(domainsRaw)) throw domainsRaw.error;
+    const { cache, ...domains } = (domainsRaw ?? {}) as any;
+    return { data: domains, cache };
+  },
+  search: async (params, connection, query) => {
+    const client = nutellaClientFor(connection);
+    // The instant answer takes the question as asked; search works better on the key words
+    const [page, instantAnswer] = await Promise.all([
+      client.searchItems(params.searchQuery ?? query, { max: MAX_SEARCH_RESULTS }),
+      params.compareInstantAnswer ? fetchInstantAnswer(client, query) : undefined,
+    ]);
+    // Only the top results are wanted, so more matches upstream does not make the answer incomplete
+    return { data: numberResults(normalizeItemsResponse(page.collection)), cache: page.cache, instantAnswer };
+  },
+};
+
+// A follow-up is about the records of the previous answer; refetched lists are narrowed back to them
+function narrowToIds(data: unknown, ids: string[]): unknown {
+  const keep = new Set(ids);
+  if (Array.isArray(data)) return data.filter(record => record?.id === undefined || keep.has(String(record.id)));
+  if (data && typeof data === 'object' && Array.isArray((data as any).members)) return { ...data, members: narrowToIds((data as any).members, ids) };
+  return data;
+}
+
+// One fetch step per route; API failures are handed to generateAnswer instead of failing the run
+function createFetchStep(route: Route) {
+  return createStep({
+    id: `fetch-${route.replace(/_/g, '-')}-data`,
+    description: `Fetch ${routeLabels[route]} from the API and prepare for AI processing`,
+    inputSchema: routedQuerySchema,
+    outputSchema: fetchedDataSchema,
+    execute: async (context: any) => {
+      const inputData = context.inputData;
+      if (!inputData) throw new Error('Input data not found');
+
+      const base = { dataType: route, query: inputData.query, params: inputData.params };
+      try {
+        const fetched = await fetchers[route](inputData.params ?? {}, { authToken: inputData.authToken, runtimeContext: context.runtimeContext }, inputData.query);
+        const entityIds = inputData.followUp?.entityIds;
+        return { ...base, ...fetched, ...(entityIds?.length ? { data: narrowToIds(fetched.data, entityIds) } : {}) };
+      } catch (err) {
+        if (err instanceof ApiError) return { ...base, data: null, error: err.toJSON() };
+        if (apiErrorInfoSchema.safeParse(err).success) return { ...base, data: null, error: err as ApiErrorInfo };
+        throw err;
+      }
+    },
+  });
+}
+
+const fetchSteps = routes.map(route => [route, createFetchStep(route)] as const);
+
+// Keyed by step id; only the branch that ran is present
+const branchOutputSchema = z.object({
+  'ask-for-clarification': z.object({ clarification: z.string(), query: z.string() }),
+  ...(Object.fromEntries(fetchSteps.map(([, step]) => [step.id, fetchedDataSchema])) as Record<`fetch-${string}-data`, typeof fetchedDataSchema>),
 });
 
-const fetchDomainsData = createStep({
-  id: 'fetch-domains-data',
-  description: 'Fetch domains data from API and prepare for AI processing',
-  inputSchema: z.object({
-    route: z.enum(['users', 'domains']),
-    query: z.string(),
-    authToken: z.string().optional(),
-  }),
-  outputSchema: z.object({
-    data: z.unknown(),
-    dataType: z.literal('domains'),
-    query: z.string(),
-  }),
+function isUserQueryQuestion(query: string) {
+  return /\bhow many\b|\bcount\b|\bnumber of\b|\bwhich\b|\bwho\b|\blist\b|\bper\b|\bby\b|\bmost\b|\btop\b|\bcreated\b|\bsince\b|\bbefore\b|\bafter\b/i.test(query);
+}
+
+const queryUsers = createStep({
+  id: 'query-users',
+  description: 'Answer counting and filtering questions about users exactly with an LLM-written query plan',
+  inputSchema: branchOutputSchema,
+  outputSchema: branchOutputSchema,
   execute: async (context: any) => {
     const inputData = context.inputData;
     if (!inputData) throw new Error('Input data not found');
 
-    const domainsRaw = await domainsTool.execute({
-      inputData: { authToken: inputData.authToken },
-      runtimeContext: new RuntimeContext(),
-    } as any);
+    const users = inputData['fetch-users-data'] as z.infer<typeof fetchedDataSchema> | undefined;
+    const followUp = (context.getStepResult?.(determineRoute) as z.infer<typeof routedQuerySchema> | undefined)?.followUp;
+    // A single-user lookup needs no plan; a follow-up on users always refines the previous one
+    if (!users || users.error || users.params?.email || (!followUp && !isUserQueryQuestion(users.query))) return inputData;
 
-    return {
-      data: domainsRaw,
-      dataType: 'domains' as const,
-      query: inputData.query,
+    try {
+      const fetched = (users.data ?? []) as User[];
+      const previous = followUp && { question: followUp.query, plan: followUp.plan };
+      const plan = await planUserQuery(users.query, { fields: userFieldPaths(fetched), previous });
+      let result: UserQueryResult;
+      if (plan.list && plan.list !== (users.params?.list ?? 'verified')) {
+        // The plan needs a different set of users than the route fetched
+        const resp: any = await queryUsersTool.execute({
+          inputData: { authToken: context.getInitData?.()?.authToken, plan },
+          runtimeContext: context.runtimeContext ?? new RuntimeContext(),
+        } as any);
+        if (isToolErrorResult(resp)) return inputData;
+        result = resp.result;
+      } else {
+        result = executeUserQuery(fetched, plan);
+      }
+      return { ...inputData, 'fetch-users-data': { ...users, computed: { plan, result } } };
+    } catch {
+      // No usable plan: reduce-data falls back to giving the model the users themselves
+      return inputData;
+    }
+  },
+});
+
+// The rows to export for a route: whole records where the data has them
+async function exportRecords(fetched: z.infer<typeof fetchedDataSchema>, connection: Connection): Promise<unknown[]> {
+  const data: any = fetched.data;
+  switch (fetched.dataType) {
+    case 'users': {
+      const computed = fetched.computed;
+      if (computed?.plan.groupBy?.length) return (computed.result.groups ?? []).map(({ key, count }) => ({ ...key, count }));
+      // A plan that needed another list of users was run on a refetch; only its rows are at hand
+      if (computed && (computed.plan.list ?? 'verified') !== (fetched.params?.list ?? 'verified')) return computed.result.rows ?? [];
+      const users = computed ? filterUsers(data ?? [], computed.plan) : ((data ?? []) as User[]);
+      return withGroupTitles(nutellaClientFor(connection), users);
+    }
+    case 'groups':
+      return Array.isArray(data) ? data : data?.members ?? [];
+    case 'audit_events':
+      return data?.timeline ?? [];
+    default:
+      if (Array.isArray(data)) return data;
+      return Array.isArray(data?.collection) ? data.collection : data ? [data] : [];
+  }
+}
+
+const exportData = createStep({
+  id: 'export-data',
+  description: 'Write the fetched records to a CSV, NDJSON or Markdown file when an export was asked for',
+  inputSchema: branchOutputSchema,
+  outputSchema: branchOutputSchema,
+  execute: async (context: any) => {
+    const inputData = context.inputData;
+    if (!inputData) throw new Error('Input data not found');
+
+    const entry = fetchSteps.find(([, step]) => inputData[step.id]);
+    if (!entry) return inputData;
+    const [route, step] = entry;
+    const fetched = inputData[step.id] as z.infer<typeof fetchedDataSchema>;
+    const format = fetched.params?.exportFormat;
+    if (!format || fetched.error) return inputData;
+
+    const records = await exportRecords(fetched, { authToken: context.getInitData?.()?.authToken, runtimeContext: context.runtimeContext });
+    const file = await writeExport(records, { format, name: route.replace(/_/g, '-'), columns: fetched.params?.columns });
+    return { ...inputData, [step.id]: { ...fetched, export: file } };
+  },
+});
+
+const reducedDataSchema = z.object({
+  query: z.string(),
+  dataType: routeSchema.optional(),
+  context: z.string().optional(),
+  format: z.enum(['json', 'summaries']).optional(),
+  strategy: z.enum(['full', 'projected', 'aggregated', 'summarized', 'sampled', 'computed']).optional(),
+  notes: z.array(z.string()),
+  cache: cacheInfoSchema.optional(),
+  truncated: z.boolean().optional(),
+  clarification: z.string().optional(),
+  export: exportResultSchema.optional(),
+  /** Search: the results the answer can cite, by `ref`. */
+  sources: z.array(searchSourceSchema).optional(),
+  /** Ids of the records in the data; the answer's table and citations may only point to these. */
+  ids: z.array(z.string()).optional(),
+  instantAnswer: instantAnswerSchema.optional(),
+  error: apiErrorInfoSchema.optional(),
+});
+
+const reduceData = createStep({
+  id: 'reduce-data',
+  description: 'Shrink the fetched data to fit the model context (projection, aggregation, map-reduce)',
+  inputSchema: branchOutputSchema,
+  outputSchema: reducedDataSchema,
+  execute: async (context: any) => {
+    const inputData = context.inputData;
+    if (!inputData) throw new Error('Input data not found');
+
+    const clarify = inputData['ask-for-clarification'];
+    if (clarify) return { query: clarify.query, clarification: clarify.clarification, notes: [] };
+
+    // Extract data from whichever branch path ran
+    const activeData = fetchSteps.map(([, step]) => inputData[step.id]).find(Boolean);
+    if (!activeData) throw new Error('No data found from fetch steps');
+
+    const { data, dataType, query, cache, truncated, computed, export: exported, instantAnswer, error } = activeData as z.infer<typeof fetchedDataSchema>;
+    if (error) return { query, dataType, notes: [], error };
+    // The file is the answer; nothing needs to fit in a prompt
+    if (exported) return { query, dataType, notes: [], export: exported, cache, truncated };
+    const search = dataType === 'search' ? { sources: sourcesOf((data ?? []) as any[]), instantAnswer } : {};
+
+    if (computed) {
+      const { scanned, matched, limited, missingFields } = computed.result;
+      const notes = [`Computed exactly over ${scanned} users (${matched} matched).`];
+      if (limited) notes.push(`Only the first ${computed.plan.limit ?? 50} results are listed.`);
+      if (missingFields) notes.push(`No user has ${missingFields.join(', ')}, so conditions on them matched nothing.`);
+      const ids = [...recordIds(computed.result.rows)];
+      return { query, dataType, context: JSON.stringify(computed), format: 'json' as const, strategy: 'computed' as const, notes, ids, cache, truncated };
+    }
+
+    const summarize = async (chunk: string, index: number, total: number) => {
+      const resp: any = await aiTool.execute({
+        inputData: {
+          messages: [
+            {
+              role: 'system',
+              content: `You are reading part ${index + 1} of ${total} of a ${routeLabels[dataType]} dataset. Extract everything in it that is relevant to the question, including exact counts, names and ids. Be concise; say "nothing relevant" if there is nothing.`,
+            },
+            { role: 'system', content: `Data (JSON):\n${chunk}` },
+            { role: 'user', content: query },
+          ],
+          temperature: 0,
+        },
+      } as any);
+      // Tool errors surface as values; rethrow so the whole reduction fails as one
+      if (isToolErrorResult(resp)) throw resp.error;
+      return String(resp.assistant ?? '');
     };
+
+    try {
+      const reduced = await reduceForContext(dataType, data, query, { summarize });
+      return {
+        query,
+        dataType,
+        context: reduced.context,
+        format: reduced.format,
+        strategy: reduced.strategy,
+        notes: reduced.notes,
+        ids: dataType === 'search' ? undefined : [...recordIds(data)],
+        cache,
+        truncated,
+        ...search,
+      };
+    } catch (err: any) {
+      if (apiErrorInfoSchema.safeParse(err).success) return { query, dataType, notes: [], error: err as ApiErrorInfo };
+      throw err;
+    }
   },
 });
 
+// Highspot's instant answer next to ours, with which sources each one drew on
+const comparedInstantAnswerSchema = instantAnswerSchema.extend({ comparison: sourceComparisonSchema.optional() });
+
+function instantAnswerSection(instant: z.infer<typeof comparedInstantAnswerSchema>): string {
+  if (instant.error || !instant.answer) return `\n\nHighspot instant answer: not available (${instant.error ?? 'no answer'}).`;
+  const sources = instant.sources.map(source => `- ${source.title ?? source.url}${source.url && source.title ? ` - ${source.url}` : ''}`).join('\n');
+  const { shared, onlyOurs, onlyInstant } = instant.comparison ?? { shared: [], onlyOurs: [], onlyInstant: [] };
+  const list = (titles: string[]) => (titles.length ? titles.join('; ') : 'none');
+  return `\n\nHighspot instant answer:\n${instant.answer.trim()}${sources ? `\n${sources}` : ''}\n\nSources in both answers: ${list(shared)}. Only ours: ${list(onlyOurs)}. Only Highspot's: ${list(onlyInstant)}.`;
+}
+
+// Follow-up requests for a reply that is not valid structured JSON, before settling for its text
+const MAX_ANSWER_REPAIRS = 2;
+
+const answerSchema = z.object({
+  answer: z.string(),
+  clarificationNeeded: z.boolean().optional(),
+  /** How the data was shrunk to fit the prompt, and what that means for the answer. */
+  reduction: z.object({ strategy: z.string(), notes: z.array(z.string()) }).optional(),
+  export: exportResultSchema.optional(),
+  /** Search: the results the answer cites. */
+  citations: z.array(searchSourceSchema).optional(),
+  /** Summary, table of records, counts and the record ids behind each claim; `answer` is its summary. */
+  structured: structuredAnswerSchema.optional(),
+  /** Why the reply could not be used as `structured`, after the repairs ran out. */
+  structuredProblems: z.array(z.string()).optional(),
+  instantAnswer: comparedInstantAnswerSchema.optional(),
+  error: apiErrorInfoSchema.optional(),
+});
+
 const generateAnswer = createStep({
   id: 'generate-answer',
   description: 'Generate AI response based on the fetched data',
-  inputSchema: z.object({
-    'fetch-users-data': z.object({
-      data: z.unknown(),
-      dataType: z.literal('users'),
-      query: z.string(),
-    }),
-    'fetch-domains-data': z.object({
-      data: z.unknown(),
-      dataType: z.literal('domains'),
-      query: z.string(),
-    }),
-  }),
-  outputSchema: z.object({
-    answer: z.string(),
-  }),
+  inputSchema: reducedDataSchema,
+  outputSchema: answerSchema,
   execute: async (context: any) => {
     const inputData = context.inputData;
     if (!inputData) throw new Error('Input data not found');
 
-    // Extract data from either branch path
-    const usersData = inputData['fetch-users-data'];
-    const domainsData = inputData['fetch-domains-data'];
-    
-    const activeData = usersData || domainsData;
-    if (!activeData) throw new Error('No data found from fetch steps');
-    
-    const { data, dataType, query } = activeData;
+    const { dataType, query, cache, truncated, clarification, notes, strategy, format, context: dataText, export: exported, sources, ids, instantAnswer, error: fetchError } =
+      inputData as z.infer<typeof reducedDataSchema>;
+    if (clarification) return { answer: clarification, clarificationNeeded: true };
+    if (fetchError) return { answer: describeFailure(fetchError), error: fetchError };
+    if (!dataType) throw new Error('No data found from fetch steps');
+
+    const staleNote = cache?.stale
+      ? `\n\nNote: the Nutella API was unavailable (${cache.error ?? 'unknown error'}); this answer uses cached data from ${new Date(cache.storedAt).toISOString()}.`
+      : '';
     
+    const truncatedNote = truncated ? '\n\nNote: only the first page(s) of results were fetched; the answer may be incomplete.' : '';
+
+    if (exported) {
+      const columns = exported.columns.length > 8 ? `${exported.columns.slice(0, 8).join(', ')} and ${exported.columns.length - 8} more` : exported.columns.join(', ');
+      const answer = `Exported ${exported.rows} row(s) of ${routeLabels[dataType]} to ${exported.filePath} (${exported.format}; columns: ${columns || 'none'}).`;
+      return { answer: answer + staleNote + truncatedNote, export: exported };
+    }
+    if (dataText === undefined) throw new Error('No data found from fetch steps');
+    if (sources && !sources.length) {
+      const answer = 'No content matched the search, so there is nothing to ground an answer in.';
+      return { answer: answer + (instantAnswer ? instantAnswerSection(instantAnswer) : ''), citations: [], instantAnswer };
+    }
+    const reductionNote = strategy && strategy !== 'full' ? `\n\nNote: ${notes.join(' ')}` : '';
+
     // Pass the required parameters: entity type, entity data, and original query
-    const entityType = dataType; // 'users' or 'domains'
-    const entityData = data;
+    const entityType = routeLabels[dataType];
     const originalQuery = query;
+    const stream = Boolean(context.getInitData?.()?.stream);
+    // Search answers cite their results inline and streamed answers are read as they are written, so both stay prose
+    const structured = !sources && !stream;
     
     // Create structured context with entity type, data, and query
     const systemPrompt = `You are a helpful assistant analyzing ${entityType} data. 
@@ -149,10 +591,15 @@ const generateAnswer = createStep({
 Entity Type: ${entityType}
 Original Query: "${originalQuery}"
 
-Please analyze the provided ${entityType} data and answer the user's query comprehensively.`;
+Please analyze the provided ${entityType} data and answer the user's query comprehensively.${
+      strategy && strategy !== 'full' && strategy !== 'computed' ? `\nThe data below was reduced to fit: ${notes.join(' ')} Mention this if it limits the answer.` : ''
+    }${
+      strategy === 'computed' ? '\nThe data is the exact result of a query plan run over the users. Cite its numbers as they are; do not recount or estimate.' : ''
+    }${
+      sources ? '\nThe data is numbered search results. Answer only from them and cite the result each statement comes from as [ref], e.g. [2]. If they do not answer the question, say so instead of guessing.' : ''
+    }${structured ? `\n${STRUCTURED_ANSWER_INSTRUCTIONS}` : ''}`;
     
-    const dataText = JSON.stringify(entityData, null, 2);
-    const dataContext = `${entityType.charAt(0).toUpperCase() + entityType.slice(1)} Data (JSON):\n${dataText}`;
+    const dataContext = `${entityType.charAt(0).toUpperCase() + entityType.slice(1)} Data (${format === 'summaries' ? 'summaries of parts' : 'JSON'}):\n${dataText}`;
     
     const messages = [
       { role: 'system', content: systemPrompt },
@@ -160,77 +607,128 @@ Please analyze the provided ${entityType} data and answer the user's query compr
       { role: 'user', content: originalQuery },
     ];
 
-    try {
-      const model = process.env.OPENAI_MODEL;
-      const resp: any = await aiTool.execute({
+    const ask = (messages: { role: string; content: string }[]): Promise<any> =>
+      aiTool.execute({
         inputData: {
-          apiUrl: process.env.AI_PROXY_URL,
-          token: process.env.AI_PROXY_TOKEN,
           messages,
-          model,
           temperature: 0.2,
           n: 1,
+          stream,
+          json: structured,
           // Pass the structured parameters explicitly
           entityType,
-          entityData,
           originalQuery,
         },
+        writer: context.writer,
       } as any);
 
+    try {
+      let resp = await ask(messages);
+      if (isToolErrorResult(resp)) return { answer: describeFailure(resp.error), error: resp.error };
+
+      if (structured) {
+        const knownIds = new Set(ids ?? []);
+        let check = checkStructuredAnswer(String(resp.assistant ?? ''), knownIds);
+        // Show the model its reply and what is wrong with it, rather than asking from scratch
+        let conversation = messages;
+        for (let repair = 0; !check.success && repair < MAX_ANSWER_REPAIRS; repair++) {
+          conversation = [...conversation, { role: 'assistant', content: String(resp.assistant ?? '') }, { role: 'user', content: repairPrompt(check.problems) }];
+          resp = await ask(conversation);
+          if (isToolErrorResult(resp)) return { answer: describeFailure(resp.error), error: resp.error };
+          check = checkStructuredAnswer(String(resp.assistant ?? ''), knownIds);
+        }
+        const reduction = strategy ? { strategy, notes } : undefined;
+        if (check.success) return { answer: check.answer.summary.trim() + staleNote + truncatedNote + reductionNote, structured: check.answer, reduction };
+        // Still the best answer there is, just without the structure: the reply's summary rather than its JSON when it has one
+        const text = check.summary ?? String(resp.assistant ?? '');
+        const unstructuredNote = '\n\nNote: the answer could not be given in structured form.';
+        return { answer: text.trim() + staleNote + truncatedNote + reductionNote + unstructuredNote, structuredProblems: check.problems, reduction };
+      }
+
       const answer = String(resp.assistant ?? JSON.stringify(resp.raw));
-      return { answer: answer.trim() };
+      if (sources) {
+        const citations = citedSources(answer, sources);
+        const compared = instantAnswer && { ...instantAnswer, comparison: compareSources(citations, instantAnswer) };
+        const sourcesNote = citations.length ? `\n\nSources:\n${formatSources(citations)}` : '';
+        return {
+          answer: answer.trim() + sourcesNote + (compared ? instantAnswerSection(compared) : '') + staleNote + reductionNote,
+          reduction: strategy ? { strategy, notes } : undefined,
+          citations,
+          instantAnswer: compared,
+        };
+      }
+      return {
+        answer: answer.trim() + staleNote + truncatedNote + reductionNote,
+        reduction: strategy ? { strategy, notes } : undefined,
+      };
     } catch (err: any) {
-      return { answer: `Error calling AI service: ${String(err?.message ?? err)}` };
+      const error: ApiErrorInfo = { code: 'unknown', message: String(err?.message ?? err), service: 'ai', retryable: false };
+      return { answer: describeFailure(error), error };
     }
   },
 });
 
-// Use conditional routing step that delegates to appropriate fetch step
-const routeAndFetch = createStep({
-  id: 'route-and-fetch',
-  description: 'Route to appropriate data fetching step based on route',
-  inputSchema: z.object({
-    route: z.enum(['users', 'domains']),
-    query: z.string(),
-    authToken: z.string().optional(),
-  }),
-  outputSchema: z.object({
-    data: z.unknown(),
-    dataType: z.enum(['users', 'domains']),
-    query: z.string(),
-  }),
+// The records an answer was about: every user a query plan matched, not just the rows it listed
+function answeredIds(context: any): string[] | undefined {
+  const users = (context.getStepResult?.(queryUsers) as any)?.['fetch-users-data'] as z.infer<typeof fetchedDataSchema> | undefined;
+  const computed = users?.computed;
+  if (users && computed && (computed.plan.list ?? 'verified') === (users.params?.list ?? 'verified')) {
+    return filterUsers((users.data ?? []) as User[], computed.plan).flatMap(user => (user.id ? [user.id] : []));
+  }
+  // A plan run on a refetch of another list: only its rows are at hand, and not all of them past the limit
+  if (computed) return computed.result.limited ? undefined : [...recordIds(computed.result.rows)];
+  return (context.getStepResult?.(reduceData) as z.infer<typeof reducedDataSchema> | undefined)?.ids;
+}
+
+const rememberTurn = createStep({
+  id: 'remember-turn',
+  description: 'Add the question, its filters and the records it resolved to to the conversation thread',
+  inputSchema: answerSchema,
+  outputSchema: answerSchema,
   execute: async (context: any) => {
     const inputData = context.inputData;
     if (!inputData) throw new Error('Input data not found');
 
-    const { route } = inputData;
-    
-    // Route to appropriate fetch step
-    if (route === 'users') {
-      return await fetchUsersData.execute(context);
-    } else {
-      return await fetchDomainsData.execute(context);
+    const thread = threadOf(context);
+    // A failed answer is nothing to follow up on
+    if (!thread || inputData.error) return inputData;
+    const routed = context.getStepResult?.(determineRoute) as z.infer<typeof routedQuerySchema> | undefined;
+    if (!routed) return inputData;
+    const computed = (context.getStepResult?.(queryUsers) as any)?.['fetch-users-data']?.computed as z.infer<typeof fetchedDataSchema>['computed'];
+    const ids = answeredIds(context);
+
+    try {
+      await defaultConversationMemory().append(thread.threadId, thread.owner, {
+        query: routed.query,
+        route: routed.route,
+        params: routed.params,
+        plan: computed?.plan,
+        entityIds: ids?.length ? ids : undefined,
+        answer: inputData.answer,
+      });
+    } catch {
+      // Losing a turn of memory must not lose the answer
     }
+    return inputData;
   },
 });
 
 // Single unified workflow using proper step routing
 const adminWorkflow = createWorkflow({
   id: 'admin-workflow',
-  inputSchema: z.object({
-    query: z.string(),
-    authToken: z.string().optional(),
-  }),
-  outputSchema: z.object({
-    answer: z.string(),
-  }),
+  inputSchema: workflowInputSchema,
+  outputSchema: answerSchema,
 })
   .then(determineRoute)
   .branch([
-    [async ({ inputData: { route } }) => route === 'users', fetchUsersData],
-    [async ({ inputData: { route } }) => route !== 'users', fetchDomainsData]
+    [async ({ inputData: { route } }) => route === 'clarify', askForClarification],
+    ...fetchSteps.map(([route, step]) => [async ({ inputData }: any) => inputData.route === route, step] as [any, typeof step]),
   ])
-  .then(generateAnswer);
+  .then(queryUsers)
+  .then(exportData)
+  .then(reduceData)
+  .then(generateAnswer)
+  .then(rememberTurn);
 
 adminWorkflow.commit();
 
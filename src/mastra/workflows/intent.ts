@@ -0,0 +1,307 @@
+import { z } from 'zod';
+import { AIClient, ChatMessage } from '../tools/api/aiClient';
+import { ConversationTurn, lastAnsweredTurn } from '../tools/api/conversationMemory';
+import { parseJsonReply } from '../tools/api/util/jsonReply';
+import { parseTimeRange } from '../tools/api/util/timeRange';
+import { exportFormatSchema } from '../tools/api/util/exportFormat';
+
+// Every dataset the workflow can answer from; the workflow adds a `clarify` route when confidence is low
+export const routes = ['users', 'groups', 'spots', 'items', 'lists', 'audit_events', 'privacy', 'domains', 'search'] as const;
+
+export const routeSchema = z.enum(routes);
+
+export type Route = z.infer<typeof routeSchema>;
+
+export const routeLabels: Record<Route, string> = {
+  users: 'users',
+  groups: 'groups',
+  spots: 'spots',
+  items: 'spot items',
+  lists: 'lists',
+  audit_events: 'audit events',
+  privacy: 'privacy (data subject) requests',
+  domains: 'domain settings',
+  search: 'content search results',
+};
+
+// Server-side filters understood by usersTool
+export const userFiltersSchema = z.object({
+  email: z.string().optional(),
+  list: z.enum(['verified', 'unverified', 'all']).optional(),
+  withFields: z.array(z.string()).optional(),
+  excludeFields: z.array(z.string()).optional(),
+});
+
+export type UserFilters = z.infer<typeof userFiltersSchema>;
+
+// Parameters a fetch step can pass to the API; which ones apply depends on the route
+export const intentParamsSchema = userFiltersSchema.extend({
+  group: z.string().optional().describe('Group id'),
+  spot: z.string().optional().describe('Spot id'),
+  listId: z.string().optional().describe('List id within a spot'),
+  requestId: z.string().optional().describe('Privacy request id'),
+  action: z.string().optional().describe('Audit event action or action prefix, e.g. "user.authentication"'),
+  result: z.string().optional().describe('Audit event result: "SUCCEEDED" or "FAILED"'),
+  ip: z.string().optional(),
+  startTime: z.string().optional().describe('ISO8601'),
+  endTime: z.string().optional().describe('ISO8601'),
+  isOfficial: z.boolean().optional(),
+  exportFormat: exportFormatSchema.optional().describe('Write the data to a file in this format instead of answering in prose'),
+  columns: z.array(z.string()).optional().describe('Columns to export, e.g. ["email", "groups"]'),
+  searchQuery: z.string().optional().describe('What to search content for; defaults to the question itself'),
+  compareInstantAnswer: z.boolean().optional().describe("Also get Highspot's instant answer to compare with"),
+});
+
+export type IntentParams = z.infer<typeof intentParamsSchema>;
+
+export const intentSchema = z.object({
+  route: routeSchema,
+  confidence: z.number().min(0).max(1),
+  params: intentParamsSchema,
+  /** Question to ask the user back when the route is unclear. */
+  clarification: z.string().optional(),
+  /** The question refines the previous answer of the conversation ("now only the ones in EMEA"). */
+  followUp: z.boolean().optional(),
+  source: z.enum(['llm', 'keywords']),
+});
+
+export type Intent = z.infer<typeof intentSchema>;
+
+/** Below this the workflow asks the user to clarify instead of guessing. */
+export const CLARIFY_THRESHOLD = 0.5;
+
+// Pull the filters the API can apply for us out of the question, so we don't fetch every user
+// just to let the LLM scan for e.g. one email address.
+export function extractUserFilters(query: string): UserFilters {
+  const q = query.toLowerCase();
+  const filters: UserFilters = {};
+
+  const email = query.match(/[\w.+-]+@[\w-]+(\.[\w-]+)+/);
+  if (email) filters.email = email[0];
+
+  if (/\bunverified\b|\bnot verified\b|\bpending invit/.test(q)) filters.list = 'unverified';
+  else if (/\ball (live )?users\b|including unverified|verified (and|or) unverified/.test(q)) filters.list = 'all';
+  // Looking up one person: search every live user so "is X verified?" can be answered either way
+  else if (filters.email) filters.list = 'all';
+
+  if (/\bpropert(y|ies)\b|\battributes?\b|\bregion\b|\bdepartment\b/.test(q)) filters.withFields = ['properties'];
+
+  const excluded = ['groups', 'favorites'].filter(field => !q.includes(field.replace(/s$/, '')));
+  if (excluded.length) filters.excludeFields = excluded;
+
+  return filters;
+}
+
+// Ids are 24 char hex object ids; the noun in front of one says what it identifies
+function idAfter(query: string, noun: string) {
+  return query.match(new RegExp(`\\b${noun}\\s+(?:id\\s+)?([0-9a-f]{24})\\b`, 'i'))?.[1];
+}
+
+/** Parameters that can be read straight off the question, regardless of route. */
+export function extractParams(query: string, now: Date = new Date()): IntentParams {
+  const q = query.toLowerCase();
+  const params: IntentParams = {};
+
+  const email = query.match(/[\w.+-]+@[\w-]+(\.[\w-]+)+/);
+  if (email) params.email = email[0];
+
+  params.group = idAfter(query, 'group');
+  params.spot = idAfter(query, 'spot');
+  params.listId = idAfter(query, 'list');
+  params.requestId = idAfter(query, 'request');
+
+  // Audit actions are dotted (`user.authentication.password.failed`); the API also matches on a prefix
+  if (/\blog ?ins?\b|\bsign[- ]?ins?\b/.test(q)) {
+    params.action = /\bpassword\b/.test(q) ? 'user.authentication.password' : /\bsso\b/.test(q) ? 'user.authentication.sso' : 'user.authentication';
+  }
+  if (/\bfail(ed|ures?)?\b|\bunsuccessful\b|\bdenied\b/.test(q)) params.result = 'FAILED';
+  else if (/\bsuccess(ful)?\b|\bsucceeded\b/.test(q)) params.result = 'SUCCEEDED';
+
+  const ip = query.match(/\b(?:\d{1,3}\.){3}\d{1,3}\b/);
+  if (ip) params.ip = ip[0];
+
+  const range = parseTimeRange(query, now);
+  if (range) {
+    params.startTime = range.start;
+    params.endTime = range.end;
+  }
+
+  if (/\bofficial\b/.test(q)) params.isOfficial = !/\b(non|not|un)[- ]?official\b/.test(q);
+
+  if (/\bndjson\b|\bjson ?lines\b|\bjsonl\b/.test(q)) params.exportFormat = 'ndjson';
+  else if (/\bmarkdown\b|\bmd table\b/.test(q)) params.exportFormat = 'markdown';
+  // A plain "export" gets the format most tools can load
+  else if (/\bcsv\b|\bspreadsheet\b|\bexcel\b|\bexport\b/.test(q)) params.exportFormat = 'csv';
+
+  // 'search for "pricing deck"' or "search content for pricing": search for just that, not the whole sentence
+  const searchFor = query.match(/["“]([^"”]{2,})["”]/)?.[1] ?? query.match(/\bsearch(?: (?:the )?content)?(?: for| about)?\s+(.+?)[?.!]*$/i)?.[1];
+  if (searchFor) params.searchQuery = searchFor.trim();
+  if (/\binstant[- ]answers?\b/.test(q)) params.compareInstantAnswer = true;
+
+  for (const key of Object.keys(params) as (keyof IntentParams)[]) {
+    if (params[key] === undefined) delete params[key];
+  }
+  return params;
+}
+
+// Earlier entries win ties: the more specific areas mention generic words like "user" or "spot" too
+const keywords: [Route, RegExp][] = [
+  ['audit_events', /\baudit\b|\blog ?ins?\b|\blog ?outs?\b|\bsign[- ]?ins?\b|\bevents?\b|\bactivity\b|\bip address\b|\bwho (did|changed|deleted)\b/g],
+  ['privacy', /\bprivacy\b|\bgdpr\b|\bccpa\b|\bdata subject\b|\bforget\b|\berasure\b|\bdeletion requests?\b|\bpersonal data\b/g],
+  ['search', /\bsearch(es|ing)?\b|\binstant[- ]answers?\b|\bwhat does (our|the) content say\b|\baccording to (our|the) content\b|\bfind (content|documents?|items?) (about|on|for)\b/g],
+  ['items', /\bitems?\b|\bcontent\b|\bdocuments?\b|\bfiles?\b|\bassets?\b/g],
+  // Not a bare "list": that is usually the verb
+  ['lists', /\blists\b|\b(global|spot|the|a) list\b|\bplaylists?\b|\bsections?\b/g],
+  ['groups', /\bgroups?\b|\bteams?\b|\bmembership\b/g],
+  ['spots', /\bspots?\b|\bofficial\b|\bchannels?\b/g],
+  ['domains', /\bdomains?\b|\bconfig(uration)?\b|\bsettings?\b|\benvironment\b|\bsetup\b|\busage labels?\b|\bpromoted\b/g],
+  ['users', /\busers?\b|\baccounts?\b|\bprofiles?\b|\bmembers?\b|\bpeople\b|\bperson\b|\bverified\b|\bunverified\b|\binvit/g],
+];
+
+/** Offline classifier: score each route by keyword hits. */
+export function classifyByKeywords(query: string, now: Date = new Date()): Intent {
+  const q = query.toLowerCase();
+  const params = extractParams(query, now);
+
+  const scores = keywords.map(([route, pattern]) => ({ route, hits: q.match(pattern)?.length ?? 0 }));
+  // A named id points at its area; an email address with nothing else to go on is a user lookup
+  const boost = (route: Route) => (scores.find(s => s.route === route)!.hits += 1);
+  if (params.group) boost('groups');
+  if (params.requestId) boost('privacy');
+  if (params.listId) boost('items');
+  if (params.email) boost('users');
+  if (params.compareInstantAnswer) boost('search');
+
+  const ranked = [...scores].sort((a, b) => b.hits - a.hits);
+  const [best, runnerUp] = ranked;
+  if (best.hits === 0) {
+    return {
+      route: 'users',
+      confidence: 0.2,
+      params,
+      clarification: `Which area is this about: ${routes.map(r => routeLabels[r]).join(', ')}?`,
+      source: 'keywords',
+    };
+  }
+
+  // Sorting is stable, so equal scores keep the priority order of `keywords`
+  const tied = runnerUp.hits === best.hits;
+  const confidence = tied ? 0.5 : Math.min(0.9, 0.6 + 0.1 * (best.hits - runnerUp.hits));
+  const route = best.route;
+  return {
+    route,
+    confidence,
+    params: route === 'users' ? { ...params, ...extractUserFilters(query) } : params,
+    source: 'keywords',
+  };
+}
+
+const llmIntentSchema = z.object({
+  route: routeSchema,
+  confidence: z.number().min(0).max(1),
+  params: intentParamsSchema.partial().default({}),
+  clarification: z.string().optional(),
+  followUp: z.boolean().optional(),
+});
+
+// "now only the ones in EMEA", "which of them ...", "what about the suspended ones?"
+const FOLLOW_UP = /^\s*(and|now|then|also|but|only|just|what about|how about)\b|\b(of|among|from) (those|them|these)\b|\b(those|these|them|the same|the ones)\b|\bsame (but|for|with)\b/i;
+
+/** Whether a question reads as refining the previous answer rather than asking something new. */
+export function isFollowUp(query: string): boolean {
+  return FOLLOW_UP.test(query);
+}
+
+/**
+ * Keyword classification of a follow-up: the previous turn's route and parameters, with whatever the
+ * new question names on top. Questions that clearly name another area are not follow-ups.
+ */
+function classifyFollowUp(query: string, history: ConversationTurn[], now: Date, fallback: Intent): Intent {
+  const previous = lastAnsweredTurn(history);
+  // Turns the agent remembered need not name a dataset
+  if (!previous || !routes.includes(previous.route as Route) || !isFollowUp(query)) return fallback;
+  if (fallback.confidence > CLARIFY_THRESHOLD && fallback.route !== previous.route) return fallback;
+  const route = previous.route as Route;
+  const extracted = route === 'users' ? { ...extractParams(query, now), ...extractUserFilters(query) } : extractParams(query, now);
+  return { route, confidence: 0.8, params: { ...(previous.params as IntentParams), ...extracted }, followUp: true, source: 'keywords' };
+}
+
+// Earlier turns as the conversation the classifier had: each question and the route it was given
+function historyMessages(history: ConversationTurn[]): ChatMessage[] {
+  return history.slice(-5).flatMap(turn => [
+    { role: 'user', content: turn.query },
+    {
+      role: 'assistant',
+      content: turn.route === 'clarify' ? JSON.stringify({ route: 'users', confidence: 0.2, params: {}, clarification: turn.answer }) : JSON.stringify({ route: turn.route, confidence: 1, params: turn.params }),
+    },
+  ]);
+}
+
+const FOLLOW_UP_PROMPT = `
+
+The earlier messages are this conversation so far. When the question refines the previous answer ("now only the ones in EMEA", "which of them are suspended?"), set "followUp": true and repeat the previous route and params, changed only as the question asks.`;
+
+function classifierPrompt(now: Date) {
+  return `You route questions from Highspot administrators to the dataset that can answer them.
+Routes:
+- users: people, accounts, verification status, user properties
+- groups: groups and their members
+- spots: spots (content channels), official spots
+- items: items (content) inside spots
+- lists: lists within a spot, or global lists
+- audit_events: audit log events such as logins, failures, changes by IP or user
+- privacy: privacy / GDPR data subject requests
+- domains: domain settings such as custom usage labels and promoted search
+- search: what the content says; questions answered by searching items ("how do we price X", "search for Y")
+
+Reply with JSON only, no prose:
+{"route": "<route>", "confidence": <0..1>, "params": {...}, "clarification": "<question, only when confidence < ${CLARIFY_THRESHOLD}>"}
+
+params may contain: email, list ("verified" | "unverified" | "all"), group, spot, listId, requestId (24 char ids),
+action (audit: a dotted action or its prefix, e.g. "user.authentication" for logins, "user.authentication.password.failed"),
+result (audit: "SUCCEEDED" | "FAILED"), ip, startTime, endTime (ISO8601; the current time is ${now.toISOString()}), isOfficial,
+exportFormat ("csv" | "ndjson" | "markdown", only when a file or table is asked for), columns (field names to export),
+searchQuery (search: the words to search for) and compareInstantAnswer (search: true when Highspot's instant answer is asked for).`;
+}
+
+/**
+ * Classify with the LLM, falling back to keywords when the AI service is unreachable or replies with
+ * something that does not validate. Parameters found by pattern matching fill in what the LLM left out.
+ */
+export async function classifyIntent(query: string, options: { ai?: AIClient; mode?: 'llm' | 'keywords'; now?: Date; history?: ConversationTurn[] } = {}): Promise<Intent> {
+  const now = options.now ?? new Date();
+  const history = options.history ?? [];
+  const fallback = classifyFollowUp(query, history, now, classifyByKeywords(query, now));
+  const mode = options.mode ?? (process.env.INTENT_CLASSIFIER === 'keywords' ? 'keywords' : 'llm');
+  if (mode === 'keywords') return fallback;
+
+  try {
+    const ai = options.ai ?? new AIClient();
+    const resp = await ai.createChatCompletion(
+      [
+        { role: 'system', content: classifierPrompt(now) + (history.length ? FOLLOW_UP_PROMPT : '') },
+        ...historyMessages(history),
+        { role: 'user', content: query },
+      ],
+      { temperature: 0, json: true, timeoutMs: 15_000 },
+    );
+    const parsed = llmIntentSchema.safeParse(parseJsonReply(String(resp.assistant ?? '')));
+    if (!parsed.success) return fallback;
+
+    const { route, confidence, params, clarification } = parsed.data;
+    const extracted = route === 'users' ? { ...extractParams(query, now), ...extractUserFilters(query) } : extractParams(query, now);
+    // Only a follow-up on the same dataset can build on the previous answer
+    const previous = lastAnsweredTurn(history);
+    const followUp = Boolean(parsed.data.followUp && previous?.route === route);
+    return {
+      route,
+      confidence,
+      params: { ...(followUp ? (previous!.params as IntentParams) : {}), ...extracted, ...params },
+      clarification: confidence < CLARIFY_THRESHOLD ? clarification ?? fallback.clarification : undefined,
+      followUp: followUp || undefined,
+      source: 'llm',
+    };
+  } catch {
+    return fallback;
+  }
+}
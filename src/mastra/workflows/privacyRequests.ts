@@ -0,0 +1,243 @@
+import { createStep, createWorkflow } from '@mastra/core/workflows';
+import { z } from 'zod';
+import { NutellaClient } from '../tools/api/nutellaClient';
+import { nutellaClientFor } from '../tools/api/profiles';
+import { ApiError, apiErrorInfoSchema } from '../tools/api/errors';
+import { AuditTrail, defaultAuditTrail } from '../tools/api/auditTrail';
+import { normalizeUsersResponse } from '../tools/api/util/normalizeUsers';
+import { normalizeSpotsResponse } from '../tools/api/util/normalizeSpots';
+import { normalizePrivacyRequests, openRequestsByEmail } from '../tools/api/util/privacyRequests';
+import { countSummary, createConfirmStep, currentUsers, errorInfo, invalid, requireWrites } from './confirmedChanges';
+
+// --- Privacy Center (GDPR data subject) requests: look up the subjects, suspend for confirmation, file, track and audit ---
+
+export const PRIVACY_WORKFLOW_ID = 'privacy-requests-workflow';
+
+export const privacyRequestTypeSchema = z.enum(['access', 'deletion']);
+
+export type PrivacyRequestType = z.infer<typeof privacyRequestTypeSchema>;
+
+export const privacyRequestInputSchema = z.object({
+  /** `access` exports the subject's data to `destinationSpot`; `deletion` permanently erases it. */
+  type: privacyRequestTypeSchema,
+  emails: z.array(z.string()).min(1),
+  /** `access`: the spot the export is delivered to. */
+  destinationSpot: z.string().optional(),
+  /** Who asked for the request (e.g. the admin's email); recorded in the audit trail. */
+  requestedBy: z.string().min(1),
+  /** Why, e.g. a ticket number; recorded in the audit trail. */
+  reason: z.string().optional(),
+  authToken: z.string().optional(),
+});
+
+export type PrivacyRequestInput = z.infer<typeof privacyRequestInputSchema>;
+
+export const plannedSubjectSchema = z.object({
+  email: z.string(),
+  userId: z.string().optional(),
+  name: z.string().optional(),
+  change: z.enum(['file', 'skip']),
+  /** Why a subject is skipped. */
+  reason: z.string().optional(),
+});
+
+export type PlannedSubject = z.infer<typeof plannedSubjectSchema>;
+
+export const privacyRequestPlanSchema = z.object({
+  type: privacyRequestTypeSchema,
+  destinationSpot: z.string().optional(),
+  destinationSpotTitle: z.string().optional(),
+  subjects: z.array(plannedSubjectSchema),
+  summary: z.string(),
+  /** Set when the request was rejected or could not be looked up; nothing will be filed. */
+  error: apiErrorInfoSchema.optional(),
+});
+
+export type PrivacyRequestPlan = z.infer<typeof privacyRequestPlanSchema>;
+
+export const privacySubjectResultSchema = z.object({
+  email: z.string(),
+  status: z.enum(['submitted', 'failed', 'skipped', 'cancelled']),
+  /** Per-email status reported by the Privacy Center. */
+  apiStatus: z.string().optional(),
+  reason: z.string().optional(),
+  error: apiErrorInfoSchema.optional(),
+});
+
+export type PrivacySubjectResult = z.infer<typeof privacySubjectResultSchema>;
+
+export function privacyRequestOperation(type: PrivacyRequestType) {
+  return type === 'access' ? ('postPrivacyDataSubjectAccess' as const) : ('postPrivacyDataSubjectDelete' as const);
+}
+
+/** Both filings; the agent must not get them as raw operation tools. */
+export const privacyRequestOperations = privacyRequestTypeSchema.options.map(privacyRequestOperation);
+
+/** Look up every subject and the requests already open for them, without filing anything. */
+export async function planPrivacyRequest(client: NutellaClient, request: PrivacyRequestInput): Promise<PrivacyRequestPlan> {
+  const operation = privacyRequestOperation(request.type);
+  requireWrites([operation]);
+  if (request.type === 'access' && !request.destinationSpot) invalid('`destinationSpot` is required for an access request', operation);
+
+  const emails = [...new Set(request.emails.map(e => e.trim().toLowerCase()).filter(Boolean))];
+  const [spot, open, users] = await Promise.all([
+    request.destinationSpot ? client.getSpotsBySpot({ spot: request.destinationSpot }).then(s => normalizeSpotsResponse(s)[0]) : undefined,
+    // Plans must reflect the Privacy Center as it is now, not as cached
+    client.getPrivacyRequests({ refresh: true }).then(page => openRequestsByEmail(normalizePrivacyRequests(page.collection), request.type)),
+    Promise.all(emails.map(email => currentUsers(client, { email, list: 'all', 'exclude-fields': 'groups,favorites' }))),
+  ]);
+
+  const subjects = emails.map((email, i): PlannedSubject => {
+    const user = normalizeUsersResponse(users[i].collection).find(u => u.email?.toLowerCase() === email);
+    if (!user) return { email, change: 'skip', reason: 'no user with this email' };
+    const name = user.displayName ?? user.name;
+    const pending = open.get(email);
+    if (pending) return { email, userId: user.id, name, change: 'skip', reason: `${request.type} request ${pending.requestId} is still ${pending.status}` };
+    return { email, userId: user.id, name, change: 'file' };
+  });
+
+  const filed = subjects.filter(s => s.change === 'file').length;
+  const summary = `${filed} ${request.type} request${filed === 1 ? '' : 's'} to file, ${subjects.length - filed} skipped`;
+  return { type: request.type, destinationSpot: request.destinationSpot, destinationSpotTitle: spot?.title, subjects, summary };
+}
+
+/** File a confirmed plan as one Privacy Center request and track its id so its status can be followed. */
+export async function filePrivacyRequest(client: NutellaClient, plan: PrivacyRequestPlan): Promise<{ requestId?: string; results: PrivacySubjectResult[] }> {
+  const skipped = plan.subjects.filter(s => s.change === 'skip').map(({ email, reason }) => ({ email, status: 'skipped' as const, reason }));
+  const emails = plan.subjects.filter(s => s.change === 'file').map(s => s.email);
+  if (!emails.length) return { results: skipped };
+
+  const operation = privacyRequestOperation(plan.type);
+  try {
+    const resp =
+      plan.type === 'access'
+        ? await client.postPrivacyDataSubjectAccess({ body: { emails, destination_spot: plan.destinationSpot } })
+        : await client.postPrivacyDataSubjectDelete({ body: { emails } });
+    const byEmail = new Map((resp?.results ?? []).map(r => [String(r.email ?? '').toLowerCase(), r]));
+    const results = emails.map((email): PrivacySubjectResult => {
+      const r = byEmail.get(email);
+      // Emails the response leaves out were accepted with the rest of the request
+      if (r?.req_submitted === false) return { email, status: 'failed', apiStatus: r.status, reason: 'not submitted by the Privacy Center' };
+      return { email, status: 'submitted', apiStatus: r?.status };
+    });
+    if (resp?.request_id && results.some(r => r.status === 'submitted')) {
+      await client.trackRequest(resp.request_id, operation, `${plan.type} request for ${emails.join(', ')}`);
+    }
+    return { requestId: resp?.request_id, results: [...results, ...skipped] };
+  } catch (err) {
+    const error = errorInfo(err, operation);
+    return { results: [...emails.map(email => ({ email, status: 'failed' as const, error })), ...skipped] };
+  }
+}
+
+const planStep = createStep({
+  id: 'plan-privacy-request',
+  description: 'Look up each data subject by email and skip those without an account or with a request already open',
+  inputSchema: privacyRequestInputSchema,
+  outputSchema: privacyRequestPlanSchema,
+  execute: async (context: any) => {
+    const inputData = context.inputData;
+    if (!inputData) throw new Error('Input data not found');
+    try {
+      return await planPrivacyRequest(nutellaClientFor({ authToken: inputData.authToken, runtimeContext: context.runtimeContext }), inputData);
+    } catch (err) {
+      if (!(err instanceof ApiError)) throw err;
+      return { type: inputData.type, destinationSpot: inputData.destinationSpot, subjects: [], summary: 'not planned', error: err.toJSON() };
+    }
+  },
+});
+
+const confirmStep = createConfirmStep({
+  id: 'confirm-privacy-request',
+  description: 'Suspend until the request is explicitly confirmed or rejected; asks unless nothing would be filed',
+  planSchema: privacyRequestPlanSchema,
+  isEmpty: plan => plan.subjects.every(s => s.change === 'skip'),
+  message: plan => {
+    const emails = plan.subjects.filter(s => s.change === 'file').map(s => s.email).join(', ');
+    return plan.type === 'deletion'
+      ? `Confirm PERMANENT deletion of all data for ${emails}. This cannot be undone. ${plan.summary}`
+      : `Confirm exporting all data for ${emails} to ${plan.destinationSpotTitle ?? plan.destinationSpot}. ${plan.summary}`;
+  },
+});
+
+const privacyRequestOutputSchema = z.object({
+  type: privacyRequestTypeSchema,
+  confirmed: z.boolean(),
+  /** Privacy Center request id; follow its status with `check-request`. */
+  requestId: z.string().optional(),
+  results: z.array(privacySubjectResultSchema),
+  summary: z.string(),
+  /** Set when the audit record could not be written; the request itself was still filed (or cancelled) as reported. */
+  auditError: z.string().optional(),
+  error: apiErrorInfoSchema.optional(),
+});
+
+/** Record a confirmed, cancelled or failed request; plans that were never confirmed leave no record. */
+async function audit(trail: AuditTrail, client: NutellaClient, request: PrivacyRequestInput, runId: string, outcome: { requestId?: string; results: PrivacySubjectResult[] }, confirmed: boolean) {
+  const considered = outcome.results.filter(r => r.status !== 'skipped');
+  if (!considered.length) return;
+  const action = !confirmed ? 'cancelled' : considered.some(r => r.status === 'submitted') ? 'submitted' : 'failed';
+  await trail.append({
+    actor: request.requestedBy,
+    owner: client.owner,
+    workflow: PRIVACY_WORKFLOW_ID,
+    action,
+    runId,
+    details: {
+      type: request.type,
+      emails: considered.map(r => r.email),
+      destinationSpot: request.destinationSpot,
+      reason: request.reason,
+      requestId: outcome.requestId,
+      results: considered,
+    },
+  });
+}
+
+const applyStep = createStep({
+  id: 'apply-privacy-request',
+  description: 'File the confirmed request, track its id and write the audit record',
+  inputSchema: z.object({ plan: privacyRequestPlanSchema, confirmed: z.boolean() }),
+  outputSchema: privacyRequestOutputSchema,
+  execute: async (context: any) => {
+    const { inputData } = context;
+    if (!inputData) throw new Error('Input data not found');
+    const { plan, confirmed } = inputData as { plan: PrivacyRequestPlan; confirmed: boolean };
+    const request = context.getInitData() as PrivacyRequestInput;
+    const client = nutellaClientFor({ authToken: request.authToken, runtimeContext: context.runtimeContext });
+
+    const outcome: { requestId?: string; results: PrivacySubjectResult[] } = confirmed
+      ? await filePrivacyRequest(client, plan)
+      : { results: plan.subjects.map(({ email, change, reason }) => ({ email, status: change === 'skip' ? ('skipped' as const) : ('cancelled' as const), reason })) };
+    // The request is filed and cannot be taken back; a failed audit write must not hide its id and results
+    let auditError: string | undefined;
+    try {
+      await audit(defaultAuditTrail(), client, request, context.runId, outcome, confirmed);
+    } catch (err: any) {
+      auditError = `The audit record could not be written: ${String(err?.message ?? err)}`;
+    }
+
+    return {
+      type: plan.type,
+      confirmed,
+      requestId: outcome.requestId,
+      results: outcome.results,
+      summary: plan.error ? plan.summary : countSummary(outcome.results, r => r.status),
+      auditError,
+      error: plan.error,
+    };
+  },
+});
+
+const privacyRequestsWorkflow = createWorkflow({
+  id: PRIVACY_WORKFLOW_ID,
+  inputSchema: privacyRequestInputSchema,
+  outputSchema: privacyRequestOutputSchema,
+})
+  .then(planStep)
+  .then(confirmStep)
+  .then(applyStep);
+
+privacyRequestsWorkflow.commit();
+
+export { privacyRequestsWorkflow };
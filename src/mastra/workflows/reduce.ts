@@ -0,0 +1,234 @@
+import { Route } from './intent';
+
+/** How the data handed to the model was shrunk, from least to most lossy. */
+export type ReductionStrategy = 'full' | 'projected' | 'aggregated' | 'summarized' | 'sampled';
+
+export type ReducedContext = {
+  /** Text placed in the prompt: JSON, or chunk summaries when map-reduce ran. */
+  context: string;
+  format: 'json' | 'summaries';
+  strategy: ReductionStrategy;
+  /** Human-readable notes about anything dropped, sampled or summarized. */
+  notes: string[];
+  estimatedTokens: number;
+};
+
+export type ReduceOptions = {
+  /** Token budget for the data part of the prompt. */
+  budget?: number;
+  /** Cap on map-reduce chunks (one LLM call each); beyond it records are sampled. */
+  maxChunks?: number;
+  /** Map step: extract what is relevant to the question from one chunk of records. */
+  summarize?: (chunk: string, index: number, total: number) => Promise<string>;
+};
+
+function envNumber(value: string | undefined, fallback: number) {
+  const n = Number(value);
+  return value && Number.isFinite(n) && n > 0 ? n : fallback;
+}
+
+// Rough count for English and JSON: ~4 characters per token
+export function estimateTokens(text: string) {
+  return Math.ceil(text.length / 4);
+}
+
+const MAX_STRING_LENGTH = 500;
+
+// Fields kept per route; anything else is kept only when the question names it
+const projections: Partial<Record<Route, { keep: string[]; onMention: Record<string, RegExp> }>> = {
+  users: {
+    keep: ['id', 'name', 'surname', 'display_name', 'email', 'suspended'],
+    onMention: {
+      properties: /\bpropert(y|ies)\b|\battributes?\b|\bregion\b|\bdepartment\b|\btitle\b|\bmanager\b/,
+      groups: /\bgroups?\b/,
+      favorites: /\bfavou?rites?\b/,
+      sso: /\bsso\b|\bsaml\b|\bsingle sign/,
+    },
+  },
+  items: {
+    keep: ['id', 'title', 'spot', 'contentType', 'author', 'dateAdded', 'dateUpdated', 'expiresAt', 'custom_usage_label', 'url'],
+    onMention: {
+      description: /\bdescri/,
+      lists: /\blists?\b/,
+      content_owners: /\bowners?\b/,
+      internal: /\binternal\b/,
+      can_download: /\bdownload/,
+    },
+  },
+  // `ref` is what the answer cites
+  search: {
+    keep: ['ref', 'id', 'title', 'description', 'url', 'contentType', 'author', 'spots'],
+    onMention: {
+      lists: /\blists?\b/,
+      date_original_added: /\badded\b|\bnew(est)?\b|\brecent/,
+    },
+  },
+};
+
+function trimValue(value: unknown): unknown {
+  if (typeof value === 'string' && value.length > MAX_STRING_LENGTH) return `${value.slice(0, MAX_STRING_LENGTH)}…`;
+  if (Array.isArray(value)) return value.map(trimValue);
+  if (value && typeof value === 'object') {
+    const out: Record<string, unknown> = {};
+    for (const [key, v] of Object.entries(value)) {
+      if (v === null || v === undefined || (Array.isArray(v) && v.length === 0)) continue;
+      out[key] = trimValue(v);
+    }
+    return out;
+  }
+  return value;
+}
+
+/** Drop fields the question cannot be about, empty values and overly long strings. */
+export function projectRecords(route: Route, records: unknown[], query: string): unknown[] {
+  const q = query.toLowerCase();
+  const projection = projections[route];
+  return records.map(record => {
+    if (!record || typeof record !== 'object' || !projection) return trimValue(record);
+    const keep = new Set(projection.keep);
+    for (const [field, pattern] of Object.entries(projection.onMention)) {
+      if (pattern.test(q)) keep.add(field);
+    }
+    const out: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(record)) {
+      // A field named in the question ("mime type", "date_created") is always kept
+      if (keep.has(key) || q.includes(key.replace(/_/g, ' ')) || q.includes(key)) out[key] = value;
+    }
+    return trimValue(out);
+  });
+}
+
+function isCountingQuestion(query: string) {
+  return /\bhow many\b|\bcount\b|\bnumber of\b|\bbreakdown\b|\bdistribution\b|\bper\b|\bby (status|type|result|action)\b|\btotal\b/i.test(query);
+}
+
+const MAX_BREAKDOWN_VALUES = 20;
+const AGGREGATE_SAMPLE_SIZE = 10;
+
+/**
+ * Deterministic summary for counting questions: the total, value counts of every low-cardinality
+ * scalar field (one level deep, e.g. `outcome.result`) and a small sample of records.
+ */
+export function aggregateRecords(records: unknown[]) {
+  const counts: Record<string, Map<string, number>> = {};
+  const add = (field: string, value: unknown) => {
+    // Free text is not a category
+    if (value === null || value === undefined || typeof value === 'object' || String(value).length > 100) return;
+    (counts[field] ??= new Map()).set(String(value), (counts[field].get(String(value)) ?? 0) + 1);
+  };
+  for (const record of records) {
+    if (!record || typeof record !== 'object') continue;
+    for (const [key, value] of Object.entries(record)) {
+      if (value && typeof value === 'object' && !Array.isArray(value)) {
+        for (const [sub, subValue] of Object.entries(value)) add(`${key}.${sub}`, subValue);
+      } else {
+        add(key, value);
+      }
+    }
+  }
+
+  const breakdowns: Record<string, Record<string, number>> = {};
+  for (const [field, values] of Object.entries(counts)) {
+    // Unique-per-record fields (ids, emails) say nothing in aggregate
+    if (values.size > MAX_BREAKDOWN_VALUES || (values.size === records.length && records.length > 1)) continue;
+    breakdowns[field] = Object.fromEntries([...values].sort((a, b) => b[1] - a[1]));
+  }
+  return { total: records.length, breakdowns, sample: records.slice(0, AGGREGATE_SAMPLE_SIZE) };
+}
+
+// The list carried by a fetch result, if there is one
+function recordsOf(data: unknown): { records: unknown[]; wrap: (records: unknown[]) => unknown } | undefined {
+  if (Array.isArray(data)) return { records: data, wrap: records => records };
+  const members = (data as any)?.members;
+  if (Array.isArray(members)) return { records: members, wrap: records => ({ ...(data as any), members: records }) };
+  return undefined;
+}
+
+function chunkRecords(records: unknown[], tokensPerChunk: number) {
+  const chunks: unknown[][] = [];
+  let current: unknown[] = [];
+  let size = 0;
+  for (const record of records) {
+    const tokens = estimateTokens(JSON.stringify(record));
+    if (current.length > 0 && size + tokens > tokensPerChunk) {
+      chunks.push(current);
+      current = [];
+      size = 0;
+    }
+    current.push(record);
+    size += tokens;
+  }
+  if (current.length > 0) chunks.push(current);
+  return chunks;
+}
+
+// Every n-th record, so a sample spans the whole list instead of just its head
+function sampleEvenly<T>(records: T[], count: number): T[] {
+  if (records.length <= count) return records;
+  const step = records.length / count;
+  return Array.from({ length: count }, (_, i) => records[Math.floor(i * step)]);
+}
+
+/**
+ * Shrink fetched data until it fits the prompt budget: compact JSON, then field projection, then
+ * aggregation for counting questions, then map-reduce summarization over chunks (sampling records
+ * when even that would take too many calls). Without a `summarize` callback the last resort is sampling.
+ */
+export async function reduceForContext(route: Route, data: unknown, query: string, options: ReduceOptions = {}): Promise<ReducedContext> {
+  const budget = options.budget ?? envNumber(process.env.CONTEXT_TOKEN_BUDGET, 24_000);
+  const maxChunks = options.maxChunks ?? envNumber(process.env.CONTEXT_MAX_CHUNKS, 6);
+  const result = (context: string, strategy: ReductionStrategy, notes: string[] = []): ReducedContext => ({
+    context,
+    format: 'json',
+    strategy,
+    notes,
+    estimatedTokens: estimateTokens(context),
+  });
+
+  const full = JSON.stringify(data ?? null);
+  if (estimateTokens(full) <= budget) return result(full, 'full');
+
+  const list = recordsOf(data);
+  if (!list) {
+    // A single large document (e.g. domain settings): trim long strings, then cut
+    const trimmed = JSON.stringify(trimValue(data));
+    if (estimateTokens(trimmed) <= budget) return result(trimmed, 'projected', ['Long text fields were shortened.']);
+    return result(trimmed.slice(0, budget * 4), 'sampled', [`The data was cut to the first ~${budget} tokens of ${estimateTokens(trimmed)}.`]);
+  }
+
+  const projected = projectRecords(route, list.records, query);
+  const projectedText = JSON.stringify(list.wrap(projected));
+  const projectionNote = 'Fields not relevant to the question were left out.';
+  if (estimateTokens(projectedText) <= budget) return result(projectedText, 'projected', [projectionNote]);
+
+  if (isCountingQuestion(query)) {
+    const aggregateText = JSON.stringify(aggregateRecords(projected));
+    if (estimateTokens(aggregateText) <= budget) {
+      return result(aggregateText, 'aggregated', [`The ${projected.length} records were aggregated into counts; only ${Math.min(AGGREGATE_SAMPLE_SIZE, projected.length)} are shown individually.`]);
+    }
+  }
+
+  // Leave room for the chunk prompt and for the summaries to be combined in the final prompt
+  const tokensPerChunk = Math.floor(budget * 0.8);
+  let records = projected;
+  let chunks = chunkRecords(records, tokensPerChunk);
+  const notes = [projectionNote];
+  if (chunks.length > (options.summarize ? maxChunks : 1)) {
+    const limit = options.summarize ? maxChunks : 1;
+    const perChunk = Math.max(1, Math.floor(records.length / chunks.length));
+    chunks = chunkRecords(sampleEvenly(records, perChunk * limit), tokensPerChunk).slice(0, limit);
+    records = chunks.flat();
+    notes.push(`Only a sample of ${records.length} of ${projected.length} records was analysed.`);
+  }
+
+  if (!options.summarize) return result(JSON.stringify(list.wrap(chunks[0] ?? [])), 'sampled', notes);
+
+  const summaries: string[] = [];
+  // Sequential: the chunks share the AI proxy's rate limit
+  for (const [i, chunk] of chunks.entries()) {
+    summaries.push(await options.summarize(JSON.stringify(chunk), i, chunks.length));
+  }
+  notes.push(`The ${records.length} records were summarized in ${chunks.length} parts before answering.`);
+  const context = summaries.map((s, i) => `Part ${i + 1} of ${chunks.length}:\n${s.trim()}`).join('\n\n');
+  return { ...result(context, records.length < projected.length ? 'sampled' : 'summarized', notes), format: 'summaries' };
+}
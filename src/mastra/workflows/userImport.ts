@@ -0,0 +1,316 @@
+import { createStep, createWorkflow } from '@mastra/core/workflows';
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { z } from 'zod';
+import { NutellaClient } from '../tools/api/nutellaClient';
+import { nutellaClientFor } from '../tools/api/profiles';
+import { ApiError, apiErrorInfoSchema } from '../tools/api/errors';
+import { NutellaOperationId } from '../tools/api/generated/nutellaOperations';
+import { PostUser, postUserSchema, postUsersSchema, User, userPropertiesSchema } from '../tools/api/generated/nutellaSchemas';
+import { parseCsvRecords } from '../tools/api/util/csv';
+import { countSummary, createConfirmStep, currentUsers, errorInfo, invalid, requireWrites } from './confirmedChanges';
+
+// --- Bulk import: read a CSV/JSON file, validate and diff it against the current users, confirm, then apply ---
+
+export const userImportRequestSchema = z.object({
+  filePath: z.string().describe('Path of a CSV (header row required) or JSON file of users'),
+  format: z.enum(['csv', 'json']).optional().describe('Defaults to the file extension'),
+  replaceProperties: z
+    .boolean()
+    .optional()
+    .describe("Make each user's properties exactly the ones in the file; by default properties missing from the file are kept"),
+  async: z.boolean().optional().describe('Let the API create/update users in the background'),
+  authToken: z.string().optional(),
+});
+
+export type UserImportRequest = z.infer<typeof userImportRequestSchema>;
+
+export const plannedImportRowSchema = z.object({
+  /** Spreadsheet row for CSV (the header is row 1), position in the array for JSON (from 1). */
+  row: z.number(),
+  email: z.string().optional(),
+  userId: z.string().optional(),
+  change: z.enum(['create', 'update', 'noop', 'invalid']),
+  /** Current values of the user fields and properties that change. */
+  before: z.record(z.unknown()).optional(),
+  after: z.record(z.unknown()).optional(),
+  /** Complete property set to PUT, for updates whose properties change. */
+  properties: z.record(z.unknown()).optional(),
+  /** Why an `invalid` row will not be imported. */
+  errors: z.array(z.string()).optional(),
+});
+
+export type PlannedImportRow = z.infer<typeof plannedImportRowSchema>;
+
+export const userImportPlanSchema = z.object({
+  filePath: z.string(),
+  rows: z.array(plannedImportRowSchema),
+  summary: z.string(),
+  /** Set when the file could not be read or the import is not allowed; nothing will run. */
+  error: apiErrorInfoSchema.optional(),
+});
+
+export type UserImportPlan = z.infer<typeof userImportPlanSchema>;
+
+export const importRowResultSchema = z.object({
+  row: z.number(),
+  email: z.string().optional(),
+  userId: z.string().optional(),
+  change: plannedImportRowSchema.shape.change,
+  status: z.enum(['ok', 'failed', 'pending', 'skipped', 'cancelled']),
+  /** Async request to poll for `pending` results. */
+  requestId: z.string().optional(),
+  errors: z.array(z.string()).optional(),
+  error: apiErrorInfoSchema.optional(),
+});
+
+export type ImportRowResult = z.infer<typeof importRowResultSchema>;
+
+const MAX_IMPORT_ROWS = 5000;
+const MAX_USERS_PER_REQUEST = 500;
+// Columns that are user fields in `post-user`; every other column is a custom property
+const USER_FIELDS = ['id', 'email', 'kind', 'manager'];
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/** A `post-user` entry that must have a plausible email, since rows are matched to users by email. */
+const importedUserSchema = postUserSchema.superRefine((user, ctx) => {
+  if (!user.email || !EMAIL_PATTERN.test(user.email)) ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['email'], message: 'a valid email is required' });
+});
+
+type ImportRow = { row: number; user?: PostUser; errors?: string[] };
+
+/** Turn one flat record (CSV row or JSON object) into a `post-user` entry; blank cells are left out. */
+function toPostUser(values: Record<string, unknown>): Record<string, unknown> {
+  const user: Record<string, unknown> = {};
+  const properties: Record<string, unknown> = {};
+  for (const [key, raw] of Object.entries(values)) {
+    const value = typeof raw === 'string' ? raw.trim() : raw;
+    if (value === '' || value === undefined || value === null) continue;
+    if (key === 'properties' && value && typeof value === 'object') Object.assign(properties, value);
+    else if (USER_FIELDS.includes(key)) user[key] = key === 'email' || key === 'kind' ? String(value).toLowerCase() : value;
+    else properties[key.replace(/^properties\./, '')] = value;
+  }
+  if (Object.keys(properties).length) user.properties = properties;
+  return user;
+}
+
+/** Read and validate every row of the file; rows that fail validation are kept with their errors. */
+export async function readImportFile(filePath: string, format?: 'csv' | 'json'): Promise<ImportRow[]> {
+  let text: string;
+  try {
+    text = await readFile(filePath, { encoding: 'utf8' });
+  } catch (err: any) {
+    invalid(`Failed to read ${filePath}: ${String(err?.message ?? err)}`, 'postUsers');
+  }
+
+  let records: Array<{ row: number; values: Record<string, unknown> }>;
+  if ((format ?? (path.extname(filePath).toLowerCase() === '.json' ? 'json' : 'csv')) === 'json') {
+    let parsed: any;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      invalid(`${filePath} is not valid JSON`, 'postUsers');
+    }
+    const entries = Array.isArray(parsed) ? parsed : parsed?.users ?? parsed?.collection;
+    if (!Array.isArray(entries)) invalid(`${filePath} must contain an array of users (or { "users": [...] })`, 'postUsers');
+    records = entries.map((values: any, i: number) => ({ row: i + 1, values: values && typeof values === 'object' ? values : {} }));
+  } else {
+    records = parseCsvRecords(text).map(({ line, values }) => ({ row: line, values }));
+  }
+  if (records.length > MAX_IMPORT_ROWS) invalid(`At most ${MAX_IMPORT_ROWS} rows can be imported at once`, 'postUsers');
+
+  const seen = new Map<string, number>();
+  return records.map(({ row, values }): ImportRow => {
+    const parsed = importedUserSchema.safeParse(toPostUser(values));
+    if (!parsed.success) return { row, errors: parsed.error.issues.map(issue => `${issue.path.join('.') || 'row'}: ${issue.message}`) };
+    const email = parsed.data.email!;
+    const first = seen.get(email);
+    if (first !== undefined) return { row, user: parsed.data, errors: [`duplicate of row ${first}`] };
+    seen.set(email, row);
+    return { row, user: parsed.data };
+  });
+}
+
+function sameValue(a: unknown, b: unknown) {
+  // CSV cells are strings, so "true" matches true and "3" matches 3
+  return a === b || (a !== undefined && b !== undefined && typeof b !== 'object' && String(a) === String(b));
+}
+
+/** Diff each valid row against the current user with that email. */
+export function planImportRows(rows: ImportRow[], users: User[], options: { replaceProperties?: boolean } = {}): PlannedImportRow[] {
+  const byEmail = new Map(users.filter(user => user.email).map(user => [user.email!.toLowerCase(), user]));
+  return rows.map(({ row, user, errors }): PlannedImportRow => {
+    if (!user || errors) return { row, email: user?.email, change: 'invalid', errors };
+    const email = user.email!;
+    const current = byEmail.get(email);
+    if (!current) return { row, email, change: 'create', after: user };
+
+    const before: Record<string, unknown> = {};
+    const after: Record<string, unknown> = {};
+    for (const key of ['kind', 'manager']) {
+      if (user[key] !== undefined && !sameValue(current[key], user[key])) {
+        before[key] = current[key];
+        after[key] = user[key];
+      }
+    }
+    const currentProps = current.properties ?? {};
+    const props = user.properties ?? {};
+    const propKeys = new Set([...Object.keys(props), ...(options.replaceProperties ? Object.keys(currentProps) : [])]);
+    let propertiesChanged = false;
+    for (const key of propKeys) {
+      if (!sameValue(currentProps[key], props[key])) {
+        propertiesChanged = true;
+        before[`properties.${key}`] = currentProps[key];
+        // null marks a property that `replaceProperties` removes
+        after[`properties.${key}`] = props[key] ?? null;
+      }
+    }
+    if (!Object.keys(after).length) return { row, email, userId: current.id, change: 'noop' };
+    // PUT replaces all properties, so keep the ones the file does not mention unless it is authoritative
+    const properties = propertiesChanged ? (options.replaceProperties ? props : { ...currentProps, ...props }) : undefined;
+    return { row, email, userId: current.id, change: 'update', before, after, properties };
+  });
+}
+
+/** Every write the import may call; the agent must not get them as raw operation tools. */
+export const userImportOperations: NutellaOperationId[] = ['postUsers', 'putUsersByUserProperties'];
+
+/** Validate the file and work out what importing it would change, without changing anything. */
+export async function planUserImport(client: NutellaClient, request: UserImportRequest): Promise<UserImportPlan> {
+  requireWrites(userImportOperations);
+
+  const rows = await readImportFile(request.filePath, request.format);
+  if (!rows.length) invalid(`${request.filePath} has no rows to import`, 'postUsers');
+  const page = await currentUsers(client, { list: 'all', 'with-fields': 'properties', 'exclude-fields': 'groups,favorites' });
+  const planned = planImportRows(rows, page.collection, request);
+
+  return { filePath: request.filePath, rows: planned, summary: countSummary(planned, row => row.change) };
+}
+
+/**
+ * Apply a confirmed plan. New users and changed user fields go through `POST /users` in batches;
+ * changed properties of existing users through `PUT /users/{user}/properties`, one user at a time.
+ */
+export async function applyUserImport(client: NutellaClient, request: UserImportRequest, plan: UserImportPlan): Promise<ImportRowResult[]> {
+  const results = new Map<number, ImportRowResult>();
+  for (const row of plan.rows) {
+    if (row.change === 'noop' || row.change === 'invalid') results.set(row.row, { ...row, status: 'skipped' });
+  }
+
+  // Creates carry their properties; updates only the user fields that changed
+  const posts = plan.rows.flatMap(row => {
+    if (row.change === 'create') return [{ row, body: row.after as PostUser }];
+    const fields = Object.fromEntries(Object.entries(row.after ?? {}).filter(([key]) => !key.startsWith('properties.')));
+    return row.change === 'update' && Object.keys(fields).length ? [{ row, body: { id: row.userId, email: row.email, ...fields } as PostUser }] : [];
+  });
+  for (let i = 0; i < posts.length; i += MAX_USERS_PER_REQUEST) {
+    const batch = posts.slice(i, i + MAX_USERS_PER_REQUEST);
+    try {
+      const resp: any = await client.postUsers({ async: request.async, body: postUsersSchema.parse(batch.map(p => p.body)) });
+      if (request.async || resp?.id) {
+        if (resp?.id) await client.trackRequest(resp.id, 'postUsers', `import of ${batch.length} user(s) from ${path.basename(plan.filePath)}`);
+        for (const { row } of batch) results.set(row.row, { ...row, status: 'pending', requestId: resp?.id });
+      } else {
+        // The response lists one status per submitted user, in order
+        batch.forEach(({ row }, j) => {
+          const item = resp?.collection?.[j];
+          results.set(
+            row.row,
+            item?.status === 'failed'
+              ? { ...row, status: 'failed', error: { code: 'unknown', message: JSON.stringify(item), service: 'nutella', operation: 'postUsers', retryable: false } }
+              : { ...row, userId: row.userId ?? item?.id, status: 'ok' },
+          );
+        });
+      }
+    } catch (err) {
+      const error = errorInfo(err, 'postUsers');
+      for (const { row } of batch) results.set(row.row, { ...row, status: 'failed', error });
+    }
+  }
+
+  // Sequential: the client's rate limiter would serialize them anyway, and the order stays readable in logs
+  for (const row of plan.rows) {
+    if (row.change !== 'update' || !row.userId || !row.properties || results.get(row.row)?.status === 'failed') continue;
+    try {
+      await client.putUsersByUserProperties({ user: row.userId, body: userPropertiesSchema.parse(row.properties) });
+      const posted = results.get(row.row);
+      results.set(row.row, { ...row, status: posted?.status === 'pending' ? 'pending' : 'ok', requestId: posted?.requestId });
+    } catch (err) {
+      results.set(row.row, { ...row, status: 'failed', error: errorInfo(err, 'putUsersByUserProperties') });
+    }
+  }
+  for (const row of plan.rows) if (!results.has(row.row)) results.set(row.row, { ...row, status: 'ok' });
+
+  return plan.rows.map(row => results.get(row.row)!);
+}
+
+const planStep = createStep({
+  id: 'plan-user-import',
+  description: 'Dry run: validate the file and list which users would be created or updated',
+  inputSchema: userImportRequestSchema,
+  outputSchema: userImportPlanSchema,
+  execute: async (context: any) => {
+    const inputData = context.inputData;
+    if (!inputData) throw new Error('Input data not found');
+    try {
+      return await planUserImport(nutellaClientFor({ authToken: inputData.authToken, runtimeContext: context.runtimeContext }), inputData);
+    } catch (err) {
+      if (!(err instanceof ApiError)) throw err;
+      return { filePath: inputData.filePath, rows: [], summary: 'not planned', error: err.toJSON() };
+    }
+  },
+});
+
+const confirmStep = createConfirmStep({
+  id: 'confirm-user-import',
+  description: 'Suspend until the import plan is explicitly confirmed or rejected',
+  planSchema: userImportPlanSchema,
+  isEmpty: plan => plan.rows.every(row => row.change === 'noop' || row.change === 'invalid'),
+  message: plan => `Confirm import of ${path.basename(plan.filePath)}: ${plan.summary}`,
+});
+
+const importOutputSchema = z.object({
+  filePath: z.string(),
+  confirmed: z.boolean(),
+  results: z.array(importRowResultSchema),
+  summary: z.string(),
+  error: apiErrorInfoSchema.optional(),
+});
+
+const applyStep = createStep({
+  id: 'apply-user-import',
+  description: 'Apply the confirmed import and report the outcome per row',
+  inputSchema: z.object({ plan: userImportPlanSchema, confirmed: z.boolean() }),
+  outputSchema: importOutputSchema,
+  execute: async (context: any) => {
+    const { inputData } = context;
+    if (!inputData) throw new Error('Input data not found');
+    const { plan, confirmed } = inputData as { plan: UserImportPlan; confirmed: boolean };
+    const request = context.getInitData() as UserImportRequest;
+
+    const results: ImportRowResult[] = confirmed
+      ? await applyUserImport(nutellaClientFor({ authToken: request.authToken, runtimeContext: context.runtimeContext }), request, plan)
+      : plan.rows.map(row => ({ ...row, status: row.change === 'create' || row.change === 'update' ? ('cancelled' as const) : ('skipped' as const) }));
+
+    return {
+      filePath: plan.filePath,
+      confirmed,
+      results: results.map(({ row, email, userId, change, status, requestId, errors, error }) => ({ row, email, userId, change, status, requestId, errors, error })),
+      summary: plan.error ? plan.summary : countSummary(results, r => r.status),
+      error: plan.error,
+    };
+  },
+});
+
+const userImportWorkflow = createWorkflow({
+  id: 'user-import-workflow',
+  inputSchema: userImportRequestSchema,
+  outputSchema: importOutputSchema,
+})
+  .then(planStep)
+  .then(confirmStep)
+  .then(applyStep);
+
+userImportWorkflow.commit();
+
+export { userImportWorkflow };
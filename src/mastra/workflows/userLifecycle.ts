@@ -0,0 +1,309 @@
+import { createStep, createWorkflow } from '@mastra/core/workflows';
+import { z } from 'zod';
+import { NutellaClient } from '../tools/api/nutellaClient';
+import { nutellaClientFor } from '../tools/api/profiles';
+import { ApiError, apiErrorInfoSchema } from '../tools/api/errors';
+import { NutellaOperationId } from '../tools/api/generated/nutellaOperations';
+import { patchUserSchema, PostUser, postUserSchema, User } from '../tools/api/generated/nutellaSchemas';
+import { countSummary, createConfirmStep, currentUsers, errorInfo, invalid, requireWrites } from './confirmedChanges';
+
+// --- User lifecycle: plan the changes (dry run), suspend for confirmation, then apply and report per user ---
+
+export const userLifecycleActionSchema = z.enum(['upsert', 'invite', 'update', 'delete', 'deactivate', 'reactivate']);
+
+export type UserLifecycleAction = z.infer<typeof userLifecycleActionSchema>;
+
+// The spec operation each action ends up calling
+const actionOperations: Record<UserLifecycleAction, NutellaOperationId> = {
+  upsert: 'postUsers',
+  invite: 'postUsersInvite',
+  update: 'patchUsersByUser',
+  delete: 'deleteUsersByUser',
+  deactivate: 'postUserAccountEvents',
+  reactivate: 'postUserAccountEvents',
+};
+
+/** Every write the flow may call; the agent must not get them as raw operation tools. */
+export const userChangeOperations = [...new Set(Object.values(actionOperations))];
+
+export const userLifecycleRequestSchema = z.object({
+  action: userLifecycleActionSchema,
+  /** Users to invite, update, delete, deactivate or reactivate. */
+  emails: z.array(z.string()).default([]),
+  /** Users to add or update (`upsert`), keyed by email. */
+  users: z.array(postUserSchema).optional(),
+  /** Fields to set on every user (`update`). */
+  changes: patchUserSchema.optional(),
+  role: z.enum(['Employee', 'Partner']).optional().describe('Role of invited users (`invite`)'),
+  message: z.string().optional().describe('Email message for `invite`, `deactivate` and `reactivate`'),
+  notify: z.boolean().optional().describe('Notify users of a deactivation or reactivation'),
+  deleteOwnedEntities: z.boolean().optional().describe("Delete the users' spots, pitches and groups (`delete`)"),
+  newOwner: z.string().optional().describe('Email of the new owner of their spots, pitches and groups; required unless deleteOwnedEntities (`delete`)'),
+  deleteReferences: z.boolean().optional().describe('Delete their reviews and social activity (`delete`)'),
+  async: z.boolean().optional().describe('Let the API process an `upsert` in the background'),
+  authToken: z.string().optional(),
+});
+
+export type UserLifecycleRequest = z.infer<typeof userLifecycleRequestSchema>;
+
+export const plannedUserChangeSchema = z.object({
+  email: z.string(),
+  userId: z.string().optional(),
+  change: z.enum(['create', 'update', 'invite', 'reinvite', 'delete', 'deactivate', 'reactivate', 'skip']),
+  /** Why a user is skipped. */
+  reason: z.string().optional(),
+  /** Current values of the fields that change. */
+  before: z.record(z.unknown()).optional(),
+  after: z.record(z.unknown()).optional(),
+});
+
+export type PlannedUserChange = z.infer<typeof plannedUserChangeSchema>;
+
+export const userChangePlanSchema = z.object({
+  action: userLifecycleActionSchema,
+  changes: z.array(plannedUserChangeSchema),
+  summary: z.string(),
+  /** Set when the request was rejected or the users could not be looked up; nothing will run. */
+  error: apiErrorInfoSchema.optional(),
+});
+
+export type UserChangePlan = z.infer<typeof userChangePlanSchema>;
+
+export const userChangeResultSchema = z.object({
+  email: z.string(),
+  userId: z.string().optional(),
+  change: plannedUserChangeSchema.shape.change,
+  status: z.enum(['ok', 'failed', 'pending', 'skipped', 'cancelled']),
+  /** Async request to poll for `pending` results. */
+  requestId: z.string().optional(),
+  error: apiErrorInfoSchema.optional(),
+});
+
+export type UserChangeResult = z.infer<typeof userChangeResultSchema>;
+
+const MAX_USERS_PER_REQUEST = 500;
+
+async function findUser(client: NutellaClient, email: string, list: 'all' | 'unverified' = 'all'): Promise<User | undefined> {
+  // The `email` filter is not documented as exact, so a partial match may come first: check every result
+  const page = await currentUsers(client, { email, list, 'exclude-fields': 'groups,favorites' });
+  return page.collection.find(user => user.email?.toLowerCase() === email.toLowerCase());
+}
+
+function pick(source: Record<string, unknown>, keys: string[]) {
+  return Object.fromEntries(keys.map(key => [key, source[key]]));
+}
+
+// Upsert input keyed the way plans key users: by trimmed, lowercased email; the body gets the trimmed email
+function usersByEmail(request: UserLifecycleRequest): Map<string, PostUser> {
+  return new Map((request.users ?? []).map(user => [(user.email ?? '').trim().toLowerCase(), { ...user, email: user.email?.trim() }]));
+}
+
+/** Work out exactly which users an action would change, without changing anything. */
+export async function planUserChanges(client: NutellaClient, request: UserLifecycleRequest): Promise<UserChangePlan> {
+  const operation = actionOperations[request.action];
+  requireWrites([operation]);
+
+  const emails = [...new Set((request.action === 'upsert' ? (request.users ?? []).map(u => u.email ?? '') : request.emails).map(e => e.trim().toLowerCase()))];
+  if (emails.length === 0 || emails.some(email => !email)) invalid('Every user needs an email address', operation);
+  if (emails.length > MAX_USERS_PER_REQUEST) invalid(`At most ${MAX_USERS_PER_REQUEST} users can be changed at once`, operation);
+  if (request.action === 'update' && !Object.keys(request.changes ?? {}).length) invalid('`changes` is required for update', operation);
+  if (request.action === 'delete' && !request.deleteOwnedEntities && !request.newOwner) {
+    invalid('`newOwner` is required unless deleteOwnedEntities is set', operation);
+  }
+
+  const inputs = usersByEmail(request);
+  const users = await Promise.all(emails.map(email => findUser(client, email)));
+  const changes = await Promise.all(
+    emails.map(async (email, i): Promise<PlannedUserChange> => {
+      const user = users[i];
+      const userId = user?.id;
+      const current = (user ?? {}) as Record<string, unknown>;
+      switch (request.action) {
+        case 'upsert': {
+          const input = inputs.get(email) ?? { email };
+          const keys = Object.keys(input).filter(key => key !== 'email');
+          if (!user) return { email, change: 'create', after: input };
+          return { email, userId, change: 'update', before: pick(current, keys), after: pick(input, keys) };
+        }
+        case 'invite': {
+          if (!user) return { email, change: 'invite' };
+          // Only users who never accepted can be invited again
+          const pending = await findUser(client, email, 'unverified');
+          return pending ? { email, userId, change: 'reinvite' } : { email, userId, change: 'skip', reason: 'already an active user' };
+        }
+        case 'update': {
+          if (!user) return { email, change: 'skip', reason: 'user not found' };
+          const keys = Object.keys(request.changes!).filter(key => current[key] !== request.changes![key]);
+          if (!keys.length) return { email, userId, change: 'skip', reason: 'already up to date' };
+          return { email, userId, change: 'update', before: pick(current, keys), after: pick(request.changes!, keys) };
+        }
+        case 'delete':
+          return user ? { email, userId, change: 'delete' } : { email, change: 'skip', reason: 'user not found' };
+        case 'deactivate':
+          if (!user) return { email, change: 'skip', reason: 'user not found' };
+          return user.suspended ? { email, userId, change: 'skip', reason: 'already deactivated' } : { email, userId, change: 'deactivate' };
+        case 'reactivate':
+          if (!user) return { email, change: 'skip', reason: 'user not found' };
+          return user.suspended ? { email, userId, change: 'reactivate' } : { email, userId, change: 'skip', reason: 'not deactivated' };
+      }
+    }),
+  );
+
+  return { action: request.action, changes, summary: countSummary(changes, c => c.change) };
+}
+
+/** Apply a confirmed plan. Per-user calls report per user; bulk calls report the same outcome for each user. */
+export async function applyUserChanges(client: NutellaClient, request: UserLifecycleRequest, plan: UserChangePlan): Promise<UserChangeResult[]> {
+  const operation = actionOperations[plan.action];
+  const skipped = plan.changes.filter(c => c.change === 'skip').map(c => ({ ...c, status: 'skipped' as const }));
+  const todo = plan.changes.filter(c => c.change !== 'skip');
+  if (!todo.length) return skipped;
+
+  const bulk = async (call: () => Promise<unknown>) => {
+    try {
+      await call();
+      return todo.map(c => ({ ...c, status: 'ok' as const }));
+    } catch (err) {
+      const error = errorInfo(err, operation);
+      return todo.map(c => ({ ...c, status: 'failed' as const, error }));
+    }
+  };
+  const each = (call: (change: PlannedUserChange) => Promise<unknown>) =>
+    Promise.all(
+      todo.map(async change => {
+        try {
+          await call(change);
+          return { ...change, status: 'ok' as const };
+        } catch (err) {
+          return { ...change, status: 'failed' as const, error: errorInfo(err, operation) };
+        }
+      }),
+    );
+
+  let results: UserChangeResult[];
+  switch (plan.action) {
+    case 'upsert': {
+      const inputs = usersByEmail(request);
+      const body = todo.map(change => inputs.get(change.email) ?? { email: change.email });
+      try {
+        const resp: any = await client.postUsers({ async: request.async, body });
+        if (request.async || resp?.id) {
+          // Tracked so "how is my bulk job doing" can be answered later, even after a restart
+          if (resp?.id) await client.trackRequest(resp.id, operation, `add/update ${todo.length} user(s)`);
+          results = todo.map(c => ({ ...c, status: 'pending' as const, requestId: resp?.id }));
+        } else {
+          // The response lists one status per submitted user, in order
+          results = todo.map((c, i) => {
+            const item = resp?.collection?.[i];
+            return item?.status === 'failed'
+              ? { ...c, status: 'failed' as const, error: { code: 'unknown' as const, message: JSON.stringify(item), service: 'nutella' as const, operation, retryable: false } }
+              : { ...c, userId: c.userId ?? item?.id, status: 'ok' as const };
+          });
+        }
+      } catch (err) {
+        const error = errorInfo(err, operation);
+        results = todo.map(c => ({ ...c, status: 'failed' as const, error }));
+      }
+      break;
+    }
+    case 'invite':
+      results = await bulk(() => client.postUsersInvite({ body: { role: request.role ?? 'Employee', message: request.message, names: todo.map(c => c.email) } }));
+      break;
+    case 'update':
+      results = await each(change => client.patchUsersByUser({ user: change.userId!, body: change.after ?? {} }));
+      break;
+    case 'delete':
+      results = await each(change =>
+        client.deleteUsersByUser({
+          user: change.userId!,
+          'delete-owned-entities': request.deleteOwnedEntities,
+          'new-owner': request.newOwner,
+          'delete-references': request.deleteReferences,
+        }),
+      );
+      break;
+    case 'deactivate':
+    case 'reactivate':
+      results = await bulk(() =>
+        client.postUserAccountEvents({
+          body: { event: plan.action as 'deactivate' | 'reactivate', emails: todo.map(c => c.email), message: request.message, isNotificationEnabled: request.notify ?? false },
+        }),
+      );
+      break;
+  }
+  return [...results, ...skipped];
+}
+
+const planStep = createStep({
+  id: 'plan-user-changes',
+  description: 'Dry run: list exactly which users would change and how',
+  inputSchema: userLifecycleRequestSchema,
+  outputSchema: userChangePlanSchema,
+  execute: async (context: any) => {
+    const inputData = context.inputData;
+    if (!inputData) throw new Error('Input data not found');
+    try {
+      return await planUserChanges(nutellaClientFor({ authToken: inputData.authToken, runtimeContext: context.runtimeContext }), inputData);
+    } catch (err) {
+      if (!(err instanceof ApiError)) throw err;
+      return { action: inputData.action, changes: [], summary: 'not planned', error: err.toJSON() };
+    }
+  },
+});
+
+const confirmStep = createConfirmStep({
+  id: 'confirm-user-changes',
+  planSchema: userChangePlanSchema,
+  isEmpty: plan => plan.changes.every(c => c.change === 'skip'),
+  message: plan => `Confirm ${plan.action}: ${plan.summary}`,
+});
+
+const applyStep = createStep({
+  id: 'apply-user-changes',
+  description: 'Apply the confirmed plan and report the outcome per user',
+  inputSchema: z.object({ plan: userChangePlanSchema, confirmed: z.boolean() }),
+  outputSchema: z.object({
+    action: userLifecycleActionSchema,
+    confirmed: z.boolean(),
+    results: z.array(userChangeResultSchema),
+    summary: z.string(),
+    error: apiErrorInfoSchema.optional(),
+  }),
+  execute: async (context: any) => {
+    const { inputData } = context;
+    if (!inputData) throw new Error('Input data not found');
+    const { plan, confirmed } = inputData as { plan: UserChangePlan; confirmed: boolean };
+    const request = context.getInitData() as UserLifecycleRequest;
+
+    const results: UserChangeResult[] = confirmed
+      ? await applyUserChanges(nutellaClientFor({ authToken: request.authToken, runtimeContext: context.runtimeContext }), request, plan)
+      : plan.changes.map(c => ({ ...c, status: c.change === 'skip' ? ('skipped' as const) : ('cancelled' as const) }));
+
+    return {
+      action: plan.action,
+      confirmed,
+      results: results.map(({ email, userId, change, status, requestId, error }) => ({ email, userId, change, status, requestId, error })),
+      summary: plan.error ? plan.summary : countSummary(results, r => r.status),
+      error: plan.error,
+    };
+  },
+});
+
+const userLifecycleWorkflow = createWorkflow({
+  id: 'user-lifecycle-workflow',
+  inputSchema: userLifecycleRequestSchema,
+  outputSchema: z.object({
+    action: userLifecycleActionSchema,
+    confirmed: z.boolean(),
+    results: z.array(userChangeResultSchema),
+    summary: z.string(),
+    error: apiErrorInfoSchema.optional(),
+  }),
+})
+  .then(planStep)
+  .then(confirmStep)
+  .then(applyStep);
+
+userLifecycleWorkflow.commit();
+
+export { userLifecycleWorkflow };
@@ -0,0 +1,244 @@
+import { createHash } from 'crypto';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import path from 'path';
+
+/** A chat completion request as the fake proxy received it. */
+export type ChatRequest = {
+  /** Path and query string, e.g. `/chat/completions?api-version=2024-02-15-preview`. */
+  url: string;
+  /** The `token` header AIClient authenticates with on the Azure proxy. */
+  token?: string;
+  /** The `Authorization` header of OpenAI-compatible providers. */
+  authorization?: string;
+  /** Tool calls and results keep their wire fields (`tool_calls`, `tool_call_id`); content can then be null. */
+  messages: { role: string; content: string; [field: string]: unknown }[];
+  model?: string;
+  tools?: unknown[];
+  response_format?: { type: string };
+  temperature?: number;
+  n?: number;
+  stream?: boolean;
+};
+
+/** What to answer: assistant text, a whole response body, or an error status. */
+export type ChatReply = string | { status?: number; body?: unknown; headers?: Record<string, string> };
+
+/**
+ * One scripted answer. A rule matches when every given condition holds; `system` and `user` are
+ * substrings of the first system message and the last user message.
+ */
+export type ScriptedReply = {
+  system?: string | RegExp;
+  user?: string | RegExp;
+  match?: (request: ChatRequest) => boolean;
+  reply: ChatReply | ((request: ChatRequest) => ChatReply);
+  /** How many requests it answers. Defaults to every matching request. */
+  times?: number;
+};
+
+/** A recorded exchange; `key` identifies the request regardless of the time it was made. */
+export type CassetteEntry = {
+  key: string;
+  request: Pick<ChatRequest, 'messages' | 'model' | 'temperature' | 'n' | 'tools' | 'response_format'>;
+  response: { status: number; body: unknown };
+};
+
+export type FakeAiProxyOptions = {
+  script?: ScriptedReply[];
+  /** Replay exchanges from this JSON file; requests it does not know fall through to `script`. */
+  cassette?: string;
+  /** Forward requests the cassette and script do not answer to a real proxy, and save them in `cassette`. */
+  record?: { upstreamUrl: string; token?: string };
+  port?: number;
+};
+
+export type FakeAiProxy = {
+  /** Chat completions URL to hand to AIClient or `AI_PROXY_URL`. */
+  url: string;
+  /** Rules tried in order; add to it (e.g. `unshift`) to change the answers of a running proxy. */
+  script: ScriptedReply[];
+  /** Every request received, in order. */
+  requests: ChatRequest[];
+  close(): Promise<void>;
+};
+
+const lastUser = (request: ChatRequest) => [...request.messages].reverse().find(m => m.role === 'user')?.content ?? '';
+const firstSystem = (request: ChatRequest) => request.messages.find(m => m.role === 'system')?.content ?? '';
+
+const contains = (text: string, pattern?: string | RegExp) => pattern === undefined || (typeof pattern === 'string' ? text.includes(pattern) : pattern.test(text));
+
+// Prompts embed the current time; a recording has to match the same conversation on a later day
+const TIMESTAMP = /\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z/g;
+
+/** Identifies a request by what the model sees, ignoring embedded timestamps. */
+export function cassetteKey(request: Pick<ChatRequest, 'messages' | 'model' | 'temperature' | 'n' | 'tools' | 'response_format'>): string {
+  const canonical = JSON.stringify({
+    messages: request.messages.map(({ content, ...rest }) => ({ ...rest, content: typeof content === 'string' ? content.replace(TIMESTAMP, '<time>') : content })),
+    model: request.model ?? null,
+    temperature: request.temperature ?? null,
+    n: request.n ?? null,
+    tools: request.tools,
+    response_format: request.response_format,
+  });
+  return createHash('sha256').update(canonical).digest('hex').slice(0, 32);
+}
+
+/** The response body of a chat completion whose assistant message is `content`, optionally calling tools. */
+export function completion(content: string | null, toolCalls?: { id: string; name: string; arguments: string }[]) {
+  const tool_calls = toolCalls?.map(call => ({ id: call.id, type: 'function', function: { name: call.name, arguments: call.arguments } }));
+  return {
+    id: 'chatcmpl-fake',
+    object: 'chat.completion',
+    choices: [{ index: 0, finish_reason: tool_calls ? 'tool_calls' : 'stop', message: { role: 'assistant', content, ...(tool_calls && { tool_calls }) } }],
+  };
+}
+
+const entryRequest = ({ messages, model, temperature, n, tools, response_format }: ChatRequest) => ({ messages, model, temperature, n, tools, response_format });
+
+function toResponse(reply: ChatReply): { status: number; body: unknown; headers?: Record<string, string> } {
+  if (typeof reply === 'string') return { status: 200, body: completion(reply) };
+  return { status: reply.status ?? 200, body: reply.body ?? '', headers: reply.headers };
+}
+
+/** A completion as the chunks of a streamed one: its text a word at a time, then its tool calls. */
+function streamChunks(body: any): unknown[] {
+  const choice = body?.choices?.[0] ?? {};
+  const message = choice.message ?? {};
+  const chunk = (delta: unknown, finish_reason: string | null = null) => ({
+    id: body?.id ?? 'chatcmpl-fake',
+    object: 'chat.completion.chunk',
+    choices: [{ index: 0, delta, finish_reason }],
+  });
+  const words: string[] = typeof message.content === 'string' ? message.content.match(/\S+\s*|\s+/g) ?? [] : [];
+  return [
+    chunk({ role: 'assistant' }),
+    ...words.map(content => chunk({ content })),
+    ...(message.tool_calls ?? []).map((call: any, index: number) => chunk({ tool_calls: [{ index, ...call }] })),
+    chunk({}, choice.finish_reason ?? 'stop'),
+  ];
+}
+
+async function readJson(req: IncomingMessage): Promise<any> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  const text = Buffer.concat(chunks).toString('utf8');
+  return text ? JSON.parse(text) : {};
+}
+
+/**
+ * Local stand-in for the chat completions proxy AIClient talks to. It answers from a script, from a
+ * cassette of recorded exchanges, or (when recording) from a real proxy whose answers it saves to the
+ * cassette. Streamed requests are answered as server-sent events. Requests nothing can answer get a
+ * 500 naming the prompt, so a test fails loudly instead of reaching a real model.
+ */
+export async function startFakeAiProxy(options: FakeAiProxyOptions = {}): Promise<FakeAiProxy> {
+  const script = [...(options.script ?? [])];
+  const requests: ChatRequest[] = [];
+  const cassette = new Map<string, CassetteEntry>();
+  if (options.cassette) {
+    const text = await readFile(options.cassette, { encoding: 'utf8' }).catch(() => undefined);
+    for (const entry of text ? (JSON.parse(text) as CassetteEntry[]) : []) cassette.set(entry.key, entry);
+  }
+
+  let saving = Promise.resolve();
+  const save = () => {
+    const file = options.cassette!;
+    saving = saving.then(async () => {
+      await mkdir(path.dirname(file), { recursive: true });
+      await writeFile(file, `${JSON.stringify([...cassette.values()], null, 2)}\n`, { encoding: 'utf8' });
+    });
+    return saving;
+  };
+
+  const record = async (request: ChatRequest, key: string) => {
+    const { upstreamUrl, token } = options.record!;
+    const res = await fetch(upstreamUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', token: token ?? request.token ?? '' },
+      body: JSON.stringify({ ...entryRequest(request), stream: false }),
+    });
+    const text = await res.text();
+    let body: unknown = text;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      // kept as text
+    }
+    // Failures are not worth replaying
+    if (res.ok) {
+      cassette.set(key, { key, request: entryRequest(request), response: { status: res.status, body } });
+      await save();
+    }
+    return { status: res.status, body };
+  };
+
+  const answer = async (request: ChatRequest): Promise<{ status: number; body: unknown; headers?: Record<string, string> }> => {
+    const key = cassetteKey(request);
+    const recorded = cassette.get(key);
+    if (recorded) return recorded.response;
+
+    const rule = script.find(
+      r => (r.times ?? 1) > 0 && contains(firstSystem(request), r.system) && contains(lastUser(request), r.user) && (!r.match || r.match(request)),
+    );
+    if (rule) {
+      if (rule.times !== undefined) rule.times--;
+      return toResponse(typeof rule.reply === 'function' ? rule.reply(request) : rule.reply);
+    }
+    if (options.record) return record(request, key);
+    return { status: 500, body: `No scripted or recorded reply for "${lastUser(request).slice(0, 200)}" (key ${key})` };
+  };
+
+  const handle = async (req: IncomingMessage, res: ServerResponse) => {
+    const body = await readJson(req);
+    const request: ChatRequest = {
+      url: req.url ?? '/',
+      token: req.headers.token as string | undefined,
+      authorization: req.headers.authorization,
+      messages: body.messages ?? [],
+      model: body.model,
+      temperature: body.temperature,
+      n: body.n,
+      stream: body.stream,
+      tools: body.tools,
+      response_format: body.response_format,
+    };
+    requests.push(request);
+    const { status, body: responseBody, headers } = await answer(request);
+    if (request.stream && status === 200 && typeof responseBody === 'object') {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', ...headers });
+      for (const chunk of streamChunks(responseBody)) res.write(`data: ${JSON.stringify(chunk)}\n\n`);
+      res.end('data: [DONE]\n\n');
+      return;
+    }
+    const isText = typeof responseBody === 'string';
+    res.writeHead(status, { 'Content-Type': isText ? 'text/plain; charset=utf-8' : 'application/json', ...headers });
+    res.end(isText ? responseBody : JSON.stringify(responseBody));
+  };
+
+  const http = createServer((req, res) => {
+    handle(req, res).catch(err => {
+      if (!res.headersSent) res.writeHead(500, { 'Content-Type': 'text/plain; charset=utf-8' });
+      res.end(`Fake AI proxy error: ${String(err?.message ?? err)}`);
+    });
+  });
+  await new Promise<void>((resolve, reject) => {
+    http.once('error', reject);
+    http.listen(options.port ?? 0, '127.0.0.1', () => resolve());
+  });
+  const { port } = http.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}/openai/deployments/fake/chat/completions?api-version=2024-02-15-preview`,
+    script,
+    requests,
+    close: async () => {
+      await saving;
+      await new Promise<void>((resolve, reject) => {
+        http.closeAllConnections();
+        http.close(err => (err ? reject(err) : resolve()));
+      });
+    },
+  };
+}
@@ -0,0 +1,35 @@
+// Serve the mock Highspot API until interrupted.
+//
+//   npm run mock:api -- [--port 4010] [--seed fixtures.json] [--latency 200] [--async-polls 2]
+//
+// Then point the agent at it with NUTELLA_API_HOST=http://127.0.0.1:4010/v1.0 and any credentials.
+import { readFileSync } from 'fs';
+import { parseArgs } from 'util';
+import { startMockServer } from './server';
+import { mockSeedSchema } from './state';
+
+const { values } = parseArgs({
+  options: {
+    port: { type: 'string', default: process.env.MOCK_API_PORT ?? '4010' },
+    host: { type: 'string', default: '127.0.0.1' },
+    seed: { type: 'string' },
+    latency: { type: 'string', default: '0' },
+    'async-polls': { type: 'string', default: '1' },
+  },
+});
+
+const seed = values.seed ? mockSeedSchema.parse(JSON.parse(readFileSync(values.seed, { encoding: 'utf8' }))) : undefined;
+const server = await startMockServer({
+  seed,
+  port: Number(values.port),
+  host: values.host,
+  latencyMs: Number(values.latency),
+  asyncPolls: Number(values['async-polls']),
+});
+
+console.log(`Mock Highspot API listening on ${server.url}${values.seed ? ` (seed: ${values.seed})` : ''}`);
+console.log(`Inject faults with: curl -X POST ${server.url.replace(/\/v1\.0$/, '')}/__mock/faults -H 'Content-Type: application/json' -d '{"operation":"getUsers","status":429}'`);
+
+const stop = () => void server.close().then(() => process.exit(0));
+process.on('SIGINT', stop);
+process.on('SIGTERM', stop);
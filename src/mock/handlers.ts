@@ -0,0 +1,512 @@
+import type { NutellaOperationId } from '../mastra/tools/api/generated/nutellaOperations';
+import { MockState } from './state';
+
+/** Thrown by handlers to answer with an error status instead of the operation's success response. */
+export class MockHttpError extends Error {
+  constructor(
+    readonly status: number,
+    readonly body: unknown,
+    readonly headers: Record<string, string> = {},
+  ) {
+    super(typeof body === 'string' ? body : JSON.stringify(body));
+  }
+}
+
+/** A success answer with a status other than the spec's first 2xx (e.g. `202` for async writes). */
+export class MockReply {
+  constructor(
+    readonly status: number,
+    readonly body: unknown,
+  ) {}
+}
+
+export type MockContext = {
+  state: MockState;
+  /** Path parameters by name. */
+  params: Record<string, string>;
+  query: Record<string, string>;
+  body: any;
+  /** Email from the `hs-user` header, when the call impersonates someone. */
+  hsUser?: string;
+};
+
+type Handler = (ctx: MockContext) => unknown;
+
+// The spec's json-not-found-error shape
+export function notFound(type: string, id: string): MockHttpError {
+  return new MockHttpError(404, { id, type, message: `${type} ${id} not found` });
+}
+
+// The spec's json-bad-request-error shape
+export function badRequest(field: string, message: string): MockHttpError {
+  return new MockHttpError(400, { errors: { [field]: message } });
+}
+
+const csv = (value?: string) => (value ? value.split(',').map(part => part.trim()).filter(Boolean) : []);
+const flag = (value?: string) => value === 'true' || value === '1';
+
+/** One `start`/`limit` page of `rows`, as the list endpoints return it. */
+function page<T>(rows: T[], query: Record<string, string>, defaultLimit = 100) {
+  const start = Number(query.start ?? 0) || 0;
+  const limit = Number(query.limit ?? defaultLimit) || defaultLimit;
+  return { counts_total: rows.length, collection: rows.slice(start, start + limit) };
+}
+
+const encodeCursor = (offset: number) => Buffer.from(`offset:${offset}`).toString('base64url');
+const decodeCursor = (cursor?: string) => (cursor ? Number(Buffer.from(cursor, 'base64url').toString('utf8').replace('offset:', '')) || 0 : 0);
+
+function user(ctx: MockContext, ref = ctx.params.user) {
+  const found = ctx.state.findUser(ref);
+  if (!found) throw notFound('user', ref);
+  return found;
+}
+
+function group(ctx: MockContext, id = ctx.params.group) {
+  const found = ctx.state.groups.get(id);
+  if (!found) throw notFound('group', id);
+  return found;
+}
+
+function spot(ctx: MockContext, id = ctx.params.spot) {
+  const found = ctx.state.spots.get(id);
+  if (!found) throw notFound('spot', id);
+  return found;
+}
+
+function item(ctx: MockContext, id = ctx.params.item) {
+  const found = ctx.state.items.get(id);
+  if (!found) throw notFound('item', id);
+  return found;
+}
+
+function list(ctx: MockContext, id = ctx.params.list) {
+  const found = ctx.state.lists.get(id);
+  if (!found) throw notFound('list', id);
+  return found;
+}
+
+function ids(body: unknown, field: string): string[] {
+  if (!Array.isArray(body) || body.some(id => typeof id !== 'string')) throw badRequest(field, 'Value is not an array of ids');
+  return body;
+}
+
+/** `/…/properties` and `/…/properties/{property}` for users, groups and items. */
+function propertyHandlers(owner: (ctx: MockContext) => { properties: Record<string, unknown> }) {
+  return {
+    list: (ctx: MockContext) => owner(ctx).properties,
+    replace: (ctx: MockContext) => {
+      owner(ctx).properties = { ...(ctx.body ?? {}) };
+    },
+    merge: (ctx: MockContext) => {
+      Object.assign(owner(ctx).properties, ctx.body ?? {});
+    },
+    get: (ctx: MockContext) => {
+      const properties = owner(ctx).properties;
+      if (!(ctx.params.property in properties)) throw notFound('property', ctx.params.property);
+      return { value: String(properties[ctx.params.property]) };
+    },
+    put: (ctx: MockContext) => {
+      owner(ctx).properties[ctx.params.property] = ctx.body?.value ?? ctx.body;
+    },
+    delete: (ctx: MockContext) => {
+      const properties = owner(ctx).properties;
+      if (!(ctx.params.property in properties)) throw notFound('property', ctx.params.property);
+      delete properties[ctx.params.property];
+    },
+  };
+}
+
+const userProperties = propertyHandlers(ctx => user(ctx));
+const groupProperties = propertyHandlers(ctx => group(ctx));
+const itemProperties = propertyHandlers(ctx => item(ctx));
+
+// Create or update each entry of a POST /users body; one status per entry, in order
+function upsertUsers(state: MockState, body: unknown) {
+  if (!Array.isArray(body)) throw badRequest('body', 'Value is not an array');
+  return {
+    collection: body.map((entry: any) => {
+      const existing = (entry?.id && state.findUser(entry.id)) || (entry?.email && state.findUser(entry.email));
+      if (existing) {
+        Object.assign(existing, { kind: entry.kind ?? existing.kind, manager: entry.manager ?? existing.manager });
+        if (entry.properties) Object.assign(existing.properties, entry.properties);
+        return { status: 'ok', id: existing.id, created: false };
+      }
+      if (typeof entry?.email !== 'string' || !entry.email.includes('@')) return { status: 'failed', created: false };
+      const id = state.newId();
+      state.users.set(id, { id, email: entry.email, kind: entry.kind, manager: entry.manager, verified: false, properties: entry.properties ?? {} });
+      return { status: 'ok', id, created: true };
+    }),
+  };
+}
+
+const matchesTerms = (text: string, terms: string[]) => terms.filter(term => text.includes(term)).length;
+
+function searchItems(state: MockState, query: string) {
+  const terms = query.toLowerCase().split(/\W+/).filter(term => term.length > 2);
+  return [...state.items.values()]
+    .filter(entry => !entry.archived)
+    .map(entry => ({ entry, score: matchesTerms(`${entry.title ?? ''} ${entry.description ?? ''}`.toLowerCase(), terms) }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .map(({ entry }) => entry);
+}
+
+/**
+ * Operations the mock keeps state for. Everything else answers with a sample from the spec.
+ * Handlers return the body (`undefined` for none) or a MockReply, and throw MockHttpError.
+ */
+export const handlers: Partial<Record<NutellaOperationId, Handler>> = {
+  getMe: ctx => {
+    const me = ctx.hsUser ? ctx.state.findUser(ctx.hsUser) : [...ctx.state.users.values()][0];
+    if (!me) throw notFound('user', ctx.hsUser ?? 'me');
+    return ctx.state.userView(me);
+  },
+
+  getUsers: ctx => {
+    const { state, query } = ctx;
+    const email = query.email?.toLowerCase();
+    const rows = [...state.users.values()].filter(
+      u =>
+        (!email || u.email?.toLowerCase() === email) &&
+        (query.list === 'all' || (query.list === 'unverified' ? !u.verified : u.verified)),
+    );
+    const fields = { with: csv(query['with-fields']), exclude: csv(query['exclude-fields']) };
+    const { counts_total, collection } = page(rows, query);
+    return { counts_total, collection: collection.map(u => state.userView(u, fields)) };
+  },
+
+  postUsers: ctx => {
+    if (flag(ctx.query.async)) {
+      const result = upsertUsers(ctx.state, ctx.body);
+      return new MockReply(202, { id: ctx.state.startRequest('postUsers', result).id });
+    }
+    return upsertUsers(ctx.state, ctx.body);
+  },
+
+  postUsersInvite: ctx => {
+    for (const email of ids(ctx.body?.names, 'names')) {
+      if (ctx.state.findUser(email)) continue;
+      const id = ctx.state.newId();
+      ctx.state.users.set(id, { id, email, kind: ctx.body?.role === 'Partner' ? 'partner' : 'employee', verified: false, properties: {} });
+    }
+    return { status: 'ok' };
+  },
+
+  getUsersByUser: ctx => ctx.state.userView(user(ctx), { with: csv(ctx.query['with-fields']) }),
+
+  patchUsersByUser: ctx => {
+    const target = user(ctx);
+    const { name, surname, suspended, email, manager } = ctx.body ?? {};
+    if (email !== undefined && (typeof email !== 'string' || !email.includes('@'))) throw badRequest('email', 'Invalid email address');
+    Object.assign(
+      target,
+      Object.fromEntries(Object.entries({ name, surname, suspended, email, manager }).filter(([, value]) => value !== undefined)),
+    );
+    if (manager === null) delete target.manager;
+  },
+
+  deleteUsersByUser: ctx => {
+    const target = user(ctx);
+    if (ctx.query['delete-owned-entities'] === 'false' && !ctx.query['new-owner']) {
+      throw badRequest('new-owner', 'Required when delete-owned-entities is false');
+    }
+    ctx.state.deleteUser(target.id);
+  },
+
+  getUsersByUserProperties: userProperties.list,
+  putUsersByUserProperties: userProperties.replace,
+  postUsersByUserProperties: userProperties.merge,
+  getUsersByUserPropertiesByProperty: userProperties.get,
+  putUsersByUserPropertiesByProperty: userProperties.put,
+  deleteUsersByUserPropertiesByProperty: userProperties.delete,
+
+  postUserAccountEvents: ctx => {
+    const { event } = ctx.body ?? {};
+    if (event !== 'deactivate' && event !== 'reactivate') throw badRequest('event', 'Must be deactivate or reactivate');
+    for (const email of ids(ctx.body?.emails, 'emails')) user(ctx, email).suspended = event === 'deactivate';
+    return { status: 'ok' };
+  },
+
+  getGroups: ctx => {
+    const { counts_total, collection } = page([...ctx.state.groups.values()], ctx.query);
+    return { counts_total, collection: collection.map(g => ctx.state.groupView(g)) };
+  },
+
+  postGroups: ctx => {
+    const { title, description, visibility } = ctx.body ?? {};
+    if (typeof title !== 'string' || !title) throw badRequest('title', 'Value must be at least 1 character long');
+    const id = ctx.state.newId();
+    ctx.state.groups.set(id, { id, title, description, settings: visibility ? { visibility } : {}, properties: {} });
+    return { id };
+  },
+
+  getGroupsByGroup: ctx => ctx.state.groupView(group(ctx)),
+
+  patchGroupsByGroup: ctx => {
+    const target = group(ctx);
+    const { title, description } = ctx.body ?? {};
+    if (title !== undefined) target.title = title;
+    if (description !== undefined) target.description = description;
+  },
+
+  getGroupsByGroupMembers: ctx => {
+    const members = [...ctx.state.membersOf(group(ctx).id)].flatMap(id => {
+      const member = ctx.state.users.get(id);
+      return member ? [ctx.state.userView(member)] : [];
+    });
+    return page(members, ctx.query);
+  },
+
+  postGroupsByGroupMembers: ctx => {
+    const members = ctx.state.membersOf(group(ctx).id);
+    const users = ids(ctx.body, 'body').map(ref => user(ctx, ref));
+    for (const member of users) members.add(member.id);
+  },
+
+  deleteGroupsByGroupMembersByMember: ctx => {
+    const members = ctx.state.membersOf(group(ctx).id);
+    const member = user(ctx, ctx.params.member);
+    if (!members.delete(member.id)) throw notFound('member', ctx.params.member);
+  },
+
+  getGroupsByGroupProperties: groupProperties.list,
+  putGroupsByGroupProperties: groupProperties.replace,
+  postGroupsByGroupProperties: groupProperties.merge,
+  getGroupsByGroupPropertiesByProperty: groupProperties.get,
+  putGroupsByGroupPropertiesByProperty: groupProperties.put,
+  deleteGroupsByGroupPropertiesByProperty: groupProperties.delete,
+
+  postGroupsByGroupSettingsPermissions: ctx => {
+    group(ctx).settings.permissions = ctx.body;
+  },
+  putGroupsByGroupSettingsVisibility: ctx => {
+    group(ctx).settings.visibility = ctx.body;
+  },
+  putGroupsByGroupSettingsBasics: ctx => {
+    group(ctx).settings.basics = ctx.body;
+  },
+
+  getSpots: ctx => {
+    const official = ctx.query['is-official'];
+    const rows = [...ctx.state.spots.values()].filter(s => official === undefined || Boolean(s.is_official) === flag(official));
+    return page(rows, ctx.query);
+  },
+
+  postSpots: ctx => {
+    const { title, description } = ctx.body ?? {};
+    if (typeof title !== 'string' || !title) throw badRequest('title', 'Value must be at least 1 character long');
+    const id = ctx.state.newId();
+    ctx.state.spots.set(id, { id, title, description, is_official: false });
+    return { id };
+  },
+
+  getSpotsBySpot: ctx => spot(ctx),
+
+  patchSpotsBySpot: ctx => {
+    Object.assign(spot(ctx), ctx.body ?? {}, { id: ctx.params.spot });
+  },
+
+  deleteSpotsBySpot: ctx => {
+    spot(ctx);
+    ctx.state.spots.delete(ctx.params.spot);
+    for (const [id, entry] of ctx.state.items) if (entry.spot === ctx.params.spot) ctx.state.items.delete(id);
+  },
+
+  postSpotsBySpotUsers: ctx => {
+    const access = ctx.state.spotAccess.get(spot(ctx).id) ?? new Map<string, string>();
+    ctx.state.spotAccess.set(ctx.params.spot, access);
+    for (const email of ctx.body?.users ?? []) access.set(user(ctx, email).email ?? email, ctx.query.role);
+    for (const id of ctx.body?.groups ?? []) access.set(group(ctx, id).id, ctx.query.role);
+  },
+
+  getSpotsBySpotLists: ctx => {
+    const id = spot(ctx).id;
+    const global = ctx.state.spotGlobalLists.get(id) ?? new Set<string>();
+    const lists = [...ctx.state.lists.values()].filter(l => l.spot === id || [...global].some(root => ctx.state.listWithDescendants(root).includes(l.id)));
+    return ctx.state.listTree(lists);
+  },
+
+  postSpotsBySpotLists: ctx => {
+    if (typeof ctx.body?.name !== 'string' || !ctx.body.name) throw badRequest('name', 'Value must be at least 1 character long');
+    return ctx.state.addLists([ctx.body], { spot: spot(ctx).id });
+  },
+
+  deleteSpotsBySpotListsByList: ctx => {
+    const target = list(ctx);
+    if (target.spot !== spot(ctx).id) throw new MockHttpError(409, { id: target.id, type: 'list', message: `list ${target.id} is not in spot ${ctx.params.spot}` });
+    for (const id of ctx.state.listWithDescendants(target.id)) ctx.state.lists.delete(id);
+  },
+
+  postSpotsBySpotListsByListItems: ctx => {
+    spot(ctx);
+    const target = list(ctx);
+    for (const id of ids(ctx.body, 'body')) {
+      const entry = item(ctx, id);
+      if (!entry.lists?.includes(target.id)) entry.lists = [...(entry.lists ?? []), target.id];
+    }
+  },
+
+  deleteSpotsBySpotListsByListItemsByItem: ctx => {
+    spot(ctx);
+    const target = list(ctx);
+    const entry = item(ctx);
+    if (!entry.lists?.includes(target.id)) throw notFound('item', ctx.params.item);
+    entry.lists = entry.lists.filter(id => id !== target.id);
+  },
+
+  postSpotsBySpotGlobalLists: ctx => {
+    const attached = ctx.state.spotGlobalLists.get(spot(ctx).id) ?? new Set<string>();
+    ctx.state.spotGlobalLists.set(ctx.params.spot, attached);
+    for (const id of ids(ctx.body, 'body')) {
+      if (!list(ctx, id).is_global) throw badRequest('body', `list ${id} is not a global list`);
+      attached.add(id);
+    }
+  },
+
+  getGlobalLists: ctx => ctx.state.listTree([...ctx.state.lists.values()].filter(l => l.is_global)),
+
+  postGlobalLists: ctx => {
+    if (typeof ctx.body?.name !== 'string' || !ctx.body.name) throw badRequest('name', 'Value must be at least 1 character long');
+    if (ctx.query.parent) list(ctx, ctx.query.parent);
+    return ctx.state.addLists([ctx.body], { parent: ctx.query.parent });
+  },
+
+  patchGlobalListsByList: ctx => {
+    const target = list(ctx);
+    if (!target.is_global) throw notFound('list', target.id);
+    const { name } = ctx.body ?? {};
+    const parent = ctx.body?.parentId ?? ctx.body?.parent_id;
+    if (name !== undefined) target.name = name;
+    if (parent === null) delete target.parent;
+    else if (parent !== undefined) target.parent = list(ctx, parent).id;
+  },
+
+  deleteGlobalListsByList: ctx => {
+    const target = list(ctx);
+    if (!target.is_global) throw notFound('list', target.id);
+    for (const id of ctx.state.listWithDescendants(target.id)) ctx.state.lists.delete(id);
+  },
+
+  getItems: ctx => {
+    const id = spot(ctx, ctx.query.spot).id;
+    if (ctx.query.list) list(ctx, ctx.query.list);
+    const rows = [...ctx.state.items.values()].filter(i => i.spot === id && !i.archived && (!ctx.query.list || i.lists?.includes(ctx.query.list)));
+    const { counts_total, collection } = page(rows, ctx.query);
+    return { counts_total, collection: collection.map(i => ctx.state.itemView(i)) };
+  },
+
+  getItemsByItem: ctx => ctx.state.itemView(item(ctx)),
+
+  patchItemsByItem: ctx => {
+    Object.assign(item(ctx), ctx.body ?? {}, { id: ctx.params.item });
+  },
+
+  getItemsByItemProperties: itemProperties.list,
+  putItemsByItemProperties: itemProperties.replace,
+  postItemsByItemProperties: itemProperties.merge,
+  getItemsByItemPropertiesByProperty: itemProperties.get,
+  putItemsByItemPropertiesByProperty: itemProperties.put,
+  deleteItemsByItemPropertiesByProperty: itemProperties.delete,
+
+  postItemsBatch: ctx => {
+    if (!Array.isArray(ctx.body)) throw badRequest('body', 'Value is not an array');
+    const actions = ctx.body.flatMap((spec: any) => spec?.batch ?? []);
+    for (const action of actions) {
+      const [name, args] = Object.entries<any>(action ?? {})[0] ?? [];
+      const targets = ids(args?.items, `${name}.items`).map(id => item(ctx, id));
+      for (const entry of targets) {
+        if (name === 'archive') entry.archived = true;
+        else if (name === 'restore') entry.archived = false;
+        else if (name === 'delete') ctx.state.items.delete(entry.id);
+        else if (name === 'set_options' && args.value?.expires !== undefined) entry.expires_at = args.value.expires ?? undefined;
+        else if (name === 'setAuthor') entry.author = args.value;
+        else if (name === 'move') entry.spot = spot(ctx, args.spot).id;
+      }
+    }
+  },
+
+  getRequestsById: ctx => {
+    const request = ctx.state.requests.get(ctx.params.id);
+    if (!request) throw notFound('request', ctx.params.id);
+    if (request.pollsLeft > 0) {
+      request.pollsLeft--;
+      return { status: 'pending' };
+    }
+    return { status: 'ok' };
+  },
+
+  getRequestsByIdResult: ctx => {
+    const request = ctx.state.requests.get(ctx.params.id);
+    if (!request) throw notFound('request', ctx.params.id);
+    if (request.pollsLeft > 0) throw new MockHttpError(409, { id: request.id, type: 'request', message: `request ${request.id} has not finished` });
+    return request.result;
+  },
+
+  getPrivacyDataSubject: ctx => {
+    const rows = ctx.state.privacyRequests.flatMap(request => request.rows);
+    const { counts_total, collection } = page(rows, ctx.query);
+    return { count: counts_total, counts_total, collection };
+  },
+
+  postPrivacyDataSubjectAccess: ctx => {
+    const emails = ids(ctx.body?.emails, 'emails');
+    const destination = ctx.body?.destination_spot;
+    if (typeof destination !== 'string') throw badRequest('destination_spot', 'Required for an access request');
+    spot(ctx, destination);
+    const id = ctx.state.fileDataSubjectRequest('access', emails, destination);
+    return { request_id: id, results: emails.map(email => ({ status: 'ok', email, req_submitted: true })) };
+  },
+
+  postPrivacyDataSubjectDelete: ctx => {
+    const emails = ids(ctx.body?.emails, 'emails');
+    const id = ctx.state.fileDataSubjectRequest('deletion', emails);
+    return { request_id: id, results: emails.map(email => ({ status: 'ok', email, req_submitted: true })) };
+  },
+
+  getPrivacyDataSubjectByRequestId: ctx => {
+    const rows = ctx.state.pollDataSubjectRequest(ctx.params.request_id);
+    if (!rows) throw notFound('request', ctx.params.request_id);
+    return { collection: rows };
+  },
+
+  getAuditEvents: ctx => {
+    const { action, email, result, owner, ip, start_time, end_time } = ctx.query;
+    const from = start_time ? Date.parse(start_time) : -Infinity;
+    const to = end_time ? Date.parse(end_time) : Infinity;
+    const events = ctx.state.auditEvents.filter(event => {
+      const at = Date.parse(String(event.event_time ?? event.date));
+      const subject = [event.target, event.details?.user_email].map(value => String(value ?? '').toLowerCase());
+      return (
+        (!action || event.action === action || event.action?.startsWith(`${action}.`)) &&
+        (!email || subject.includes(email.toLowerCase())) &&
+        (!result || event.outcome?.result?.toLowerCase() === result.toLowerCase()) &&
+        (!owner || event.owner === owner) &&
+        (!ip || event.source?.ip === ip) &&
+        at >= from &&
+        at <= to
+      );
+    });
+    const offset = decodeCursor(ctx.query.cursor);
+    const limit = Number(ctx.query.limit ?? 100) || 100;
+    const next = offset + limit;
+    return { events: events.slice(offset, next), ...(next < events.length ? { next_cursor: encodeCursor(next) } : {}) };
+  },
+
+  getSearchItems: ctx => {
+    let rows = searchItems(ctx.state, ctx.query['query-string'] ?? '');
+    if (ctx.query.sortby === 'date_added') rows = [...rows].sort((a, b) => String(b.date_added ?? '').localeCompare(String(a.date_added ?? '')));
+    const { counts_total, collection } = page(rows, ctx.query, 10);
+    return { counts_total, collection: collection.map(i => ctx.state.itemView(i)) };
+  },
+
+  postSearchInstantAnswer: ctx => {
+    const sources = searchItems(ctx.state, ctx.query['query-string'] ?? '')
+      .slice(0, 3)
+      .map(i => ctx.state.itemView(i));
+    if (!sources.length) return { answer: '', sources: [] };
+    return {
+      answer: `According to ${sources.map(s => `"${s.title}"`).join(', ')}: ${sources[0].description ?? ''}`.trim(),
+      sources: sources.map(s => ({ title: s.title, url: s.url })),
+    };
+  },
+};
@@ -0,0 +1,6 @@
+export { startMockServer, MOCK_BASE_PATH } from './server';
+export type { MockCall, MockFault, MockServer, MockServerOptions } from './server';
+export { MockState, defaultMockSeed, mockSeedSchema } from './state';
+export type { MockRequest, MockSeed } from './state';
+export { startFakeAiProxy, cassetteKey, completion } from './aiProxy';
+export type { CassetteEntry, ChatReply, ChatRequest, FakeAiProxy, FakeAiProxyOptions, ScriptedReply } from './aiProxy';
@@ -0,0 +1,223 @@
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import type { NutellaOperationId } from '../mastra/tools/api/generated/nutellaOperations';
+import { badRequest, handlers, MockHttpError, MockReply, notFound } from './handlers';
+import { matchOperation, sampleBody, schemaProblems, successResponse } from './spec';
+import { defaultMockSeed, MockSeed, MockState } from './state';
+
+/** Make matching calls fail or slow down. Faults are consumed in the order they were injected. */
+export type MockFault = {
+  /** Operation to affect, e.g. `getUsers`; every operation when omitted. */
+  operation?: NutellaOperationId;
+  /** Answer with this status instead of handling the call; omit to only add latency. */
+  status?: number;
+  /** `Retry-After` of a 429, in seconds. Defaults to 1. */
+  retryAfterSeconds?: number;
+  /** Error body; defaults to the spec's error shape for `status`. */
+  body?: unknown;
+  latencyMs?: number;
+  /** How many matching calls it affects. Defaults to 1; `Infinity` until cleared. */
+  times?: number;
+};
+
+export type MockServerOptions = {
+  seed?: MockSeed;
+  /** Defaults to a free port. */
+  port?: number;
+  host?: string;
+  /** Added to every call. */
+  latencyMs?: number;
+  /** Polls an async request or data subject request stays pending. Defaults to 1. */
+  asyncPolls?: number;
+  /** Accepted Basic auth tokens; any `Authorization` or `Cookie` header is accepted when omitted. */
+  credentials?: string[];
+  /** Answer 500 when a response does not match its schema in the spec, which flags mock bugs. Defaults to true. */
+  validate?: boolean;
+};
+
+/** A call the mock received, for tests to assert on. */
+export type MockCall = {
+  operation?: NutellaOperationId;
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  body: unknown;
+  status: number;
+};
+
+export type MockServer = {
+  /** API host to hand to NutellaClient or `NUTELLA_API_HOST`, e.g. `http://127.0.0.1:4010/v1.0`. */
+  url: string;
+  readonly state: MockState;
+  calls: MockCall[];
+  inject(fault: MockFault): void;
+  clearFaults(): void;
+  /** Back to `seed` (the server's own seed by default), forgetting faults and calls. */
+  reset(seed?: MockSeed): void;
+  close(): Promise<void>;
+};
+
+export const MOCK_BASE_PATH = '/v1.0';
+// Not part of the API: lets a standalone server be steered over HTTP
+const ADMIN_PATH = '/__mock';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function send(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) {
+  if (body === undefined) {
+    res.writeHead(status, headers).end();
+  } else if (typeof body === 'string') {
+    res.writeHead(status, { 'Content-Type': 'text/plain; charset=utf-8', ...headers }).end(body);
+  } else {
+    res.writeHead(status, { 'Content-Type': 'application/json', ...headers }).end(JSON.stringify(body));
+  }
+}
+
+// The error bodies the spec declares for each status
+function faultError(fault: MockFault, operation: string): MockHttpError {
+  const status = fault.status!;
+  if (status === 429) return new MockHttpError(429, fault.body ?? 'Too many requests.', { 'Retry-After': String(fault.retryAfterSeconds ?? 1) });
+  if (fault.body !== undefined) return new MockHttpError(status, fault.body);
+  if (status === 401) return new MockHttpError(401, 'Could not authenticate user.');
+  if (status === 404) return notFound('route', operation);
+  if (status === 400) return badRequest('body', 'Injected fault');
+  return new MockHttpError(status, status >= 500 ? 'Service Unavailable' : 'Injected fault');
+}
+
+async function readBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  const text = Buffer.concat(chunks).toString('utf8');
+  if (!text) return undefined;
+  if (!String(req.headers['content-type'] ?? '').includes('json')) return text;
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw badRequest('body', 'Body is not valid JSON');
+  }
+}
+
+/**
+ * Start a local stand-in for the Highspot API. Every operation in `spec/hs_open_api.json` is served
+ * under `/v1.0`: users, groups, spots, items, lists, audit events, async requests and data subject
+ * requests are backed by state seeded from `options.seed`, everything else answers with a sample of
+ * its response schema. Use `inject` to make calls fail, get rate limited or slow down.
+ */
+export async function startMockServer(options: MockServerOptions = {}): Promise<MockServer> {
+  const seed = options.seed ?? defaultMockSeed;
+  let state = new MockState(seed, { asyncPolls: options.asyncPolls });
+  let faults: MockFault[] = [];
+  const calls: MockCall[] = [];
+  const validate = options.validate ?? true;
+
+  const takeFault = (operation: NutellaOperationId) => {
+    const fault = faults.find(f => !f.operation || f.operation === operation);
+    if (!fault) return undefined;
+    fault.times = (fault.times ?? 1) - 1;
+    if (fault.times <= 0) faults = faults.filter(f => f !== fault);
+    return fault;
+  };
+
+  const handleAdmin = async (req: IncomingMessage, res: ServerResponse, path: string) => {
+    const body: any = await readBody(req);
+    if (path === `${ADMIN_PATH}/faults` && req.method === 'POST') server.inject(body ?? {});
+    else if (path === `${ADMIN_PATH}/faults` && req.method === 'DELETE') server.clearFaults();
+    else if (path === `${ADMIN_PATH}/reset` && req.method === 'POST') server.reset(body);
+    else if (path === `${ADMIN_PATH}/calls` && req.method === 'GET') return send(res, 200, calls);
+    else throw notFound('route', path);
+    send(res, 204, undefined);
+  };
+
+  const handle = async (req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url ?? '/', 'http://mock');
+    const method = req.method ?? 'GET';
+    if (url.pathname.startsWith(ADMIN_PATH)) return handleAdmin(req, res, url.pathname);
+
+    const path = url.pathname.startsWith(MOCK_BASE_PATH) ? url.pathname.slice(MOCK_BASE_PATH.length) || '/' : url.pathname;
+    const query = Object.fromEntries(url.searchParams);
+    const call: MockCall = { method, path, query, body: undefined, status: 0 };
+    calls.push(call);
+
+    const reply = (status: number, body: unknown, headers?: Record<string, string>) => {
+      call.status = status;
+      send(res, status, body, headers);
+    };
+
+    try {
+      call.body = await readBody(req);
+      const match = matchOperation(method, path);
+      if (!match) throw notFound('route', `${method} ${path}`);
+      call.operation = match.id;
+
+      const fault = takeFault(match.id);
+      const latency = (options.latencyMs ?? 0) + (fault?.latencyMs ?? 0);
+      if (latency > 0) await sleep(latency);
+      if (fault?.status) throw faultError(fault, match.id);
+
+      const authorization = req.headers.authorization;
+      const token = authorization?.replace(/^Basic\s+/i, '');
+      const authenticated = options.credentials ? Boolean(token && options.credentials.includes(token)) : Boolean(authorization || req.headers.cookie);
+      if (!authenticated) throw new MockHttpError(401, 'Could not authenticate user.');
+
+      const hsUser = req.headers['hs-user'] as string | undefined;
+      if (hsUser && !state.findUser(hsUser)) throw new MockHttpError(401, 'User to impersonate does not exist.');
+
+      for (const param of match.operation.parameters) {
+        if (param.required && param.in === 'query' && query[param.name] === undefined) throw badRequest(param.name, 'Value is required');
+      }
+      if (match.operation.requestBody?.required && call.body === undefined) throw badRequest('body', 'Request body is required');
+
+      const handler = handlers[match.id];
+      const result = handler ? handler({ state, params: match.params, query, body: call.body, hsUser }) : sampleBody(match.operation);
+      const response = successResponse(match.operation);
+      const status = result instanceof MockReply ? result.status : response.status;
+      const body = result instanceof MockReply ? result.body : result;
+
+      if (validate && body !== undefined && status === response.status) {
+        const problems = schemaProblems(response, body);
+        if (problems) throw new MockHttpError(500, `Mock response for ${match.id} does not match ${response.schemaName}: ${problems}`);
+      }
+      reply(status, body);
+    } catch (err) {
+      if (err instanceof MockHttpError) return reply(err.status, err.body, err.headers);
+      reply(500, `Mock server error: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const http = createServer((req, res) => {
+    handle(req, res).catch(err => {
+      if (err instanceof MockHttpError) return send(res, err.status, err.body, err.headers);
+      if (!res.headersSent) send(res, 500, String(err?.message ?? err));
+    });
+  });
+  await new Promise<void>((resolve, reject) => {
+    http.once('error', reject);
+    http.listen(options.port ?? 0, options.host ?? '127.0.0.1', () => resolve());
+  });
+  const { address, port } = http.address() as AddressInfo;
+
+  const server: MockServer = {
+    url: `http://${address.includes(':') ? `[${address}]` : address}:${port}${MOCK_BASE_PATH}`,
+    get state() {
+      return state;
+    },
+    calls,
+    inject: fault => {
+      faults.push({ ...fault });
+    },
+    clearFaults: () => {
+      faults = [];
+    },
+    reset: next => {
+      state = new MockState(next ?? seed, { asyncPolls: options.asyncPolls });
+      faults = [];
+      calls.length = 0;
+    },
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        http.closeAllConnections();
+        http.close(err => (err ? reject(err) : resolve()));
+      }),
+  };
+  return server;
+}
@@ -0,0 +1,156 @@
+import { readFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { nutellaOperations, NutellaOperation, NutellaOperationId } from '../mastra/tools/api/generated/nutellaOperations';
+import { nutellaSchemas, NutellaSchemaName } from '../mastra/tools/api/generated/nutellaSchemas';
+
+type JsonSchema = Record<string, any>;
+
+const SPEC_FILE = fileURLToPath(new URL('../mastra/tools/api/spec/hs_open_api.json', import.meta.url));
+
+let spec: Record<string, any> | undefined;
+
+/** The OpenAPI document the client was generated from; read once. */
+export function openApiSpec(): Record<string, any> {
+  spec ??= JSON.parse(readFileSync(SPEC_FILE, { encoding: 'utf8' }));
+  return spec!;
+}
+
+/** What an operation answers with when it succeeds, as declared by the spec. */
+export type SuccessResponse = {
+  status: number;
+  /** `undefined` for responses without a body (most writes). */
+  contentType?: string;
+  /** Component the body is declared as, when it is a `$ref` the generated zod schemas cover. */
+  schemaName?: NutellaSchemaName;
+  schema?: JsonSchema;
+  example?: unknown;
+};
+
+const refName = (ref: string) => ref.split('/').pop()!;
+
+function resolve(schema: JsonSchema | undefined): JsonSchema | undefined {
+  if (!schema?.$ref) return schema;
+  return resolve(openApiSpec().components.schemas[refName(schema.$ref)]);
+}
+
+function mediaExample(media: Record<string, any>) {
+  if (media.example !== undefined) return media.example;
+  const first = Object.values(media.examples ?? {})[0] as any;
+  return first?.value;
+}
+
+const responses = new Map<string, SuccessResponse>();
+
+/** The first 2xx response the spec declares for `operation`, preferring a JSON body. */
+export function successResponse(operation: NutellaOperation): SuccessResponse {
+  const cached = responses.get(operation.id);
+  if (cached) return cached;
+
+  const declared = openApiSpec().paths[operation.path]?.[operation.method.toLowerCase()]?.responses ?? {};
+  const code = Object.keys(declared).find(status => status.startsWith('2')) ?? '200';
+  const content: Record<string, any> = declared[code]?.content ?? {};
+  const contentType = Object.keys(content).find(type => type.includes('json')) ?? Object.keys(content)[0];
+  const media = contentType ? content[contentType] : undefined;
+  const ref: string | undefined = media?.schema?.$ref;
+  const name = ref ? refName(ref) : undefined;
+
+  const response: SuccessResponse = {
+    status: Number(code),
+    contentType,
+    schemaName: name && name in nutellaSchemas ? (name as NutellaSchemaName) : undefined,
+    schema: media?.schema,
+    example: media ? mediaExample(media) : undefined,
+  };
+  responses.set(operation.id, response);
+  return response;
+}
+
+// Recursive components (a list's `children` are lists) are cut off at this depth
+const MAX_DEPTH = 4;
+
+/** A value of `schema` built from its examples, enums and types. */
+export function synthesize(schema: JsonSchema | undefined, depth = 0): unknown {
+  const resolved = resolve(schema);
+  if (!resolved) return {};
+  if (resolved.example !== undefined && depth > 0) return resolved.example;
+  if (resolved.enum) return resolved.enum[0];
+  if (resolved.oneOf || resolved.anyOf) return synthesize((resolved.oneOf ?? resolved.anyOf)[0], depth + 1);
+  if (resolved.allOf) return Object.assign({}, ...resolved.allOf.map((part: JsonSchema) => synthesize(part, depth + 1)));
+
+  switch (resolved.type) {
+    case 'array':
+      return depth >= MAX_DEPTH ? [] : [synthesize(resolved.items, depth + 1)];
+    case 'string':
+      return resolved.format === 'date-time' ? new Date(0).toISOString() : 'string';
+    case 'integer':
+    case 'number':
+    case 'float':
+      return 0;
+    case 'boolean':
+      return false;
+    default: {
+      if (depth >= MAX_DEPTH) return {};
+      const out: Record<string, unknown> = {};
+      for (const [key, property] of Object.entries<JsonSchema>(resolved.properties ?? {})) out[key] = synthesize(property, depth + 1);
+      return out;
+    }
+  }
+}
+
+/** Check a response body against the generated zod schema of its component; `null` when it conforms. */
+export function schemaProblems(response: SuccessResponse, body: unknown): string | null {
+  if (!response.schemaName) return null;
+  const parsed = nutellaSchemas[response.schemaName].safeParse(body);
+  if (parsed.success) return null;
+  return parsed.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`).join('; ');
+}
+
+/**
+ * A schema-valid body for operations the mock keeps no state for: the spec's own example when it
+ * conforms (some do not), otherwise one synthesized from the schema.
+ */
+export function sampleBody(operation: NutellaOperation): unknown {
+  const response = successResponse(operation);
+  if (!response.contentType) return undefined;
+  const example = response.example ?? resolve(response.schema)?.example;
+  if (example !== undefined && schemaProblems(response, example) === null) return example;
+  return synthesize(response.schema);
+}
+
+export type Route = {
+  operation: NutellaOperation;
+  pattern: RegExp;
+  /** Path parameter names in the order they appear. */
+  names: string[];
+};
+
+let routes: Route[] | undefined;
+
+/** One route per operation; templates with fewer parameters are tried first so `/items/batch` wins over `/items/{item}`. */
+export function operationRoutes(): Route[] {
+  if (routes) return routes;
+  routes = Object.values(nutellaOperations)
+    .map(operation => {
+      const names: string[] = [];
+      const source = operation.path.replace(/[.*+?^$()|[\]\\]/g, '\\$&').replace(/\{([^}]+)\}/g, (_, name) => {
+        names.push(name);
+        return '([^/]+)';
+      });
+      return { operation, pattern: new RegExp(`^${source}/?$`), names };
+    })
+    .sort((a, b) => a.names.length - b.names.length);
+  return routes;
+}
+
+/** The operation serving `method` and `path`, with its decoded path parameters. */
+export function matchOperation(method: string, path: string): { id: NutellaOperationId; operation: NutellaOperation; params: Record<string, string> } | undefined {
+  for (const route of operationRoutes()) {
+    if (route.operation.method !== method) continue;
+    const match = route.pattern.exec(path);
+    if (!match) continue;
+    const params: Record<string, string> = {};
+    route.names.forEach((name, i) => (params[name] = decodeURIComponent(match[i + 1])));
+    return { id: route.operation.id as NutellaOperationId, operation: route.operation, params };
+  }
+  return undefined;
+}
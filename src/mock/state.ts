@@ -0,0 +1,262 @@
+import { randomUUID } from 'crypto';
+import { z } from 'zod';
+import { groupSchema, itemSchema, listSchema, spotSchema, userSchema } from '../mastra/tools/api/generated/nutellaSchemas';
+import type { AuditEvents, Group, Item, List, Requests, Spot, User } from '../mastra/tools/api/generated/nutellaSchemas';
+
+type AuditEvent = NonNullable<AuditEvents['events']>[number];
+type PrivacyRow = NonNullable<Requests['collection']>[number];
+
+/**
+ * Fixture data the mock starts from. Entities use the API's own shapes; the extra fields say what
+ * the API keeps elsewhere (group members, list placement, whether a user verified their email).
+ */
+export const mockSeedSchema = z
+  .object({
+    users: z.array(userSchema.and(z.object({ verified: z.boolean().optional(), kind: z.enum(['employee', 'partner']).optional(), manager: z.string().optional() }))).default([]),
+    groups: z.array(groupSchema.and(z.object({ members: z.array(z.string()).optional(), properties: z.record(z.unknown()).optional() }))).default([]),
+    spots: z.array(spotSchema).default([]),
+    /** `lists` holds the ids of the lists an item is in. */
+    items: z.array(itemSchema.and(z.object({ archived: z.boolean().optional(), properties: z.record(z.unknown()).optional() }))).default([]),
+    /** Flat, nested with `parent`. Lists with a `spot` belong to it; the others are global lists. */
+    lists: z.array(listSchema.and(z.object({ spot: z.string().optional() }))).default([]),
+    auditEvents: z.array(z.record(z.unknown())).default([]),
+    privacyRequests: z.array(z.record(z.unknown())).default([]),
+  })
+  .strict();
+
+export type MockSeed = Partial<z.infer<typeof mockSeedSchema>>;
+
+type MockUser = User & { id: string; verified: boolean; kind?: string; manager?: string; properties: Record<string, unknown> };
+type MockGroup = Group & { id: string; settings: Record<string, unknown>; properties: Record<string, unknown> };
+type MockItem = Item & { id: string; archived: boolean; properties: Record<string, unknown> };
+type MockList = List & { id: string; spot?: string };
+
+/** An asynchronous `/requests/{id}` job: reported `pending` for `pollsLeft` more polls, then `ok` with `result`. */
+export type MockRequest = { id: string; operation: string; pollsLeft: number; result: unknown };
+
+/** A filed data subject request; its rows move from `In_Progress` to `Complete` after `pollsLeft` polls. */
+type MockPrivacyRequest = { id: string; pollsLeft: number; rows: PrivacyRow[] };
+
+const hex = (n: number) => n.toString(16).padStart(24, '0');
+
+/**
+ * Everything the mock API knows, mutated by its write operations. Ids are deterministic so the same
+ * seed always yields the same ids.
+ */
+export class MockState {
+  users = new Map<string, MockUser>();
+  groups = new Map<string, MockGroup>();
+  /** Group id -> member user ids. */
+  members = new Map<string, Set<string>>();
+  spots = new Map<string, Spot & { id: string }>();
+  /** Spot id -> user email or group id -> role. */
+  spotAccess = new Map<string, Map<string, string>>();
+  items = new Map<string, MockItem>();
+  lists = new Map<string, MockList>();
+  /** Spot id -> ids of the global lists shown in it. */
+  spotGlobalLists = new Map<string, Set<string>>();
+  auditEvents: AuditEvent[] = [];
+  requests = new Map<string, MockRequest>();
+  privacyRequests: MockPrivacyRequest[] = [];
+  /** How many polls an async job stays pending. */
+  asyncPolls: number;
+  private seq = 0;
+
+  constructor(seed: MockSeed = defaultMockSeed, options: { asyncPolls?: number } = {}) {
+    this.asyncPolls = options.asyncPolls ?? 1;
+    const data = mockSeedSchema.parse(seed);
+
+    for (const { groups, verified, properties, ...user } of data.users) {
+      const id = user.id ?? this.newId();
+      this.users.set(id, { ...user, id, verified: verified ?? true, properties: properties ?? {} });
+      for (const group of groups ?? []) this.membersOf(group).add(id);
+    }
+    for (const { members, properties, ...group } of data.groups) {
+      const id = group.id ?? this.newId();
+      this.groups.set(id, { ...group, id, settings: {}, properties: properties ?? {} });
+      for (const member of members ?? []) this.membersOf(id).add(member);
+    }
+    for (const spot of data.spots) {
+      const id = spot.id ?? this.newId();
+      this.spots.set(id, { ...spot, id });
+    }
+    for (const list of data.lists) {
+      const id = list.id ?? this.newId();
+      this.lists.set(id, { ...list, id, is_global: !list.spot });
+    }
+    for (const { archived, properties, ...item } of data.items) {
+      const id = item.id ?? this.newId();
+      this.items.set(id, { ...item, id, archived: archived ?? false, properties: properties ?? {} });
+    }
+    this.auditEvents = (data.auditEvents as AuditEvent[]).sort((a, b) => String(b.event_time ?? b.date).localeCompare(String(a.event_time ?? a.date)));
+    for (const row of data.privacyRequests as PrivacyRow[]) {
+      const id = row.request_id ?? randomUUID();
+      let request = this.privacyRequests.find(r => r.id === id);
+      if (!request) this.privacyRequests.push((request = { id, pollsLeft: 0, rows: [] }));
+      request.rows.push({ ...row, request_id: id });
+    }
+  }
+
+  newId() {
+    return hex(0xa000000000 + ++this.seq);
+  }
+
+  membersOf(group: string) {
+    let members = this.members.get(group);
+    if (!members) this.members.set(group, (members = new Set()));
+    return members;
+  }
+
+  /** Users are addressed by id or email. */
+  findUser(ref: string): MockUser | undefined {
+    const lower = ref.toLowerCase();
+    return this.users.get(ref) ?? [...this.users.values()].find(user => user.email?.toLowerCase() === lower);
+  }
+
+  /** A user as the API returns it: group ids joined in, mock-only fields dropped. */
+  userView(user: MockUser, fields: { with?: string[]; exclude?: string[] } = {}): User {
+    const { verified, kind, manager, properties, ...rest } = user;
+    const view: User = {
+      ...rest,
+      display_name: rest.display_name ?? ([rest.name, rest.surname].filter(Boolean).join(' ') || undefined),
+      groups: [...this.members].filter(([, ids]) => ids.has(user.id)).map(([group]) => group),
+      suspended: rest.suspended ?? false,
+      ...(fields.with?.includes('properties') ? { properties } : {}),
+    };
+    for (const field of fields.exclude ?? []) delete view[field];
+    return view;
+  }
+
+  groupView({ settings, properties, ...group }: MockGroup): Group {
+    return group;
+  }
+
+  itemView({ archived, properties, ...item }: MockItem): Item {
+    return { url: `https://app.highspot.com/items/${item.id}`, ...item, lists: item.lists ?? [] };
+  }
+
+  /** Lists as a tree, `children` nested under their `parent`. */
+  listTree(lists: MockList[]): List[] {
+    const ids = new Set(lists.map(list => list.id));
+    const build = (list: MockList): List => {
+      const { spot, ...rest } = list;
+      const children = lists.filter(child => child.parent === list.id).map(build);
+      return children.length ? { ...rest, type: rest.type ?? 'list_group', children } : { ...rest, type: rest.type ?? 'list' };
+    };
+    return lists.filter(list => !list.parent || !ids.has(list.parent)).map(build);
+  }
+
+  /** The list and every list nested under it. */
+  listWithDescendants(id: string): string[] {
+    const children = [...this.lists.values()].filter(list => list.parent === id).flatMap(list => this.listWithDescendants(list.id));
+    return [id, ...children];
+  }
+
+  /** Add `lists` (API `add-lists` bodies, nested with `children`) under `parent`; returns the created lists as a tree. */
+  addLists(body: any[], placement: { spot?: string; parent?: string }): List[] {
+    const created: MockList[] = [];
+    const add = (entry: any, parent?: string) => {
+      const id = this.newId();
+      const type = entry.type === 'list-group' || entry.children?.length ? 'list_group' : 'list';
+      const list: MockList = { id, name: entry.name, description: entry.description, type, featured: entry.featured, parent, spot: placement.spot, is_global: !placement.spot };
+      this.lists.set(id, list);
+      created.push(list);
+      for (const child of entry.children ?? []) add(child, id);
+    };
+    for (const entry of body) add(entry, placement.parent);
+    return this.listTree(created);
+  }
+
+  /** Start an async job whose `/requests/{id}/result` is `result`. */
+  startRequest(operation: string, result: unknown): MockRequest {
+    const request = { id: this.newId(), operation, pollsLeft: this.asyncPolls, result };
+    this.requests.set(request.id, request);
+    return request;
+  }
+
+  /** File a data subject request for `emails`; returns its id. */
+  fileDataSubjectRequest(type: 'access' | 'deletion', emails: string[], destinationSpot?: string): string {
+    const id = randomUUID();
+    const submitted = new Date().toISOString();
+    const rows = emails.map(email => ({
+      request_id: id,
+      data_subject_email: email,
+      type,
+      status: 'In_Progress',
+      destination_spot: destinationSpot,
+      date_submitted: submitted,
+      date_completed: '',
+    }));
+    this.privacyRequests.push({ id, pollsLeft: this.asyncPolls, rows });
+    return id;
+  }
+
+  /** Poll a data subject request, completing it once its polls are used up. */
+  pollDataSubjectRequest(id: string): PrivacyRow[] | undefined {
+    const request = this.privacyRequests.find(r => r.id === id);
+    if (!request) return undefined;
+    if (request.pollsLeft > 0 && --request.pollsLeft === 0) {
+      const completed = new Date().toISOString();
+      for (const row of request.rows) {
+        row.status = 'Complete';
+        row.date_completed = completed;
+        // Deleting a subject erases the user
+        const user = row.type === 'deletion' && row.data_subject_email ? this.findUser(row.data_subject_email) : undefined;
+        if (user) this.deleteUser(user.id);
+      }
+    }
+    return request.rows;
+  }
+
+  deleteUser(id: string) {
+    this.users.delete(id);
+    for (const members of this.members.values()) members.delete(id);
+  }
+}
+
+/** A small domain to develop against: a handful of users, groups, spots with items and lists, audit events and one finished data subject request. */
+export const defaultMockSeed: MockSeed = {
+  users: [
+    { id: '64a000000000000000000001', name: 'Ada', surname: 'Admin', email: 'ada.admin@example.com', kind: 'employee', properties: { region: 'EMEA', title: 'Enablement Lead' } },
+    { id: '64a000000000000000000002', name: 'Sam', surname: 'Seller', email: 'sam.seller@example.com', kind: 'employee', manager: '64a000000000000000000001', properties: { region: 'NA' } },
+    { id: '64a000000000000000000003', name: 'Rita', surname: 'Rep', email: 'rita.rep@example.com', kind: 'employee', manager: '64a000000000000000000001', properties: { region: 'NA' } },
+    { id: '64a000000000000000000004', name: 'Paul', surname: 'Partner', email: 'paul@partner.example.net', kind: 'partner' },
+    { id: '64a000000000000000000005', name: 'Olga', surname: 'Offboarded', email: 'olga.offboarded@example.com', kind: 'employee', suspended: true },
+    { id: '64a000000000000000000006', name: 'Nina', surname: 'New', email: 'nina.new@example.com', kind: 'employee', verified: false },
+  ],
+  groups: [
+    { id: '64b000000000000000000001', title: 'Sales', description: 'Field and inside sales', members: ['64a000000000000000000002', '64a000000000000000000003'] },
+    { id: '64b000000000000000000002', title: 'Enablement', description: 'Sales enablement team', members: ['64a000000000000000000001'] },
+    { id: '64b000000000000000000003', title: 'Partners', description: 'External partners', members: ['64a000000000000000000004'] },
+  ],
+  spots: [
+    { id: '64c000000000000000000001', title: 'Sales Playbook', description: 'Everything a seller needs', is_official: true },
+    { id: '64c000000000000000000002', title: 'Product Launches', description: 'Launch kits and release notes', is_official: false },
+    { id: '64c000000000000000000003', title: 'Partner Portal', description: 'Content shared with partners', is_official: false },
+  ],
+  lists: [
+    { id: '64d000000000000000000001', spot: '64c000000000000000000001', name: 'Discovery', type: 'list' },
+    { id: '64d000000000000000000002', spot: '64c000000000000000000001', name: 'Closing', type: 'list' },
+    { id: '64d000000000000000000003', name: 'Region', type: 'list_group' },
+    { id: '64d000000000000000000004', name: 'North America', type: 'list', parent: '64d000000000000000000003' },
+  ],
+  items: [
+    { id: '64e000000000000000000001', spot: '64c000000000000000000001', title: 'Discovery call guide', description: 'Questions to qualify a new opportunity', content_type: 'Document', author: 'Ada Admin', date_added: '2025-01-10T09:00:00Z', lists: ['64d000000000000000000001'] },
+    { id: '64e000000000000000000002', spot: '64c000000000000000000001', title: 'Pricing objection handling', description: 'How to answer pricing and discount objections', content_type: 'Document', author: 'Ada Admin', date_added: '2025-02-03T09:00:00Z', lists: ['64d000000000000000000002'] },
+    { id: '64e000000000000000000003', spot: '64c000000000000000000001', title: 'Mutual close plan template', description: 'Template for agreeing next steps with a buyer', content_type: 'Spreadsheet', date_added: '2025-02-20T09:00:00Z', lists: ['64d000000000000000000002'] },
+    { id: '64e000000000000000000004', spot: '64c000000000000000000001', title: 'Legacy pricing sheet', description: 'Pricing before the 2024 packaging change', content_type: 'Spreadsheet', date_added: '2023-06-01T09:00:00Z', expires_at: '2024-12-31', lists: [] },
+    { id: '64e000000000000000000005', spot: '64c000000000000000000002', title: 'Spring launch overview', description: 'Release notes and talk track for the spring launch', content_type: 'Presentation', date_added: '2025-03-01T09:00:00Z', lists: ['64d000000000000000000004'] },
+    { id: '64e000000000000000000006', spot: '64c000000000000000000002', title: 'Spring launch FAQ', description: 'Answers to common questions about the spring launch', content_type: 'Document', date_added: '2025-03-02T09:00:00Z', lists: [] },
+    { id: '64e000000000000000000007', spot: '64c000000000000000000003', title: 'Partner onboarding checklist', description: 'Steps for new partners', content_type: 'Document', date_added: '2024-11-15T09:00:00Z', lists: [] },
+  ],
+  auditEvents: [
+    { date: '2025-03-07T14:01:45Z', event_time: '2025-03-07T14:00:56+00:00', owner: 'example.com', domain: 'example.com', actor: { type: 'user', id: '64a000000000000000000002', name: 'Sam Seller' }, action: 'user.authentication.sso.verified', target: 'sam.seller@example.com', outcome: { result: 'SUCCEEDED' }, details: { user_email: 'sam.seller@example.com' }, source: { ip: '203.0.113.10' } },
+    { date: '2025-03-07T15:12:03Z', event_time: '2025-03-07T15:12:01+00:00', owner: 'example.com', domain: 'example.com', actor: { type: 'anonymous', id: 'none' }, action: 'user.authentication.password.failed', target: 'rita.rep@example.com', outcome: { result: 'FAILED' }, details: { user_email: 'rita.rep@example.com' }, source: { ip: '198.51.100.7' } },
+    { date: '2025-03-07T15:12:40Z', event_time: '2025-03-07T15:12:38+00:00', owner: 'example.com', domain: 'example.com', actor: { type: 'anonymous', id: 'none' }, action: 'user.authentication.password.failed', target: 'rita.rep@example.com', outcome: { result: 'FAILED' }, details: { user_email: 'rita.rep@example.com' }, source: { ip: '198.51.100.7' } },
+    { date: '2025-03-08T08:30:00Z', event_time: '2025-03-08T08:29:58+00:00', owner: 'example.com', domain: 'example.com', actor: { type: 'user', id: '64a000000000000000000001', name: 'Ada Admin' }, action: 'user.updated', target: 'olga.offboarded@example.com', outcome: { result: 'SUCCEEDED' }, details: { user_email: 'olga.offboarded@example.com', changes: { suspended: true } }, source: { ip: '203.0.113.5' } },
+    { date: '2025-03-09T10:00:00Z', event_time: '2025-03-09T09:59:59+00:00', owner: 'example.com', domain: 'example.com', actor: { type: 'user', id: '64a000000000000000000001', name: 'Ada Admin' }, action: 'group.member.added', target: '64b000000000000000000001', outcome: { result: 'SUCCEEDED' }, details: { user_email: 'rita.rep@example.com' }, source: { ip: '203.0.113.5' } },
+  ],
+  privacyRequests: [
+    { request_id: '0b7c3f0e-8d6a-4d8e-9a51-1f3f4c2b9a10', data_subject_email: 'former.employee@example.com', type: 'deletion', status: 'Complete', date_submitted: '2025-02-01T10:00:00Z', date_completed: '2025-02-02T10:00:00Z' },
+  ],
+};
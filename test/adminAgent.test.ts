@@ -0,0 +1,45 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createOperationTools } from '../src/mastra/tools/operationTools';
+
+// Read when the agent module is first imported
+process.env.NUTELLA_TOOL_ALLOW_WRITES = 'true';
+process.env.LOG_LEVEL ??= 'silent';
+
+describe('adminAgent', () => {
+  it('reaches confirmed writes only through their plan and confirm tools', async () => {
+    const { adminAgent } = await import('../src/mastra/agents');
+    const tools = Object.keys(await adminAgent.getTools());
+
+    for (const operation of ['postUsers', 'deleteUsersByUser', 'putUsersByUserProperties', 'deleteGroupsByGroupMembersByMember', 'postItemsBatch', 'deleteGlobalListsByList']) {
+      assert.ok(!tools.includes(operation), `${operation} is exposed as a raw tool`);
+    }
+    assert.ok(tools.includes('planUserChangesTool'));
+    assert.ok(tools.includes('confirmUserChangesTool'));
+    // Writes no flow covers are still exposed when allowed
+    assert.ok(tools.includes('postSpots'));
+  });
+
+  it('never gets privacy filings as operation tools, even with every write allowed', () => {
+    const tools = createOperationTools({ allowWrites: true });
+
+    assert.equal(tools.postPrivacyDataSubjectDelete, undefined);
+    assert.equal(tools.postPrivacyDataSubjectAccess, undefined);
+    assert.ok(tools.postSpots);
+  });
+
+  it('offers only the plan and confirm tools whose writes are allowed', async () => {
+    const { confirmedChangeTools } = await import('../src/mastra/agents');
+
+    assert.deepEqual(Object.keys(confirmedChangeTools({ allowWrites: ['postUsers'] })), ['planUserChangesTool', 'confirmUserChangesTool']);
+    assert.deepEqual(Object.keys(confirmedChangeTools({ allowWrites: ['postUsers', 'putUsersByUserProperties', 'postPrivacyDataSubjectDelete'] })), [
+      'planUserChangesTool',
+      'confirmUserChangesTool',
+      'planUserImportTool',
+      'confirmUserImportTool',
+      'planPrivacyRequestTool',
+      'confirmPrivacyRequestTool',
+    ]);
+    assert.deepEqual(confirmedChangeTools({ allowWrites: false }), {});
+  });
+});
@@ -0,0 +1,368 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { ScriptedReply, startFakeAiProxy } from '../src/mock';
+import { StructuredAnswer, STRUCTURED_ANSWER_INSTRUCTIONS } from '../src/mastra/tools/api/util/structuredAnswer';
+import { CLASSIFIER, Harness, PLANNER, promptData, routeTo, startHarness, TEST_TOKEN } from './harness';
+
+const ANSWER = 'analyzing';
+
+// The answer prompt generateAnswer builds, kept verbatim so prompt changes are deliberate
+function answerSystemPrompt(entityType: string, query: string, extra = '') {
+  return (
+    `You are a helpful assistant analyzing ${entityType} data. \n    \n` +
+    `Entity Type: ${entityType}\nOriginal Query: "${query}"\n\n` +
+    `Please analyze the provided ${entityType} data and answer the user's query comprehensively.${extra}\n${STRUCTURED_ANSWER_INSTRUCTIONS}`
+  );
+}
+
+const NINA = '64a000000000000000000006';
+const SALES_PLAYBOOK = '64c000000000000000000001';
+
+/** A structured answer reply; a table is given as its rows, every column typed as a string. */
+function structured(summary: string, rows: Record<string, string>[] = [], rest: Partial<StructuredAnswer> = {}): string {
+  const table = rows.length ? { columns: Object.keys(rows[0]).map(key => ({ key, label: key, type: 'string' as const })), rows } : null;
+  return JSON.stringify({ summary, table, counts: [], citations: rows.map(row => ({ claim: summary, ids: [row.id] })), ...rest });
+}
+
+const fetchSteps = (result: any) => Object.keys(result.steps).filter(id => id.startsWith('fetch-'));
+const callsTo = (harness: Harness, operation: string) => harness.nutella.calls.filter(call => call.operation === operation);
+
+describe('adminWorkflow', () => {
+  let harness: Harness;
+
+  before(async () => {
+    harness = await startHarness({
+      script: [
+        { system: ANSWER, user: 'unverified', reply: structured('One user has not verified their email: nina.new@example.com.', [{ id: NINA, email: 'nina.new@example.com' }]) },
+        { system: ANSWER, user: 'official', match: request => !request.stream, reply: structured('Sales Playbook is the only official spot.', [{ id: SALES_PLAYBOOK, title: 'Sales Playbook' }]) },
+        { system: ANSWER, user: 'official', reply: 'Sales Playbook is the only official spot.' },
+        {
+          system: ANSWER,
+          user: 'failed',
+          reply: structured('rita.rep@example.com failed to sign in twice from 198.51.100.7.', [], { counts: [{ label: 'failed sign-ins', value: 2 }] }),
+        },
+        { system: ANSWER, user: 'suspended', reply: structured('One user is suspended.', [], { counts: [{ label: 'suspended users', value: 1 }] }) },
+        { system: ANSWER, user: 'pricing', reply: 'Acknowledge the concern, then anchor on value [1].' },
+      ],
+    });
+  });
+
+  after(async () => {
+    await harness.close();
+  });
+
+  // Runs one query with replies that take precedence over the shared answers for this run only
+  const run = async (input: string | { query: string; threadId?: string }, ...replies: ScriptedReply[]) => {
+    harness.ai.requests.length = 0;
+    harness.nutella.reset();
+    harness.ai.script.unshift(...replies);
+    try {
+      return await harness.run(typeof input === 'string' ? { query: input } : input);
+    } finally {
+      harness.ai.script.splice(0, replies.length);
+    }
+  };
+
+  it('routes with the LLM classifier and answers from the fetched users', async () => {
+    const query = 'Show me the unverified users';
+    const result = await run(query, routeTo('users', { list: 'unverified' }));
+
+    assert.equal(result.status, 'success');
+    const route = result.steps['determine-route'].output;
+    assert.equal(route.route, 'users');
+    assert.equal(route.source, 'llm');
+    assert.equal(route.params.list, 'unverified');
+    assert.deepEqual(fetchSteps(result), ['fetch-users-data']);
+
+    const [getUsers] = callsTo(harness, 'getUsers');
+    assert.equal(getUsers.query.list, 'unverified');
+    assert.equal(getUsers.query.start, '0');
+
+    const [classify, answer] = harness.ai.requests;
+    assert.equal(harness.ai.requests.length, 2);
+    assert.equal(classify.token, TEST_TOKEN);
+    assert.equal(classify.model, 'gpt-test');
+    assert.equal(classify.temperature, 0);
+    assert.ok(classify.messages[0].content.startsWith(CLASSIFIER));
+    assert.deepEqual(classify.messages[1], { role: 'user', content: query });
+
+    assert.equal(answer.temperature, 0.2);
+    assert.deepEqual(
+      answer.messages.map(m => m.role),
+      ['system', 'system', 'user'],
+    );
+    assert.equal(answer.messages[0].content, answerSystemPrompt('users', query));
+    assert.ok(answer.messages[1].content.startsWith('Users Data (JSON):\n'));
+    assert.deepEqual(
+      promptData(answer.messages[1].content).map((u: any) => u.email),
+      ['nina.new@example.com'],
+    );
+    assert.equal(answer.messages[2].content, query);
+
+    assert.equal(result.result.answer, 'One user has not verified their email: nina.new@example.com.');
+    assert.deepEqual(result.result.structured.table.rows, [{ id: NINA, email: 'nina.new@example.com' }]);
+    assert.deepEqual(result.result.structured.citations, [{ claim: result.result.answer, ids: [NINA] }]);
+  });
+
+  it('falls back to keywords when the classifier reply is not JSON', async () => {
+    const query = 'Show the official spots';
+    const result = await run(query, { system: CLASSIFIER, reply: 'Probably spots?', times: 1 });
+
+    const route = result.steps['determine-route'].output;
+    assert.equal(route.source, 'keywords');
+    assert.equal(route.route, 'spots');
+    assert.deepEqual(fetchSteps(result), ['fetch-spots-data']);
+    assert.equal(callsTo(harness, 'getSpots')[0].query['is-official'], 'true');
+    assert.equal(result.result.answer, 'Sales Playbook is the only official spot.');
+  });
+
+  it('asks for clarification instead of fetching when the classifier is unsure', async () => {
+    const result = await run('Who is in there?', {
+      system: CLASSIFIER,
+      reply: JSON.stringify({ route: 'users', confidence: 0.3, params: {}, clarification: 'Do you mean users or groups?' }),
+      times: 1,
+    });
+
+    assert.deepEqual(result.result, { answer: 'Do you mean users or groups?', clarificationNeeded: true });
+    assert.deepEqual(fetchSteps(result), []);
+    assert.equal(harness.nutella.calls.length, 0);
+    assert.equal(harness.ai.requests.length, 1);
+  });
+
+  it('passes audit event filters to the API', async () => {
+    const query = 'Show failed password logins for rita.rep@example.com';
+    const result = await run(
+      query,
+      routeTo('audit_events', { email: 'rita.rep@example.com', result: 'FAILED', action: 'user.authentication.password.failed' }),
+    );
+
+    const [getAuditEvents] = callsTo(harness, 'getAuditEvents');
+    assert.equal(getAuditEvents.query.email, 'rita.rep@example.com');
+    assert.equal(getAuditEvents.query.result, 'FAILED');
+    assert.equal(getAuditEvents.query.action, 'user.authentication.password.failed');
+
+    const answer = harness.ai.requests[1];
+    assert.equal(answer.messages[0].content, answerSystemPrompt('audit events', query));
+    assert.equal(promptData(answer.messages[1].content).total, 2);
+    assert.equal(result.result.answer, 'rita.rep@example.com failed to sign in twice from 198.51.100.7.');
+  });
+
+  it('maps audit questions to dotted actions and API results on the keyword path', async () => {
+    const result = await run('Show failed password logins for rita.rep@example.com', { system: CLASSIFIER, reply: 'Probably audit events?', times: 1 });
+
+    const route = result.steps['determine-route'].output;
+    assert.equal(route.source, 'keywords');
+    assert.equal(route.route, 'audit_events');
+    const [getAuditEvents] = callsTo(harness, 'getAuditEvents');
+    assert.equal(getAuditEvents.query.action, 'user.authentication.password');
+    assert.equal(getAuditEvents.query.result, 'FAILED');
+    assert.equal(promptData(harness.ai.requests[1].messages[1].content).total, 2);
+  });
+
+  it('answers counting questions from an exact query plan', async () => {
+    const query = 'How many users are suspended?';
+    const plan = { filters: [{ field: 'suspended', op: 'eq', value: true }], aggregate: 'count' };
+    const result = await run(query, routeTo('users'), { system: PLANNER, reply: JSON.stringify(plan), times: 1 });
+
+    const [, planRequest, answer] = harness.ai.requests;
+    assert.ok(planRequest.messages[0].content.startsWith(PLANNER));
+    assert.equal(planRequest.messages[1].content, query);
+
+    const computed = promptData(answer.messages[1].content);
+    assert.equal(computed.result.scanned, 5);
+    assert.equal(computed.result.matched, 1);
+    assert.equal(
+      answer.messages[0].content,
+      answerSystemPrompt('users', query, '\nThe data is the exact result of a query plan run over the users. Cite its numbers as they are; do not recount or estimate.'),
+    );
+    assert.deepEqual(result.result.reduction, { strategy: 'computed', notes: ['Computed exactly over 5 users (1 matched).'] });
+    assert.deepEqual(result.result.structured.counts, [{ label: 'suspended users', value: 1 }]);
+  });
+
+  it('asks the model to repair replies that are not valid structured answers', async () => {
+    const query = 'Show me the unverified users';
+    const result = await run(
+      query,
+      routeTo('users', { list: 'unverified' }),
+      { system: ANSWER, match: request => request.messages.length === 3, reply: 'Nina has not verified her email.', times: 1 },
+      { system: ANSWER, match: request => request.messages.length === 5, reply: structured('Nina has not verified her email.', [{ id: 'nina', email: 'nina.new@example.com' }]), times: 1 },
+      { system: ANSWER, match: request => request.messages.length === 7, reply: structured('Nina has not verified her email.', [{ id: NINA, email: 'nina.new@example.com' }]), times: 1 },
+    );
+
+    const [, first, second, third] = harness.ai.requests;
+    assert.equal(harness.ai.requests.length, 4);
+    assert.deepEqual(first.response_format, { type: 'json_object' });
+    assert.deepEqual(second.messages.slice(3, 4), [{ role: 'assistant', content: 'Nina has not verified her email.' }]);
+    assert.match(second.messages[4].content, /^Your reply could not be used:\n- The reply is not valid JSON/);
+    assert.equal(third.messages[6].content, 'Your reply could not be used:\n- These ids are not in the data: nina.\nReply again with the corrected JSON object only.');
+
+    assert.equal(result.result.answer, 'Nina has not verified her email.');
+    assert.equal(result.result.structured.table.rows[0].id, NINA);
+  });
+
+  it('falls back to the text when repairs do not help', async () => {
+    const result = await run('Show me the unverified users', routeTo('users', { list: 'unverified' }), { system: ANSWER, reply: 'Only Nina.', times: 3 });
+
+    assert.equal(harness.ai.requests.length, 4);
+    assert.equal(result.result.structured, undefined);
+    assert.equal(result.result.answer, 'Only Nina.\n\nNote: the answer could not be given in structured form.');
+    assert.match(result.result.structuredProblems[0], /^The reply is not valid JSON/);
+  });
+
+  it('falls back to the summary of a JSON reply that does not validate', async () => {
+    const reply = structured('Only Nina has not verified her email.', [{ id: 'nina', email: 'nina.new@example.com' }]);
+    const result = await run('Show me the unverified users', routeTo('users', { list: 'unverified' }), { system: ANSWER, reply, times: 3 });
+
+    assert.equal(result.result.structured, undefined);
+    assert.equal(result.result.answer, 'Only Nina has not verified her email.\n\nNote: the answer could not be given in structured form.');
+    assert.deepEqual(result.result.structuredProblems, ['These ids are not in the data: nina.']);
+  });
+
+  it('cites the search results the answer draws on', async () => {
+    const query = 'How should I handle pricing objections?';
+    const result = await run(query, routeTo('search', { searchQuery: 'pricing objection' }));
+
+    assert.equal(callsTo(harness, 'getSearchItems')[0].query['query-string'], 'pricing objection');
+    const answer = harness.ai.requests[1];
+    assert.ok(answer.messages[0].content.endsWith('If they do not answer the question, say so instead of guessing.'));
+    assert.deepEqual(
+      result.result.citations.map((c: any) => c.title),
+      ['Pricing objection handling'],
+    );
+    assert.ok(result.result.answer.startsWith('Acknowledge the concern, then anchor on value [1].\n\nSources:\n'));
+  });
+
+  it('explains API failures without asking the model for an answer', async () => {
+    const result = await run('List all spots', {
+      ...routeTo('spots'),
+      match: () => {
+        // `run` resets the mock first, so the fault goes in once the workflow is under way
+        harness.nutella.inject({ operation: 'getSpots', status: 503, times: Infinity });
+        return true;
+      },
+    });
+
+    assert.equal(result.result.error.code, 'upstream_unavailable');
+    assert.equal(result.result.error.operation, 'getSpots');
+    assert.match(result.result.answer, /^The Nutella API is currently unavailable/);
+    assert.equal(callsTo(harness, 'getSpots').length, 2);
+    assert.equal(harness.ai.requests.length, 1);
+  });
+
+  it('streams the answer as the model writes it', async () => {
+    harness.ai.requests.length = 0;
+    harness.nutella.reset();
+    harness.ai.script.unshift(routeTo('spots', { isOfficial: true }));
+    const { result, chunks } = await harness.stream({ query: 'Show the official spots' }).finally(() => harness.ai.script.shift());
+
+    const tokens = chunks.filter(chunk => chunk.type === 'workflow-step-output' && chunk.payload.output?.type === 'token').map(chunk => chunk.payload.output.text);
+    assert.deepEqual(tokens, ['Sales ', 'Playbook ', 'is ', 'the ', 'only ', 'official ', 'spot.']);
+    assert.equal(result.result.answer, 'Sales Playbook is the only official spot.');
+    assert.equal(harness.ai.requests[1].stream, true);
+  });
+
+  it('refines the previous answer of the thread on a follow-up', async () => {
+    const threadId = 'follow-up';
+    const first = { filters: [{ field: 'email', op: 'contains', value: 'example.com' }], aggregate: 'list', select: ['email'] };
+    await run(
+      { query: 'Which users have an example.com email?', threadId },
+      routeTo('users'),
+      { system: PLANNER, reply: JSON.stringify(first), times: 1 },
+      { system: ANSWER, user: 'example.com', reply: structured('Four users have an example.com email.'), times: 1 },
+    );
+
+    const query = 'Now only the suspended ones';
+    const second = { filters: [...first.filters, { field: 'suspended', op: 'eq', value: true }], aggregate: 'list', select: ['email'] };
+    const result = await run(
+      { query, threadId },
+      { system: CLASSIFIER, reply: JSON.stringify({ route: 'users', confidence: 0.9, params: {}, followUp: true }), times: 1 },
+      { system: PLANNER, reply: JSON.stringify(second), times: 1 },
+    );
+
+    const [classify, planRequest, answer] = harness.ai.requests;
+    assert.match(classify.messages[0].content, /set "followUp": true/);
+    assert.deepEqual(
+      classify.messages.slice(1).map(m => m.role),
+      ['user', 'assistant', 'user'],
+    );
+    assert.equal(classify.messages[1].content, 'Which users have an example.com email?');
+    assert.equal(JSON.parse(classify.messages[2].content).route, 'users');
+
+    const route = result.steps['determine-route'].output;
+    assert.equal(route.followUp.query, 'Which users have an example.com email?');
+    assert.deepEqual(route.followUp.plan, first);
+    assert.equal(route.followUp.entityIds.length, 4);
+
+    assert.deepEqual(planRequest.messages.slice(1), [
+      { role: 'user', content: 'Which users have an example.com email?' },
+      { role: 'assistant', content: JSON.stringify(route.followUp.plan) },
+      { role: 'user', content: query },
+    ]);
+    // Only the four users of the previous answer are looked at
+    const computed = promptData(answer.messages[1].content);
+    assert.equal(computed.result.scanned, 4);
+    assert.deepEqual(computed.result.rows, [{ email: 'olga.offboarded@example.com' }]);
+  });
+
+  it('keeps the previous filters on a keyword follow-up', async () => {
+    const threadId = 'keyword-follow-up';
+    await run({ query: 'Show me the unverified users', threadId }, routeTo('users', { list: 'unverified' }));
+    const result = await run(
+      { query: 'and which of them are suspended?', threadId },
+      { system: CLASSIFIER, reply: 'Probably users?', times: 1 },
+      { system: PLANNER, reply: JSON.stringify({ filters: [{ field: 'suspended', op: 'eq', value: true }], aggregate: 'count' }), times: 1 },
+    );
+
+    const route = result.steps['determine-route'].output;
+    assert.equal(route.source, 'keywords');
+    assert.equal(route.followUp.query, 'Show me the unverified users');
+    assert.equal(route.params.list, 'unverified');
+    assert.equal(callsTo(harness, 'getUsers')[0].query.list, 'unverified');
+    assert.equal(promptData(harness.ai.requests[2].messages[1].content).result.scanned, 1);
+  });
+
+  it('explains AI failures', async () => {
+    const query = 'List all groups';
+    const result = await run(query, routeTo('groups'), {
+      system: ANSWER,
+      user: query,
+      reply: { status: 429, body: 'Too many requests', headers: { 'Retry-After': '2' } },
+    });
+
+    assert.equal(result.result.error.code, 'rate_limited');
+    assert.equal(result.result.error.service, 'ai');
+    assert.equal(result.result.answer, 'The AI service is rate limiting requests; retry in 2s.');
+  });
+});
+
+describe('AI record and replay', () => {
+  it('replays a recorded conversation without the upstream proxy', async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), 'admin-agent-cassette-'));
+    const cassette = path.join(dir, 'unverified-users.json');
+    const query = 'Show me the unverified users';
+    // Stands in for the real proxy a recording would be made against
+    const upstream = await startFakeAiProxy({
+      script: [routeTo('users', { list: 'unverified' }), { system: ANSWER, reply: structured('Only nina.new@example.com is unverified.', [{ id: NINA, email: 'nina.new@example.com' }]) }],
+    });
+    try {
+      const recording = await startHarness({ cassette, record: { upstreamUrl: upstream.url } });
+      const recorded = await recording.run({ query });
+      await recording.close();
+      assert.equal(upstream.requests.length, 2);
+      assert.equal(JSON.parse(await readFile(cassette, 'utf8')).length, 2);
+
+      const replaying = await startHarness({ cassette });
+      const replayed = await replaying.run({ query });
+      await replaying.close();
+      assert.equal(upstream.requests.length, 2);
+      assert.equal(replayed.result.answer, recorded.result.answer);
+      assert.equal(replayed.result.answer, 'Only nina.new@example.com is unverified.');
+    } finally {
+      await upstream.close();
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,114 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { completion, FakeAiProxy, startFakeAiProxy } from '../src/mock';
+import { AIClient } from '../src/mastra/tools/api/aiClient';
+import { aiModelConfigFromEnv, azureProxyProvider, localProvider, openAICompatibleProvider } from '../src/mastra/tools/api/aiProviders';
+
+const lookupTool = {
+  name: 'lookup_user',
+  description: 'Find a user by email',
+  parameters: { type: 'object', properties: { email: { type: 'string' } }, required: ['email'] },
+};
+const lookupCall = { id: 'call_1', name: 'lookup_user', arguments: '{"email":"rita.rep@example.com"}' };
+
+describe('AIClient', () => {
+  let ai: FakeAiProxy;
+  let baseUrl: string;
+
+  before(async () => {
+    ai = await startFakeAiProxy({
+      script: [
+        { match: request => Boolean(request.tools) && request.messages.at(-1)?.role !== 'tool', reply: { body: completion(null, [lookupCall]) } },
+        { match: request => request.messages.at(-1)?.role === 'tool', reply: 'Rita is a sales rep.' },
+        { match: request => request.response_format?.type === 'json_object', reply: '```json\n{"route":"users"}\n```' },
+        { reply: 'Hello there.' },
+      ],
+    });
+    baseUrl = `${new URL(ai.url).origin}/v1`;
+  });
+
+  after(async () => {
+    await ai.close();
+  });
+
+  it('authenticates to the Azure proxy with a token header', async () => {
+    ai.requests.length = 0;
+    const client = new AIClient(azureProxyProvider({ url: ai.url, token: 'proxy-token', model: 'gpt-test' }));
+    const resp = await client.createChatCompletion([{ role: 'user', content: 'Hi' }]);
+
+    assert.equal(resp.assistant, 'Hello there.');
+    const [request] = ai.requests;
+    assert.equal(request.token, 'proxy-token');
+    assert.equal(request.authorization, undefined);
+    assert.equal(request.model, 'gpt-test');
+    assert.match(request.url, /^\/openai\/deployments\/fake\/chat\/completions\?api-version=/);
+  });
+
+  it('authenticates to OpenAI-compatible servers with a Bearer key', async () => {
+    ai.requests.length = 0;
+    await new AIClient(openAICompatibleProvider({ baseUrl: `${baseUrl}/`, apiKey: 'sk-test', model: 'gpt-4o' })).createChatCompletion([{ role: 'user', content: 'Hi' }]);
+    await new AIClient(localProvider({ baseUrl, model: 'llama3.1' })).createChatCompletion([{ role: 'user', content: 'Hi' }]);
+
+    const [openai, local] = ai.requests;
+    assert.equal(openai.url, '/v1/chat/completions');
+    assert.equal(openai.authorization, 'Bearer sk-test');
+    assert.equal(openai.token, undefined);
+    assert.equal(local.model, 'llama3.1');
+    assert.equal(local.authorization, undefined);
+  });
+
+  it('reads the shared model configuration from the environment', () => {
+    assert.deepEqual(aiModelConfigFromEnv({ AI_PROXY_URL: 'http://proxy', AI_PROXY_TOKEN: 't', OPENAI_MODEL: 'm' }), {
+      provider: 'azure-proxy',
+      model: 'm',
+      url: 'http://proxy',
+      apiKey: 't',
+    });
+    assert.deepEqual(aiModelConfigFromEnv({ AI_PROVIDER: 'openai', OPENAI_API_KEY: 'sk' }), { provider: 'openai', model: 'gpt-4o', url: undefined, apiKey: 'sk' });
+    assert.throws(() => aiModelConfigFromEnv({ AI_PROVIDER: 'bedrock' }), /AI_PROVIDER must be/);
+  });
+
+  for (const stream of [false, true]) {
+    it(`returns tool calls and sends their results back${stream ? ' when streaming' : ''}`, async () => {
+      ai.requests.length = 0;
+      const client = new AIClient(openAICompatibleProvider({ baseUrl, apiKey: 'sk-test' }));
+      const messages = [{ role: 'user', content: 'Who is rita.rep@example.com?' }];
+      const first = await client.createChatCompletion(messages, { tools: [lookupTool], toolChoice: 'auto', stream });
+
+      assert.equal(first.assistant, undefined);
+      assert.deepEqual(first.toolCalls, [lookupCall]);
+      assert.equal(first.raw.choices[0].finish_reason, 'tool_calls');
+
+      const second = await client.createChatCompletion(
+        [...messages, { role: 'assistant', content: '', toolCalls: first.toolCalls }, { role: 'tool', toolCallId: 'call_1', content: '{"title":"Sales rep"}' }],
+        { tools: [lookupTool], stream },
+      );
+      assert.equal(second.assistant, 'Rita is a sales rep.');
+
+      const [call, result] = ai.requests as any[];
+      assert.deepEqual(call.tools, [{ type: 'function', function: lookupTool }]);
+      assert.equal(call.stream, stream);
+      assert.deepEqual(result.messages.slice(1), [
+        { role: 'assistant', content: null, tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'lookup_user', arguments: lookupCall.arguments } }] },
+        { role: 'tool', content: '{"title":"Sales rep"}', tool_call_id: 'call_1' },
+      ]);
+    });
+  }
+
+  it('asks for JSON in JSON mode and parses the answer', async () => {
+    ai.requests.length = 0;
+    const resp = await new AIClient(azureProxyProvider({ url: ai.url })).createChatCompletion([{ role: 'user', content: 'Route this' }], { json: true });
+
+    assert.deepEqual(ai.requests[0].response_format, { type: 'json_object' });
+    assert.deepEqual(resp.json, { route: 'users' });
+  });
+
+  it('hands each streamed piece to onToken', async () => {
+    const tokens: string[] = [];
+    const resp = await new AIClient(azureProxyProvider({ url: ai.url })).createChatCompletion([{ role: 'user', content: 'Hi' }], { onToken: text => void tokens.push(text) });
+
+    assert.deepEqual(tokens, ['Hello ', 'there.']);
+    assert.equal(resp.assistant, 'Hello there.');
+    assert.equal(resp.raw.choices[0].message.content, 'Hello there.');
+  });
+});
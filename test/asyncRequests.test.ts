@@ -0,0 +1,33 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MockServer, startMockServer } from '../src/mock';
+import { NutellaClient } from '../src/mastra/tools/api/nutellaClient';
+import { RequestTracker } from '../src/mastra/tools/api/asyncRequests';
+
+describe('tracked asynchronous requests', () => {
+  let nutella: MockServer;
+
+  before(async () => {
+    nutella = await startMockServer({ credentials: ['owner-token'], asyncPolls: 0 });
+  });
+
+  after(async () => {
+    await nutella.close();
+  });
+
+  const clientFor = (token: string, requests: RequestTracker) => new NutellaClient(nutella.url, token, {}, { requests, cache: null, rateLimit: null, retry: { maxRetries: 0 } });
+
+  it("never hands one credential another credential's stored result", async () => {
+    const requests = new RequestTracker(null);
+    const owner = clientFor('owner-token', requests);
+    const { id } = nutella.state.startRequest('postUsers', { created: ['rita.rep@example.com'] });
+    await owner.trackRequest(id, 'postUsers');
+    assert.deepEqual((await owner.checkRequest(id)).result, { created: ['rita.rep@example.com'] });
+
+    // The API refuses the other credential, and so does the tracker
+    await assert.rejects(clientFor('other-token', requests).checkRequest(id), { code: 'auth' });
+    const stored = await requests.get(nutella.url, id);
+    assert.equal(stored?.owner, owner.owner);
+    assert.deepEqual(stored?.result, { created: ['rita.rep@example.com'] });
+  });
+});
@@ -0,0 +1,30 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { AuditTrail } from '../src/mastra/tools/api/auditTrail';
+
+const record = (action: string) => ({ actor: 'ada.admin@example.com', owner: 'owner-a', workflow: 'privacy-requests-workflow', action, details: {} });
+
+describe('AuditTrail', () => {
+  it('reports a failed append to its caller only', async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), 'audit-'));
+    try {
+      // A file where the directory should be makes the first append fail
+      const blocker = path.join(dir, 'logs');
+      await writeFile(blocker, '');
+      const trail = new AuditTrail(path.join(blocker, 'audit.ndjson'));
+      await assert.rejects(trail.append(record('submitted')));
+
+      await rm(blocker);
+      await trail.append(record('cancelled'));
+      assert.deepEqual(
+        (await trail.list()).map(r => r.action),
+        ['cancelled'],
+      );
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, readdir, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { ConversationMemory, describeThread, lastAnsweredTurn, MAX_ENTITY_IDS } from '../src/mastra/tools/api/conversationMemory';
+
+const turn = (query: string, route = 'users') => ({ query, route, params: { list: 'unverified' }, answer: `Answer to ${query}` });
+
+describe('ConversationMemory', () => {
+  it('keeps threads in files that a new instance reads back', async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), 'conversations-'));
+    try {
+      const memory = new ConversationMemory(dir);
+      await memory.append('thread-1', 'owner-a', { ...turn('Show me the unverified users'), entityIds: ['u1', 'u2'] });
+      await memory.append('thread-1', 'owner-a', turn('Who is in there?', 'clarify'));
+
+      assert.equal((await readdir(dir)).length, 1);
+      const thread = await new ConversationMemory(dir).get('thread-1', 'owner-a');
+      assert.deepEqual(
+        thread?.turns.map(t => t.query),
+        ['Show me the unverified users', 'Who is in there?'],
+      );
+      assert.deepEqual(lastAnsweredTurn(thread?.turns)?.entityIds, ['u1', 'u2']);
+      assert.match(describeThread(thread!), /^Q: Show me the unverified users\nRoute: users\nFilters: \{"list":"unverified"\}\nRecords \(2\): u1, u2\n/);
+
+      await memory.clear('thread-1', 'owner-a');
+      assert.equal(await new ConversationMemory(dir).get('thread-1', 'owner-a'), undefined);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('keeps threads of other credentials apart', async () => {
+    const memory = new ConversationMemory(null);
+    await memory.append('shared-id', 'owner-a', turn('Show me the unverified users'));
+
+    assert.equal(await memory.get('shared-id', 'owner-b'), undefined);
+    assert.equal((await memory.get('shared-id', 'owner-a'))?.turns.length, 1);
+  });
+
+  it('keeps the last turns and drops entity sets too large to remember', async () => {
+    const memory = new ConversationMemory(null);
+    for (let i = 0; i < 25; i++) await memory.append('long', 'owner-a', turn(`Question ${i}`));
+    const thread = await memory.append('long', 'owner-a', { ...turn('Everyone'), entityIds: Array.from({ length: MAX_ENTITY_IDS + 1 }, (_, i) => `u${i}`) });
+
+    assert.equal(thread.turns.length, 20);
+    assert.equal(thread.turns[0].query, 'Question 6');
+    assert.equal(thread.turns.at(-1)?.entityIds, undefined);
+  });
+
+  it('keeps only the most recently used threads in memory', async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), 'conversations-'));
+    try {
+      const onDisk = new ConversationMemory(dir, { maxThreads: 2 });
+      const inMemory = new ConversationMemory(null, { maxThreads: 2 });
+      for (const memory of [onDisk, inMemory]) {
+        for (const id of ['a', 'b', 'c']) await memory.append(id, 'owner-a', turn(`Question in ${id}`));
+      }
+
+      // Forgotten in memory, but read back from its file
+      assert.equal(await inMemory.get('a', 'owner-a'), undefined);
+      assert.equal((await onDisk.get('a', 'owner-a'))?.turns[0].query, 'Question in a');
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('writes the thread again once a failed write is behind it', async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), 'conversations-'));
+    try {
+      // A file where the directory should be makes the first write fail
+      const blocker = path.join(dir, 'threads');
+      await writeFile(blocker, '');
+      const memory = new ConversationMemory(blocker);
+      await memory.append('thread-1', 'owner-a', turn('Show me the unverified users'));
+
+      await rm(blocker);
+      await memory.append('thread-1', 'owner-a', turn('Only the new ones'));
+      const thread = await new ConversationMemory(blocker).get('thread-1', 'owner-a');
+      assert.deepEqual(
+        thread?.turns.map(t => t.query),
+        ['Show me the unverified users', 'Only the new ones'],
+      );
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,75 @@
+// Runs adminWorkflow end to end against the mock Highspot API and a fake AI proxy, so nothing leaves
+// the machine. Set AI_RECORD_UPSTREAM_URL (and AI_RECORD_TOKEN) to record what a real proxy answers
+// into a harness's cassette instead of failing on unscripted prompts.
+import { startFakeAiProxy, startMockServer, FakeAiProxy, MockSeed, MockServer, ScriptedReply } from '../src/mock';
+
+export const TEST_TOKEN = 'test-token';
+
+// Read when the modules first use them, so this has to run before `src/mastra` is imported
+Object.assign(process.env, {
+  NUTELLA_CACHE_BACKEND: 'none',
+  NUTELLA_REQUESTS_FILE: 'none',
+  NUTELLA_RATE_LIMIT_PER_SEC: '0',
+  NUTELLA_MAX_RETRIES: '1',
+  NUTELLA_RETRY_BASE_MS: '1',
+  AUDIT_TRAIL_FILE: 'none',
+  CONVERSATION_MEMORY_DIR: 'none',
+  LOG_LEVEL: process.env.LOG_LEVEL ?? 'silent',
+  INTENT_CLASSIFIER: 'llm',
+  OPENAI_MODEL: 'gpt-test',
+});
+
+export type Harness = {
+  nutella: MockServer;
+  ai: FakeAiProxy;
+  /** Run adminWorkflow to completion; `result.steps` has every step's output. */
+  run(input: { query: string; [key: string]: unknown }): Promise<any>;
+  /** Stream adminWorkflow with `stream: true`; `chunks` are the run's stream chunks in order. */
+  stream(input: { query: string; [key: string]: unknown }): Promise<{ result: any; chunks: any[] }>;
+  close(): Promise<void>;
+};
+
+export async function startHarness(options: { script?: ScriptedReply[]; cassette?: string; seed?: MockSeed; record?: { upstreamUrl: string; token?: string } } = {}): Promise<Harness> {
+  const upstreamUrl = process.env.AI_RECORD_UPSTREAM_URL;
+  const record = options.record ?? (upstreamUrl && options.cassette ? { upstreamUrl, token: process.env.AI_RECORD_TOKEN } : undefined);
+  const nutella = await startMockServer({ seed: options.seed });
+  const ai = await startFakeAiProxy({ script: options.script, cassette: options.cassette, record });
+  process.env.NUTELLA_API_HOST = nutella.url;
+  process.env.AI_PROXY_URL = ai.url;
+  process.env.AI_PROXY_TOKEN = TEST_TOKEN;
+
+  const { mastra } = await import('../src/mastra');
+  return {
+    nutella,
+    ai,
+    run: async input => {
+      const run = await mastra.getWorkflow('adminWorkflow').createRunAsync();
+      return run.start({ inputData: { authToken: TEST_TOKEN, ...input } });
+    },
+    stream: async input => {
+      const run = await mastra.getWorkflow('adminWorkflow').createRunAsync();
+      const stream = run.streamVNext({ inputData: { authToken: TEST_TOKEN, stream: true, ...input } });
+      const chunks: any[] = [];
+      for await (const chunk of stream) chunks.push(chunk);
+      return { result: await stream.result, chunks };
+    },
+    close: async () => {
+      await Promise.all([nutella.close(), ai.close()]);
+    },
+  };
+}
+
+/** Matches the intent classifier's prompt. */
+export const CLASSIFIER = 'You route questions from Highspot administrators';
+/** Matches the user query planner's prompt. */
+export const PLANNER = "Translate the administrator's question about users into a query plan";
+
+/** A scripted classifier reply. */
+export function routeTo(route: string, params: Record<string, unknown> = {}, confidence = 0.9): ScriptedReply {
+  return { system: CLASSIFIER, reply: JSON.stringify({ route, confidence, params }), times: 1 };
+}
+
+/** The data message of an answer prompt, parsed. */
+export function promptData(content: string): any {
+  return JSON.parse(content.slice(content.indexOf('\n') + 1));
+}
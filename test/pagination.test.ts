@@ -0,0 +1,51 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { collectAll } from '../src/mastra/tools/api/pagination';
+
+/** A list endpoint over `total` numbered items that answers offset or cursor pages. */
+function listOf(total: number, options: { countsTotal?: boolean } = {}) {
+  const calls: any[] = [];
+  const call = async (_id: string, params: any) => {
+    calls.push(params);
+    const start = params.cursor ? Number(params.cursor) : Number(params.start ?? 0);
+    const collection = Array.from({ length: Math.max(0, Math.min(params.limit, total - start)) }, (_, i) => ({ id: `item-${start + i}` }));
+    const next = start + collection.length;
+    return {
+      collection,
+      events: collection,
+      ...(options.countsTotal ? { counts_total: total } : {}),
+      next_cursor: next < total ? String(next) : undefined,
+    };
+  };
+  return { call: call as any, calls };
+}
+
+describe('collectAll', () => {
+  it('is not truncated when the total is exactly max', async () => {
+    const { call } = listOf(10, { countsTotal: true });
+    const { items, truncated } = await collectAll(call, 'getSearchItems', { 'query-string': 'pricing' }, { max: 10 });
+    assert.equal(items.length, 10);
+    assert.equal(truncated, false);
+  });
+
+  it('is truncated when upstream reports more than max', async () => {
+    const { call } = listOf(11, { countsTotal: true });
+    const { items, truncated } = await collectAll(call, 'getSearchItems', { 'query-string': 'pricing' }, { max: 10 });
+    assert.equal(items.length, 10);
+    assert.equal(truncated, true);
+  });
+
+  it('asks for one more item when upstream gives no total', async () => {
+    const exact = listOf(10);
+    assert.equal((await collectAll(exact.call, 'getUsers', {}, { max: 10 })).truncated, false);
+    assert.deepEqual(exact.calls.at(-1), { start: 10, limit: 1 });
+
+    const longer = listOf(12);
+    assert.equal((await collectAll(longer.call, 'getUsers', {}, { max: 10 })).truncated, true);
+  });
+
+  it('follows next_cursor for cursor pages', async () => {
+    assert.equal((await collectAll(listOf(10).call, 'getAuditEvents', {}, { max: 10 })).truncated, false);
+    assert.equal((await collectAll(listOf(15).call, 'getAuditEvents', {}, { max: 10, pageSize: 5 })).truncated, true);
+  });
+});
@@ -0,0 +1,124 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { MockServer, startMockServer } from '../src/mock';
+import { NutellaClient } from '../src/mastra/tools/api/nutellaClient';
+import { formatCsv, parseCsv, parseCsvRecords } from '../src/mastra/tools/api/util/csv';
+import { applyUserImport, planImportRows, planUserImport } from '../src/mastra/workflows/userImport';
+
+describe('CSV', () => {
+  it('keeps commas, quotes and line breaks inside quoted cells', () => {
+    const text = '\uFEFFemail,title\r\n"a@example.com","Lead, ""EMEA""\nand NA"\r\nb@example.com,\r\n';
+
+    assert.deepEqual(parseCsv(text), [
+      ['email', 'title'],
+      ['a@example.com', 'Lead, "EMEA"\nand NA'],
+      ['b@example.com', ''],
+    ]);
+  });
+
+  it('numbers records by their spreadsheet row and drops blank rows', () => {
+    const records = parseCsvRecords(' email ,region\na@example.com,EMEA\n,\nb@example.com\n');
+
+    assert.deepEqual(records, [
+      { line: 2, values: { email: 'a@example.com', region: 'EMEA' } },
+      { line: 4, values: { email: 'b@example.com', region: '' } },
+    ]);
+  });
+
+  it('escapes cells a spreadsheet would run as formulas', () => {
+    const text = formatCsv([['=HYPERLINK("x")', '-1', -1, '@home', 'a,b', ' padded']]);
+
+    assert.equal(text, `"'=HYPERLINK(""x"")",'-1,-1,'@home,"a,b"," padded"\r\n`);
+    assert.deepEqual(parseCsv(text)[0], [`'=HYPERLINK("x")`, "'-1", '-1', "'@home", 'a,b', ' padded']);
+  });
+});
+
+describe('planImportRows', () => {
+  const users = [
+    { id: 'u1', email: 'Rita.Rep@Example.com', kind: 'employee', properties: { region: 'NA', title: 'AE' } },
+    { id: 'u2', email: 'sam.seller@example.com', kind: 'employee', properties: { region: 'NA' } },
+  ];
+  const rows = [
+    { row: 2, user: { email: 'rita.rep@example.com', properties: { region: 'EMEA' } } },
+    { row: 3, user: { email: 'sam.seller@example.com', kind: 'employee' as const, properties: { region: 'NA' } } },
+    { row: 4, user: { email: 'new.hire@example.com', kind: 'partner' as const } },
+    { row: 5, errors: ['email: a valid email is required'] },
+  ];
+
+  it('plans creates, updates, no-ops and invalid rows against the current users', () => {
+    const planned = planImportRows(rows, users);
+
+    assert.deepEqual(
+      planned.map(p => [p.row, p.change, p.userId]),
+      [
+        [2, 'update', 'u1'],
+        [3, 'noop', 'u2'],
+        [4, 'create', undefined],
+        [5, 'invalid', undefined],
+      ],
+    );
+    assert.deepEqual(planned[0].before, { 'properties.region': 'NA' });
+    assert.deepEqual(planned[0].after, { 'properties.region': 'EMEA' });
+    // Properties the file does not mention are kept
+    assert.deepEqual(planned[0].properties, { region: 'EMEA', title: 'AE' });
+    assert.deepEqual(planned[3].errors, ['email: a valid email is required']);
+  });
+
+  it('removes properties missing from the file when it replaces them', () => {
+    const [rita] = planImportRows(rows.slice(0, 1), users, { replaceProperties: true });
+
+    assert.deepEqual(rita.after, { 'properties.region': 'EMEA', 'properties.title': null });
+    assert.deepEqual(rita.properties, { region: 'EMEA' });
+  });
+});
+
+describe('applyUserImport', () => {
+  let nutella: MockServer;
+  let client: NutellaClient;
+  let dir: string;
+
+  before(async () => {
+    process.env.NUTELLA_TOOL_ALLOW_WRITES = 'postUsers,putUsersByUserProperties';
+    nutella = await startMockServer();
+    client = new NutellaClient(nutella.url, 'test-token', {}, { requests: null, cache: null, rateLimit: null, retry: { maxRetries: 0 } });
+    dir = await mkdtemp(path.join(tmpdir(), 'import-'));
+  });
+
+  after(async () => {
+    await nutella.close();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('creates and updates users and reports each row', async () => {
+    const filePath = path.join(dir, 'users.csv');
+    await writeFile(
+      filePath,
+      ['email,kind,region', 'Rita.Rep@example.com,,EMEA', 'sam.seller@example.com,,NA', 'new.hire@example.com,employee,"EMEA, North"', 'not-an-email,,NA', 'ada.admin@example.com,,APAC'].join('\n'),
+    );
+    const request = { filePath };
+    const plan = await planUserImport(client, request);
+    assert.equal(plan.summary, '2 update, 1 noop, 1 create, 1 invalid');
+
+    // Rita's properties are written first; that call fails
+    nutella.inject({ operation: 'putUsersByUserProperties', status: 400 });
+    const results = await applyUserImport(client, request, plan);
+
+    assert.deepEqual(
+      results.map(r => [r.row, r.change, r.status]),
+      [
+        [2, 'update', 'failed'],
+        [3, 'noop', 'skipped'],
+        [4, 'create', 'ok'],
+        [5, 'invalid', 'skipped'],
+        [6, 'update', 'ok'],
+      ],
+    );
+    assert.equal(results[0].error?.operation, 'putUsersByUserProperties');
+    assert.deepEqual(nutella.state.findUser('rita.rep@example.com')?.properties, { region: 'NA' });
+    assert.deepEqual(nutella.state.findUser('new.hire@example.com')?.properties, { region: 'EMEA, North' });
+    assert.deepEqual(nutella.state.findUser('ada.admin@example.com')?.properties, { region: 'APAC', title: 'Enablement Lead' });
+  });
+});
@@ -0,0 +1,59 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MockServer, startMockServer } from '../src/mock';
+import { NutellaClient } from '../src/mastra/tools/api/nutellaClient';
+import { planUserChanges } from '../src/mastra/workflows/userLifecycle';
+
+describe('planUserChanges', () => {
+  let nutella: MockServer;
+  let client: NutellaClient;
+
+  before(async () => {
+    process.env.NUTELLA_TOOL_ALLOW_WRITES = 'postUsers,patchUsersByUser';
+    nutella = await startMockServer();
+    client = new NutellaClient(nutella.url, 'test-token', {}, { requests: null, cache: null, rateLimit: null });
+  });
+
+  after(async () => {
+    await nutella.close();
+  });
+
+  it('matches upserted users by their trimmed email', async () => {
+    const plan = await planUserChanges(client, {
+      action: 'upsert',
+      emails: [],
+      users: [
+        { email: ' Rita.Rep@example.com ', name: 'Rita' },
+        { email: 'new.hire@example.com ', name: 'Nia' },
+      ],
+    });
+
+    assert.equal(plan.error, undefined);
+    assert.deepEqual(
+      plan.changes.map(c => [c.email, c.change]),
+      [
+        ['rita.rep@example.com', 'update'],
+        ['new.hire@example.com', 'create'],
+      ],
+    );
+    assert.deepEqual(plan.changes[1].after, { email: 'new.hire@example.com', name: 'Nia' });
+  });
+
+  it('finds a user whose email is part of another user\'s', async () => {
+    nutella.state.users.set('64a0000000000000000000a1', { id: '64a0000000000000000000a1', email: 'a.rep@example.com', kind: 'employee', verified: true, properties: {} });
+    // An API whose email filter also returns partial matches, with rita.rep@example.com first
+    const containsFilter = Object.assign(Object.create(client), {
+      getUsers: async ({ email, ...options }: any) => {
+        const page = await client.getUsers(options);
+        return { ...page, collection: page.collection.filter(u => u.email?.includes(email)).slice(0, options.max) };
+      },
+    }) as NutellaClient;
+
+    const plan = await planUserChanges(containsFilter, { action: 'update', emails: ['a.rep@example.com'], changes: { name: 'Avery' } });
+
+    assert.deepEqual(
+      plan.changes.map(c => [c.email, c.userId, c.change]),
+      [['a.rep@example.com', '64a0000000000000000000a1', 'update']],
+    );
+  });
+});